@@ -0,0 +1,12 @@
+import { toVercelHandler } from '../http';
+import { adminBoardsRoute } from '../routes/adminBoards';
+
+/**
+ * Vercel serverless function for board retention (admin token required).
+ *
+ * - GET /api/admin/boards: Lists the expired boards the cleanup would delete
+ * - POST /api/admin/boards: Runs the cleanup, or pins or unpins a board
+ *
+ * See `api/routes/adminBoards.ts` for the handler.
+ */
+export default toVercelHandler(adminBoardsRoute);
@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../http';
+import { adminDiagnosticsRoute } from '../routes/adminDiagnostics';
+
+/**
+ * Vercel serverless function for GET /api/admin/diagnostics (admin token required).
+ *
+ * See `api/routes/adminDiagnostics.ts` for the handler.
+ */
+export default toVercelHandler(adminDiagnosticsRoute);
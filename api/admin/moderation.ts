@@ -0,0 +1,12 @@
+import { toVercelHandler } from '../http';
+import { adminModerationRoute } from '../routes/adminModeration';
+
+/**
+ * Vercel serverless function for leaderboard moderation (admin token required).
+ *
+ * - GET /api/admin/moderation: Lists audit records or flagged entries
+ * - POST /api/admin/moderation: Hides, unhides, flags, unflags or annotates an entry
+ *
+ * See `api/routes/adminModeration.ts` for the handler.
+ */
+export default toVercelHandler(adminModerationRoute);
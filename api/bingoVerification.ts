@@ -0,0 +1,80 @@
+import { normalizeTitle } from '../shared/normalizeTitle';
+import { detectWinningCells, type GridIndex } from '../shared/winDetection';
+import { resolveWikipediaRedirects, type TitleResolver } from './wikipedia';
+
+const FOUND_PREFIX = '[Found] ';
+
+/**
+ * Re-derives the win for a leaderboard submission from its board and history.
+ *
+ * Checks that:
+ * - `history[0]` is the starting article (board index 25)
+ * - every `[Found]` history entry matches a cell on the board
+ * - the found cells complete at least one row, column or diagonal
+ *
+ * `[Found]` entries are matched by normalized title first. Entries that do not match
+ * directly (the client tags matches reached through redirects) are resolved together
+ * with the board titles using `resolveTitles`, which is only called when needed.
+ *
+ * @param board - 26 titles: 25 grid squares + starting article
+ * @param history - Submitted history with `[Found] ` tags
+ * @param resolveTitles - Redirect resolver (defaults to the Wikipedia API)
+ * @returns Winning cell indices, or an error message if the game is not a valid bingo
+ */
+export async function verifyBingo(
+  board: string[],
+  history: string[],
+  resolveTitles: TitleResolver = resolveWikipediaRedirects
+): Promise<{ winningCells: GridIndex[]; error?: string }> {
+  if (board.length < 26) {
+    return { winningCells: [], error: 'Board must contain 25 squares and a starting article' };
+  }
+
+  const gridTitles = board.slice(0, 25);
+  const startingTitle = board[25];
+  const stripFound = (title: string) => (title.startsWith(FOUND_PREFIX) ? title.slice(FOUND_PREFIX.length) : title);
+
+  if (history.length === 0 || normalizeTitle(stripFound(history[0])) !== normalizeTitle(startingTitle)) {
+    return { winningCells: [], error: 'History must begin with the starting article' };
+  }
+
+  const gridIndexByTitle = new Map(gridTitles.map((title, index) => [normalizeTitle(title), index]));
+  const foundTitles = history.filter((title) => title.startsWith(FOUND_PREFIX)).map(stripFound);
+  const matchedIndices = new Set<GridIndex>();
+  const unmatched: string[] = [];
+
+  for (const title of foundTitles) {
+    const index = gridIndexByTitle.get(normalizeTitle(title));
+    if (index === undefined) {
+      unmatched.push(title);
+    } else {
+      matchedIndices.add(index);
+    }
+  }
+
+  if (unmatched.length > 0) {
+    const resolved = await resolveTitles([...gridTitles, ...unmatched]);
+    const canonical = (title: string) => resolved.get(normalizeTitle(title)) ?? normalizeTitle(title);
+    const canonicalGrid = gridTitles.map(canonical);
+
+    for (const title of unmatched) {
+      const candidates = new Set([normalizeTitle(title), canonical(title)]);
+      const index = gridTitles.findIndex(
+        (gridTitle, i) => candidates.has(normalizeTitle(gridTitle)) || candidates.has(canonicalGrid[i])
+      );
+      if (index === -1) {
+        return { winningCells: [], error: `Found article "${title}" is not on the board` };
+      }
+      matchedIndices.add(index);
+    }
+  }
+
+  const matchedTitles = new Set(Array.from(matchedIndices).map((index) => normalizeTitle(gridTitles[index])));
+  const winningCells = detectWinningCells(gridTitles, matchedTitles);
+
+  if (winningCells.length === 0) {
+    return { winningCells, error: 'Found articles do not complete a row, column or diagonal' };
+  }
+
+  return { winningCells };
+}
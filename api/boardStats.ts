@@ -0,0 +1,46 @@
+/**
+ * Aggregate statistics for a single board's leaderboard.
+ */
+export interface BoardStats {
+  /**
+   * Number of leaderboard entries for the board.
+   */
+  finishers: number;
+  /**
+   * Best (lowest) score, or null if nobody has finished the board.
+   */
+  bestScore: number | null;
+  /**
+   * Median number of clicks, or null if nobody has finished the board.
+   * For an even number of finishers this is the mean of the two middle values.
+   */
+  medianClicks: number | null;
+}
+
+/**
+ * Calculates board statistics from the leaderboard entries of one board.
+ *
+ * @param entries - Score and clicks of every entry for the board
+ * @returns Board statistics
+ *
+ * @example
+ * ```typescript
+ * calculateBoardStats([{ score: 900, clicks: 12 }, { score: 700, clicks: 8 }]);
+ * // { finishers: 2, bestScore: 700, medianClicks: 10 }
+ * ```
+ */
+export function calculateBoardStats(entries: ReadonlyArray<{ score: number; clicks: number }>): BoardStats {
+  if (entries.length === 0) {
+    return { finishers: 0, bestScore: null, medianClicks: null };
+  }
+
+  const clicks = entries.map((entry) => entry.clicks).sort((a, b) => a - b);
+  const middle = Math.floor(clicks.length / 2);
+  const medianClicks = clicks.length % 2 === 1 ? clicks[middle] : (clicks[middle - 1] + clicks[middle]) / 2;
+
+  return {
+    finishers: entries.length,
+    bestScore: Math.min(...entries.map((entry) => entry.score)),
+    medianClicks,
+  };
+}
@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import type { ProfanityMode } from '../shared/profanityFilter';
 
 const rootDir = path.resolve(__dirname, '..');
 dotenv.config({ path: path.join(rootDir, '.env'), override: true });
@@ -76,3 +77,189 @@ export function getServerPort(): number {
 }
 
 
+
+/**
+ * Reads the secret used to sign game session tokens.
+ *
+ * Environment variable:
+ * - `GAME_SESSION_SECRET`: Random string (32+ characters recommended) used as the HMAC key
+ *
+ * Rotating this value invalidates every session token that has been issued but not yet
+ * submitted, so players mid-game will be unable to submit their score.
+ *
+ * @returns The session signing secret
+ * @throws Error if GAME_SESSION_SECRET is not set
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.GAME_SESSION_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      'Missing game session configuration. Please set GAME_SESSION_SECRET. See ENVIRONMENT_AND_CONFIG.md for details.'
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Reads the token that authorizes moderation requests (`/api/admin/*`).
+ *
+ * Environment variable:
+ * - `ADMIN_TOKEN`: Random string (32+ characters recommended), sent by maintainers as
+ *   `Authorization: Bearer <token>`
+ *
+ * @returns The admin token
+ * @throws Error if ADMIN_TOKEN is not set
+ */
+export function getAdminToken(): string {
+  const token = process.env.ADMIN_TOKEN;
+
+  if (!token) {
+    throw new Error(
+      'Missing admin configuration. Please set ADMIN_TOKEN. See ENVIRONMENT_AND_CONFIG.md for details.'
+    );
+  }
+
+  return token;
+}
+
+/**
+ * Reads how usernames containing blocked words are handled (see `shared/profanityFilter.ts`).
+ *
+ * Environment variable:
+ * - `PROFANITY_MODE`: `mask` (default) replaces blocked words with asterisks; `reject`
+ *   refuses the submission with a validation error
+ *
+ * @returns Profanity mode (defaults to 'mask')
+ * @throws Error if PROFANITY_MODE is set to an unknown value
+ */
+export function getProfanityMode(): ProfanityMode {
+  const raw = (process.env.PROFANITY_MODE || 'mask').trim().toLowerCase();
+
+  if (raw !== 'mask' && raw !== 'reject') {
+    throw new Error("Invalid PROFANITY_MODE environment variable. Expected 'mask' or 'reject'.");
+  }
+
+  return raw;
+}
+
+/**
+ * Storage backends supported by the repository layer (see `api/repositories`).
+ */
+export type StorageMode = 'mongo' | 'memory';
+
+/**
+ * Reads the storage backend from environment variables.
+ *
+ * Environment variable:
+ * - `STORAGE`: `mongo` (default) or `memory`
+ *
+ * `memory` keeps all data in the current process, so the local Express server and
+ * integration tests can run without Atlas credentials. Data is lost on restart, and
+ * Vercel functions do not share memory, so it must not be used in production.
+ *
+ * @returns Storage mode (defaults to 'mongo')
+ * @throws Error if STORAGE is set to an unknown value
+ */
+export function getStorageMode(): StorageMode {
+  const raw = (process.env.STORAGE || 'mongo').trim().toLowerCase();
+
+  if (raw !== 'mongo' && raw !== 'memory') {
+    throw new Error("Invalid STORAGE environment variable. Expected 'mongo' or 'memory'.");
+  }
+
+  return raw;
+}
+
+/**
+ * Reads how long unplayed shared boards are kept (see `api/gameRetention.ts`).
+ *
+ * Environment variable:
+ * - `GAME_RETENTION_DAYS`: Days a board created with `POST /api/games` stays available
+ *   while nobody has played it (defaults to 30)
+ *
+ * Changing the value only affects boards created afterwards and the cutoff for older
+ * boards without an expiry date.
+ *
+ * @returns Retention period in days (defaults to 30)
+ * @throws Error if GAME_RETENTION_DAYS is set but is not a positive integer
+ */
+export function getGameRetentionDays(): number {
+  const raw = process.env.GAME_RETENTION_DAYS?.trim();
+  const days = raw ? Number(raw) : 30;
+
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error('Invalid GAME_RETENTION_DAYS environment variable. Expected a positive integer.');
+  }
+
+  return days;
+}
+
+/**
+ * Result of validating one configuration setting.
+ */
+export interface ConfigCheck {
+  name: string;
+  /**
+   * Whether the API can serve requests without this setting. Optional settings only
+   * disable some routes (e.g., `ADMIN_TOKEN` for `/api/admin/*`).
+   */
+  required: boolean;
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Validates every configuration setting without throwing, for `/api/ready`.
+ *
+ * MongoDB credentials are only required with `STORAGE=mongo`.
+ *
+ * @returns One check per setting
+ */
+export function validateConfig(): ConfigCheck[] {
+  const settings: [name: string, required: boolean, read: () => unknown][] = [
+    ['STORAGE', true, getStorageMode],
+    ['MONGODB', true, () => getStorageMode() === 'memory' || getMongoConfig()],
+    ['GAME_SESSION_SECRET', true, getSessionSecret],
+    ['PROFANITY_MODE', true, getProfanityMode],
+    ['GAME_RETENTION_DAYS', true, getGameRetentionDays],
+    ['LOG_LEVEL', false, getLogLevel],
+    ['ADMIN_TOKEN', false, getAdminToken],
+  ];
+
+  return settings.map(([name, required, read]) => {
+    try {
+      read();
+      return { name, required, ok: true };
+    } catch (error) {
+      return { name, required, ok: false, error: (error as Error).message };
+    }
+  });
+}
+
+/**
+ * Log levels, from most to least verbose. `silent` disables logging.
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Reads the minimum level written by the structured logger (see `api/logger.ts`).
+ *
+ * Environment variable:
+ * - `LOG_LEVEL`: `debug`, `info`, `warn`, `error` or `silent`. Defaults to `info`, or `warn`
+ *   when `NODE_ENV=test` so test output stays readable
+ *
+ * @returns Log level
+ * @throws Error if LOG_LEVEL is set to an unknown value
+ */
+export function getLogLevel(): LogLevel {
+  const raw = (process.env.LOG_LEVEL || (process.env.NODE_ENV === 'test' ? 'warn' : 'info')).trim().toLowerCase();
+
+  if (!(LOG_LEVELS as readonly string[]).includes(raw)) {
+    throw new Error(`Invalid LOG_LEVEL environment variable. Expected one of: ${LOG_LEVELS.join(', ')}.`);
+  }
+
+  return raw as LogLevel;
+}
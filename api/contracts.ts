@@ -0,0 +1,93 @@
+import type { ObjectId } from 'mongodb';
+import type * as contracts from '../shared/contracts';
+import type { ApiError } from './errors';
+import type { EntryModeration, GeneratedGame, LeaderboardEntry, ModerationAction, ModerationAuditRecord } from './mongoClient';
+import type { Stored } from './repositories';
+import type { BoardStats } from './boardStats';
+import type { PlayerStats } from './playerStats';
+import type { ModerationRequest } from './moderation';
+import type { UsageStats } from './usageStats';
+import type { BuildInfo, ReadinessReport } from './readiness';
+import type { StorageMode } from './config';
+import type { startGameSession } from './gameSessions';
+import type { BoardCleanupReport } from './gameRetention';
+
+/**
+ * Compile-time checks of the API's own types against the shared contracts in
+ * `shared/contracts.ts`. Nothing here runs: a mismatch fails `tsc` with an error naming
+ * the mismatched fields, whichever side changed.
+ *
+ * Routes additionally check the bodies they send with `satisfies Wire<...>`.
+ */
+
+/**
+ * What a value of type `T` looks like once serialized to JSON.
+ */
+type Json<T> = T extends Date | ObjectId
+  ? string
+  : T extends readonly (infer Item)[]
+    ? Json<Item>[]
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+/**
+ * Fields present on only one side, at any depth.
+ */
+type FieldMismatch<A, B> = A extends readonly (infer ItemA)[]
+  ? B extends readonly (infer ItemB)[]
+    ? FieldMismatch<ItemA, ItemB>
+    : never
+  : A extends object
+    ? B extends object
+      ? Exclude<keyof A, keyof B> | Exclude<keyof B, keyof A> | { [K in keyof A & keyof B]: FieldMismatch<A[K], B[K]> }[keyof A & keyof B]
+      : never
+    : never;
+
+/**
+ * A response type the API sends: same fields as the contract, and its JSON is assignable to it.
+ */
+type Sends<Api, Contract> = [FieldMismatch<Json<Api>, Contract>] extends [never]
+  ? Json<Api> extends Contract
+    ? true
+    : { notAssignable: Json<Api>; contract: Contract }
+  : { mismatchedFields: FieldMismatch<Json<Api>, Contract> };
+
+/**
+ * A request type the API reads: same fields as the contract, and the contract is assignable to it.
+ */
+type Reads<Api, Contract> = [FieldMismatch<Api, Contract>] extends [never]
+  ? Contract extends Api
+    ? true
+    : { notAssignable: Contract; reader: Api }
+  : { mismatchedFields: FieldMismatch<Api, Contract> };
+
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : { missingFromApi: Exclude<B, A> }) : { missingFromContract: Exclude<A, B> };
+
+type Assert<T extends true> = T;
+
+/**
+ * Public leaderboard entries: stored entries without the moderation state.
+ */
+type PublicEntry = Omit<Stored<LeaderboardEntry>, 'moderation'>;
+
+export type ContractChecks = [
+  Assert<Same<ApiError['error']['code'], contracts.ErrorCode>>,
+  Assert<Sends<ApiError, contracts.ApiError>>,
+  Assert<Sends<PublicEntry, contracts.LeaderboardEntry>>,
+  Assert<Sends<Omit<Stored<GeneratedGame>, '_id' | 'timesPlayed' | 'expiresAt' | 'pinned'>, contracts.GeneratedGame>>,
+  Assert<Sends<Omit<Stored<GeneratedGame>, '_id' | 'expiresAt' | 'pinned'>, contracts.DailyGame>>,
+  Assert<Sends<Pick<GeneratedGame, 'link' | 'timesPlayed'>, contracts.GamePlays>>,
+  Assert<Sends<BoardStats, contracts.BoardStats>>,
+  Assert<Sends<PlayerStats, contracts.PlayerStats>>,
+  Assert<Sends<Awaited<ReturnType<typeof startGameSession>>, contracts.StartSessionResponse>>,
+  Assert<Sends<BuildInfo, contracts.BuildInfo>>,
+  Assert<Sends<ReadinessReport, contracts.Diagnostics['readiness']>>,
+  Assert<Same<StorageMode, contracts.Diagnostics['storage']>>,
+  Assert<Same<ModerationAction, contracts.ModerationAction>>,
+  Assert<Sends<EntryModeration, contracts.EntryModeration>>,
+  Assert<Sends<ModerationAuditRecord, contracts.ModerationAuditRecord>>,
+  Assert<Reads<ModerationRequest, contracts.ModerationRequest>>,
+  Assert<Sends<UsageStats, contracts.UsageStats>>,
+  Assert<Sends<BoardCleanupReport, contracts.BoardCleanupReport>>,
+];
@@ -0,0 +1,22 @@
+import { findBoardTitleIssues, type BoardTitleIssue } from '../shared/boardValidation';
+import { lookupWikipediaArticles, type ArticleLookup } from './wikipedia';
+
+/**
+ * Checks the titles of a player-built board before it is stored (`source: 'custom'`).
+ *
+ * Applies the builder's rules from `shared/boardValidation.ts` to a fresh Wikipedia lookup:
+ * every title must be an existing article, not a disambiguation page, and no two titles may
+ * lead to the same article through a redirect.
+ *
+ * @param board - 25 grid titles followed by the starting article
+ * @param lookupArticles - Article lookup (defaults to the Wikipedia API)
+ * @returns Problems in board order (empty when the board is valid)
+ * @throws Error if Wikipedia can't be reached
+ */
+export async function checkCustomBoard(
+  board: string[],
+  lookupArticles: ArticleLookup = lookupWikipediaArticles
+): Promise<BoardTitleIssue[]> {
+  const checks = await lookupArticles(board);
+  return findBoardTitleIssues(board, checks);
+}
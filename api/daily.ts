@@ -0,0 +1,11 @@
+import { toVercelHandler } from './http';
+import { dailyRoute } from './routes/daily';
+
+/**
+ * Vercel serverless function for the daily challenge.
+ *
+ * - GET /api/daily: Returns today's daily challenge board
+ *
+ * See `api/routes/daily.ts` for the handler.
+ */
+export default toVercelHandler(dailyRoute);
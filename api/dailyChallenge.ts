@@ -0,0 +1,125 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { GeneratedGame } from './mongoClient';
+import { getRepositories, DuplicateKeyError, type Stored } from './repositories';
+import { generateBingoSet } from '../shared/bingoSet';
+import { getCuratedArticleTitle, type CuratedArticlesPayload } from '../shared/curatedArticles';
+import { createSeededRandom } from '../shared/random';
+
+/**
+ * Daily challenge: one board per UTC day, shared by every player.
+ *
+ * The board is generated from the curated article data with a random source seeded by
+ * the date, and stored in the generated-games collection (`source: 'daily'`) the first
+ * time it is requested. Later requests read the stored board, so updating the curated
+ * data never changes a day's board once it has been served.
+ */
+
+/**
+ * Curated article data shipped with the app. Vercel functions must bundle this file
+ * (see `functions` in `vercel.json`).
+ */
+const CURATED_ARTICLES_PATH = path.resolve(__dirname, '..', 'app', 'public', 'curatedArticles.json');
+
+let cachedPayload: CuratedArticlesPayload | null = null;
+
+/**
+ * Formats a date as its UTC day (`YYYY-MM-DD`).
+ *
+ * @param date - Date to format (defaults to now)
+ * @returns UTC date key
+ */
+export function getUtcDateKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Validates a `YYYY-MM-DD` date key.
+ *
+ * @param value - Value to validate
+ * @returns true if the value is a real calendar date in `YYYY-MM-DD` format
+ */
+export function isValidDateKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && getUtcDateKey(date) === value;
+}
+
+/**
+ * Derives the generated game link for a day. The link is deterministic, so leaderboard
+ * queries for a day do not need to look up the stored game.
+ *
+ * @param dateKey - UTC date key (`YYYY-MM-DD`)
+ * @returns 16-character URL-safe link
+ */
+export function getDailyLink(dateKey: string): string {
+  return createHash('sha256').update(`daily:${dateKey}`).digest('base64url').substring(0, 16);
+}
+
+/**
+ * Loads the curated article data from disk (cached after the first read).
+ *
+ * @returns Curated article payload
+ */
+function loadCuratedArticles(): CuratedArticlesPayload {
+  if (!cachedPayload) {
+    cachedPayload = JSON.parse(fs.readFileSync(CURATED_ARTICLES_PATH, 'utf8')) as CuratedArticlesPayload;
+  }
+  return cachedPayload;
+}
+
+/**
+ * Generates the board for a day.
+ *
+ * @param dateKey - UTC date key (`YYYY-MM-DD`)
+ * @param payload - Curated article data (defaults to `app/public/curatedArticles.json`)
+ * @returns 26 article titles: 25 grid squares + starting article
+ */
+export function generateDailyBoard(dateKey: string, payload = loadCuratedArticles()): string[] {
+  const random = createSeededRandom(`daily:${dateKey}`);
+  const { gridArticles, startingArticle } = generateBingoSet(payload.categories, payload.groups, random);
+  return [...gridArticles, startingArticle].map(getCuratedArticleTitle);
+}
+
+/**
+ * Returns the stored daily game for a day, creating it on first request.
+ *
+ * Concurrent first requests race on the unique link; the loser re-reads the winner's game.
+ *
+ * @param dateKey - UTC date key (defaults to today)
+ * @returns The daily game
+ */
+export async function getOrCreateDailyGame(dateKey = getUtcDateKey()): Promise<Stored<GeneratedGame>> {
+  const { games } = getRepositories();
+  const link = getDailyLink(dateKey);
+
+  const existing = await games.findByLink(link);
+  if (existing) {
+    return existing;
+  }
+
+  const game: GeneratedGame = {
+    link,
+    bingopediaGame: generateDailyBoard(dateKey),
+    createdAt: new Date(),
+    timesPlayed: 0,
+    source: 'daily',
+    dailyDate: dateKey,
+  };
+
+  try {
+    return await games.insert(game);
+  } catch (error) {
+    if (!(error instanceof DuplicateKeyError)) {
+      throw error;
+    }
+    const created = await games.findByLink(link);
+    if (!created) {
+      throw error;
+    }
+    return created;
+  }
+}
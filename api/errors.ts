@@ -1,18 +1,12 @@
+import type { ErrorCode } from '../shared/contracts';
+
 /**
  * Structured error response utilities for the leaderboard API.
  * Provides consistent error formatting with error codes, user-friendly messages,
  * and optional detailed information for debugging.
  */
 
-export type ErrorCode =
-  | 'VALIDATION_ERROR'
-  | 'MISSING_FIELD'
-  | 'INVALID_VALUE'
-  | 'DATABASE_ERROR'
-  | 'NETWORK_ERROR'
-  | 'SERVER_ERROR'
-  | 'METHOD_NOT_ALLOWED'
-  | 'NOT_FOUND';
+export type { ErrorCode };
 
 export interface ApiError {
   error: {
@@ -113,3 +107,34 @@ export function handleApiError(error: unknown, context: 'GET' | 'POST'): ApiErro
   return createErrorResponse('SERVER_ERROR', defaultMessage, err.message);
 }
 
+
+/**
+ * Maps an error code to the HTTP status code used for it across all API routes.
+ *
+ * @param code - Error code from an `ApiError`
+ * @returns HTTP status code
+ */
+export function statusForErrorCode(code: ErrorCode): number {
+  switch (code) {
+    case 'VALIDATION_ERROR':
+    case 'MISSING_FIELD':
+    case 'INVALID_VALUE':
+      return 400;
+    case 'INVALID_SESSION':
+    case 'UNAUTHORIZED':
+      return 401;
+    case 'USERNAME_CLAIMED':
+      return 403;
+    case 'NOT_FOUND':
+      return 404;
+    case 'BOARD_EXPIRED':
+      return 410;
+    case 'METHOD_NOT_ALLOWED':
+      return 405;
+    case 'DATABASE_ERROR':
+    case 'NETWORK_ERROR':
+      return 503;
+    default:
+      return 500;
+  }
+}
@@ -0,0 +1,148 @@
+import { getGameRetentionDays } from './config';
+import type { GeneratedGame } from './mongoClient';
+import { getRepositories, type Repositories, type Stored } from './repositories';
+import { errorResponse, type ApiResponse } from './http';
+
+/**
+ * Retention rules for shared boards.
+ *
+ * Boards created with `POST /api/games` get an `expiresAt` `GAME_RETENTION_DAYS` days after
+ * creation. The first play clears it, so only boards nobody played expire. Daily challenge
+ * boards and boards synced from leaderboard entries never get one, and maintainers pin
+ * featured boards (`npm run boards -- pin <link>`) to keep them too.
+ *
+ * A board past its `expiresAt` answers `410 BOARD_EXPIRED` straight away. The cleanup
+ * (`npm run boards -- cleanup`) then deletes expired boards without leaderboard entries and
+ * records their links in `expired-games`, so the links keep answering 410 instead of 404.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BOARD_EXPIRED_MESSAGE = 'This board has expired because nobody played it. Start a new game instead';
+
+/**
+ * Computes when a new board expires if nobody plays it.
+ *
+ * @param createdAt - When the board was created
+ * @param retentionDays - Days unplayed boards are kept
+ * @returns Expiry time
+ */
+export function getBoardExpiry(createdAt: Date, retentionDays = getGameRetentionDays()): Date {
+  return new Date(createdAt.getTime() + retentionDays * DAY_MS);
+}
+
+/**
+ * Checks whether a stored board has expired.
+ *
+ * @param game - Stored board
+ * @param now - Current time
+ * @returns True if the board has an `expiresAt` at or before `now`
+ */
+export function isBoardExpired(game: Pick<GeneratedGame, 'expiresAt'>, now = new Date()): boolean {
+  return game.expiresAt !== undefined && game.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Checks whether the cleanup could still delete a board: an unpinned, unplayed `generated` or
+ * `custom` board, whether it has an `expiresAt` or only expires by age.
+ *
+ * @param game - Stored board
+ * @returns True unless the board is kept for good
+ */
+export function canBoardExpire(game: Pick<GeneratedGame, 'source' | 'timesPlayed' | 'pinned'>): boolean {
+  return (game.source === 'generated' || game.source === 'custom') && game.timesPlayed === 0 && !game.pinned;
+}
+
+export type BoardLookup = { game: Stored<GeneratedGame>; error?: undefined } | { game?: undefined; error: ApiResponse };
+
+/**
+ * Finds a board that can still be played.
+ *
+ * @param link - Board link
+ * @param details - Error details (defaults to `{ link }`)
+ * @returns The board, or a 410 `BOARD_EXPIRED` response for expired and cleaned-up boards
+ *   and a 404 `NOT_FOUND` response for unknown links
+ */
+export async function findBoard(link: string, details: Record<string, unknown> = { link }): Promise<BoardLookup> {
+  const { games, expiredGames } = getRepositories();
+  const game = await games.findByLink(link);
+
+  if (game && !isBoardExpired(game)) {
+    return { game };
+  }
+
+  if (game || (await expiredGames.findByLink(link))) {
+    return { error: errorResponse(410, 'BOARD_EXPIRED', BOARD_EXPIRED_MESSAGE, details) };
+  }
+
+  return { error: errorResponse(404, 'NOT_FOUND', 'Game not found', details) };
+}
+
+/**
+ * An expired board, as listed by the cleanup.
+ */
+export type ExpiredBoard = Pick<GeneratedGame, 'link' | 'source' | 'createdAt' | 'expiresAt'>;
+
+export interface BoardCleanupReport {
+  retentionDays: number;
+  /**
+   * False for a dry run, which only lists the boards.
+   */
+  applied: boolean;
+  /**
+   * Expired boards that were deleted (or would be, in a dry run), oldest first.
+   */
+  boards: ExpiredBoard[];
+  /**
+   * Links of expired boards kept because they have leaderboard entries.
+   */
+  kept: string[];
+}
+
+export interface BoardCleanupOptions {
+  /**
+   * Delete the boards. Without it, the cleanup only reports them.
+   */
+  apply: boolean;
+  now?: Date;
+  retentionDays?: number;
+}
+
+/**
+ * Finds expired boards and, with `apply`, deletes them and records their links.
+ *
+ * A board is removed when it is a `generated` or `custom` board, unplayed (`timesPlayed` 0
+ * and no leaderboard entries) and not pinned, and either its `expiresAt` has passed or it
+ * has none and is older than the retention period.
+ *
+ * @param options - Cleanup options
+ * @param repositories - Repositories to use
+ * @returns What was (or would be) deleted
+ */
+export async function cleanupExpiredBoards(
+  { apply, now = new Date(), retentionDays = getGameRetentionDays() }: BoardCleanupOptions,
+  { games, leaderboard, expiredGames }: Repositories = getRepositories()
+): Promise<BoardCleanupReport> {
+  const createdBefore = new Date(now.getTime() - retentionDays * DAY_MS);
+  const candidates = await games.findExpired({ now, createdBefore });
+  const played = new Set(await leaderboard.findPlayedBoards(candidates.map((game) => game.link)));
+  const expired = candidates.filter((game) => !played.has(game.link));
+
+  if (apply && expired.length > 0) {
+    // Record the links first, so a failed delete never leaves a link answering 404
+    await expiredGames.insertMany(expired.map(({ link, createdAt }) => ({ link, createdAt, expiredAt: now })));
+    await games.deleteByLinks(expired.map((game) => game.link));
+  }
+
+  return {
+    retentionDays,
+    applied: apply,
+    boards: expired.map(({ link, source, createdAt, expiresAt }) => ({
+      link,
+      source,
+      createdAt,
+      ...(expiresAt ? { expiresAt } : {}),
+    })),
+    kept: [...played],
+  };
+}
@@ -0,0 +1,201 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { getSessionSecret } from './config';
+import type { GameSession } from './mongoClient';
+import { getRepositories } from './repositories';
+import { normalizeTitle } from '../shared/normalizeTitle';
+
+/**
+ * Server-issued game sessions.
+ *
+ * A session is created when a game starts and records the server timestamp and the board.
+ * The client receives a signed token and must send it back with its leaderboard submission,
+ * so elapsed time is measured on the server and each token can only be submitted once.
+ */
+
+/**
+ * How long a session token stays valid. Matches the 24-hour maximum game time
+ * enforced by `validateGameMetrics`.
+ */
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Number of grid cells allowed to differ between the session board and the submitted board.
+ * The client replaces grid articles that fail to load, so a small number of changes is expected.
+ */
+const MAX_REPLACED_CELLS = 3;
+
+interface SessionTokenPayload {
+  sid: string;
+  exp: number;
+}
+
+function sign(encodedPayload: string, secret: string): string {
+  return createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+}
+
+/**
+ * Creates a signed session token.
+ *
+ * Format: `base64url(JSON payload).base64url(HMAC-SHA256 signature)`.
+ *
+ * @param sessionId - Random session identifier stored in the game-sessions collection
+ * @param expiresAt - Expiry time embedded in the token
+ * @param secret - Signing secret (defaults to `GAME_SESSION_SECRET`)
+ * @returns Signed session token
+ */
+export function createSessionToken(sessionId: string, expiresAt: Date, secret = getSessionSecret()): string {
+  const payload: SessionTokenPayload = { sid: sessionId, exp: expiresAt.getTime() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+}
+
+/**
+ * Verifies a session token's signature and expiry.
+ *
+ * @param token - Token received from the client (any type, validated here)
+ * @param now - Current time (injectable for tests)
+ * @param secret - Signing secret (defaults to `GAME_SESSION_SECRET`)
+ * @returns The session ID, or an error message if the token is missing, malformed, forged or expired
+ */
+export function verifySessionToken(
+  token: unknown,
+  now = new Date(),
+  secret = getSessionSecret()
+): { sessionId: string; error?: string } {
+  if (typeof token !== 'string' || !token) {
+    return { sessionId: '', error: 'Session token is required' };
+  }
+
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return { sessionId: '', error: 'Session token is malformed' };
+  }
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { sessionId: '', error: 'Session token signature is invalid' };
+  }
+
+  let payload: SessionTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { sessionId: '', error: 'Session token is malformed' };
+  }
+
+  if (typeof payload.sid !== 'string' || typeof payload.exp !== 'number') {
+    return { sessionId: '', error: 'Session token is malformed' };
+  }
+
+  if (payload.exp <= now.getTime()) {
+    return { sessionId: '', error: 'Session token has expired' };
+  }
+
+  return { sessionId: payload.sid };
+}
+
+/**
+ * Checks that the submitted board is the board the session was started with.
+ *
+ * The starting article (index 25) must match exactly; up to `MAX_REPLACED_CELLS` grid
+ * cells may differ to allow for articles that were replaced after failing to load.
+ * Titles are compared case-insensitively with spaces and underscores treated as equal.
+ *
+ * @param sessionBoard - 26 titles recorded when the session started
+ * @param submittedBoard - 26 titles submitted with the score
+ * @returns Validation result with error message if the boards do not match
+ */
+export function validateSessionBoard(sessionBoard: string[], submittedBoard: string[]): { error?: string } {
+  if (normalizeTitle(sessionBoard[25]) !== normalizeTitle(submittedBoard[25])) {
+    return { error: 'Starting article does not match the game session' };
+  }
+
+  let differences = 0;
+  for (let i = 0; i < 25; i += 1) {
+    if (normalizeTitle(sessionBoard[i]) !== normalizeTitle(submittedBoard[i])) {
+      differences += 1;
+    }
+  }
+
+  if (differences > MAX_REPLACED_CELLS) {
+    return { error: `Board does not match the game session (${differences} squares differ)` };
+  }
+
+  return {};
+}
+
+/**
+ * Starts a new game session and stores it in the sessions repository.
+ *
+ * @param bingopediaGame - 26 titles of the board being played
+ * @param generatedGame - Link of the generated game, for repeat and daily games
+ * @param gameType - 'daily' for daily challenge boards
+ * @returns Signed session token plus the server start and expiry times
+ */
+export async function startGameSession(
+  bingopediaGame: string[],
+  generatedGame?: string,
+  gameType?: GameSession['gameType']
+): Promise<{ sessionToken: string; startedAt: Date; expiresAt: Date }> {
+  const startedAt = new Date();
+  const expiresAt = new Date(startedAt.getTime() + SESSION_TTL_SECONDS * 1000);
+  const sessionId = randomBytes(16).toString('base64url');
+
+  const session: GameSession = {
+    sessionId,
+    bingopediaGame,
+    ...(generatedGame ? { generatedGame } : {}),
+    ...(gameType ? { gameType } : {}),
+    startedAt,
+    expiresAt,
+  };
+  await getRepositories().sessions.insert(session);
+
+  return { sessionToken: createSessionToken(sessionId, expiresAt), startedAt, expiresAt };
+}
+
+/**
+ * Verifies a session token and loads its session without consuming it.
+ *
+ * @param token - Token received from the client
+ * @returns The stored session, or an error message if the token is invalid, unknown or already used
+ */
+export async function loadGameSession(token: unknown): Promise<{ session?: GameSession; error?: string }> {
+  const verification = verifySessionToken(token);
+  if (verification.error) {
+    return { error: verification.error };
+  }
+
+  const session = await getRepositories().sessions.findBySessionId(verification.sessionId);
+
+  if (!session) {
+    return { error: 'Game session not found or expired' };
+  }
+
+  if (session.usedAt) {
+    return { error: 'Game session has already been used' };
+  }
+
+  return { session };
+}
+
+/**
+ * Marks a session as used. Only unused sessions are updated, so two concurrent
+ * submissions with the same token cannot both succeed.
+ *
+ * @param sessionId - Session to consume
+ * @returns True if this call consumed the session, false if it was already used
+ */
+export async function consumeGameSession(sessionId: string): Promise<boolean> {
+  return getRepositories().sessions.markUsed(sessionId, new Date());
+}
+
+/**
+ * Marks a consumed session as unused again, for submissions that fail after consuming it.
+ *
+ * @param sessionId - Session to release
+ */
+export async function releaseGameSession(sessionId: string): Promise<void> {
+  await getRepositories().sessions.markUnused(sessionId);
+}
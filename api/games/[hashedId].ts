@@ -1,128 +1,9 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getGamesCollection } from '../mongoClient';
-import { createErrorResponse, handleApiError } from '../errors';
+import { toVercelHandler } from '../http';
+import { gameByIdRoute } from '../routes/gameById';
 
 /**
- * Applies CORS headers to the response.
- * Allows cross-origin requests from any origin for public API access.
+ * Vercel serverless function for GET /api/games/:hashedId.
  *
- * @param res - Vercel response object
+ * See `api/routes/gameById.ts` for the handler.
  */
-function applyCors(res: VercelResponse) {
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-}
-
-/**
- * Validates hashed ID format (16 characters, URL-safe).
- *
- * @param hashedId - Hashed ID string to validate
- * @returns true if valid hashed ID format, false otherwise
- */
-function isValidHashedId(hashedId: string): boolean {
-  // 16 characters, URL-safe base64url characters (A-Z, a-z, 0-9, -, _)
-  const hashedIdRegex = /^[A-Za-z0-9_-]{16}$/;
-  return hashedIdRegex.test(hashedId);
-}
-
-/**
- * Vercel serverless function handler for GET /api/games/:hashedId.
- *
- * Retrieves a shareable game by link (16-character hash).
- *
- * @param req - Vercel request object
- * @param res - Vercel response object
- * @returns Promise that resolves when the response is sent
- *
- * @throws {Error} May throw errors for database connection issues or other server errors
- */
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  applyCors(res);
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
-
-  try {
-    if (req.method !== 'GET') {
-      res.setHeader('Allow', 'GET,OPTIONS');
-      res.status(405).json(
-        createErrorResponse(
-          'METHOD_NOT_ALLOWED',
-          `Method ${req.method} not allowed. Allowed methods: GET, OPTIONS`,
-          { method: req.method, allowedMethods: ['GET', 'OPTIONS'] }
-        )
-      );
-      return;
-    }
-
-    const collection = await getGamesCollection();
-    const identifier = ((req.query.hashedId as string) || (req.query.gameId as string) || '').trim();
-
-    if (!identifier) {
-      res.status(400).json(
-        createErrorResponse(
-          'MISSING_FIELD',
-          'Game identifier (hashedId or gameId) is required',
-          { field: 'hashedId' }
-        )
-      );
-      return;
-    }
-
-    // Validate format: must be a 16-character link hash
-    if (!isValidHashedId(identifier)) {
-      res.status(400).json(
-        createErrorResponse(
-          'VALIDATION_ERROR',
-          'Invalid game identifier format. Expected 16-character link hash',
-          { field: 'hashedId', value: identifier }
-        )
-      );
-      return;
-    }
-
-    const game = await collection.findOne({ link: identifier });
-
-    if (!game.value) {
-      res.status(404).json(
-        createErrorResponse(
-          'NOT_FOUND',
-          'Game not found',
-          { identifier }
-        )
-      );
-      return;
-    }
-
-    // Return game state without MongoDB _id
-    const { _id, ...gameState } = game;
-    res.status(200).json(gameState);
-  } catch (error) {
-    const err = error as Error;
-    console.error('Games API error:', err);
-
-    const errorResponse = handleApiError(error, 'GET');
-
-    // Determine status code based on error type
-    let status = 500;
-    if (errorResponse.error.code === 'DATABASE_ERROR') {
-      status = 503;
-    } else if (
-      errorResponse.error.code === 'VALIDATION_ERROR' ||
-      errorResponse.error.code === 'MISSING_FIELD'
-    ) {
-      status = 400;
-    } else if (errorResponse.error.code === 'NOT_FOUND') {
-      status = 404;
-    } else if (errorResponse.error.code === 'METHOD_NOT_ALLOWED') {
-      status = 405;
-    }
-
-    res.status(status).json(errorResponse);
-  }
-}
-
+export default toVercelHandler(gameByIdRoute);
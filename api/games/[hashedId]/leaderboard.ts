@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../../http';
+import { gameLeaderboardRoute } from '../../routes/gameLeaderboard';
+
+/**
+ * Vercel serverless function for GET /api/games/:hashedId/leaderboard.
+ *
+ * See `api/routes/gameLeaderboard.ts` for the handler.
+ */
+export default toVercelHandler(gameLeaderboardRoute);
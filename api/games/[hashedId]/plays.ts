@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../../http';
+import { gamePlaysRoute } from '../../routes/gamePlays';
+
+/**
+ * Vercel serverless function for GET /api/games/:hashedId/plays.
+ *
+ * See `api/routes/gamePlays.ts` for the handler.
+ */
+export default toVercelHandler(gamePlaysRoute);
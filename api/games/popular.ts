@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../http';
+import { popularGamesRoute } from '../routes/gameLists';
+
+/**
+ * Vercel serverless function for GET /api/games/popular.
+ *
+ * See `api/routes/gameLists.ts` for the handler.
+ */
+export default toVercelHandler(popularGamesRoute);
@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../http';
+import { recentGamesRoute } from '../routes/gameLists';
+
+/**
+ * Vercel serverless function for GET /api/games/recent.
+ *
+ * See `api/routes/gameLists.ts` for the handler.
+ */
+export default toVercelHandler(recentGamesRoute);
@@ -0,0 +1,9 @@
+import { toVercelHandler } from '../http';
+import { trendingGamesRoute } from '../routes/gameLists';
+
+/**
+ * Vercel serverless function for GET /api/games/trending.
+ *
+ * See `api/routes/gameLists.ts` for the handler.
+ */
+export default toVercelHandler(trendingGamesRoute);
@@ -0,0 +1,26 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Generates a 16-character URL-safe hashed ID.
+ * Uses 12 random bytes converted to base64url encoding, truncated to 16 characters.
+ *
+ * @returns 16-character URL-safe hash
+ */
+export function generateHashedId(): string {
+  // Generate 12 random bytes (96 bits)
+  const bytes = randomBytes(12);
+  // Convert to base64url (URL-safe, no padding)
+  return bytes.toString('base64url').substring(0, 16);
+}
+
+/**
+ * Validates hashed ID format (16 characters, URL-safe).
+ *
+ * @param hashedId - Hashed ID string to validate
+ * @returns true if valid hashed ID format, false otherwise
+ */
+export function isValidHashedId(hashedId: string): boolean {
+  // 16 characters, URL-safe base64url characters (A-Z, a-z, 0-9, -, _)
+  const hashedIdRegex = /^[A-Za-z0-9_-]{16}$/;
+  return hashedIdRegex.test(hashedId);
+}
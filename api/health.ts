@@ -0,0 +1,9 @@
+import { toVercelHandler } from './http';
+import { healthRoute } from './routes/health';
+
+/**
+ * Vercel serverless function for GET /api/health (process liveness).
+ *
+ * See `api/routes/health.ts` for the handler.
+ */
+export default toVercelHandler(healthRoute);
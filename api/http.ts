@@ -0,0 +1,255 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { randomUUID } from 'crypto';
+import { createErrorResponse, handleApiError, statusForErrorCode, type ErrorCode } from './errors';
+import { logger, type Logger } from './logger';
+
+/**
+ * Transport-agnostic request handling shared by the Vercel functions in `api/`
+ * and the local Express dev server in `server/`.
+ *
+ * Route handlers receive a plain `ApiRequest` and return a plain `ApiResponse`.
+ * Thin adapters (`toVercelHandler` here, `toExpressHandler` in `server/expressAdapter.ts`)
+ * translate between those objects and the framework request/response, so local dev and
+ * production always run the same code.
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRequest {
+  method: string;
+  /**
+   * Query string and path parameters. Repeated parameters keep their first value.
+   */
+  query: Record<string, string | undefined>;
+  body: unknown;
+  /**
+   * Request headers with lowercase names.
+   */
+  headers: Record<string, string | undefined>;
+}
+
+export interface ApiResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Per-request state passed to route handlers by `dispatch`.
+ */
+export interface RequestContext {
+  /**
+   * Correlation ID, echoed in the `X-Request-Id` response header.
+   */
+  requestId: string;
+  /**
+   * Logger bound to this request (`requestId`, `route`, `method`).
+   */
+  log: Logger;
+}
+
+export type RouteHandler = (req: ApiRequest, context: RequestContext) => Promise<ApiResponse>;
+
+/**
+ * Response header carrying the request's correlation ID.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Incoming request IDs are reused when they look like IDs, so logs can be joined with
+ * the caller's.
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Returns the caller's `X-Request-Id` (or Vercel's `X-Vercel-Id`) if valid, or a new UUID.
+ *
+ * @param headers - Request headers with lowercase names
+ * @returns Request ID
+ */
+export function getRequestId(headers: Record<string, string | undefined>): string {
+  const incoming = headers['x-request-id'] ?? headers['x-vercel-id'];
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+export interface Route {
+  /**
+   * Name used in error logs (e.g., "Leaderboard").
+   */
+  name: string;
+  methods: Partial<Record<HttpMethod, RouteHandler>>;
+  /**
+   * Headers added to every response from this route (e.g., caching policy).
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Minimal response interface implemented by both Express and Vercel responses.
+ */
+export interface ResponseWriter {
+  status(code: number): unknown;
+  setHeader(name: string, value: string): unknown;
+  json(body: unknown): unknown;
+  end(): unknown;
+}
+
+/**
+ * Creates a JSON response.
+ *
+ * @param status - HTTP status code
+ * @param body - Response body (serialized as JSON)
+ * @param headers - Optional response headers
+ * @returns Response object
+ */
+export function jsonResponse(status: number, body: unknown, headers?: Record<string, string>): ApiResponse {
+  return { status, body, ...(headers ? { headers } : {}) };
+}
+
+/**
+ * Creates a structured error response (see `createErrorResponse`).
+ *
+ * @param status - HTTP status code
+ * @param code - Error code
+ * @param message - User-friendly error message
+ * @param details - Optional details (only included in development)
+ * @returns Response object with an `ApiError` body
+ */
+export function errorResponse(status: number, code: ErrorCode, message: string, details?: unknown): ApiResponse {
+  return { status, body: createErrorResponse(code, message, details) };
+}
+
+/**
+ * Lists the methods a route accepts, including OPTIONS for CORS preflight.
+ *
+ * @param route - Route definition
+ * @returns Allowed HTTP methods
+ */
+export function allowedMethods(route: Route): string[] {
+  return [...Object.keys(route.methods), 'OPTIONS'];
+}
+
+/**
+ * Runs a route for a request.
+ *
+ * - OPTIONS requests get an empty 200 response (CORS preflight)
+ * - Methods the route does not handle get a 405 `METHOD_NOT_ALLOWED` error with an `Allow` header
+ * - Errors thrown by handlers are logged and converted with `handleApiError`
+ * - Every response gets an `X-Request-Id` header, and each request is logged once with its
+ *   status and duration
+ *
+ * @param route - Route definition
+ * @param req - Incoming request
+ * @returns Response to send
+ */
+export async function dispatch(route: Route, req: ApiRequest): Promise<ApiResponse> {
+  const startedAt = Date.now();
+  const requestId = getRequestId(req.headers);
+  const log = logger.child({ requestId, route: route.name, method: req.method });
+  let response: ApiResponse;
+
+  if (req.method === 'OPTIONS') {
+    response = { status: 200 };
+  } else {
+    const handler = route.methods[req.method as HttpMethod];
+
+    if (!handler) {
+      const allowed = allowedMethods(route);
+      response = errorResponse(
+        405,
+        'METHOD_NOT_ALLOWED',
+        `Method ${req.method} not allowed. Allowed methods: ${allowed.join(', ')}`,
+        { method: req.method, allowedMethods: allowed }
+      );
+      response.headers = { Allow: allowed.join(',') };
+    } else {
+      try {
+        response = await handler(req, { requestId, log });
+      } catch (error) {
+        log.error('Unhandled route error', { error });
+        const apiError = handleApiError(error, req.method === 'GET' ? 'GET' : 'POST');
+        response = { status: statusForErrorCode(apiError.error.code), body: apiError };
+      }
+    }
+  }
+
+  log[response.status >= 500 ? 'error' : 'info']('Request completed', { status: response.status, durationMs: Date.now() - startedAt });
+
+  return { ...response, headers: { ...route.headers, ...response.headers, [REQUEST_ID_HEADER]: requestId } };
+}
+
+/**
+ * Flattens framework query/param objects into `ApiRequest.query`.
+ *
+ * @param query - Query object (values may be strings, arrays or nested objects)
+ * @returns Query with the first string value of each parameter
+ */
+export function flattenQuery(query: Record<string, unknown>): Record<string, string | undefined> {
+  const flattened: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string') {
+      flattened[key] = first;
+    }
+  }
+  return flattened;
+}
+
+/**
+ * Flattens Node request headers into `ApiRequest.headers`.
+ *
+ * @param headers - Incoming message headers
+ * @returns Headers with lowercase names and array values joined with ", "
+ */
+export function flattenHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string | undefined> {
+  const flattened: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    flattened[key.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return flattened;
+}
+
+/**
+ * Writes an `ApiResponse` to an Express or Vercel response.
+ *
+ * @param res - Framework response
+ * @param response - Response to send
+ */
+export function writeResponse(res: ResponseWriter, response: ApiResponse): void {
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  res.status(response.status);
+  if (response.body === undefined) {
+    res.end();
+  } else {
+    res.json(response.body);
+  }
+}
+
+/**
+ * Wraps a route as a Vercel serverless function handler.
+ *
+ * Applies CORS headers (any origin, public API access) before dispatching.
+ *
+ * @param route - Route definition
+ * @returns Vercel handler
+ */
+export function toVercelHandler(route: Route) {
+  return async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', allowedMethods(route).join(','));
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type,${REQUEST_ID_HEADER}`);
+    res.setHeader('Access-Control-Expose-Headers', REQUEST_ID_HEADER);
+
+    const response = await dispatch(route, {
+      method: req.method ?? 'GET',
+      query: flattenQuery(req.query),
+      body: req.body,
+      headers: flattenHeaders(req.headers),
+    });
+
+    writeResponse(res, response);
+  };
+}
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import type { ApiRequest, ApiResponse } from './http';
+
+/**
+ * Caching policies and conditional-request (ETag / `Last-Modified`) handling for GET routes.
+ */
+
+export interface CachePolicy {
+  /**
+   * `Cache-Control` for browsers (and for CDNs when `cdnCacheControl` is not set).
+   */
+  cacheControl: string;
+  /**
+   * `CDN-Cache-Control` (RFC 9213), applied by shared caches such as Vercel's edge only.
+   */
+  cdnCacheControl?: string;
+}
+
+/**
+ * Boards never change after creation, so lookups can be cached indefinitely.
+ */
+export const IMMUTABLE_CACHE: CachePolicy = {
+  cacheControl: 'public, max-age=31536000, immutable',
+};
+
+/**
+ * Leaderboard pages: the CDN serves each URL (so each full query) for 30 seconds and keeps
+ * serving it for 5 minutes while it revalidates. Browsers always revalidate, so players see
+ * their own submission straight away, usually for the price of a 304.
+ */
+export const LEADERBOARD_CACHE: CachePolicy = {
+  cacheControl: 'no-cache',
+  cdnCacheControl: 'public, max-age=30, stale-while-revalidate=300',
+};
+
+/**
+ * Community board lists: play counts drift slowly, so browsers may reuse a page for a minute
+ * and the CDN for five, serving it stale for up to an hour while it revalidates.
+ */
+export const BOARD_LIST_CACHE: CachePolicy = {
+  cacheControl: 'public, max-age=60',
+  cdnCacheControl: 'public, max-age=300, stale-while-revalidate=3600',
+};
+
+/**
+ * Values that change often but are cheap to revalidate with an ETag.
+ */
+export const REVALIDATE_CACHE: CachePolicy = {
+  cacheControl: 'no-cache',
+};
+
+/**
+ * Computes a strong ETag from a response body.
+ *
+ * @param body - JSON response body
+ * @returns Quoted ETag
+ */
+export function computeETag(body: unknown): string {
+  return `"${createHash('sha1').update(JSON.stringify(body)).digest('base64url')}"`;
+}
+
+/**
+ * Checks the request's validators against the current representation.
+ *
+ * `If-None-Match` takes precedence; `If-Modified-Since` is only used without it.
+ *
+ * @param req - Incoming request
+ * @param etag - Current ETag
+ * @param lastModified - When the resource last changed, if known
+ * @returns true if the client's copy is current
+ */
+export function isNotModified(req: ApiRequest, etag: string, lastModified?: Date): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch !== undefined) {
+    return ifNoneMatch
+      .split(',')
+      .map((tag) => tag.trim().replace(/^W\//, ''))
+      .some((tag) => tag === '*' || tag === etag);
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince !== undefined && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+}
+
+/**
+ * Creates a cacheable 200 JSON response, or an empty 304 when the client's copy is current.
+ *
+ * @param req - Incoming request (for `If-None-Match` / `If-Modified-Since`)
+ * @param body - Response body
+ * @param policy - Caching policy
+ * @param lastModified - When the resource last changed, sent as `Last-Modified`
+ * @returns Response with `ETag` and caching headers
+ */
+export function cachedJsonResponse(req: ApiRequest, body: unknown, policy: CachePolicy, lastModified?: Date): ApiResponse {
+  const etag = computeETag(body);
+  const headers: Record<string, string> = {
+    'Cache-Control': policy.cacheControl,
+    ...(policy.cdnCacheControl ? { 'CDN-Cache-Control': policy.cdnCacheControl } : {}),
+    ETag: etag,
+    ...(lastModified ? { 'Last-Modified': lastModified.toUTCString() } : {}),
+  };
+
+  if (isNotModified(req, etag, lastModified)) {
+    return { status: 304, headers };
+  }
+  return { status: 200, body, headers };
+}
@@ -0,0 +1,123 @@
+import { getLogLevel, LOG_LEVELS, type LogLevel } from './config';
+
+/**
+ * Structured JSON logger shared by the route handlers, `api/http.ts` and the local server.
+ *
+ * Each entry is one JSON line: `{ time, level, msg, ...fields }`. Route handlers receive a
+ * child logger bound to the request (`requestId`, `route`, `method`) in their
+ * `RequestContext`. Player data is redacted before writing (see `redact`).
+ */
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /**
+   * Returns a logger that adds `fields` to every entry.
+   */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  /**
+   * Minimum level to write. Defaults to `LOG_LEVEL` (see `getLogLevel`).
+   */
+  level?: LogLevel;
+  /**
+   * Writes one formatted entry. Defaults to the console (`warn` and `error` go to stderr).
+   */
+  write?: (level: LogLevel, line: string) => void;
+}
+
+/**
+ * Fields whose values are replaced before logging: usernames identify players, history
+ * reveals their browsing, and the rest are credentials.
+ */
+const REDACTED_FIELDS = new Set(['username', 'history', 'ownershipKey', 'sessionToken', 'authorization']);
+
+const REDACTED = '[redacted]';
+
+/**
+ * Returns a copy of a value with redacted fields replaced, at any depth. Errors are
+ * converted to `{ name, message, stack }`.
+ *
+ * @param value - Value to log
+ * @returns JSON-safe copy
+ */
+export function redact(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [key, REDACTED_FIELDS.has(key) ? REDACTED : redact(field)])
+    );
+  }
+  return value;
+}
+
+function writeToConsole(level: LogLevel, line: string): void {
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Reads `LOG_LEVEL`, falling back to `info` when it is invalid so logging never throws.
+ * (`/api/ready` reports the invalid setting.)
+ */
+function resolveLevel(): LogLevel {
+  try {
+    return getLogLevel();
+  } catch {
+    return 'info';
+  }
+}
+
+/**
+ * Creates a structured logger.
+ *
+ * @param bindings - Fields added to every entry
+ * @param options - Level and output overrides (for tests)
+ * @returns Logger
+ *
+ * @example
+ * ```typescript
+ * const log = createLogger({ requestId: 'abc' });
+ * log.info('Entry submitted', { gameType: 'random', username: 'alice' });
+ * // {"time":"...","level":"info","msg":"Entry submitted","requestId":"abc","gameType":"random","username":"[redacted]"}
+ * ```
+ */
+export function createLogger(bindings: LogFields = {}, options: LoggerOptions = {}): Logger {
+  const write = options.write ?? writeToConsole;
+
+  const log = (level: LogLevel, msg: string, fields?: LogFields) => {
+    const threshold = options.level ?? resolveLevel();
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return;
+    const entry = { time: new Date().toISOString(), level, msg, ...(redact({ ...bindings, ...fields }) as LogFields) };
+    write(level, JSON.stringify(entry));
+  };
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    child: (fields) => createLogger({ ...bindings, ...fields }, options),
+  };
+}
+
+/**
+ * Process-wide logger for code that runs outside a request (startup, connections).
+ */
+export const logger = createLogger();
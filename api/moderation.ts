@@ -0,0 +1,146 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { getAdminToken } from './config';
+import { errorResponse, type RouteHandler } from './http';
+import type { EntryModeration, ModerationAction } from './mongoClient';
+import { getRepositories } from './repositories';
+
+/**
+ * Leaderboard moderation.
+ *
+ * Maintainers hide, unhide, flag, unflag and annotate leaderboard entries through
+ * `/api/admin/moderation` (or `npm run moderate`). Every action is recorded in the
+ * moderation audit log with the entry's state before and after.
+ *
+ * The admin token check (`requireAdmin`) also guards the other admin routes, such as `/api/stats`.
+ */
+
+export const MODERATION_ACTIONS: readonly ModerationAction[] = ['hide', 'unhide', 'flag', 'unflag', 'annotate'];
+
+/**
+ * Maximum length of moderator notes and audit reasons.
+ */
+export const MAX_MODERATION_TEXT_LENGTH = 500;
+
+export function isModerationAction(value: unknown): value is ModerationAction {
+  return typeof value === 'string' && (MODERATION_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against `ADMIN_TOKEN`.
+ *
+ * Both values are hashed before the constant-time comparison so their lengths always match.
+ *
+ * @param headers - Request headers with lowercase names
+ * @returns True if the request carries the admin token
+ * @throws Error if ADMIN_TOKEN is not set
+ */
+export function isAdminRequest(headers: Record<string, string | undefined>): boolean {
+  const expected = createHash('sha256').update(getAdminToken()).digest();
+  const match = /^Bearer\s+(.+)$/i.exec(headers.authorization?.trim() ?? '');
+  if (!match) {
+    return false;
+  }
+  const received = createHash('sha256').update(match[1]).digest();
+  return timingSafeEqual(expected, received);
+}
+
+/**
+ * Rejects requests without the admin token before running a handler.
+ *
+ * @param handler - Handler for authorized requests
+ * @returns Handler that responds 401 `UNAUTHORIZED` to everyone else
+ */
+export function requireAdmin(handler: RouteHandler): RouteHandler {
+  return async (req, context) => {
+    if (!isAdminRequest(req.headers)) {
+      context.log.warn('Rejected admin request');
+      return errorResponse(401, 'UNAUTHORIZED', 'Missing or invalid admin token');
+    }
+    return handler(req, context);
+  };
+}
+
+/**
+ * Applies a moderation action to an entry's moderation state.
+ *
+ * @param current - Current moderation state (empty for unmoderated entries)
+ * @param action - Action to apply
+ * @param note - Note for `annotate`; an empty note clears it
+ * @param now - Time of the change
+ * @returns New moderation state
+ */
+export function applyModerationAction(
+  current: EntryModeration,
+  action: ModerationAction,
+  note: string | undefined,
+  now: Date
+): EntryModeration {
+  const next: EntryModeration = { ...current, updatedAt: now };
+
+  switch (action) {
+    case 'hide':
+      next.hidden = true;
+      break;
+    case 'unhide':
+      next.hidden = false;
+      break;
+    case 'flag':
+      next.flagged = true;
+      break;
+    case 'unflag':
+      next.flagged = false;
+      break;
+    case 'annotate':
+      if (note) {
+        next.note = note;
+      } else {
+        delete next.note;
+      }
+      break;
+  }
+
+  return next;
+}
+
+export interface ModerationRequest {
+  entryId: string;
+  action: ModerationAction;
+  note?: string;
+  reason?: string;
+  actor?: string;
+}
+
+/**
+ * Moderates a leaderboard entry and records the action in the audit log.
+ *
+ * @param request - Entry, action and optional note, reason and actor
+ * @returns The entry's new moderation state, or null if the entry does not exist
+ */
+export async function moderateEntry(request: ModerationRequest): Promise<EntryModeration | null> {
+  const { leaderboard, moderationAudit } = getRepositories();
+
+  const entry = await leaderboard.findById(request.entryId);
+  if (!entry) {
+    return null;
+  }
+
+  const now = new Date();
+  const before = entry.moderation ?? {};
+  const after = applyModerationAction(before, request.action, request.note, now);
+
+  if (!(await leaderboard.setModeration(request.entryId, after))) {
+    return null;
+  }
+
+  await moderationAudit.insert({
+    entryId: request.entryId,
+    action: request.action,
+    ...(request.actor ? { actor: request.actor } : {}),
+    ...(request.reason ? { reason: request.reason } : {}),
+    before,
+    after,
+    createdAt: now,
+  });
+
+  return after;
+}
@@ -1,5 +1,6 @@
 import { MongoClient, Db, Collection, ObjectId } from 'mongodb';
 import { getMongoConfig } from './config';
+import { logger } from './logger';
 
 let cachedClient: MongoClient | null = null;
 let cachedDb: Db | null = null;
@@ -13,11 +14,12 @@ export interface LeaderboardEntry {
   history: string[];
   createdAt: Date;
   /**
-   * Game type: 'random' for random games, 'repeat' for repeat/linked games.
+   * Game type: 'random' for random games, 'repeat' for repeat/linked games,
+   * 'daily' for daily challenge games.
    * Optional field, defaults to 'random' if not provided.
    * Terminology updated from 'fresh'/'linked' to 'random'/'repeat'.
    */
-  gameType?: 'random' | 'repeat';
+  gameType?: 'random' | 'repeat' | 'daily';
   /**
    * 16-character URL-safe hash ID uniquely identifying this leaderboard entry.
    * For repeat games, this references the game in the generated-games collection.
@@ -29,6 +31,51 @@ export interface LeaderboardEntry {
    * @deprecated Use bingopediaGame instead. This field is kept for backward compatibility with old entries.
    */
   bingoSquares?: string[];
+  /**
+   * Moderation state, set through `/api/admin/moderation`. Never included in public responses.
+   */
+  moderation?: EntryModeration;
+}
+
+export interface EntryModeration {
+  /**
+   * Hidden entries are excluded from every public leaderboard query.
+   */
+  hidden?: boolean;
+  /**
+   * Flagged entries stay visible but are marked for review.
+   */
+  flagged?: boolean;
+  /**
+   * Moderator note (e.g., why the entry was hidden).
+   */
+  note?: string;
+  updatedAt?: Date;
+}
+
+export type ModerationAction = 'hide' | 'unhide' | 'flag' | 'unflag' | 'annotate';
+
+/**
+ * Audit record written for every moderation action.
+ */
+export interface ModerationAuditRecord {
+  _id?: ObjectId;
+  /**
+   * `_id` of the moderated leaderboard entry.
+   */
+  entryId: string;
+  action: ModerationAction;
+  /**
+   * Name of the maintainer who made the change, if given.
+   */
+  actor?: string;
+  reason?: string;
+  /**
+   * Moderation state before and after the action.
+   */
+  before: EntryModeration;
+  after: EntryModeration;
+  createdAt: Date;
 }
 
 export interface GeneratedGame {
@@ -45,11 +92,114 @@ export interface GeneratedGame {
   timesPlayed: number;
   /**
    * Source of the game: 'leaderboard' for games synced from leaderboard entries,
-   * 'generated' for games created via the shareable game feature.
+   * 'generated' for games created via the shareable game feature,
+   * 'daily' for daily challenge boards,
+   * 'custom' for boards built by a player in the board builder.
+   */
+  source?: 'leaderboard' | 'generated' | 'daily' | 'custom';
+  /**
+   * UTC day (`YYYY-MM-DD`) of a daily challenge board.
+   */
+  dailyDate?: string;
+  /**
+   * Optional details from the creator of a shared board (sanitized like usernames).
    */
-  source?: 'leaderboard' | 'generated';
+  title?: string;
+  creatorName?: string;
+  description?: string;
+  /**
+   * When the board expires if nobody has played it (see `api/gameRetention.ts`). Set on
+   * boards created with `POST /api/games`; cleared by the first play and by pinning.
+   */
+  expiresAt?: Date;
+  /**
+   * Featured board kept regardless of plays. Daily challenge boards never expire either.
+   */
+  pinned?: boolean;
 }
 
+/**
+ * Record of a board removed by the retention cleanup, so its link answers
+ * `410 BOARD_EXPIRED` instead of `404`.
+ */
+export interface ExpiredGame {
+  _id?: ObjectId;
+  link: string;
+  /**
+   * When the board was created.
+   */
+  createdAt: Date;
+  /**
+   * When the cleanup removed it.
+   */
+  expiredAt: Date;
+}
+
+export interface GameSession {
+  _id?: ObjectId;
+  /**
+   * Random identifier embedded in the signed session token.
+   */
+  sessionId: string;
+  /**
+   * 26 article titles recorded when the game started: 25 grid squares + starting article.
+   */
+  bingopediaGame: string[];
+  /**
+   * Link of the generated game being played, for repeat games.
+   */
+  generatedGame?: string;
+  /**
+   * Game type recorded on the leaderboard entry. Set to 'daily' for daily challenge boards;
+   * otherwise derived from `generatedGame`.
+   */
+  gameType?: 'daily';
+  startedAt: Date;
+  expiresAt: Date;
+  /**
+   * Set when the session is consumed by a leaderboard submission. A session can only be used once.
+   */
+  usedAt?: Date;
+}
+
+export interface UsernameClaim {
+  _id?: ObjectId;
+  /**
+   * Username as first submitted (after sanitization).
+   */
+  username: string;
+  /**
+   * Lowercase username used for lookups, so claims are case-insensitive.
+   */
+  usernameKey: string;
+  /**
+   * SHA-256 hash of the ownership key. The key itself is only returned to the claimant.
+   */
+  keyHash: string;
+  claimedAt: Date;
+}
+
+/**
+ * Index keys created by the collection getters below, per collection. `/api/ready` reports
+ * any that are missing. Keep in sync with the `createIndex` calls.
+ */
+export const REQUIRED_INDEXES: Record<string, Record<string, 1 | -1>[]> = {
+  leaderboard: [
+    { score: -1, createdAt: 1 },
+    { gameType: 1, score: 1, createdAt: 1 },
+    { createdAt: -1 },
+    { createdAt: -1, score: 1 },
+    { generatedGame: 1, score: 1, createdAt: 1 },
+    { 'moderation.flagged': 1 },
+    { username: 1, createdAt: -1 },
+  ],
+  'generated-games': [{ link: 1 }, { createdAt: -1 }, { timesPlayed: -1, createdAt: -1 }, { expiresAt: 1 }],
+  'expired-games': [{ link: 1 }],
+  'game-sessions': [{ sessionId: 1 }, { expiresAt: 1 }],
+  'username-claims': [{ usernameKey: 1 }],
+  'moderation-audit': [{ createdAt: -1 }, { entryId: 1, createdAt: -1 }],
+};
+
 /**
  * Gets or creates a MongoDB collection connection for leaderboard entries.
  *
@@ -96,8 +246,15 @@ export async function getLeaderboardCollection(): Promise<Collection<Leaderboard
     await db.collection(collectionName).createIndex({ gameType: 1, score: 1, createdAt: 1 });
     await db.collection(collectionName).createIndex({ createdAt: -1 });
     await db.collection(collectionName).createIndex({ createdAt: -1, score: 1 });
+    await db.collection(collectionName).createIndex({ generatedGame: 1, score: 1, createdAt: 1 });
+    // Case-insensitive collation, matching player profile lookups
+    await db.collection(collectionName).createIndex({ 'moderation.flagged': 1 }, { sparse: true });
+    await db.collection(collectionName).createIndex(
+      { username: 1, createdAt: -1 },
+      { collation: { locale: 'en', strength: 2 } }
+    );
   } catch (error) {
-    console.log('Index creation note:', (error as Error).message);
+    logger.warn('Index creation failed', { error: (error as Error).message });
   }
 
   cachedClient = client;
@@ -150,8 +307,12 @@ export async function getGamesCollection(): Promise<Collection<GeneratedGame>> {
   try {
     await db.collection('generated-games').createIndex({ link: 1 }, { unique: true });
     await db.collection('generated-games').createIndex({ createdAt: -1 });
+    await db.collection('generated-games').createIndex({ timesPlayed: -1, createdAt: -1 });
+    // Not a TTL index: the retention cleanup checks for leaderboard entries and keeps a record
+    // of each removed link (see `api/gameRetention.ts`)
+    await db.collection('generated-games').createIndex({ expiresAt: 1 }, { sparse: true });
   } catch (error) {
-    console.log('Index creation note:', (error as Error).message);
+    logger.warn('Index creation failed', { error: (error as Error).message });
   }
 
   cachedClient = client;
@@ -211,3 +372,253 @@ export async function getLoggingCollection(): Promise<Collection<Record<string,
 }
 
 
+
+/**
+ * Gets or creates a MongoDB collection connection for game sessions.
+ *
+ * Uses connection caching to reuse existing connections across requests for better performance.
+ * Automatically creates a unique index on `sessionId` and a TTL index on `expiresAt` so
+ * expired sessions are removed by MongoDB.
+ *
+ * @returns Promise that resolves to the game-sessions collection
+ * @throws {Error} If MongoDB configuration is missing or connection fails
+ *
+ * @remarks
+ * - Connection is cached and reused across requests
+ * - Connection health is checked with a ping before reuse
+ * - If connection fails, a new connection is established
+ * - Index creation is attempted but errors are logged, not thrown
+ *
+ * @example
+ * ```typescript
+ * const collection = await getSessionsCollection();
+ * const session = await collection.findOne({ sessionId });
+ * ```
+ */
+export async function getSessionsCollection(): Promise<Collection<GameSession>> {
+  if (cachedClient && cachedDb) {
+    try {
+      await cachedDb.command({ ping: 1 });
+      return cachedDb.collection<GameSession>('game-sessions');
+    } catch {
+      cachedClient = null;
+      cachedDb = null;
+    }
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: 10000,
+    connectTimeoutMS: 10000,
+  });
+
+  await client.connect();
+  const db = client.db(dbName);
+
+  try {
+    await db.collection('game-sessions').createIndex({ sessionId: 1 }, { unique: true });
+    await db.collection('game-sessions').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  } catch (error) {
+    logger.warn('Index creation failed', { error: (error as Error).message });
+  }
+
+  cachedClient = client;
+  cachedDb = db;
+
+  return db.collection<GameSession>('game-sessions');
+}
+
+/**
+ * Gets or creates a MongoDB collection connection for username claims.
+ *
+ * Uses connection caching to reuse existing connections across requests for better performance.
+ * Automatically creates a unique index on `usernameKey` so a name can only be claimed once.
+ *
+ * @returns Promise that resolves to the username-claims collection
+ * @throws {Error} If MongoDB configuration is missing or connection fails
+ *
+ * @remarks
+ * - Connection is cached and reused across requests
+ * - Connection health is checked with a ping before reuse
+ * - If connection fails, a new connection is established
+ * - Index creation is attempted but errors are logged, not thrown
+ *
+ * @example
+ * ```typescript
+ * const collection = await getUsernameClaimsCollection();
+ * const claim = await collection.findOne({ usernameKey: 'alice' });
+ * ```
+ */
+export async function getUsernameClaimsCollection(): Promise<Collection<UsernameClaim>> {
+  if (cachedClient && cachedDb) {
+    try {
+      await cachedDb.command({ ping: 1 });
+      return cachedDb.collection<UsernameClaim>('username-claims');
+    } catch {
+      cachedClient = null;
+      cachedDb = null;
+    }
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: 10000,
+    connectTimeoutMS: 10000,
+  });
+
+  await client.connect();
+  const db = client.db(dbName);
+
+  try {
+    await db.collection('username-claims').createIndex({ usernameKey: 1 }, { unique: true });
+  } catch (error) {
+    logger.warn('Index creation failed', { error: (error as Error).message });
+  }
+
+  cachedClient = client;
+  cachedDb = db;
+
+  return db.collection<UsernameClaim>('username-claims');
+}
+
+/**
+ * Gets or creates a MongoDB collection connection for the moderation audit log.
+ *
+ * Uses connection caching to reuse existing connections across requests for better performance.
+ * Automatically creates indexes for listing recent actions, overall and per entry.
+ *
+ * @returns Promise that resolves to the moderation-audit collection
+ * @throws {Error} If MongoDB configuration is missing or connection fails
+ *
+ * @remarks
+ * - Connection is cached and reused across requests
+ * - Connection health is checked with a ping before reuse
+ * - If connection fails, a new connection is established
+ * - Index creation is attempted but errors are logged, not thrown
+ * - Records are append-only; nothing updates or deletes them
+ *
+ * @example
+ * ```typescript
+ * const collection = await getModerationAuditCollection();
+ * const history = await collection.find({ entryId }).sort({ createdAt: -1 }).toArray();
+ * ```
+ */
+export async function getModerationAuditCollection(): Promise<Collection<ModerationAuditRecord>> {
+  if (cachedClient && cachedDb) {
+    try {
+      await cachedDb.command({ ping: 1 });
+      return cachedDb.collection<ModerationAuditRecord>('moderation-audit');
+    } catch {
+      cachedClient = null;
+      cachedDb = null;
+    }
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: 10000,
+    connectTimeoutMS: 10000,
+  });
+
+  await client.connect();
+  const db = client.db(dbName);
+
+  try {
+    await db.collection('moderation-audit').createIndex({ createdAt: -1 });
+    await db.collection('moderation-audit').createIndex({ entryId: 1, createdAt: -1 });
+  } catch (error) {
+    logger.warn('Index creation failed', { error: (error as Error).message });
+  }
+
+  cachedClient = client;
+  cachedDb = db;
+
+  return db.collection<ModerationAuditRecord>('moderation-audit');
+}
+
+/**
+ * Gets or creates a MongoDB collection connection for the links of expired boards.
+ *
+ * Uses connection caching to reuse existing connections across requests for better performance.
+ * Automatically creates a unique index on `link`.
+ *
+ * @returns Promise that resolves to the expired-games collection
+ * @throws {Error} If MongoDB configuration is missing or connection fails
+ *
+ * @remarks
+ * - Connection is cached and reused across requests
+ * - Connection health is checked with a ping before reuse
+ * - If connection fails, a new connection is established
+ * - Index creation is attempted but errors are logged, not thrown
+ *
+ * @example
+ * ```typescript
+ * const collection = await getExpiredGamesCollection();
+ * const expired = await collection.findOne({ link });
+ * ```
+ */
+export async function getExpiredGamesCollection(): Promise<Collection<ExpiredGame>> {
+  if (cachedClient && cachedDb) {
+    try {
+      await cachedDb.command({ ping: 1 });
+      return cachedDb.collection<ExpiredGame>('expired-games');
+    } catch {
+      cachedClient = null;
+      cachedDb = null;
+    }
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: 10000,
+    connectTimeoutMS: 10000,
+  });
+
+  await client.connect();
+  const db = client.db(dbName);
+
+  try {
+    await db.collection('expired-games').createIndex({ link: 1 }, { unique: true });
+  } catch (error) {
+    logger.warn('Index creation failed', { error: (error as Error).message });
+  }
+
+  cachedClient = client;
+  cachedDb = db;
+
+  return db.collection<ExpiredGame>('expired-games');
+}
+
+/**
+ * Gets or creates the cached MongoDB database connection, without creating any indexes.
+ *
+ * Used for health checks that are not tied to one collection.
+ *
+ * @returns Promise that resolves to the `bingopedia` database
+ * @throws {Error} If MongoDB configuration is missing or connection fails
+ */
+export async function getDatabase(): Promise<Db> {
+  if (cachedClient && cachedDb) {
+    try {
+      await cachedDb.command({ ping: 1 });
+      return cachedDb;
+    } catch {
+      cachedClient = null;
+      cachedDb = null;
+    }
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri, {
+    serverSelectionTimeoutMS: 10000,
+    connectTimeoutMS: 10000,
+  });
+
+  await client.connect();
+  const db = client.db(dbName);
+
+  cachedClient = client;
+  cachedDb = db;
+
+  return db;
+}
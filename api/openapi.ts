@@ -0,0 +1,605 @@
+import {
+  GAME_EVENT_SCHEMAS,
+  GAME_EVENT_TYPES,
+  MAX_EVENT_BATCH_SIZE,
+  MAX_EVENT_STRING_LENGTH,
+  type EventSchema,
+  type FieldType,
+  type GameEventType,
+} from '../shared/gameEvents';
+import { BOARD_DETAILS_MAX_LENGTH, ERROR_CODES } from '../shared/contracts';
+import packageJson from '../package.json';
+
+/**
+ * OpenAPI 3.0 description of the public game and leaderboard API.
+ *
+ * This document is the single source for:
+ * - runtime request validation (`api/requestValidation.ts`)
+ * - the client types in `shared/apiTypes.ts` and the JSON copy in `docs/api/openapi.json`,
+ *   both written by `npm run generate:api-types`
+ *
+ * Schemas may carry two extensions used by the validator to keep error messages readable:
+ * - `x-error-message`: message for any error on the value (or for it being missing)
+ * - `x-error-messages`: messages per JSON Schema keyword (e.g. `required`), where `{field}`
+ *   is replaced with the offending field name
+ *
+ * Event schemas are built from `GAME_EVENT_SCHEMAS` so the app and the API keep one registry.
+ */
+
+export type SchemaObject = { [keyword: string]: unknown };
+
+export interface ParameterObject {
+  name: string;
+  in: 'query' | 'path';
+  required?: boolean;
+  description?: string;
+  schema: SchemaObject;
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  parameters?: ParameterObject[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: SchemaObject } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: SchemaObject } } }>;
+}
+
+const ref = (name: string): SchemaObject => ({ $ref: `#/components/schemas/${name}` });
+
+const json = (schema: SchemaObject) => ({ 'application/json': { schema } });
+
+const ERROR_DESCRIPTIONS: Record<string, string> = {
+  '400': 'Invalid request',
+  '401': 'Invalid or used game session',
+  '403': 'Username claimed by another player',
+  '404': 'Not found',
+  '410': 'Board expired',
+  '500': 'Server error',
+  '503': 'Upstream service unavailable',
+};
+
+const errorResponses = (...statuses: string[]) =>
+  Object.fromEntries(
+    statuses.map((status) => [status, { description: ERROR_DESCRIPTIONS[status], content: json(ref('ApiError')) }])
+  );
+
+/**
+ * 16-character URL-safe game link (see `api/hashedId.ts`).
+ */
+const GAME_LINK_PATTERN = '^[A-Za-z0-9_-]{16}$';
+
+const BOARD_SIZE = 26;
+
+const LEADERBOARD_SORT_FIELDS = ['score', 'clicks', 'time', 'createdAt', 'username'];
+
+const BOARD_LIST_SORTS = ['popular', 'recent', 'trending'];
+
+/**
+ * Largest page size of the board lists.
+ */
+export const MAX_BOARD_LIST_LIMIT = 50;
+
+/**
+ * Days of leaderboard entries counted by the trending board list.
+ */
+export const TRENDING_WINDOW_DAYS = 7;
+
+/**
+ * Optional text the creator of a shared board can attach to it.
+ */
+const BOARD_DETAILS_PROPERTIES: Record<string, SchemaObject> = {
+  title: { type: 'string', description: `Board title (at most ${BOARD_DETAILS_MAX_LENGTH.title} characters)` },
+  creatorName: {
+    type: 'string',
+    description: `Display name of the board's creator (at most ${BOARD_DETAILS_MAX_LENGTH.creatorName} characters)`,
+  },
+  description: {
+    type: 'string',
+    description: `Short description of the board (at most ${BOARD_DETAILS_MAX_LENGTH.description} characters)`,
+  },
+};
+
+function eventFieldSchema(event: string, field: string, type: FieldType): SchemaObject {
+  const schema: SchemaObject =
+    typeof type !== 'string'
+      ? { type: 'string', enum: [...type] }
+      : type === 'string'
+        ? { type: 'string', minLength: 1, maxLength: MAX_EVENT_STRING_LENGTH }
+        : { type };
+  const expected = typeof type === 'string' ? type : `one of: ${type.join(', ')}`;
+  return { ...schema, 'x-error-message': `Invalid ${field} for ${event}. Expected ${expected}` };
+}
+
+/**
+ * Type name of an event schema, e.g. `game_started` → `GameStartedEvent`.
+ */
+function eventSchemaName(event: GameEventType): string {
+  return `${event.replace(/(^|_)(\w)/g, (_match, _separator, letter: string) => letter.toUpperCase())}Event`;
+}
+
+function eventSchema(event: GameEventType): SchemaObject {
+  const { required, optional }: EventSchema = GAME_EVENT_SCHEMAS[event];
+  const fields = { ...required, ...optional };
+
+  return {
+    title: eventSchemaName(event),
+    type: 'object',
+    description: `\`${event}\` analytics event`,
+    required: ['event', 'timestamp', ...Object.keys(required)],
+    properties: {
+      event: { type: 'string', enum: [event] },
+      timestamp: {
+        type: 'string',
+        format: 'date-time',
+        'x-error-message': 'Invalid timestamp format. Expected ISO date string',
+      },
+      ...Object.fromEntries(Object.entries(fields).map(([field, type]) => [field, eventFieldSchema(event, field, type)])),
+    },
+    additionalProperties: false,
+    'x-error-messages': {
+      required: `Missing required field for ${event}: {field}`,
+      additionalProperties: `Unknown field for ${event}: {field}`,
+    },
+  };
+}
+
+const schemas: Record<string, SchemaObject> = {
+  ApiError: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: {
+        type: 'object',
+        required: ['code', 'message'],
+        properties: {
+          code: {
+            type: 'string',
+            enum: [...ERROR_CODES],
+          },
+          message: { type: 'string' },
+          details: { description: 'Only included when NODE_ENV=development' },
+        },
+      },
+    },
+  },
+  GameType: {
+    type: 'string',
+    enum: ['random', 'repeat', 'daily'],
+  },
+  Board: {
+    type: 'array',
+    description: '25 grid squares followed by the starting article',
+    items: { type: 'string' },
+    minItems: BOARD_SIZE,
+    maxItems: BOARD_SIZE,
+    'x-error-message': `bingopediaGame must be an array with exactly ${BOARD_SIZE} elements`,
+  },
+  GeneratedGame: {
+    type: 'object',
+    description: 'A shareable board. Boards never change, so lookups are cacheable indefinitely',
+    required: ['link', 'bingopediaGame', 'createdAt'],
+    properties: {
+      link: { type: 'string', pattern: GAME_LINK_PATTERN },
+      bingopediaGame: ref('Board'),
+      createdAt: { type: 'string', format: 'date-time' },
+      source: { type: 'string', enum: ['leaderboard', 'generated', 'daily', 'custom'] },
+      dailyDate: { type: 'string', format: 'date', description: 'UTC day of a daily challenge board' },
+      ...BOARD_DETAILS_PROPERTIES,
+    },
+  },
+  GamePlays: {
+    type: 'object',
+    required: ['link', 'timesPlayed'],
+    properties: {
+      link: { type: 'string', pattern: GAME_LINK_PATTERN },
+      timesPlayed: { type: 'integer', description: 'Leaderboard submissions replaying the board' },
+    },
+  },
+  BoardSummary: {
+    type: 'object',
+    description: 'A board in the community board lists',
+    required: ['link', 'bingopediaGame', 'createdAt', 'timesPlayed', 'bestScore'],
+    properties: {
+      link: { type: 'string', pattern: GAME_LINK_PATTERN },
+      bingopediaGame: ref('Board'),
+      createdAt: { type: 'string', format: 'date-time' },
+      timesPlayed: { type: 'integer', description: 'Leaderboard submissions replaying the board' },
+      bestScore: { type: 'number', nullable: true, description: 'Best (lowest) score, or null if nobody has finished the board' },
+      recentPlays: {
+        type: 'integer',
+        description: `Leaderboard entries in the last ${TRENDING_WINDOW_DAYS} days (trending list only)`,
+      },
+      ...BOARD_DETAILS_PROPERTIES,
+    },
+  },
+  BoardListPage: {
+    type: 'object',
+    required: ['boards', 'pagination', 'sort'],
+    properties: {
+      boards: { type: 'array', items: ref('BoardSummary') },
+      pagination: {
+        type: 'object',
+        required: ['page', 'limit', 'totalCount', 'totalPages'],
+        properties: {
+          page: { type: 'integer' },
+          limit: { type: 'integer' },
+          totalCount: { type: 'integer' },
+          totalPages: { type: 'integer' },
+        },
+      },
+      sort: { type: 'string', enum: BOARD_LIST_SORTS },
+    },
+  },
+  CreateGameRequest: {
+    type: 'object',
+    required: ['bingopediaGame'],
+    properties: {
+      bingopediaGame: ref('Board'),
+      source: {
+        type: 'string',
+        enum: ['generated', 'custom'],
+        default: 'generated',
+        description:
+          "'custom' for boards built by a player: titles must be existing, distinct articles that aren't disambiguation pages",
+      },
+      ...BOARD_DETAILS_PROPERTIES,
+    },
+    'x-error-messages': { required: `bingopediaGame must be an array with exactly ${BOARD_SIZE} elements` },
+  },
+  LeaderboardEntry: {
+    type: 'object',
+    required: ['username', 'score', 'time', 'clicks', 'createdAt'],
+    properties: {
+      _id: { type: 'string' },
+      username: { type: 'string' },
+      score: { type: 'number' },
+      time: { type: 'number' },
+      clicks: { type: 'integer' },
+      bingopediaGame: { type: 'array', items: { type: 'string' } },
+      history: { type: 'array', items: { type: 'string' } },
+      createdAt: { type: 'string', format: 'date-time' },
+      gameType: ref('GameType'),
+      generatedGame: { type: 'string', description: 'Link of the board this entry was played on' },
+      bingoSquares: {
+        type: 'array',
+        items: { type: 'string' },
+        deprecated: true,
+        description: 'Use bingopediaGame instead; only present on old entries',
+      },
+    },
+  },
+  LeaderboardPage: {
+    type: 'object',
+    required: ['users', 'pagination', 'sort'],
+    properties: {
+      users: { type: 'array', items: ref('LeaderboardEntry') },
+      pagination: {
+        type: 'object',
+        required: ['page', 'limit', 'totalCount', 'totalPages'],
+        properties: {
+          page: { type: 'integer' },
+          limit: { type: 'integer' },
+          totalCount: { type: 'integer' },
+          totalPages: { type: 'integer' },
+        },
+      },
+      sort: {
+        type: 'object',
+        required: ['sortBy', 'sortOrder'],
+        properties: {
+          sortBy: { type: 'string', enum: LEADERBOARD_SORT_FIELDS },
+          sortOrder: { type: 'string', enum: ['asc', 'desc'] },
+        },
+      },
+    },
+  },
+  SubmitScoreRequest: {
+    type: 'object',
+    required: ['username', 'score'],
+    properties: {
+      username: { type: 'string' },
+      score: { type: 'number', description: 'Ignored; the score is recalculated from time and clicks' },
+      time: { type: 'number' },
+      clicks: { type: 'integer' },
+      history: { type: 'array', items: { type: 'string' } },
+      bingopediaGame: { type: 'array', items: { type: 'string' } },
+      bingoSquares: { type: 'array', items: { type: 'string' }, deprecated: true, description: 'Ignored' },
+      generatedGame: { type: 'string' },
+      gameType: ref('GameType'),
+      sessionToken: { type: 'string', description: 'Token from POST /api/sessions' },
+      ownershipKey: { type: 'string', description: 'Required for claimed usernames' },
+    },
+    'x-error-messages': { required: 'Username and score are required' },
+  },
+  SubmittedEntry: {
+    allOf: [
+      ref('LeaderboardEntry'),
+      {
+        type: 'object',
+        properties: {
+          ownershipKey: { type: 'string', description: 'Only returned when the submission claimed the username' },
+        },
+      },
+    ],
+  },
+  GameEvent: {
+    type: 'object',
+    required: ['event'],
+    discriminator: { propertyName: 'event' },
+    oneOf: GAME_EVENT_TYPES.map(eventSchema),
+    'x-error-message': `Invalid event type. Must be one of: ${GAME_EVENT_TYPES.join(', ')}`,
+  },
+  GameEventBatch: {
+    type: 'object',
+    required: ['events'],
+    properties: {
+      events: {
+        type: 'array',
+        items: ref('GameEvent'),
+        minItems: 1,
+        maxItems: MAX_EVENT_BATCH_SIZE,
+        'x-error-message': `events must contain between 1 and ${MAX_EVENT_BATCH_SIZE} events`,
+      },
+    },
+  },
+  GameEventBatchResult: {
+    type: 'object',
+    required: ['index', 'accepted'],
+    properties: {
+      index: { type: 'integer' },
+      accepted: { type: 'boolean' },
+      error: { type: 'string', description: 'Why the event was rejected' },
+      field: { type: 'string' },
+    },
+  },
+  LoggingResponse: {
+    type: 'object',
+    required: ['success'],
+    properties: {
+      success: { type: 'boolean' },
+      accepted: { type: 'integer', description: 'Batch requests only' },
+      rejected: { type: 'integer', description: 'Batch requests only' },
+      results: { type: 'array', items: ref('GameEventBatchResult'), description: 'Batch requests only' },
+    },
+  },
+};
+
+const NOT_MODIFIED = { '304': { description: 'Not modified (`If-None-Match` or `If-Modified-Since` matched)' } };
+
+const gameLinkParameter = (name: string, location: 'query' | 'path', message: string): ParameterObject => ({
+  name,
+  in: location,
+  required: true,
+  description: '16-character game link',
+  schema: { type: 'string', pattern: GAME_LINK_PATTERN, 'x-error-message': message },
+});
+
+const boardListOperation = (operationId: string, summary: string): OperationObject => ({
+  operationId,
+  summary,
+  parameters: [
+    {
+      name: 'limit',
+      in: 'query',
+      schema: {
+        type: 'integer',
+        minimum: 1,
+        maximum: MAX_BOARD_LIST_LIMIT,
+        default: 12,
+        'x-error-message': `limit must be an integer between 1 and ${MAX_BOARD_LIST_LIMIT}`,
+      },
+    },
+    {
+      name: 'page',
+      in: 'query',
+      schema: { type: 'integer', minimum: 1, default: 1, 'x-error-message': 'page must be a positive integer' },
+    },
+  ],
+  responses: {
+    '200': { description: 'One page of boards', content: json(ref('BoardListPage')) },
+    ...NOT_MODIFIED,
+    ...errorResponses('400', '500'),
+  },
+});
+
+const paths: Record<string, Record<string, OperationObject>> = {
+  '/api/games': {
+    get: {
+      operationId: 'getGame',
+      summary: 'Get a shareable game by link',
+      parameters: [gameLinkParameter('link', 'query', 'Invalid game link format. Expected 16-character link hash')],
+      responses: {
+        '200': { description: 'The game', content: json(ref('GeneratedGame')) },
+        ...NOT_MODIFIED,
+        ...errorResponses('400', '404', '410', '500'),
+      },
+    },
+    post: {
+      operationId: 'createGame',
+      summary: 'Create a shareable game from a 26-title board, with an optional title, creator name and description',
+      requestBody: { required: true, content: json(ref('CreateGameRequest')) },
+      responses: {
+        '201': { description: 'The created board', content: json(ref('GeneratedGame')) },
+        ...errorResponses('400', '500', '503'),
+      },
+    },
+  },
+  '/api/games/popular': {
+    get: boardListOperation('listPopularGames', 'Most replayed boards (daily challenge boards excluded)'),
+  },
+  '/api/games/recent': {
+    get: boardListOperation('listRecentGames', 'Newest boards (daily challenge boards excluded)'),
+  },
+  '/api/games/trending': {
+    get: boardListOperation(
+      'listTrendingGames',
+      `Boards with the most leaderboard entries in the last ${TRENDING_WINDOW_DAYS} days (daily challenge boards excluded)`
+    ),
+  },
+  '/api/games/{hashedId}': {
+    get: {
+      operationId: 'getGameByHashedId',
+      summary: 'Get a shareable game by link (path form)',
+      parameters: [
+        gameLinkParameter('hashedId', 'path', 'Invalid game identifier format. Expected 16-character link hash'),
+      ],
+      responses: {
+        '200': { description: 'The game', content: json(ref('GeneratedGame')) },
+        ...NOT_MODIFIED,
+        ...errorResponses('400', '404', '410', '500'),
+      },
+    },
+  },
+  '/api/games/{hashedId}/plays': {
+    get: {
+      operationId: 'getGamePlays',
+      summary: 'How many times a board has been replayed',
+      parameters: [gameLinkParameter('hashedId', 'path', 'Invalid game link format. Expected 16-character link hash')],
+      responses: {
+        '200': { description: 'Play count', content: json(ref('GamePlays')) },
+        ...NOT_MODIFIED,
+        ...errorResponses('400', '404', '410', '500'),
+      },
+    },
+  },
+  '/api/leaderboard': {
+    get: {
+      operationId: 'getLeaderboard',
+      summary: 'Paginated, sorted and filtered leaderboard',
+      parameters: [
+        {
+          name: 'limit',
+          in: 'query',
+          schema: { type: 'integer', minimum: 1, default: 10, 'x-error-message': 'limit must be a positive integer' },
+        },
+        {
+          name: 'page',
+          in: 'query',
+          schema: { type: 'integer', minimum: 1, default: 1, 'x-error-message': 'page must be a positive integer' },
+        },
+        {
+          name: 'sortBy',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: LEADERBOARD_SORT_FIELDS,
+            default: 'score',
+            'x-error-message': `sortBy must be one of: ${LEADERBOARD_SORT_FIELDS.join(', ')}`,
+          },
+        },
+        {
+          name: 'sortOrder',
+          in: 'query',
+          schema: { type: 'string', enum: ['asc', 'desc'], default: 'asc', 'x-error-message': "sortOrder must be 'asc' or 'desc'" },
+        },
+        {
+          name: 'dateFrom',
+          in: 'query',
+          description: 'ISO date or date-time; entries created at or after it',
+          schema: {
+            type: 'string',
+            format: 'date-time',
+            'x-error-message': 'Invalid dateFrom format. Expected ISO date string (e.g., 2024-01-01T00:00:00Z)',
+          },
+        },
+        {
+          name: 'dateTo',
+          in: 'query',
+          description: 'ISO date or date-time; entries created at or before it',
+          schema: {
+            type: 'string',
+            format: 'date-time',
+            'x-error-message': 'Invalid dateTo format. Expected ISO date string (e.g., 2024-01-31T23:59:59Z)',
+          },
+        },
+        {
+          name: 'gameType',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: ['random', 'repeat', 'daily', 'all'],
+            default: 'random',
+            'x-error-message': "gameType must be 'random', 'repeat', 'daily', or 'all'",
+          },
+        },
+        {
+          name: 'dailyDate',
+          in: 'query',
+          description: "UTC day (YYYY-MM-DD) selecting that day's daily challenge board",
+          schema: { type: 'string', format: 'date', 'x-error-message': 'Invalid dailyDate format. Expected YYYY-MM-DD' },
+        },
+      ],
+      responses: {
+        '200': { description: 'One page of entries', content: json(ref('LeaderboardPage')) },
+        ...NOT_MODIFIED,
+        ...errorResponses('400', '500'),
+      },
+    },
+    post: {
+      operationId: 'submitScore',
+      summary: 'Submit a finished game',
+      requestBody: { required: true, content: json(ref('SubmitScoreRequest')) },
+      responses: {
+        '201': { description: 'The stored entry', content: json(ref('SubmittedEntry')) },
+        ...errorResponses('400', '401', '403', '500'),
+      },
+    },
+  },
+  '/api/logging': {
+    post: {
+      operationId: 'logEvents',
+      summary: `Log one analytics event or a batch of up to ${MAX_EVENT_BATCH_SIZE}`,
+      requestBody: {
+        required: true,
+        content: json({ oneOf: [ref('GameEvent'), ref('GameEventBatch')] }),
+      },
+      responses: {
+        '200': {
+          description: 'Events validated; invalid events in a batch are reported in `results` and skipped',
+          content: json(ref('LoggingResponse')),
+        },
+        ...errorResponses('400', '503'),
+      },
+    },
+  },
+};
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Bingopedia API',
+    version: packageJson.version,
+  },
+  paths,
+  components: { schemas },
+};
+
+export type OperationId =
+  | 'getGame'
+  | 'createGame'
+  | 'getGameByHashedId'
+  | 'getGamePlays'
+  | 'listPopularGames'
+  | 'listRecentGames'
+  | 'listTrendingGames'
+  | 'getLeaderboard'
+  | 'submitScore'
+  | 'logEvents';
+
+/**
+ * Finds an operation in the document.
+ *
+ * @param operationId - Operation ID
+ * @returns The operation
+ * @throws Error if the document has no such operation
+ */
+export function getOperation(operationId: OperationId): OperationObject {
+  for (const methods of Object.values(paths)) {
+    for (const operation of Object.values(methods)) {
+      if (operation.operationId === operationId) {
+        return operation;
+      }
+    }
+  }
+  throw new Error(`Unknown operation: ${operationId}`);
+}
@@ -0,0 +1,114 @@
+import type { LeaderboardEntry } from './mongoClient';
+
+const FOUND_PREFIX = '[Found] ';
+
+/**
+ * Number of articles listed in `topArticles`.
+ */
+export const TOP_ARTICLE_COUNT = 10;
+
+/**
+ * One point of a player's score trend.
+ */
+export interface ScoreTrendPoint {
+  createdAt: Date;
+  score: number;
+  gameType: 'random' | 'repeat' | 'daily';
+}
+
+/**
+ * Aggregate statistics for one player's leaderboard entries.
+ */
+export interface PlayerStats {
+  gamesPlayed: number;
+  /**
+   * Best (lowest) score, or null if the player has no entries.
+   */
+  bestScore: number | null;
+  /**
+   * Mean clicks and time (seconds) per game, rounded to one decimal place.
+   */
+  averageClicks: number | null;
+  averageTime: number | null;
+  /**
+   * Number of games per game type. Legacy entries without a `gameType` count as random.
+   */
+  gameTypes: { random: number; repeat: number; daily: number };
+  /**
+   * Every score in chronological order (oldest first).
+   */
+  scoreTrend: ScoreTrendPoint[];
+  /**
+   * Articles the player has found most often, most found first. Ties are ordered by title.
+   */
+  topArticles: Array<{ title: string; count: number }>;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.round(mean * 10) / 10;
+}
+
+/**
+ * Returns the articles found in an entry, read from the `[Found]` history tags.
+ * Legacy entries without tagged history fall back to the `[Found]` markers on the board.
+ */
+function getFoundArticles(entry: Pick<LeaderboardEntry, 'history' | 'bingopediaGame' | 'bingoSquares'>): string[] {
+  const history = entry.history ?? [];
+  const tagged = history.some((title) => title.startsWith(FOUND_PREFIX))
+    ? history
+    : (entry.bingopediaGame ?? entry.bingoSquares ?? []).slice(0, 25);
+
+  return tagged
+    .filter((title) => title.startsWith(FOUND_PREFIX))
+    .map((title) => title.slice(FOUND_PREFIX.length).replace(/_/g, ' ').trim());
+}
+
+/**
+ * Calculates a player's statistics from their leaderboard entries.
+ *
+ * @param entries - All leaderboard entries for the player, in any order
+ * @returns Player statistics
+ *
+ * @example
+ * ```typescript
+ * calculatePlayerStats(entries);
+ * // { gamesPlayed: 2, bestScore: 700, averageClicks: 10, averageTime: 95.5, ... }
+ * ```
+ */
+export function calculatePlayerStats(
+  entries: ReadonlyArray<Pick<LeaderboardEntry, 'score' | 'clicks' | 'time' | 'createdAt' | 'gameType' | 'history' | 'bingopediaGame' | 'bingoSquares'>>
+): PlayerStats {
+  const gameTypes = { random: 0, repeat: 0, daily: 0 };
+  const articleCounts = new Map<string, { title: string; count: number }>();
+
+  for (const entry of entries) {
+    gameTypes[entry.gameType ?? 'random'] += 1;
+
+    // Count each article once per game, matching titles case-insensitively
+    const found = new Map(getFoundArticles(entry).map((title) => [title.toLowerCase(), title]));
+    for (const [key, title] of found) {
+      const current = articleCounts.get(key);
+      articleCounts.set(key, { title: current?.title ?? title, count: (current?.count ?? 0) + 1 });
+    }
+  }
+
+  const scoreTrend = entries
+    .map((entry) => ({ createdAt: entry.createdAt, score: entry.score, gameType: entry.gameType ?? 'random' }))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const topArticles = [...articleCounts.values()]
+    .sort((a, b) => b.count - a.count || a.title.localeCompare(b.title))
+    .slice(0, TOP_ARTICLE_COUNT);
+
+  return {
+    gamesPlayed: entries.length,
+    bestScore: entries.length > 0 ? Math.min(...entries.map((entry) => entry.score)) : null,
+    averageClicks: average(entries.map((entry) => entry.clicks)),
+    averageTime: average(entries.map((entry) => entry.time)),
+    gameTypes,
+    scoreTrend,
+    topArticles,
+  };
+}
@@ -0,0 +1,11 @@
+import { toVercelHandler } from '../http';
+import { playerRoute } from '../routes/players';
+
+/**
+ * Vercel serverless function for player profiles.
+ *
+ * - GET /api/players/:username: Returns the player's stats and recent leaderboard entries
+ *
+ * See `api/routes/players.ts` for the handler.
+ */
+export default toVercelHandler(playerRoute);
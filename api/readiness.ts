@@ -0,0 +1,103 @@
+import packageJson from '../package.json';
+import { validateConfig, type ConfigCheck } from './config';
+import type { IndexStatus, SystemRepository } from './repositories';
+
+/**
+ * Health, readiness and build information for `/api/health`, `/api/ready`, `/api/version`
+ * and `/api/admin/diagnostics`.
+ */
+
+/**
+ * Longest time the database ping may take before the API is reported as not ready.
+ */
+export const READY_TIMEOUT_MS = 3000;
+
+export interface ReadinessReport {
+  /**
+   * `not_ready` when the database is unreachable or a required setting is invalid;
+   * `degraded` when only indexes are missing.
+   */
+  status: 'ready' | 'degraded' | 'not_ready';
+  database: { ok: boolean; latencyMs: number; error?: string };
+  indexes: { ok: boolean; missing: Omit<IndexStatus, 'present'>[] };
+  config: { ok: boolean; checks: ConfigCheck[] };
+}
+
+export interface BuildInfo {
+  name: string;
+  version: string;
+  /**
+   * Git commit and branch of the deployment (Vercel only).
+   */
+  commit: string | null;
+  branch: string | null;
+  environment: string;
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Checks that the API can serve requests: pings the database (timing the round trip),
+ * lists missing indexes and validates the configuration.
+ *
+ * Index status is only read when the ping succeeds.
+ *
+ * @param system - Storage health repository
+ * @param config - Configuration checks (defaults to `validateConfig()`)
+ * @returns Readiness report, including error messages (not for public responses)
+ *
+ * @example
+ * ```typescript
+ * const report = await checkReadiness(getRepositories().system);
+ * // { status: 'ready', database: { ok: true, latencyMs: 12 }, indexes: { ok: true, missing: [] }, ... }
+ * ```
+ */
+export async function checkReadiness(
+  system: SystemRepository,
+  config: ConfigCheck[] = validateConfig()
+): Promise<ReadinessReport> {
+  const startedAt = Date.now();
+  let database: ReadinessReport['database'];
+  let missing: ReadinessReport['indexes']['missing'] = [];
+
+  try {
+    await withTimeout(system.ping(), READY_TIMEOUT_MS);
+    database = { ok: true, latencyMs: Date.now() - startedAt };
+    missing = (await system.getIndexStatus())
+      .filter((index) => !index.present)
+      .map(({ collection, key }) => ({ collection, key }));
+  } catch (error) {
+    database = { ok: false, latencyMs: Date.now() - startedAt, error: (error as Error).message };
+  }
+
+  const configOk = config.every((check) => check.ok || !check.required);
+  const status = !database.ok || !configOk ? 'not_ready' : missing.length > 0 ? 'degraded' : 'ready';
+
+  return {
+    status,
+    database,
+    indexes: { ok: missing.length === 0, missing },
+    config: { ok: configOk, checks: config },
+  };
+}
+
+/**
+ * Reads the build information from `package.json` and Vercel's system environment variables.
+ *
+ * @param env - Environment variables
+ * @returns Name, version, commit, branch and environment
+ */
+export function getBuildInfo(env: Record<string, string | undefined> = process.env): BuildInfo {
+  return {
+    name: packageJson.name,
+    version: packageJson.version,
+    commit: env.VERCEL_GIT_COMMIT_SHA || null,
+    branch: env.VERCEL_GIT_COMMIT_REF || null,
+    environment: env.VERCEL_ENV || env.NODE_ENV || 'development',
+  };
+}
@@ -0,0 +1,9 @@
+import { toVercelHandler } from './http';
+import { readyRoute } from './routes/health';
+
+/**
+ * Vercel serverless function for GET /api/ready (database, index and configuration checks).
+ *
+ * See `api/routes/health.ts` for the handler.
+ */
+export default toVercelHandler(readyRoute);
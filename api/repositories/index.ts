@@ -0,0 +1,42 @@
+import { getStorageMode } from '../config';
+import { createMongoRepositories } from './mongo';
+import { createMemoryRepositories } from './memory';
+import type { Repositories } from './types';
+
+export * from './types';
+
+let cachedRepositories: Repositories | null = null;
+
+/**
+ * Returns the repositories for the configured storage backend (`STORAGE`).
+ *
+ * The repositories are created once per process, so in-memory data lives as long as
+ * the server does.
+ *
+ * @returns Repositories for the current process
+ * @throws Error if STORAGE is set to an unknown value
+ *
+ * @example
+ * ```typescript
+ * const { games } = getRepositories();
+ * const game = await games.findByLink(link);
+ * ```
+ */
+export function getRepositories(): Repositories {
+  if (!cachedRepositories) {
+    cachedRepositories = getStorageMode() === 'memory' ? createMemoryRepositories() : createMongoRepositories();
+  }
+  return cachedRepositories;
+}
+
+/**
+ * Replaces the repositories for the current process. Passing `null` makes the next
+ * `getRepositories()` call read `STORAGE` again.
+ *
+ * Intended for tests, e.g. `setRepositories(createMemoryRepositories())`.
+ *
+ * @param repositories - Repositories to use, or null to reset
+ */
+export function setRepositories(repositories: Repositories | null): void {
+  cachedRepositories = repositories;
+}
@@ -0,0 +1,407 @@
+import { ObjectId } from 'mongodb';
+import type {
+  LeaderboardEntry,
+  GeneratedGame,
+  GameSession,
+  UsernameClaim,
+  EntryModeration,
+  ModerationAuditRecord,
+  ExpiredGame,
+} from '../mongoClient';
+import {
+  DuplicateKeyError,
+  type DailyCount,
+  type ExpiredGamesQuery,
+  type ExpiredGamesRepository,
+  type GamesPageQuery,
+  type IndexStatus,
+  type LeaderboardFilter,
+  type LeaderboardPageQuery,
+  type LeaderboardRepository,
+  type GamesRepository,
+  type EventsRepository,
+  type SessionsRepository,
+  type Repositories,
+  type Stored,
+  type UsernameClaimsRepository,
+  type ModerationAuditRepository,
+  type SystemRepository,
+  type TrendingBoardsQuery,
+} from './types';
+import { calculateBoardStats } from '../boardStats';
+
+/**
+ * In-memory repositories for offline development (`STORAGE=memory`) and tests.
+ *
+ * Records are copied on the way in and out, so callers can't mutate stored data,
+ * the same as with a real database.
+ */
+
+function newId(): string {
+  return new ObjectId().toHexString();
+}
+
+/**
+ * Checks whether a leaderboard entry matches a filter.
+ *
+ * @param entry - Leaderboard entry
+ * @param filter - Leaderboard filter
+ * @returns True if the entry matches every filter condition
+ */
+export function matchesLeaderboardFilter(entry: LeaderboardEntry, filter: LeaderboardFilter): boolean {
+  if (entry.moderation?.hidden) return false;
+  const createdAt = entry.createdAt.getTime();
+  if (filter.dateFrom && createdAt < filter.dateFrom.getTime()) return false;
+  if (filter.dateTo && createdAt > filter.dateTo.getTime()) return false;
+  if (filter.generatedGame && entry.generatedGame !== filter.generatedGame) return false;
+
+  // Legacy entries without gameType count as random games
+  const gameType = entry.gameType ?? 'random';
+  return filter.gameType === 'all' || filter.gameType === gameType;
+}
+
+/**
+ * Copies an entry for a public read, leaving out its moderation state.
+ */
+function toPublicEntry({ moderation: _moderation, ...entry }: Stored<LeaderboardEntry>): Stored<LeaderboardEntry> {
+  return structuredClone(entry);
+}
+
+/**
+ * Counts records per UTC day and key, keeping those dated within `[from, to]`.
+ */
+function countByDay(records: Array<{ date: Date; key: string }>, from: Date, to: Date): DailyCount[] {
+  const counts = new Map<string, DailyCount>();
+  for (const { date, key } of records) {
+    if (date < from || date > to) continue;
+    const day = date.toISOString().slice(0, 10);
+    const id = `${day}|${key}`;
+    const current = counts.get(id) ?? { day, key, count: 0 };
+    current.count += 1;
+    counts.set(id, current);
+  }
+  return [...counts.values()];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Compares two leaderboard entries for a sort. Equal scores are ordered by `createdAt` ascending.
+ */
+function compareEntries(a: LeaderboardEntry, b: LeaderboardEntry, query: LeaderboardPageQuery): number {
+  const direction = query.sortOrder === 'asc' ? 1 : -1;
+  const primary = compareValues(a[query.sortField], b[query.sortField]) * direction;
+  if (primary !== 0 || query.sortField !== 'score') return primary;
+  return compareValues(a.createdAt, b.createdAt);
+}
+
+export class InMemoryLeaderboardRepository implements LeaderboardRepository {
+  private readonly entries: Stored<LeaderboardEntry>[] = [];
+
+  async findPage(query: LeaderboardPageQuery) {
+    const matches = this.entries
+      .filter((entry) => matchesLeaderboardFilter(entry, query.filter))
+      .sort((a, b) => compareEntries(a, b, query));
+
+    return {
+      entries: matches.slice(query.skip, query.skip + query.limit).map(toPublicEntry),
+      totalCount: matches.length,
+    };
+  }
+
+  async insert(entry: LeaderboardEntry) {
+    const stored = { ...structuredClone(entry), _id: newId() };
+    this.entries.push(stored);
+    return structuredClone(stored);
+  }
+
+  async getBoardStats(generatedGame: string) {
+    return calculateBoardStats(
+      this.entries.filter((entry) => entry.generatedGame === generatedGame && !entry.moderation?.hidden)
+    );
+  }
+
+  async getBestScores(generatedGames: string[]) {
+    const links = new Set(generatedGames);
+    const best: Record<string, number> = {};
+    for (const entry of this.entries) {
+      if (!entry.generatedGame || !links.has(entry.generatedGame) || entry.moderation?.hidden) continue;
+      best[entry.generatedGame] = Math.min(best[entry.generatedGame] ?? Infinity, entry.score);
+    }
+    return best;
+  }
+
+  async findTrendingBoards({ since, skip, limit }: TrendingBoardsQuery) {
+    const counts = new Map<string, { plays: number; lastPlayedAt: number }>();
+    for (const entry of this.entries) {
+      if (!entry.generatedGame || entry.gameType === 'daily' || entry.moderation?.hidden || entry.createdAt < since) continue;
+      const current = counts.get(entry.generatedGame) ?? { plays: 0, lastPlayedAt: 0 };
+      current.plays += 1;
+      current.lastPlayedAt = Math.max(current.lastPlayedAt, entry.createdAt.getTime());
+      counts.set(entry.generatedGame, current);
+    }
+
+    const boards = [...counts.entries()]
+      .sort(([, a], [, b]) => b.plays - a.plays || b.lastPlayedAt - a.lastPlayedAt)
+      .map(([generatedGame, { plays }]) => ({ generatedGame, plays }));
+    return { boards: boards.slice(skip, skip + limit), totalCount: boards.length };
+  }
+
+  async findByUsername(username: string, limit: number) {
+    const key = username.toLowerCase();
+    const matches = this.entries
+      .filter((entry) => entry.username.toLowerCase() === key && !entry.moderation?.hidden)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return matches.slice(0, limit).map(toPublicEntry);
+  }
+
+  async findById(id: string) {
+    const entry = this.entries.find((candidate) => candidate._id === id);
+    return entry ? structuredClone(entry) : null;
+  }
+
+  async setModeration(id: string, moderation: EntryModeration) {
+    const entry = this.entries.find((candidate) => candidate._id === id);
+    if (!entry) {
+      return false;
+    }
+    entry.moderation = structuredClone(moderation);
+    return true;
+  }
+
+  async findFlagged(limit: number) {
+    return structuredClone(
+      this.entries
+        .filter((entry) => entry.moderation?.flagged)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit)
+    );
+  }
+
+  async countByDay(from: Date, to: Date) {
+    return countByDay(
+      this.entries.map((entry) => ({ date: entry.createdAt, key: entry.gameType ?? 'random' })),
+      from,
+      to
+    );
+  }
+
+  async findPlayedBoards(generatedGames: string[]) {
+    const played = new Set(this.entries.map((entry) => entry.generatedGame));
+    return generatedGames.filter((link) => played.has(link));
+  }
+}
+
+export class InMemoryGamesRepository implements GamesRepository {
+  private readonly games = new Map<string, Stored<GeneratedGame>>();
+
+  async findByLink(link: string) {
+    const game = this.games.get(link);
+    return game ? structuredClone(game) : null;
+  }
+
+  async insert(game: GeneratedGame) {
+    if (this.games.has(game.link)) {
+      throw new DuplicateKeyError('link');
+    }
+    const stored = { ...structuredClone(game), _id: newId() };
+    this.games.set(game.link, stored);
+    return structuredClone(stored);
+  }
+
+  async incrementTimesPlayed(link: string) {
+    const game = this.games.get(link);
+    if (game) {
+      game.timesPlayed += 1;
+      delete game.expiresAt;
+    }
+  }
+
+  async count() {
+    return this.games.size;
+  }
+
+  async findRecent(limit: number) {
+    return structuredClone(
+      [...this.games.values()]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .slice(0, limit)
+    );
+  }
+
+  async findPage({ sort, skip, limit }: GamesPageQuery) {
+    const newestFirst = (a: Stored<GeneratedGame>, b: Stored<GeneratedGame>) => b.createdAt.getTime() - a.createdAt.getTime();
+    const now = Date.now();
+    const matches = [...this.games.values()]
+      .filter((game) => game.source !== 'daily' && !(game.expiresAt && game.expiresAt.getTime() <= now))
+      .sort((a, b) => (sort === 'popular' ? b.timesPlayed - a.timesPlayed : 0) || newestFirst(a, b));
+
+    return { games: structuredClone(matches.slice(skip, skip + limit)), totalCount: matches.length };
+  }
+
+  async findByLinks(links: string[]) {
+    return structuredClone(links.flatMap((link) => this.games.get(link) ?? []));
+  }
+
+  async findExpired({ now, createdBefore }: ExpiredGamesQuery) {
+    return structuredClone(
+      [...this.games.values()]
+        .filter(
+          (game) =>
+            (game.source === 'generated' || game.source === 'custom') &&
+            game.timesPlayed === 0 &&
+            !game.pinned &&
+            (game.expiresAt ? game.expiresAt <= now : game.createdAt <= createdBefore)
+        )
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    );
+  }
+
+  async setPinned(link: string, pinned: boolean) {
+    const game = this.games.get(link);
+    if (!game) {
+      return false;
+    }
+    game.pinned = pinned;
+    if (pinned) {
+      delete game.expiresAt;
+    }
+    return true;
+  }
+
+  async deleteByLinks(links: string[]) {
+    return links.filter((link) => this.games.delete(link)).length;
+  }
+}
+
+export class InMemoryExpiredGamesRepository implements ExpiredGamesRepository {
+  private readonly records = new Map<string, ExpiredGame>();
+
+  async findByLink(link: string) {
+    const record = this.records.get(link);
+    return record ? structuredClone(record) : null;
+  }
+
+  async insertMany(records: ExpiredGame[]) {
+    for (const record of records) {
+      if (!this.records.has(record.link)) {
+        this.records.set(record.link, structuredClone(record));
+      }
+    }
+  }
+}
+
+export class InMemoryEventsRepository implements EventsRepository {
+  readonly events: Record<string, unknown>[] = [];
+
+  async insert(event: Record<string, unknown>) {
+    this.events.push(structuredClone(event));
+  }
+
+  async insertMany(events: Record<string, unknown>[]) {
+    this.events.push(...events.map((event) => structuredClone(event)));
+  }
+
+  async countByDay(from: Date, to: Date) {
+    return countByDay(
+      this.events.map((event) => ({ date: event.timestamp as Date, key: String(event.event) })),
+      from,
+      to
+    );
+  }
+}
+
+export class InMemorySessionsRepository implements SessionsRepository {
+  private readonly sessions = new Map<string, GameSession>();
+
+  async insert(session: GameSession) {
+    this.sessions.set(session.sessionId, structuredClone(session));
+  }
+
+  async findBySessionId(sessionId: string) {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    return structuredClone(session);
+  }
+
+  async markUsed(sessionId: string, usedAt: Date) {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.usedAt) {
+      return false;
+    }
+    session.usedAt = usedAt;
+    return true;
+  }
+
+  async markUnused(sessionId: string) {
+    delete this.sessions.get(sessionId)?.usedAt;
+  }
+}
+
+export class InMemoryUsernameClaimsRepository implements UsernameClaimsRepository {
+  private readonly claims = new Map<string, UsernameClaim>();
+
+  async findByUsernameKey(usernameKey: string) {
+    const claim = this.claims.get(usernameKey);
+    return claim ? structuredClone(claim) : null;
+  }
+
+  async insert(claim: UsernameClaim) {
+    if (this.claims.has(claim.usernameKey)) {
+      throw new DuplicateKeyError('usernameKey');
+    }
+    this.claims.set(claim.usernameKey, structuredClone(claim));
+  }
+}
+
+export class InMemoryModerationAuditRepository implements ModerationAuditRepository {
+  private readonly records: ModerationAuditRecord[] = [];
+
+  async insert(record: ModerationAuditRecord) {
+    this.records.push(structuredClone(record));
+  }
+
+  async findRecent(limit: number, entryId?: string) {
+    return structuredClone(
+      this.records
+        .filter((record) => entryId === undefined || record.entryId === entryId)
+        .reverse()
+        .slice(0, limit)
+    );
+  }
+}
+
+/**
+ * In-memory storage is always reachable and has no indexes.
+ */
+export class InMemorySystemRepository implements SystemRepository {
+  async ping() {}
+
+  async getIndexStatus(): Promise<IndexStatus[]> {
+    return [];
+  }
+}
+
+/**
+ * Creates a fresh set of empty in-memory repositories.
+ *
+ * @returns Repositories backed by process memory
+ */
+export function createMemoryRepositories(): Repositories {
+  return {
+    leaderboard: new InMemoryLeaderboardRepository(),
+    games: new InMemoryGamesRepository(),
+    expiredGames: new InMemoryExpiredGamesRepository(),
+    events: new InMemoryEventsRepository(),
+    sessions: new InMemorySessionsRepository(),
+    usernames: new InMemoryUsernameClaimsRepository(),
+    moderationAudit: new InMemoryModerationAuditRepository(),
+    system: new InMemorySystemRepository(),
+  };
+}
@@ -0,0 +1,430 @@
+import { ObjectId } from 'mongodb';
+import {
+  getLeaderboardCollection,
+  getGamesCollection,
+  getLoggingCollection,
+  getSessionsCollection,
+  getUsernameClaimsCollection,
+  getModerationAuditCollection,
+  getExpiredGamesCollection,
+  getDatabase,
+  REQUIRED_INDEXES,
+} from '../mongoClient';
+import {
+  DuplicateKeyError,
+  type BoardPlayCount,
+  type DailyCount,
+  type EventsRepository,
+  type ExpiredGamesRepository,
+  type GamesRepository,
+  type LeaderboardFilter,
+  type LeaderboardRepository,
+  type Repositories,
+  type SessionsRepository,
+  type Stored,
+  type UsernameClaimsRepository,
+  type ModerationAuditRepository,
+  type IndexStatus,
+  type SystemRepository,
+} from './types';
+import { calculateBoardStats } from '../boardStats';
+
+/**
+ * Converts a MongoDB document to a stored record with a string `_id`.
+ */
+function toStored<T extends { _id?: unknown }>(doc: T): Stored<T> {
+  return { ...doc, _id: String(doc._id) } as Stored<T>;
+}
+
+/**
+ * Leaves the moderation state out of public leaderboard reads.
+ */
+const PUBLIC_PROJECTION = { moderation: 0 } as const;
+
+/**
+ * Matches entries that have not been hidden by a moderator.
+ */
+const NOT_HIDDEN = { 'moderation.hidden': { $ne: true } } as const;
+
+/**
+ * Aggregation stages that count documents per UTC day of `dateField` and per `key`.
+ */
+function countByDayPipeline(dateField: string, key: unknown, from: Date, to: Date): Record<string, unknown>[] {
+  return [
+    { $match: { [dateField]: { $gte: from, $lte: to } } },
+    {
+      $group: {
+        _id: { day: { $dateToString: { format: '%Y-%m-%d', date: `$${dateField}` } }, key },
+        count: { $sum: 1 },
+      },
+    },
+    { $project: { _id: 0, day: '$_id.day', key: '$_id.key', count: 1 } },
+  ];
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  const err = error as { code?: number; message?: string };
+  return err?.code === 11000 || Boolean(err?.message?.includes('E11000'));
+}
+
+/**
+ * Builds the MongoDB filter for a leaderboard query.
+ *
+ * @param filter - Leaderboard filter
+ * @returns Filter for the leaderboard collection
+ */
+export function buildLeaderboardFilter(filter: LeaderboardFilter): Record<string, unknown> {
+  const query: Record<string, unknown> = { ...NOT_HIDDEN };
+
+  if (filter.dateFrom || filter.dateTo) {
+    query.createdAt = {
+      ...(filter.dateFrom ? { $gte: filter.dateFrom } : {}),
+      ...(filter.dateTo ? { $lte: filter.dateTo } : {}),
+    };
+  }
+
+  if (filter.gameType === 'random') {
+    // Backfill: legacy entries without gameType should be treated as random
+    query.$or = [{ gameType: 'random' }, { gameType: { $exists: false } }];
+  } else if (filter.gameType !== 'all') {
+    query.gameType = filter.gameType;
+  }
+
+  if (filter.generatedGame) {
+    query.generatedGame = filter.generatedGame;
+  }
+
+  return query;
+}
+
+const leaderboard: LeaderboardRepository = {
+  async findPage({ filter, sortField, sortOrder, skip, limit }) {
+    const collection = await getLeaderboardCollection();
+    const query = buildLeaderboardFilter(filter);
+
+    const sort: Record<string, 1 | -1> = { [sortField]: sortOrder === 'asc' ? 1 : -1 };
+    if (sortField === 'score') {
+      sort.createdAt = 1;
+    }
+
+    const [totalCount, entries] = await Promise.all([
+      collection.countDocuments(query),
+      collection.find(query, { projection: PUBLIC_PROJECTION }).sort(sort).skip(skip).limit(limit).toArray(),
+    ]);
+
+    return { entries: entries.map(toStored), totalCount };
+  },
+
+  async insert(entry) {
+    const collection = await getLeaderboardCollection();
+    const result = await collection.insertOne({ ...entry });
+    return { ...entry, _id: String(result.insertedId) };
+  },
+
+  async getBoardStats(generatedGame) {
+    const collection = await getLeaderboardCollection();
+    const entries = await collection
+      .find({ generatedGame, ...NOT_HIDDEN }, { projection: { _id: 0, score: 1, clicks: 1 } })
+      .toArray();
+    return calculateBoardStats(entries);
+  },
+
+  async getBestScores(generatedGames) {
+    if (generatedGames.length === 0) return {};
+    const collection = await getLeaderboardCollection();
+    const best = await collection
+      .aggregate<{ _id: string; bestScore: number }>([
+        { $match: { generatedGame: { $in: generatedGames }, ...NOT_HIDDEN } },
+        { $group: { _id: '$generatedGame', bestScore: { $min: '$score' } } },
+      ])
+      .toArray();
+    return Object.fromEntries(best.map(({ _id, bestScore }) => [_id, bestScore]));
+  },
+
+  async findTrendingBoards({ since, skip, limit }) {
+    const collection = await getLeaderboardCollection();
+    const [result] = await collection
+      .aggregate<{ boards: BoardPlayCount[]; total: { count: number }[] }>([
+        { $match: { createdAt: { $gte: since }, generatedGame: { $exists: true }, gameType: { $ne: 'daily' }, ...NOT_HIDDEN } },
+        { $group: { _id: '$generatedGame', plays: { $sum: 1 }, lastPlayedAt: { $max: '$createdAt' } } },
+        { $sort: { plays: -1, lastPlayedAt: -1 } },
+        {
+          $facet: {
+            boards: [{ $skip: skip }, { $limit: limit }, { $project: { _id: 0, generatedGame: '$_id', plays: 1 } }],
+            total: [{ $count: 'count' }],
+          },
+        },
+      ])
+      .toArray();
+    return { boards: result?.boards ?? [], totalCount: result?.total[0]?.count ?? 0 };
+  },
+
+  async findByUsername(username, limit) {
+    const collection = await getLeaderboardCollection();
+    // Strength 2 collation compares case-insensitively, matching username claims
+    const entries = await collection
+      .find({ username, ...NOT_HIDDEN }, { projection: PUBLIC_PROJECTION })
+      .collation({ locale: 'en', strength: 2 })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+    return entries.map(toStored);
+  },
+
+  async findById(id) {
+    if (!ObjectId.isValid(id)) return null;
+    const collection = await getLeaderboardCollection();
+    const entry = await collection.findOne({ _id: new ObjectId(id) });
+    return entry ? toStored(entry) : null;
+  },
+
+  async setModeration(id, moderation) {
+    if (!ObjectId.isValid(id)) return false;
+    const collection = await getLeaderboardCollection();
+    const result = await collection.updateOne({ _id: new ObjectId(id) }, { $set: { moderation } });
+    return result.matchedCount === 1;
+  },
+
+  async findFlagged(limit) {
+    const collection = await getLeaderboardCollection();
+    const entries = await collection.find({ 'moderation.flagged': true }).sort({ createdAt: -1 }).limit(limit).toArray();
+    return entries.map(toStored);
+  },
+
+  async countByDay(from, to) {
+    const collection = await getLeaderboardCollection();
+    return collection
+      .aggregate<DailyCount>(countByDayPipeline('createdAt', { $ifNull: ['$gameType', 'random'] }, from, to))
+      .toArray();
+  },
+
+  async findPlayedBoards(generatedGames) {
+    if (generatedGames.length === 0) return [];
+    const collection = await getLeaderboardCollection();
+    const played = await collection.distinct('generatedGame', { generatedGame: { $in: generatedGames } });
+    return played.filter((link): link is string => typeof link === 'string');
+  },
+};
+
+const games: GamesRepository = {
+  async findByLink(link) {
+    const collection = await getGamesCollection();
+    const game = await collection.findOne({ link });
+    return game ? toStored(game) : null;
+  },
+
+  async insert(game) {
+    const collection = await getGamesCollection();
+    try {
+      const result = await collection.insertOne({ ...game });
+      return { ...game, _id: String(result.insertedId) };
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new DuplicateKeyError('link');
+      }
+      throw error;
+    }
+  },
+
+  async incrementTimesPlayed(link) {
+    const collection = await getGamesCollection();
+    await collection.updateOne({ link }, { $inc: { timesPlayed: 1 }, $unset: { expiresAt: '' } });
+  },
+
+  async count() {
+    const collection = await getGamesCollection();
+    return collection.countDocuments();
+  },
+
+  async findRecent(limit) {
+    const collection = await getGamesCollection();
+    const recent = await collection.find({}).sort({ createdAt: -1 }).limit(limit).toArray();
+    return recent.map(toStored);
+  },
+
+  async findPage({ sort, skip, limit }) {
+    const collection = await getGamesCollection();
+    const query = {
+      source: { $ne: 'daily' as const },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }],
+    };
+    const order: Record<string, 1 | -1> = sort === 'popular' ? { timesPlayed: -1, createdAt: -1 } : { createdAt: -1 };
+
+    const [totalCount, page] = await Promise.all([
+      collection.countDocuments(query),
+      collection.find(query).sort(order).skip(skip).limit(limit).toArray(),
+    ]);
+
+    return { games: page.map(toStored), totalCount };
+  },
+
+  async findByLinks(links) {
+    if (links.length === 0) return [];
+    const collection = await getGamesCollection();
+    const found = await collection.find({ link: { $in: links } }).toArray();
+    return found.map(toStored);
+  },
+
+  async findExpired({ now, createdBefore }) {
+    const collection = await getGamesCollection();
+    const expired = await collection
+      .find({
+        source: { $in: ['generated', 'custom'] },
+        timesPlayed: 0,
+        pinned: { $ne: true },
+        $or: [{ expiresAt: { $lte: now } }, { expiresAt: { $exists: false }, createdAt: { $lte: createdBefore } }],
+      })
+      .sort({ createdAt: 1 })
+      .toArray();
+    return expired.map(toStored);
+  },
+
+  async setPinned(link, pinned) {
+    const collection = await getGamesCollection();
+    const result = await collection.updateOne(
+      { link },
+      pinned ? { $set: { pinned: true }, $unset: { expiresAt: '' } } : { $set: { pinned: false } }
+    );
+    return result.matchedCount === 1;
+  },
+
+  async deleteByLinks(links) {
+    if (links.length === 0) return 0;
+    const collection = await getGamesCollection();
+    const result = await collection.deleteMany({ link: { $in: links } });
+    return result.deletedCount;
+  },
+};
+
+const expiredGames: ExpiredGamesRepository = {
+  async findByLink(link) {
+    const collection = await getExpiredGamesCollection();
+    return collection.findOne({ link });
+  },
+
+  async insertMany(records) {
+    if (records.length === 0) return;
+    const collection = await getExpiredGamesCollection();
+    await collection.bulkWrite(
+      records.map((record) => ({
+        updateOne: { filter: { link: record.link }, update: { $setOnInsert: { ...record } }, upsert: true },
+      }))
+    );
+  },
+};
+
+const events: EventsRepository = {
+  async insert(event) {
+    const collection = await getLoggingCollection();
+    await collection.insertOne({ ...event });
+  },
+
+  async insertMany(batch) {
+    if (batch.length === 0) return;
+    const collection = await getLoggingCollection();
+    await collection.insertMany(batch.map((event) => ({ ...event })));
+  },
+
+  async countByDay(from, to) {
+    const collection = await getLoggingCollection();
+    return collection.aggregate<DailyCount>(countByDayPipeline('timestamp', '$event', from, to)).toArray();
+  },
+};
+
+const sessions: SessionsRepository = {
+  async insert(session) {
+    const collection = await getSessionsCollection();
+    await collection.insertOne({ ...session });
+  },
+
+  async findBySessionId(sessionId) {
+    const collection = await getSessionsCollection();
+    // The TTL index removes expired sessions lazily, so filter them out explicitly
+    return collection.findOne({ sessionId, expiresAt: { $gt: new Date() } });
+  },
+
+  async markUsed(sessionId, usedAt) {
+    const collection = await getSessionsCollection();
+    const result = await collection.updateOne(
+      { sessionId, usedAt: { $exists: false } },
+      { $set: { usedAt } }
+    );
+    return result.modifiedCount === 1;
+  },
+
+  async markUnused(sessionId) {
+    const collection = await getSessionsCollection();
+    await collection.updateOne({ sessionId }, { $unset: { usedAt: '' } });
+  },
+};
+
+const usernames: UsernameClaimsRepository = {
+  async findByUsernameKey(usernameKey) {
+    const collection = await getUsernameClaimsCollection();
+    return collection.findOne({ usernameKey });
+  },
+
+  async insert(claim) {
+    const collection = await getUsernameClaimsCollection();
+    try {
+      await collection.insertOne({ ...claim });
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        throw new DuplicateKeyError('usernameKey');
+      }
+      throw error;
+    }
+  },
+};
+
+const moderationAudit: ModerationAuditRepository = {
+  async insert(record) {
+    const collection = await getModerationAuditCollection();
+    await collection.insertOne({ ...record });
+  },
+
+  async findRecent(limit, entryId) {
+    const collection = await getModerationAuditCollection();
+    return collection
+      .find(entryId === undefined ? {} : { entryId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .toArray();
+  },
+};
+
+const system: SystemRepository = {
+  async ping() {
+    const db = await getDatabase();
+    await db.command({ ping: 1 });
+  },
+
+  async getIndexStatus() {
+    const db = await getDatabase();
+    const status: IndexStatus[] = [];
+    for (const [collection, keys] of Object.entries(REQUIRED_INDEXES)) {
+      // listIndexes fails for collections that do not exist yet
+      const existing = await db
+        .collection(collection)
+        .listIndexes()
+        .toArray()
+        .catch(() => []);
+      const existingKeys = new Set(existing.map((index) => JSON.stringify(index.key)));
+      for (const key of keys) {
+        status.push({ collection, key, present: existingKeys.has(JSON.stringify(key)) });
+      }
+    }
+    return status;
+  },
+};
+
+/**
+ * Creates the MongoDB-backed repositories.
+ *
+ * Connections are opened lazily on first use and cached by `mongoClient.ts`.
+ *
+ * @returns Repositories backed by MongoDB Atlas
+ */
+export function createMongoRepositories(): Repositories {
+  return { leaderboard, games, expiredGames, events, sessions, usernames, moderationAudit, system };
+}
@@ -0,0 +1,323 @@
+import type {
+  LeaderboardEntry,
+  GeneratedGame,
+  GameSession,
+  UsernameClaim,
+  EntryModeration,
+  ModerationAuditRecord,
+  ExpiredGame,
+} from '../mongoClient';
+import type { BoardStats } from '../boardStats';
+
+/**
+ * Storage-agnostic data access used by the route handlers.
+ *
+ * Each interface has a MongoDB implementation (`mongo.ts`) and an in-memory
+ * implementation (`memory.ts`). Route handlers get them from `getRepositories()`
+ * and never run database queries directly.
+ */
+
+/**
+ * A stored record with its string identifier.
+ */
+export type Stored<T> = Omit<T, '_id'> & { _id: string };
+
+export type LeaderboardSortField = 'score' | 'clicks' | 'time' | 'createdAt' | 'username';
+export type SortOrder = 'asc' | 'desc';
+export type GameTypeFilter = 'random' | 'repeat' | 'daily' | 'all';
+
+/**
+ * Filters for leaderboard queries. Dates are compared in UTC and both bounds are inclusive.
+ * Legacy entries without a `gameType` count as random games. Hidden entries never match.
+ */
+export interface LeaderboardFilter {
+  dateFrom?: Date;
+  dateTo?: Date;
+  gameType: GameTypeFilter;
+  /**
+   * Only include entries for this board (generated game link).
+   */
+  generatedGame?: string;
+}
+
+export interface LeaderboardPageQuery {
+  filter: LeaderboardFilter;
+  sortField: LeaderboardSortField;
+  sortOrder: SortOrder;
+  skip: number;
+  limit: number;
+}
+
+export interface LeaderboardPage {
+  entries: Stored<LeaderboardEntry>[];
+  totalCount: number;
+}
+
+/**
+ * `popular`: most replayed first (`timesPlayed`); `recent`: newest first.
+ */
+export type GamesSort = 'popular' | 'recent';
+
+export interface GamesPageQuery {
+  sort: GamesSort;
+  skip: number;
+  limit: number;
+}
+
+export interface GamesPage {
+  games: Stored<GeneratedGame>[];
+  totalCount: number;
+}
+
+/**
+ * Cutoffs for the retention cleanup (see `api/gameRetention.ts`).
+ */
+export interface ExpiredGamesQuery {
+  /**
+   * Boards whose `expiresAt` is at or before this time have expired.
+   */
+  now: Date;
+  /**
+   * Boards without an `expiresAt` (created before expiry dates were recorded, or unpinned)
+   * have expired if they were created at or before this time.
+   */
+  createdBefore: Date;
+}
+
+/**
+ * Number of leaderboard entries for one board.
+ */
+export interface BoardPlayCount {
+  generatedGame: string;
+  plays: number;
+}
+
+export interface TrendingBoardsQuery {
+  /**
+   * Only count entries created at or after this time.
+   */
+  since: Date;
+  skip: number;
+  limit: number;
+}
+
+export interface TrendingBoardsPage {
+  boards: BoardPlayCount[];
+  totalCount: number;
+}
+
+/**
+ * Number of records on one UTC day for one key (an event type or a game type).
+ */
+export interface DailyCount {
+  /**
+   * UTC day as `YYYY-MM-DD`.
+   */
+  day: string;
+  key: string;
+  count: number;
+}
+
+/**
+ * Public leaderboard reads (`findPage`, `getBoardStats`, `findByUsername`) skip hidden
+ * entries and leave out the `moderation` field. `findById` returns the full entry.
+ */
+export interface LeaderboardRepository {
+  /**
+   * Returns one page of matching entries plus the total number of matches.
+   * When sorting by score, equal scores are ordered by `createdAt` ascending.
+   */
+  findPage(query: LeaderboardPageQuery): Promise<LeaderboardPage>;
+  insert(entry: LeaderboardEntry): Promise<Stored<LeaderboardEntry>>;
+  /**
+   * Returns finisher count, best score and median clicks for one board.
+   */
+  getBoardStats(generatedGame: string): Promise<BoardStats>;
+  /**
+   * Returns the best (lowest) score per board. Boards without entries are left out.
+   */
+  getBestScores(generatedGames: string[]): Promise<Record<string, number>>;
+  /**
+   * Counts entries per board since a time, most played first (ties: most recently played
+   * first). Daily challenge entries and entries without a board are not counted.
+   */
+  findTrendingBoards(query: TrendingBoardsQuery): Promise<TrendingBoardsPage>;
+  /**
+   * Returns a player's entries, newest first. Usernames are matched case-insensitively.
+   */
+  findByUsername(username: string, limit: number): Promise<Stored<LeaderboardEntry>[]>;
+  /**
+   * Finds an entry by `_id`, including hidden entries and their moderation state.
+   */
+  findById(id: string): Promise<Stored<LeaderboardEntry> | null>;
+  /**
+   * Replaces an entry's moderation state.
+   *
+   * @returns True if the entry exists
+   */
+  setModeration(id: string, moderation: EntryModeration): Promise<boolean>;
+  /**
+   * Returns flagged entries (including hidden ones), newest first.
+   */
+  findFlagged(limit: number): Promise<Stored<LeaderboardEntry>[]>;
+  /**
+   * Counts entries per UTC day and game type (legacy entries count as random). Both bounds
+   * are inclusive. Hidden entries are counted, since they were still submitted.
+   */
+  countByDay(from: Date, to: Date): Promise<DailyCount[]>;
+  /**
+   * Returns the boards among `generatedGames` that have at least one entry, hidden entries
+   * included (they were still played).
+   */
+  findPlayedBoards(generatedGames: string[]): Promise<string[]>;
+}
+
+export interface GamesRepository {
+  findByLink(link: string): Promise<Stored<GeneratedGame> | null>;
+  /**
+   * Inserts a game.
+   *
+   * @throws {DuplicateKeyError} If a game with the same link already exists
+   */
+  insert(game: GeneratedGame): Promise<Stored<GeneratedGame>>;
+  /**
+   * Counts a play and clears `expiresAt`, since played boards are kept.
+   */
+  incrementTimesPlayed(link: string): Promise<void>;
+  count(): Promise<number>;
+  /**
+   * Returns the most recently created games, newest first.
+   */
+  findRecent(limit: number): Promise<Stored<GeneratedGame>[]>;
+  /**
+   * Returns one page of boards plus the total number of boards. Daily challenge boards and
+   * boards past their `expiresAt` are left out, and ties are ordered newest first.
+   */
+  findPage(query: GamesPageQuery): Promise<GamesPage>;
+  /**
+   * Finds games by link, in no particular order. Unknown links are skipped.
+   */
+  findByLinks(links: string[]): Promise<Stored<GeneratedGame>[]>;
+  /**
+   * Returns expired shared boards (`generated` and `custom` sources) that are unplayed
+   * (`timesPlayed` 0) and not pinned, oldest first. Leaderboard entries are not checked.
+   */
+  findExpired(query: ExpiredGamesQuery): Promise<Stored<GeneratedGame>[]>;
+  /**
+   * Pins or unpins a board. Pinning also clears `expiresAt`.
+   *
+   * @returns True if the board exists
+   */
+  setPinned(link: string, pinned: boolean): Promise<boolean>;
+  /**
+   * Deletes games by link. Unknown links are skipped.
+   *
+   * @returns Number of games deleted
+   */
+  deleteByLinks(links: string[]): Promise<number>;
+}
+
+/**
+ * Links of boards removed by the retention cleanup.
+ */
+export interface ExpiredGamesRepository {
+  findByLink(link: string): Promise<ExpiredGame | null>;
+  /**
+   * Records removed boards. Links that are already recorded are left unchanged.
+   */
+  insertMany(records: ExpiredGame[]): Promise<void>;
+}
+
+export interface EventsRepository {
+  insert(event: Record<string, unknown>): Promise<void>;
+  insertMany(events: Record<string, unknown>[]): Promise<void>;
+  /**
+   * Counts events per UTC day and event type. Both bounds are inclusive.
+   */
+  countByDay(from: Date, to: Date): Promise<DailyCount[]>;
+}
+
+export interface SessionsRepository {
+  insert(session: GameSession): Promise<void>;
+  /**
+   * Finds a session by ID. Expired sessions are not returned.
+   */
+  findBySessionId(sessionId: string): Promise<GameSession | null>;
+  /**
+   * Sets `usedAt` on an unused session.
+   *
+   * @returns True if the session was unused and is now marked as used
+   */
+  markUsed(sessionId: string, usedAt: Date): Promise<boolean>;
+  /**
+   * Clears `usedAt`, so the session can be submitted again.
+   */
+  markUnused(sessionId: string): Promise<void>;
+}
+
+export interface UsernameClaimsRepository {
+  /**
+   * Finds the claim for a lowercase username key.
+   */
+  findByUsernameKey(usernameKey: string): Promise<UsernameClaim | null>;
+  /**
+   * Inserts a claim.
+   *
+   * @throws {DuplicateKeyError} If the username is already claimed
+   */
+  insert(claim: UsernameClaim): Promise<void>;
+}
+
+export interface ModerationAuditRepository {
+  insert(record: ModerationAuditRecord): Promise<void>;
+  /**
+   * Returns the most recent audit records, newest first, optionally for one entry.
+   */
+  findRecent(limit: number, entryId?: string): Promise<ModerationAuditRecord[]>;
+}
+
+/**
+ * An index the API relies on, and whether it exists.
+ */
+export interface IndexStatus {
+  collection: string;
+  key: Record<string, number>;
+  present: boolean;
+}
+
+/**
+ * Storage health, used by `/api/ready`.
+ */
+export interface SystemRepository {
+  /**
+   * Checks that the database is reachable.
+   *
+   * @throws If it is not
+   */
+  ping(): Promise<void>;
+  /**
+   * Lists the required indexes and whether each exists. Empty for backends without indexes.
+   */
+  getIndexStatus(): Promise<IndexStatus[]>;
+}
+
+export interface Repositories {
+  leaderboard: LeaderboardRepository;
+  games: GamesRepository;
+  expiredGames: ExpiredGamesRepository;
+  events: EventsRepository;
+  sessions: SessionsRepository;
+  usernames: UsernameClaimsRepository;
+  moderationAudit: ModerationAuditRepository;
+  system: SystemRepository;
+}
+
+/**
+ * Thrown when an insert violates a unique key (e.g., a generated game link collision).
+ */
+export class DuplicateKeyError extends Error {
+  constructor(public readonly key: string) {
+    super(`Duplicate key: ${key}`);
+    this.name = 'DuplicateKeyError';
+  }
+}
@@ -0,0 +1,155 @@
+import Ajv, { type ErrorObject, type Options, type ValidateFunction } from 'ajv';
+import { getOperation, openApiDocument, type OperationId, type SchemaObject } from './openapi';
+import { errorResponse, type ApiRequest, type ApiResponse } from './http';
+
+/**
+ * Validates requests against the OpenAPI document in `api/openapi.ts`.
+ *
+ * Errors are reported in the usual `ApiError` shape: `MISSING_FIELD` for missing required
+ * values and `VALIDATION_ERROR` for everything else, using the schema's `x-error-message`
+ * or `x-error-messages` when it has one.
+ */
+
+export interface ValidationFailure {
+  code: 'VALIDATION_ERROR' | 'MISSING_FIELD';
+  message: string;
+  /**
+   * Name of the offending field, if any.
+   */
+  field?: string;
+  /**
+   * JSON pointer to the offending value (e.g. `/events/2`), or '' for the value itself.
+   */
+  path: string;
+}
+
+/**
+ * ISO 8601 date or date-time. Date-only values are accepted for `date-time` so filters like
+ * `dateFrom=2024-01-01` keep working.
+ */
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function createAjv(options: Options): Ajv {
+  // Non-strict so OpenAPI keywords (`deprecated`, `x-*`) are ignored rather than rejected
+  const ajv = new Ajv({ strict: false, allErrors: true, verbose: true, discriminator: true, ...options });
+  ajv.addFormat('date-time', (value: string) => DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value)));
+  ajv.addFormat('date', (value: string) => DATE_PATTERN.test(value) && !isNaN(Date.parse(value)));
+  return ajv;
+}
+
+const bodyAjv = createAjv({});
+// Query and path parameters arrive as strings
+const parameterAjv = createAjv({ coerceTypes: true });
+
+const compiled = new Map<string, ValidateFunction>();
+
+/**
+ * Compiles a schema with the document's components alongside it, so
+ * `#/components/schemas/...` references resolve.
+ */
+function compile(key: string, ajv: Ajv, schema: SchemaObject): ValidateFunction {
+  let validate = compiled.get(key);
+  if (!validate) {
+    validate = ajv.compile({ ...schema, components: openApiDocument.components });
+    compiled.set(key, validate);
+  }
+  return validate;
+}
+
+function fieldFor(error: ErrorObject): string | undefined {
+  if (error.keyword === 'required') return error.params.missingProperty;
+  if (error.keyword === 'additionalProperties') return error.params.additionalProperty;
+  if (error.keyword === 'discriminator') return error.params.tag;
+  const segments = error.instancePath.split('/').filter((segment) => segment && !/^\d+$/.test(segment));
+  return segments[segments.length - 1];
+}
+
+function toFailure(error: ErrorObject): ValidationFailure {
+  const field = fieldFor(error);
+  const schema = (error.parentSchema ?? {}) as SchemaObject;
+  const messages = schema['x-error-messages'] as Record<string, string> | undefined;
+  const properties = schema.properties as Record<string, SchemaObject> | undefined;
+
+  const template =
+    messages?.[error.keyword] ??
+    (error.keyword === 'required' && field ? (properties?.[field]?.['x-error-message'] as string | undefined) : undefined) ??
+    (schema['x-error-message'] as string | undefined) ??
+    `${field ?? 'request'} ${error.message}`;
+
+  return {
+    code: error.keyword === 'required' ? 'MISSING_FIELD' : 'VALIDATION_ERROR',
+    message: template.replace('{field}', field ?? ''),
+    ...(field ? { field } : {}),
+    path: error.instancePath,
+  };
+}
+
+/**
+ * Validates a value against a component schema.
+ *
+ * @param name - Schema name under `components.schemas`
+ * @param value - Value to validate
+ * @returns Every failure, in the order they were found (empty when valid)
+ *
+ * @example
+ * ```typescript
+ * validateSchema('GameEvent', { event: 'game_started', timestamp, metadata: {} })
+ * // [{ code: 'VALIDATION_ERROR', message: 'Unknown field for game_started: metadata', field: 'metadata', path: '' }]
+ * ```
+ */
+export function validateSchema(name: string, value: unknown): ValidationFailure[] {
+  if (!(name in openApiDocument.components.schemas)) {
+    throw new Error(`Unknown schema: ${name}`);
+  }
+  const validate = compile(`schema:${name}`, bodyAjv, { $ref: `#/components/schemas/${name}` });
+  return validate(value) ? [] : (validate.errors ?? []).map(toFailure);
+}
+
+/**
+ * Converts a validation failure to a 400 response.
+ *
+ * @param failure - Failure from `validateSchema` or `validateRequest`
+ * @returns Response with an `ApiError` body
+ */
+export function validationErrorResponse(failure: ValidationFailure): ApiResponse {
+  return errorResponse(400, failure.code, failure.message, { field: failure.field, path: failure.path });
+}
+
+/**
+ * Validates a request's query/path parameters and JSON body against an operation.
+ *
+ * Path parameters are read from `req.query`, where both adapters put them.
+ *
+ * @param operationId - Operation in the OpenAPI document
+ * @param req - Incoming request
+ * @returns A 400 response for the first failure, or null if the request is valid
+ */
+export function validateRequest(operationId: OperationId, req: ApiRequest): ApiResponse | null {
+  const operation = getOperation(operationId);
+  const parameters = operation.parameters ?? [];
+
+  if (parameters.length > 0) {
+    const validate = compile(`parameters:${operationId}`, parameterAjv, {
+      type: 'object',
+      properties: Object.fromEntries(parameters.map((parameter) => [parameter.name, parameter.schema])),
+      required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+    });
+    // Validate a copy: coercion rewrites values in place
+    const values = Object.fromEntries(
+      parameters.filter((parameter) => req.query[parameter.name] !== undefined).map((parameter) => [parameter.name, req.query[parameter.name]])
+    );
+    if (!validate(values)) {
+      return validationErrorResponse(toFailure(validate.errors![0]));
+    }
+  }
+
+  if (operation.requestBody) {
+    const validate = compile(`body:${operationId}`, bodyAjv, operation.requestBody.content['application/json'].schema);
+    if (!validate(req.body ?? {})) {
+      return validationErrorResponse(toFailure(validate.errors![0]));
+    }
+  }
+
+  return null;
+}
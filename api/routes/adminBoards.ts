@@ -0,0 +1,82 @@
+import { getRepositories } from '../repositories';
+import { requireAdmin } from '../moderation';
+import { isValidHashedId } from '../hashedId';
+import { cleanupExpiredBoards } from '../gameRetention';
+import type { BoardAdminAction, BoardCleanupReport, BoardPinResponse, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type RequestContext, type Route } from '../http';
+
+export const BOARD_ADMIN_ACTIONS: readonly BoardAdminAction[] = ['cleanup', 'pin', 'unpin'];
+
+export function isBoardAdminAction(value: unknown): value is BoardAdminAction {
+  return typeof value === 'string' && (BOARD_ADMIN_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Handles GET /api/admin/boards.
+ *
+ * Dry run of the retention cleanup: lists the expired boards that `action: 'cleanup'`
+ * would delete, without changing anything.
+ *
+ * @returns 200 with the cleanup report (`applied: false`)
+ */
+async function getExpiredBoards(): Promise<ApiResponse> {
+  return jsonResponse(200, (await cleanupExpiredBoards({ apply: false })) satisfies Wire<BoardCleanupReport>);
+}
+
+/**
+ * Handles POST /api/admin/boards.
+ *
+ * Body: `{ action, link? }`, where `action` is:
+ * - `cleanup`: deletes expired, unplayed boards and records their links (see `api/gameRetention.ts`)
+ * - `pin`: keeps a featured board regardless of plays
+ * - `unpin`: makes a pinned board subject to the retention rules again
+ *
+ * @param req - Incoming request
+ * @returns 200 with the cleanup report or `{ link, pinned }`, or 404 if the board to pin does
+ *   not exist
+ */
+async function postBoardAction(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const { action, link } = (req.body ?? {}) as Record<string, unknown>;
+
+  if (!isBoardAdminAction(action)) {
+    return errorResponse(400, 'VALIDATION_ERROR', `action must be one of: ${BOARD_ADMIN_ACTIONS.join(', ')}`, {
+      field: 'action',
+      value: action,
+    });
+  }
+
+  if (action === 'cleanup') {
+    const report = await cleanupExpiredBoards({ apply: true });
+    log.info('Expired boards cleaned up', { deleted: report.boards.length, kept: report.kept.length });
+    return jsonResponse(200, report satisfies Wire<BoardCleanupReport>);
+  }
+
+  if (typeof link !== 'string' || !isValidHashedId(link)) {
+    return errorResponse(400, 'VALIDATION_ERROR', 'Invalid game link format. Expected 16-character link hash', {
+      field: 'link',
+      value: link,
+    });
+  }
+
+  const pinned = action === 'pin';
+  if (!(await getRepositories().games.setPinned(link, pinned))) {
+    return errorResponse(404, 'NOT_FOUND', 'Game not found', { link });
+  }
+
+  log.info(pinned ? 'Board pinned' : 'Board unpinned', { link });
+  return jsonResponse(200, { link, pinned } satisfies BoardPinResponse);
+}
+
+/**
+ * Board retention route (`/api/admin/boards`).
+ *
+ * Every method requires `Authorization: Bearer <ADMIN_TOKEN>`. Not cached.
+ */
+export const adminBoardsRoute: Route = {
+  name: 'Admin boards',
+  methods: {
+    GET: requireAdmin(getExpiredBoards),
+    POST: requireAdmin(postBoardAction),
+  },
+  headers: { 'Cache-Control': 'no-store' },
+};
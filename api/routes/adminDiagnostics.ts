@@ -0,0 +1,49 @@
+import { getStorageMode } from '../config';
+import { getRepositories } from '../repositories';
+import { requireAdmin } from '../moderation';
+import { checkReadiness, getBuildInfo } from '../readiness';
+import type { Diagnostics, Wire } from '../../shared/contracts';
+import { jsonResponse, type ApiResponse, type Route } from '../http';
+
+/**
+ * Number of recent generated game links listed.
+ */
+const RECENT_GAMES_LIMIT = 5;
+
+/**
+ * Handles GET /api/admin/diagnostics.
+ *
+ * Returns the full readiness report (including error messages and missing index keys),
+ * the build information, the storage backend and the size and most recent links of the
+ * generated-games collection. Replaces the old public `GET /api/games?debug=true`.
+ *
+ * @returns 200 with the diagnostics, also when the database is unreachable
+ */
+async function getDiagnostics(): Promise<ApiResponse> {
+  const { system, games } = getRepositories();
+  const readiness = await checkReadiness(system);
+
+  let generatedGames: { total: number; recentLinks: { link: string; createdAt: Date }[] } | null = null;
+  if (readiness.database.ok) {
+    const [total, recent] = await Promise.all([games.count(), games.findRecent(RECENT_GAMES_LIMIT)]);
+    generatedGames = { total, recentLinks: recent.map((doc) => ({ link: doc.link, createdAt: doc.createdAt })) };
+  }
+
+  return jsonResponse(200, {
+    build: getBuildInfo(),
+    storage: getStorageMode(),
+    readiness,
+    generatedGames,
+  } satisfies Wire<Diagnostics>);
+}
+
+/**
+ * Diagnostics route (`/api/admin/diagnostics`).
+ *
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`. Not cached.
+ */
+export const adminDiagnosticsRoute: Route = {
+  name: 'Diagnostics',
+  methods: { GET: requireAdmin(getDiagnostics) },
+  headers: { 'Cache-Control': 'no-store' },
+};
@@ -0,0 +1,126 @@
+import { getRepositories } from '../repositories';
+import { isModerationAction, requireAdmin, moderateEntry, MAX_MODERATION_TEXT_LENGTH, MODERATION_ACTIONS } from '../moderation';
+import type { ModerationListResponse, ModerationResponse, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type RequestContext, type Route } from '../http';
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 500;
+
+/**
+ * Reads an optional text field from the request body.
+ *
+ * @returns The trimmed text (undefined if absent), or an error message
+ */
+function readText(body: Record<string, unknown>, field: string, maxLength: number): { value?: string; error?: string } {
+  const raw = body[field];
+  if (raw === undefined || raw === null) {
+    return {};
+  }
+  if (typeof raw !== 'string') {
+    return { error: `${field} must be a string` };
+  }
+  const value = raw.trim();
+  if (value.length > maxLength) {
+    return { error: `${field} must be at most ${maxLength} characters` };
+  }
+  return { value: value || undefined };
+}
+
+/**
+ * Handles POST /api/admin/moderation.
+ *
+ * Body: `{ entryId, action, note?, reason?, actor? }`, where `action` is `hide`, `unhide`,
+ * `flag`, `unflag` or `annotate`. `note` replaces the entry's moderator note (annotate only;
+ * an empty note clears it). `reason` and `actor` are recorded in the audit log.
+ *
+ * @param req - Incoming request
+ * @returns 200 with `{ entryId, moderation }`, or 404 if the entry does not exist
+ */
+async function postModeration(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const { entryId, action } = body;
+
+  if (typeof entryId !== 'string' || !/^[0-9a-f]{24}$/i.test(entryId)) {
+    return errorResponse(400, 'VALIDATION_ERROR', 'entryId must be a 24-character leaderboard entry ID', {
+      field: 'entryId',
+      value: entryId,
+    });
+  }
+
+  if (!isModerationAction(action)) {
+    return errorResponse(400, 'VALIDATION_ERROR', `action must be one of: ${MODERATION_ACTIONS.join(', ')}`, {
+      field: 'action',
+      value: action,
+    });
+  }
+
+  const note = readText(body, 'note', MAX_MODERATION_TEXT_LENGTH);
+  const reason = readText(body, 'reason', MAX_MODERATION_TEXT_LENGTH);
+  const actor = readText(body, 'actor', 50);
+  const textError = note.error || reason.error || actor.error;
+  if (textError) {
+    return errorResponse(400, 'VALIDATION_ERROR', textError);
+  }
+
+  if (note.value !== undefined && action !== 'annotate') {
+    return errorResponse(400, 'VALIDATION_ERROR', "note is only accepted with the 'annotate' action. Use reason instead", {
+      field: 'note',
+    });
+  }
+
+  const moderation = await moderateEntry({
+    entryId,
+    action,
+    note: note.value,
+    reason: reason.value,
+    actor: actor.value,
+  });
+
+  if (!moderation) {
+    return errorResponse(404, 'NOT_FOUND', 'Leaderboard entry not found', { entryId });
+  }
+
+  log.info('Moderation action applied', { entryId, action, actor: actor.value });
+  return jsonResponse(200, { entryId, moderation } satisfies Wire<ModerationResponse>);
+}
+
+/**
+ * Handles GET /api/admin/moderation.
+ *
+ * - `view=audit` (default): recent audit records, newest first, optionally for one `entryId`
+ * - `view=flagged`: flagged entries (including hidden ones) with their moderation state
+ *
+ * @param req - Incoming request (`view`, `entryId` and `limit` in `query`)
+ * @returns 200 with `{ audit }` or `{ entries }`
+ */
+async function getModeration(req: ApiRequest): Promise<ApiResponse> {
+  const view = req.query.view || 'audit';
+  const limit = Math.min(Math.max(parseInt(req.query.limit ?? '', 10) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+  const { leaderboard, moderationAudit } = getRepositories();
+
+  if (view === 'flagged') {
+    return jsonResponse(200, { entries: await leaderboard.findFlagged(limit) } satisfies Wire<ModerationListResponse>);
+  }
+
+  if (view !== 'audit') {
+    return errorResponse(400, 'VALIDATION_ERROR', "view must be 'audit' or 'flagged'", { field: 'view', value: view });
+  }
+
+  return jsonResponse(200, {
+    audit: await moderationAudit.findRecent(limit, req.query.entryId || undefined),
+  } satisfies Wire<ModerationListResponse>);
+}
+
+/**
+ * Leaderboard moderation route (`/api/admin/moderation`).
+ *
+ * Every method requires `Authorization: Bearer <ADMIN_TOKEN>`. Not cached.
+ */
+export const adminModerationRoute: Route = {
+  name: 'Admin moderation',
+  methods: {
+    GET: requireAdmin(getModeration),
+    POST: requireAdmin(postModeration),
+  },
+  headers: { 'Cache-Control': 'no-store' },
+};
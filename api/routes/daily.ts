@@ -0,0 +1,27 @@
+import { getOrCreateDailyGame, getUtcDateKey } from '../dailyChallenge';
+import type { DailyGame, Wire } from '../../shared/contracts';
+import { jsonResponse, type ApiResponse, type Route } from '../http';
+
+/**
+ * Handles GET /api/daily.
+ *
+ * Returns today's daily challenge board (UTC), creating it on the first request of the day.
+ * The game is played like any shared game: the client starts a session with the returned `link`.
+ *
+ * @returns 200 with the game (without the stored `_id` and retention fields) and its `dailyDate`
+ */
+async function getDailyGame(): Promise<ApiResponse> {
+  const { _id, expiresAt, pinned, ...gameState } = await getOrCreateDailyGame(getUtcDateKey());
+  return jsonResponse(200, gameState satisfies Wire<DailyGame>);
+}
+
+/**
+ * Daily challenge route (`/api/daily`).
+ *
+ * Not cached, so clients pick up the new board right after midnight UTC.
+ */
+export const dailyRoute: Route = {
+  name: 'Daily',
+  methods: { GET: getDailyGame },
+  headers: { 'Cache-Control': 'no-store' },
+};
@@ -0,0 +1,38 @@
+import { validateRequest } from '../requestValidation';
+import { findBoard } from '../gameRetention';
+import { boardResponse } from './games';
+import type { ApiRequest, ApiResponse, Route } from '../http';
+
+/**
+ * Handles GET /api/games/:hashedId.
+ *
+ * Retrieves a shareable game by link (16-character hash). The legacy `gameId`
+ * path parameter is accepted as an alias.
+ *
+ * @param req - Incoming request (`hashedId` or `gameId` in `query`)
+ * @returns 200 with the board (see `boardResponse` in `./games`), 304, or 410 if the board
+ *   has expired
+ */
+async function getGameById(req: ApiRequest): Promise<ApiResponse> {
+  const identifier = req.query.hashedId ?? req.query.gameId;
+
+  const invalid = validateRequest('getGameByHashedId', { ...req, query: { ...req.query, hashedId: identifier } });
+  if (invalid) {
+    return invalid;
+  }
+
+  const { game, error } = await findBoard(identifier as string, { identifier });
+  if (error) {
+    return error;
+  }
+
+  return boardResponse(req, game);
+}
+
+/**
+ * Single game route (`/api/games/:hashedId`).
+ */
+export const gameByIdRoute: Route = {
+  name: 'Games',
+  methods: { GET: getGameById },
+};
@@ -0,0 +1,85 @@
+import { getRepositories, type LeaderboardFilter } from '../repositories';
+import { isValidHashedId } from '../hashedId';
+import { findBoard } from '../gameRetention';
+import { parseLeaderboardQuery, type LeaderboardQuery } from './leaderboard';
+import { cachedJsonResponse, LEADERBOARD_CACHE } from '../httpCache';
+import type { BoardLeaderboardPage, Wire } from '../../shared/contracts';
+import { errorResponse, type ApiRequest, type ApiResponse, type Route } from '../http';
+
+/**
+ * Handles GET /api/games/:hashedId/leaderboard.
+ *
+ * Returns paginated leaderboard entries for a single board, including the original
+ * random game that created it and every repeat play, plus board-level stats.
+ *
+ * @param req - Incoming request (`hashedId` in `query`, plus the usual leaderboard
+ *   `limit`, `page`, `sortBy`, `sortOrder`, `dateFrom` and `dateTo` parameters)
+ * @returns 200 with `{ link, users, pagination, sort, stats }`, 304 when the client's ETag
+ *   is current, or 410 if the board has expired
+ */
+async function getGameLeaderboard(req: ApiRequest): Promise<ApiResponse> {
+  const link = (req.query.hashedId || '').trim();
+
+  if (!isValidHashedId(link)) {
+    return errorResponse(
+      400,
+      'VALIDATION_ERROR',
+      'Invalid game link format. Expected 16-character link hash',
+      { field: 'hashedId', value: link }
+    );
+  }
+
+  let parsedQuery: LeaderboardQuery;
+  try {
+    // Both the original random game and repeat plays count for a board
+    parsedQuery = parseLeaderboardQuery({ ...req.query, gameType: 'all' });
+  } catch (error) {
+    const err = error as Error;
+    return errorResponse(400, 'VALIDATION_ERROR', err.message, { field: 'date', value: req.query });
+  }
+
+  const { error } = await findBoard(link);
+  if (error) {
+    return error;
+  }
+
+  const { limit, page, sortField, sortOrder, dateFrom, dateTo } = parsedQuery;
+  const filter: LeaderboardFilter = { dateFrom, dateTo, gameType: 'all', generatedGame: link };
+
+  const { leaderboard } = getRepositories();
+  const [{ entries: users, totalCount }, stats] = await Promise.all([
+    leaderboard.findPage({ filter, sortField, sortOrder, skip: (page - 1) * limit, limit }),
+    leaderboard.getBoardStats(link),
+  ]);
+
+  return cachedJsonResponse(
+    req,
+    {
+      link,
+      users,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+      sort: {
+        sortBy: sortField,
+        sortOrder,
+      },
+      stats,
+    } satisfies Wire<BoardLeaderboardPage>,
+    LEADERBOARD_CACHE
+  );
+}
+
+/**
+ * Per-board leaderboard route (`/api/games/:hashedId/leaderboard`).
+ *
+ * Cached like the global leaderboard (see `LEADERBOARD_CACHE`).
+ */
+export const gameLeaderboardRoute: Route = {
+  name: 'Game leaderboard',
+  methods: { GET: getGameLeaderboard },
+  headers: { 'Cache-Control': 'no-store' },
+};
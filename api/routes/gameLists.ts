@@ -0,0 +1,121 @@
+import { getRepositories, type Stored } from '../repositories';
+import type { GeneratedGame } from '../mongoClient';
+import { validateRequest } from '../requestValidation';
+import { TRENDING_WINDOW_DAYS, type OperationId } from '../openapi';
+import { BOARD_LIST_CACHE, cachedJsonResponse } from '../httpCache';
+import type { BoardListPage, BoardListSort, BoardSummary, Wire } from '../../shared/contracts';
+import type { ApiRequest, ApiResponse, Route } from '../http';
+
+const DEFAULT_LIMIT = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const OPERATIONS: Record<BoardListSort, OperationId> = {
+  popular: 'listPopularGames',
+  recent: 'listRecentGames',
+  trending: 'listTrendingGames',
+};
+
+/**
+ * Loads one page of boards in list order, with their play count in the trending window.
+ */
+async function findBoards(
+  sort: BoardListSort,
+  skip: number,
+  limit: number
+): Promise<{ games: Array<Stored<GeneratedGame> & { recentPlays?: number }>; totalCount: number }> {
+  const { games, leaderboard } = getRepositories();
+
+  if (sort !== 'trending') {
+    return games.findPage({ sort, skip, limit });
+  }
+
+  const since = new Date(Date.now() - TRENDING_WINDOW_DAYS * DAY_MS);
+  const { boards, totalCount } = await leaderboard.findTrendingBoards({ since, skip, limit });
+  const byLink = new Map((await games.findByLinks(boards.map((board) => board.generatedGame))).map((game) => [game.link, game]));
+
+  // Entries for boards missing from generated-games (legacy data) are skipped
+  return {
+    games: boards.flatMap(({ generatedGame, plays }) => {
+      const game = byLink.get(generatedGame);
+      return game ? [{ ...game, recentPlays: plays }] : [];
+    }),
+    totalCount,
+  };
+}
+
+/**
+ * Handles GET /api/games/popular, /api/games/recent and /api/games/trending.
+ *
+ * Lists shared boards for the app's "Browse boards" section: most replayed, newest, or
+ * most played in the last `TRENDING_WINDOW_DAYS` days. Daily challenge boards are left out
+ * so past dailies can't be replayed into the daily rankings.
+ *
+ * @param sort - List to return
+ * @param req - Incoming request (`limit` and `page` in `query`)
+ * @returns 200 with `{ boards, pagination, sort }`, where each board has its grid, times
+ *   played and best score, or 304
+ */
+async function listBoards(sort: BoardListSort, req: ApiRequest): Promise<ApiResponse> {
+  const invalid = validateRequest(OPERATIONS[sort], req);
+  if (invalid) {
+    return invalid;
+  }
+
+  const limit = Number(req.query.limit ?? DEFAULT_LIMIT);
+  const page = Number(req.query.page ?? 1);
+
+  const { games, totalCount } = await findBoards(sort, (page - 1) * limit, limit);
+  const bestScores = await getRepositories().leaderboard.getBestScores(games.map((game) => game.link));
+
+  const boards = games.map(
+    (game): Wire<BoardSummary> => ({
+      link: game.link,
+      bingopediaGame: game.bingopediaGame,
+      createdAt: game.createdAt,
+      timesPlayed: game.timesPlayed,
+      bestScore: bestScores[game.link] ?? null,
+      ...(game.recentPlays !== undefined ? { recentPlays: game.recentPlays } : {}),
+      ...(game.title !== undefined ? { title: game.title } : {}),
+      ...(game.creatorName !== undefined ? { creatorName: game.creatorName } : {}),
+      ...(game.description !== undefined ? { description: game.description } : {}),
+    })
+  );
+
+  return cachedJsonResponse(
+    req,
+    {
+      boards,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+      },
+      sort,
+    } satisfies Wire<BoardListPage>,
+    BOARD_LIST_CACHE
+  );
+}
+
+function boardListRoute(name: string, sort: BoardListSort): Route {
+  return {
+    name,
+    methods: { GET: (req) => listBoards(sort, req) },
+  };
+}
+
+/**
+ * Most replayed boards (`/api/games/popular`).
+ */
+export const popularGamesRoute = boardListRoute('Popular games', 'popular');
+
+/**
+ * Newest boards (`/api/games/recent`).
+ */
+export const recentGamesRoute = boardListRoute('Recent games', 'recent');
+
+/**
+ * Boards with the most leaderboard entries in the last week (`/api/games/trending`).
+ */
+export const trendingGamesRoute = boardListRoute('Trending games', 'trending');
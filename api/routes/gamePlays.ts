@@ -0,0 +1,38 @@
+import { validateRequest } from '../requestValidation';
+import { findBoard } from '../gameRetention';
+import { cachedJsonResponse, REVALIDATE_CACHE } from '../httpCache';
+import type { GamePlays } from '../../shared/contracts';
+import type { ApiRequest, ApiResponse, Route } from '../http';
+
+/**
+ * Handles GET /api/games/:hashedId/plays.
+ *
+ * Returns how many times a board has been replayed. Kept out of the board response so
+ * board lookups can be cached indefinitely.
+ *
+ * @param req - Incoming request (`hashedId` in `query`)
+ * @returns 200 with `{ link, timesPlayed }`, 304 when the client's ETag is current, or 410 if
+ *   the board has expired
+ */
+async function getGamePlays(req: ApiRequest): Promise<ApiResponse> {
+  const invalid = validateRequest('getGamePlays', req);
+  if (invalid) {
+    return invalid;
+  }
+
+  const link = req.query.hashedId as string;
+  const { game, error } = await findBoard(link);
+  if (error) {
+    return error;
+  }
+
+  return cachedJsonResponse(req, { link, timesPlayed: game.timesPlayed } satisfies GamePlays, REVALIDATE_CACHE);
+}
+
+/**
+ * Board play count route (`/api/games/:hashedId/plays`).
+ */
+export const gamePlaysRoute: Route = {
+  name: 'Game plays',
+  methods: { GET: getGamePlays },
+};
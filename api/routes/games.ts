@@ -0,0 +1,140 @@
+import type { GeneratedGame } from '../mongoClient';
+import { getRepositories, DuplicateKeyError, type Stored } from '../repositories';
+import { generateHashedId } from '../hashedId';
+import { validateRequest } from '../requestValidation';
+import { validateAndSanitizeBoardDetails } from '../validation';
+import { checkCustomBoard } from '../customBoards';
+import { canBoardExpire, findBoard, getBoardExpiry } from '../gameRetention';
+import type { BoardTitleIssue } from '../../shared/boardValidation';
+import { cachedJsonResponse, IMMUTABLE_CACHE, REVALIDATE_CACHE } from '../httpCache';
+import type { CreateGameRequest, GeneratedGame as Board, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type RequestContext, type Route } from '../http';
+
+/**
+ * Strips a stored game down to its immutable fields: `timesPlayed` changes with every
+ * repeat play and is served separately by `/api/games/:hashedId/plays`, and the retention
+ * fields (`expiresAt`, `pinned`) are for maintainers only.
+ *
+ * @param game - Stored game
+ * @returns The board as returned by the API
+ */
+export function toBoard(game: Stored<GeneratedGame>): Omit<GeneratedGame, '_id' | 'timesPlayed' | 'expiresAt' | 'pinned'> {
+  const { _id, timesPlayed, expiresAt, pinned, ...board } = game;
+  return board;
+}
+
+/**
+ * Creates the response for a board lookup. Boards never change, so conditional requests
+ * (`If-None-Match`, `If-Modified-Since`) get a 304. Kept boards are cacheable indefinitely;
+ * boards that may still expire are revalidated, so clients see the 410 once they do.
+ *
+ * @param req - Incoming request
+ * @param game - Stored game
+ * @returns 200 with the board, or 304
+ */
+export function boardResponse(req: ApiRequest, game: Stored<GeneratedGame>): ApiResponse {
+  const policy = canBoardExpire(game) ? REVALIDATE_CACHE : IMMUTABLE_CACHE;
+  return cachedJsonResponse(req, toBoard(game) satisfies Wire<Board>, policy, new Date(game.createdAt));
+}
+
+/**
+ * Handles GET /api/games?link=...
+ *
+ * Retrieves a shareable game by link (validated against the `getGame` operation in
+ * `api/openapi.ts`). Collection diagnostics are available to maintainers
+ * at `/api/admin/diagnostics`.
+ *
+ * @param req - Incoming request
+ * @returns 200 with the board (see `boardResponse`), 304, or 410 if the board has expired
+ */
+async function getGame(req: ApiRequest): Promise<ApiResponse> {
+  const invalid = validateRequest('getGame', req);
+  if (invalid) {
+    return invalid;
+  }
+
+  const { game, error } = await findBoard(req.query.link as string);
+  if (error) {
+    return error;
+  }
+
+  return boardResponse(req, game);
+}
+
+/**
+ * Handles POST /api/games.
+ *
+ * Creates a new shareable game entry from a 26-title board (validated against the
+ * `createGame` operation in `api/openapi.ts`). The optional title, creator name and
+ * description are sanitized with the username rules. Boards from the board builder
+ * (`source: 'custom'`) have their titles checked against Wikipedia before they are stored.
+ * New boards expire after `GAME_RETENTION_DAYS` unless they are played (see `api/gameRetention.ts`).
+ *
+ * @param req - Incoming request (`{ bingopediaGame, source?, title?, creatorName?, description? }` body)
+ * @returns 201 with the board, 400 when a custom board has an invalid title, or 503 when
+ *   Wikipedia can't be reached to check one
+ */
+async function createGame(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const invalid = validateRequest('createGame', req);
+  if (invalid) {
+    return invalid;
+  }
+
+  const { bingopediaGame, source = 'generated', title, creatorName, description } = req.body as CreateGameRequest;
+  const { details, error, field } = validateAndSanitizeBoardDetails({ title, creatorName, description });
+  if (error) {
+    return errorResponse(400, 'VALIDATION_ERROR', error, { field });
+  }
+
+  if (source === 'custom') {
+    let issues: BoardTitleIssue[];
+    try {
+      issues = await checkCustomBoard(bingopediaGame);
+    } catch (lookupError) {
+      log.warn('Custom board check failed', { error: lookupError });
+      return errorResponse(503, 'NETWORK_ERROR', 'Could not check the board with Wikipedia. Please try again.');
+    }
+    if (issues.length > 0) {
+      return errorResponse(400, 'VALIDATION_ERROR', issues[0].message, { field: 'bingopediaGame', issues });
+    }
+  }
+
+  const { games } = getRepositories();
+
+  // Generate hashed ID with collision handling (max 3 attempts)
+  const maxAttempts = 3;
+  for (let attempts = 1; attempts <= maxAttempts; attempts += 1) {
+    const createdAt = new Date();
+    const gameState: GeneratedGame = {
+      link: generateHashedId(),
+      bingopediaGame,
+      createdAt,
+      timesPlayed: 0,
+      source,
+      ...details,
+      expiresAt: getBoardExpiry(createdAt),
+    };
+
+    try {
+      return jsonResponse(201, toBoard(await games.insert(gameState)) satisfies Wire<Board>);
+    } catch (error) {
+      // Retry with a new link on collisions, re-throw anything else
+      if (!(error instanceof DuplicateKeyError)) {
+        throw error;
+      }
+    }
+  }
+
+  log.error('Failed to generate a unique game link', { attempts: maxAttempts });
+  return errorResponse(500, 'SERVER_ERROR', 'Failed to generate unique game ID. Please try again.', {
+    attempts: maxAttempts,
+  });
+}
+
+/**
+ * Shareable games route (`/api/games`).
+ */
+export const gamesRoute: Route = {
+  name: 'Games',
+  methods: { GET: getGame, POST: createGame },
+};
@@ -0,0 +1,77 @@
+import { getRepositories } from '../repositories';
+import { checkReadiness, getBuildInfo } from '../readiness';
+import type { BuildInfo, HealthStatus, ReadinessSummary } from '../../shared/contracts';
+import { jsonResponse, type ApiResponse, type Route } from '../http';
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+/**
+ * Handles GET /api/health.
+ *
+ * Reports that the process is up. Does not touch the database.
+ *
+ * @returns 200 with `{ status: 'ok', uptimeSeconds }`
+ */
+async function getHealth(): Promise<ApiResponse> {
+  return jsonResponse(200, { status: 'ok', uptimeSeconds: Math.round(process.uptime()) } satisfies HealthStatus);
+}
+
+/**
+ * Handles GET /api/ready.
+ *
+ * Pings the database, checks the required indexes and validates the configuration.
+ * Error messages are left out; `/api/admin/diagnostics` includes them.
+ *
+ * @returns 200 with the readiness summary when ready or degraded (missing indexes),
+ *   503 when the database is unreachable or a required setting is invalid
+ */
+async function getReady(): Promise<ApiResponse> {
+  const report = await checkReadiness(getRepositories().system);
+
+  return jsonResponse(report.status === 'not_ready' ? 503 : 200, {
+    status: report.status,
+    database: { ok: report.database.ok, latencyMs: report.database.latencyMs },
+    indexes: { ok: report.indexes.ok, missing: report.indexes.missing.length },
+    config: {
+      ok: report.config.ok,
+      invalid: report.config.checks.filter((check) => !check.ok).map((check) => check.name),
+    },
+  } satisfies ReadinessSummary);
+}
+
+/**
+ * Handles GET /api/version.
+ *
+ * @returns 200 with the build information (see `BuildInfo`)
+ */
+async function getVersion(): Promise<ApiResponse> {
+  return jsonResponse(200, getBuildInfo() satisfies BuildInfo);
+}
+
+/**
+ * Liveness route (`/api/health`). Not cached.
+ */
+export const healthRoute: Route = {
+  name: 'Health',
+  methods: { GET: getHealth },
+  headers: NO_STORE,
+};
+
+/**
+ * Readiness route (`/api/ready`). Not cached.
+ */
+export const readyRoute: Route = {
+  name: 'Ready',
+  methods: { GET: getReady },
+  headers: NO_STORE,
+};
+
+/**
+ * Build information route (`/api/version`). Not cached, so it always reflects the
+ * deployment serving the request.
+ */
+export const versionRoute: Route = {
+  name: 'Version',
+  methods: { GET: getVersion },
+  headers: NO_STORE,
+};
@@ -0,0 +1,365 @@
+import type { LeaderboardEntry, GeneratedGame } from '../mongoClient';
+import {
+  getRepositories,
+  type GameTypeFilter,
+  type LeaderboardFilter,
+  type LeaderboardSortField,
+  type SortOrder,
+  type Stored,
+} from '../repositories';
+import {
+  validateAndSanitizeUsername,
+  validateScoreData,
+  calculateScore,
+  validateGameMetrics,
+  resolveSubmittedTime,
+} from '../validation';
+import { loadGameSession, consumeGameSession, releaseGameSession, validateSessionBoard } from '../gameSessions';
+import { verifyBingo } from '../bingoVerification';
+import { generateHashedId } from '../hashedId';
+import { getDailyLink, isValidDateKey } from '../dailyChallenge';
+import { claimUsername, findUsernameClaim, verifyOwnershipKey } from '../usernameClaims';
+import { validateRequest } from '../requestValidation';
+import { cachedJsonResponse, LEADERBOARD_CACHE } from '../httpCache';
+import type { LeaderboardPage, SubmitScoreRequest, SubmittedEntry, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type RequestContext, type Route } from '../http';
+
+/**
+ * Replaces spaces with underscores in article titles.
+ * Used when saving history to the leaderboard.
+ * 
+ * @param title - Article title (may include "[Found] " prefix)
+ * @returns Title with spaces replaced by underscores
+ */
+function replaceSpacesWithUnderscores(title: string): string {
+  if (!title) return title;
+  
+  // If title starts with "[Found] ", replace spaces only in the article title part
+  if (title.startsWith('[Found] ')) {
+    const articleTitle = title.replace('[Found] ', '');
+    return `[Found] ${articleTitle.replace(/\s+/g, '_')}`;
+  }
+  
+  // Otherwise, replace all spaces in the title
+  return title.replace(/\s+/g, '_');
+}
+
+export interface LeaderboardQuery extends LeaderboardFilter {
+  limit: number;
+  page: number;
+  sortField: LeaderboardSortField;
+  sortOrder: SortOrder;
+}
+
+/**
+ * Parses and validates query parameters for leaderboard requests.
+ *
+ * Default behavior:
+ * - sortOrder defaults to 'asc' (lower scores rank higher)
+ * - When sorting by score, entries with equal scores are sorted by createdAt ascending (earlier dates rank higher)
+ *
+ * @param query - Query parameters from the request
+ * @returns Parsed and validated query parameters with defaults applied
+ * @throws Error if date, gameType or dailyDate parameters are invalid
+ */
+export function parseLeaderboardQuery(query: Record<string, string | undefined>): LeaderboardQuery {
+  const limit = Math.max(parseInt(query.limit ?? '10', 10) || 10, 1);
+  const page = Math.max(parseInt(query.page ?? '1', 10) || 1, 1);
+  const sortBy = (query.sortBy as LeaderboardSortField) || 'score';
+  // Default to ascending sort order (lower scores rank higher)
+  const sortOrder: SortOrder = query.sortOrder === 'desc' ? 'desc' : 'asc';
+
+  const validSortFields: LeaderboardSortField[] = ['score', 'clicks', 'time', 'createdAt', 'username'];
+  const sortField: LeaderboardSortField = validSortFields.includes(sortBy) ? sortBy : 'score';
+
+  // Parse and validate date parameters
+  let dateFrom: Date | undefined;
+  let dateTo: Date | undefined;
+
+  if (query.dateFrom) {
+    dateFrom = new Date(query.dateFrom);
+    if (isNaN(dateFrom.getTime())) {
+      throw new Error('Invalid dateFrom format. Expected ISO date string (e.g., 2024-01-01T00:00:00Z)');
+    }
+  }
+
+  if (query.dateTo) {
+    dateTo = new Date(query.dateTo);
+    if (isNaN(dateTo.getTime())) {
+      throw new Error('Invalid dateTo format. Expected ISO date string (e.g., 2024-01-31T23:59:59Z)');
+    }
+  }
+
+  // Validate date range
+  if (dateFrom && dateTo && dateFrom > dateTo) {
+    throw new Error('dateFrom must be before or equal to dateTo');
+  }
+
+  // Parse and validate gameType
+  const gameType = query.gameType || 'random';
+  if (gameType !== 'random' && gameType !== 'repeat' && gameType !== 'daily' && gameType !== 'all') {
+    throw new Error("gameType must be 'random', 'repeat', 'daily', or 'all'");
+  }
+
+  // A daily date selects that day's daily challenge board
+  let generatedGame: string | undefined;
+  if (query.dailyDate) {
+    if (!isValidDateKey(query.dailyDate)) {
+      throw new Error('Invalid dailyDate format. Expected YYYY-MM-DD');
+    }
+    generatedGame = getDailyLink(query.dailyDate);
+  }
+
+  return { limit, page, sortField, sortOrder, dateFrom, dateTo, gameType: gameType as GameTypeFilter, generatedGame };
+}
+
+/**
+ * Handles GET /api/leaderboard.
+ *
+ * @param req - Incoming request
+ * @returns 200 with paginated entries, pagination info and the applied sort, or 304 when the
+ *   client's ETag is current
+ *
+ * @remarks
+ * - Supports pagination via `limit` and `page` query parameters
+ * - Supports sorting via `sortBy` and `sortOrder` query parameters
+ * - Supports filtering via `dateFrom`, `dateTo`, `gameType` and `dailyDate` query parameters
+ * - Parameters are validated against the `getLeaderboard` operation in `api/openapi.ts`;
+ *   `parseLeaderboardQuery` applies defaults and checks the date range
+ */
+async function getLeaderboard(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const invalid = validateRequest('getLeaderboard', req);
+  if (invalid) {
+    return invalid;
+  }
+
+  let parsedQuery: LeaderboardQuery;
+  try {
+    parsedQuery = parseLeaderboardQuery(req.query);
+  } catch (error) {
+    const err = error as Error;
+    return errorResponse(400, 'VALIDATION_ERROR', err.message, { field: 'date', value: req.query });
+  }
+
+  const { limit, page, sortField, sortOrder, dateFrom, dateTo, gameType, generatedGame } = parsedQuery;
+  const filter: LeaderboardFilter = { dateFrom, dateTo, gameType, generatedGame };
+
+  const { entries: users, totalCount } = await getRepositories().leaderboard.findPage({
+    filter,
+    sortField,
+    sortOrder,
+    skip: (page - 1) * limit,
+    limit,
+  });
+  const totalPages = Math.ceil(totalCount / limit);
+
+  log.debug('Leaderboard page', { filter, sortField, sortOrder, page, limit, totalCount });
+
+  return cachedJsonResponse(
+    req,
+    {
+      users,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+      },
+      sort: {
+        sortBy: sortField,
+        sortOrder,
+      },
+    } satisfies Wire<LeaderboardPage>,
+    LEADERBOARD_CACHE
+  );
+}
+
+/**
+ * Handles POST /api/leaderboard.
+ *
+ * Submits a leaderboard entry for a finished game. The submission must carry the
+ * session token issued when the game started; time and score are recomputed server-side
+ * and the win is re-derived from the board and history.
+ *
+ * Claimed usernames require their `ownershipKey`. A submission under an unclaimed name
+ * claims it and the response includes the new `ownershipKey`.
+ *
+ * The body is validated against the `submitScore` operation in `api/openapi.ts`.
+ *
+ * @param req - Incoming request
+ * @returns 201 with the inserted entry (plus `ownershipKey` when the name was just claimed)
+ */
+async function submitScore(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const invalid = validateRequest('submitScore', req);
+  if (invalid) {
+    return invalid;
+  }
+
+  const { username, score, time, clicks, history, bingopediaGame, generatedGame, gameType, sessionToken, ownershipKey } =
+    req.body as SubmitScoreRequest;
+
+  log.debug('Score submission received', {
+    score,
+    hasBingopediaGame: Array.isArray(bingopediaGame),
+    bingopediaGameLength: Array.isArray(bingopediaGame) ? bingopediaGame.length : 0,
+    hasHistory: Array.isArray(history),
+    historyLength: Array.isArray(history) ? history.length : 0,
+    generatedGame,
+    receivedGameType: gameType,
+  });
+
+  const usernameValidation = validateAndSanitizeUsername(String(username));
+  if (usernameValidation.error) {
+    return errorResponse(400, 'VALIDATION_ERROR', usernameValidation.error, { field: 'username', value: String(username) });
+  }
+
+  // Claimed names require the ownership key issued with their first submission
+  const claim = await findUsernameClaim(usernameValidation.username);
+  if (claim && !verifyOwnershipKey(claim, ownershipKey)) {
+    return errorResponse(
+      403,
+      'USERNAME_CLAIMED',
+      'This username is claimed. Import its ownership key or choose another name',
+      { field: 'ownershipKey', username: usernameValidation.username }
+    );
+  }
+
+  const scoreValidation = validateScoreData(score, time, clicks);
+  if (scoreValidation.error) {
+    return errorResponse(400, 'VALIDATION_ERROR', scoreValidation.error, { field: 'score', value: score, time, clicks });
+  }
+
+  // The session token proves when and with which board the game started
+  const { session, error: sessionError } = await loadGameSession(sessionToken);
+  if (!session) {
+    return errorResponse(401, 'INVALID_SESSION', sessionError || 'Invalid game session', { field: 'sessionToken' });
+  }
+
+  // Elapsed time is measured on the server from the session start
+  const serverElapsed = (Date.now() - session.startedAt.getTime()) / 1000;
+  const submittedTime = resolveSubmittedTime(scoreValidation.time, serverElapsed);
+
+  // Validate that clicks and time are consistent with history (prevents manipulation)
+  const metricsValidation = validateGameMetrics(scoreValidation.clicks, submittedTime, history);
+  if (metricsValidation.error) {
+    return errorResponse(
+      400,
+      'VALIDATION_ERROR',
+      metricsValidation.error,
+      { field: 'gameMetrics', clicks: scoreValidation.clicks, time: submittedTime, historyLength: Array.isArray(history) ? history.length : 0 }
+    );
+  }
+
+  // Recalculate score server-side from time and clicks (ignore client-provided score)
+  // This prevents users from manipulating the score calculation
+  const serverCalculatedScore = calculateScore(submittedTime, scoreValidation.clicks);
+
+  // Repeat games are identified by the session, not by the client-provided generatedGame
+  if (generatedGame && generatedGame !== session.generatedGame) {
+    return errorResponse(401, 'INVALID_SESSION', 'Game link does not match the game session', { field: 'generatedGame' });
+  }
+  const validGameType = session.gameType ?? (session.generatedGame ? 'repeat' : 'random');
+
+  // Check if bingopediaGame should be included
+  const submittedBoard: string[] | undefined =
+    Array.isArray(bingopediaGame) && bingopediaGame.length >= 26 ? bingopediaGame.map(String) : undefined;
+
+  if (submittedBoard) {
+    const boardValidation = validateSessionBoard(session.bingopediaGame, submittedBoard);
+    if (boardValidation.error) {
+      return errorResponse(401, 'INVALID_SESSION', boardValidation.error, { field: 'bingopediaGame' });
+    }
+  }
+
+  // Re-derive the win from the board and the [Found] history entries
+  const bingoVerification = await verifyBingo(
+    submittedBoard ?? session.bingopediaGame,
+    Array.isArray(history) ? history.map(String) : []
+  );
+  if (bingoVerification.error) {
+    return errorResponse(400, 'VALIDATION_ERROR', bingoVerification.error, { field: 'history' });
+  }
+
+  // Use the session's generatedGame (for repeat and daily games) or generate a new one (for random games)
+  const finalGeneratedGame = session.generatedGame ?? generateHashedId();
+
+  const entry: LeaderboardEntry = {
+    username: usernameValidation.username,
+    score: serverCalculatedScore, // Use server-calculated score, not client-provided
+    time: submittedTime,
+    clicks: scoreValidation.clicks,
+    ...(submittedBoard ? { bingopediaGame: submittedBoard } : {}),
+    history: Array.isArray(history) ? history.map((title) => replaceSpacesWithUnderscores(String(title))) : [],
+    createdAt: new Date(),
+    gameType: validGameType,
+    generatedGame: finalGeneratedGame,
+  };
+
+  if (!(await consumeGameSession(session.sessionId))) {
+    return errorResponse(401, 'INVALID_SESSION', 'Game session has already been used', { field: 'sessionToken' });
+  }
+
+  const { leaderboard, games } = getRepositories();
+  let insertedEntry: Stored<LeaderboardEntry>;
+  try {
+    insertedEntry = await leaderboard.insert(entry);
+  } catch (error) {
+    // Release the session so the player can submit the same game again
+    await releaseGameSession(session.sessionId);
+    throw error;
+  }
+  log.info('Leaderboard entry submitted', {
+    entryId: insertedEntry._id,
+    gameType: entry.gameType,
+    generatedGame: entry.generatedGame,
+    clientScore: scoreValidation.score,
+    score: serverCalculatedScore,
+  });
+
+  // If this is a repeat or daily game (has generatedGame that matches an existing game), increment timesPlayed
+  if (session.generatedGame) {
+    await games.incrementTimesPlayed(session.generatedGame);
+  } else if (submittedBoard) {
+    // For random games, create a new generated-games entry
+    try {
+      const newGame: GeneratedGame = {
+        link: finalGeneratedGame,
+        bingopediaGame: submittedBoard,
+        createdAt: new Date(),
+        timesPlayed: 0,
+        source: 'leaderboard',
+      };
+      await games.insert(newGame);
+    } catch (error) {
+      // Log error but don't fail the leaderboard submission
+      // This could happen if there's a collision (very unlikely) or DB issue
+      log.error('Failed to create generated-games entry', { error, generatedGame: finalGeneratedGame });
+    }
+  }
+
+  // The first submission under a name claims it; the key is only ever returned here
+  let newOwnershipKey: string | null = null;
+  if (!claim) {
+    try {
+      newOwnershipKey = await claimUsername(usernameValidation.username);
+    } catch (error) {
+      // Log error but don't fail the leaderboard submission; the name stays unclaimed
+      log.error('Failed to claim username', { error });
+    }
+  }
+
+  const submitted: Wire<SubmittedEntry> = newOwnershipKey ? { ...insertedEntry, ownershipKey: newOwnershipKey } : insertedEntry;
+  return jsonResponse(201, submitted);
+}
+
+/**
+ * Leaderboard route (`/api/leaderboard`).
+ *
+ * Pages are cached briefly per URL (see `LEADERBOARD_CACHE`); submissions and errors are
+ * never cached.
+ */
+export const leaderboardRoute: Route = {
+  name: 'Leaderboard',
+  methods: { GET: getLeaderboard, POST: submitScore },
+  headers: { 'Cache-Control': 'no-store' },
+};
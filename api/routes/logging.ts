@@ -0,0 +1,114 @@
+import { getRepositories } from '../repositories';
+import type { GameEventBatchResult } from '../../shared/gameEvents';
+import type { Logger } from '../logger';
+import { validateSchema, validationErrorResponse, type ValidationFailure } from '../requestValidation';
+import type { LoggingResponse } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type RequestContext, type Route } from '../http';
+
+/**
+ * Converts a validated event's timestamp to a Date for storage.
+ */
+function toStoredEvent(item: Record<string, unknown>): Record<string, unknown> {
+  return { ...item, timestamp: new Date(item.timestamp as string) };
+}
+
+/**
+ * Validates and stores a batch of events. Each event is validated on its own, so one bad
+ * event does not reject the rest; only problems with the `events` array itself fail the request.
+ *
+ * Unlike single events, a batch that can't be stored fails with 503, so the app's event
+ * queue keeps it and retries instead of dropping it.
+ */
+async function logEventBatch(body: { events: unknown }, log: Logger): Promise<ApiResponse> {
+  const failures = validateSchema('GameEventBatch', body);
+  const eventFailures = new Map<number, ValidationFailure>();
+  for (const failure of failures) {
+    const match = /^\/events\/(\d+)(\/|$)/.exec(failure.path);
+    if (!match) {
+      return validationErrorResponse(failure);
+    }
+    const index = Number(match[1]);
+    if (!eventFailures.has(index)) {
+      eventFailures.set(index, failure);
+    }
+  }
+
+  const items = body.events as Record<string, unknown>[];
+  const accepted: Record<string, unknown>[] = [];
+  const results: GameEventBatchResult[] = items.map((item, index) => {
+    const failure = eventFailures.get(index);
+    if (!failure) {
+      accepted.push(toStoredEvent(item));
+      return { index, accepted: true };
+    }
+    return { index, accepted: false, error: failure.message, ...(failure.field && { field: failure.field }) };
+  });
+
+  try {
+    await getRepositories().events.insertMany(accepted);
+  } catch (loggingError) {
+    log.error('Failed to store events', { error: loggingError, count: accepted.length });
+    return errorResponse(503, 'DATABASE_ERROR', 'Failed to store events. Please retry the batch.');
+  }
+
+  return jsonResponse(200, {
+    success: true,
+    accepted: accepted.length,
+    rejected: items.length - accepted.length,
+    results,
+  } satisfies LoggingResponse);
+}
+
+/**
+ * Handles POST /api/logging.
+ *
+ * Logs game events to the events repository (MongoDB time series collection in production).
+ * Events are non-blocking - logging failures don't throw errors.
+ *
+ * The body is one event, `{ event, timestamp, ...fields }`, or a batch, `{ events: [...] }`,
+ * of up to `MAX_EVENT_BATCH_SIZE` events. Each event is validated against the `GameEvent` schema
+ * in `api/openapi.ts` (built from `shared/gameEvents.ts`); missing, mistyped and unknown fields
+ * are rejected.
+ *
+ * @param req - Incoming request
+ * @returns 200 with `{ success: true }` once the event is validated. Batches also return
+ * `accepted`, `rejected` and per-event `results`; invalid events in a batch are skipped
+ * rather than failing the request. 503 if a batch can't be stored
+ *
+ * @remarks
+ * - Failures to store a single event are caught and logged but don't break the response
+ * - Events are stored in 'game_events' time series collection
+ * - Timestamp is converted to Date object for storage
+ */
+async function logEvent(req: ApiRequest, { log }: RequestContext): Promise<ApiResponse> {
+  const body = (req.body || {}) as Record<string, unknown>;
+
+  if (body.events !== undefined) {
+    return logEventBatch(body as { events: unknown }, log);
+  }
+
+  const [failure] = validateSchema('GameEvent', body);
+  if (failure) {
+    return validationErrorResponse(failure);
+  }
+  const event = toStoredEvent(body);
+
+  // Store event (non-blocking)
+  try {
+    await getRepositories().events.insert(event);
+  } catch (loggingError) {
+    // Log error but don't fail the request (non-blocking)
+    log.error('Failed to store event (non-blocking)', { error: loggingError, event: event.event });
+  }
+
+  // Always return success (logging is non-blocking)
+  return jsonResponse(200, { success: true } satisfies LoggingResponse);
+}
+
+/**
+ * Event logging route (`/api/logging`).
+ */
+export const loggingRoute: Route = {
+  name: 'Logging',
+  methods: { POST: logEvent },
+};
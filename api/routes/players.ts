@@ -0,0 +1,64 @@
+import { getRepositories } from '../repositories';
+import { validateUsernameLookup } from '../validation';
+import { calculatePlayerStats } from '../playerStats';
+import type { PlayerProfile, Wire } from '../../shared/contracts';
+import { cachedJsonResponse, LEADERBOARD_CACHE } from '../httpCache';
+import { errorResponse, type ApiRequest, type ApiResponse, type Route } from '../http';
+
+/**
+ * Maximum number of entries the stats are calculated from (the player's most recent games).
+ */
+const MAX_STATS_ENTRIES = 1000;
+
+/**
+ * Maximum number of entries listed in the response.
+ */
+const MAX_LISTED_ENTRIES = 50;
+
+/**
+ * Handles GET /api/players/:username.
+ *
+ * Aggregates a player's leaderboard entries into a profile: games played, best score,
+ * average clicks and time, game type split, score trend and most-found articles.
+ * Usernames are matched case-insensitively, the same as username claims, and are not run
+ * through the profanity filter, so names stored before it or with masked words are found.
+ *
+ * @param req - Incoming request (`username` in `query`)
+ * @returns 200 with `{ username, stats, entries }`, where `entries` holds the most recent
+ *   games (newest first), 304 if the profile is unchanged, or 404 if the player has no entries
+ */
+async function getPlayer(req: ApiRequest): Promise<ApiResponse> {
+  const validation = validateUsernameLookup(req.query.username || '');
+  if (validation.error) {
+    return errorResponse(400, 'VALIDATION_ERROR', validation.error, { field: 'username', value: req.query.username });
+  }
+
+  const { leaderboard } = getRepositories();
+  const entries = await leaderboard.findByUsername(validation.username, MAX_STATS_ENTRIES);
+
+  if (entries.length === 0) {
+    return errorResponse(404, 'NOT_FOUND', 'Player not found', { username: validation.username });
+  }
+
+  return cachedJsonResponse(
+    req,
+    {
+      // Use the casing of the player's latest entry
+      username: entries[0].username,
+      stats: calculatePlayerStats(entries),
+      entries: entries.slice(0, MAX_LISTED_ENTRIES),
+    } satisfies Wire<PlayerProfile>,
+    LEADERBOARD_CACHE
+  );
+}
+
+/**
+ * Player profile route (`/api/players/:username`).
+ *
+ * Profiles are cached like leaderboard pages (see `LEADERBOARD_CACHE`); errors are never cached.
+ */
+export const playerRoute: Route = {
+  name: 'Players',
+  methods: { GET: getPlayer },
+  headers: { 'Cache-Control': 'no-store' },
+};
@@ -0,0 +1,63 @@
+import { startGameSession } from '../gameSessions';
+import { findBoard } from '../gameRetention';
+import { isValidHashedId } from '../hashedId';
+import type { StartSessionRequest, StartSessionResponse, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type Route } from '../http';
+
+/**
+ * Handles POST /api/sessions.
+ *
+ * Starts a game session and returns a signed session token. The token must be sent
+ * with the leaderboard submission for that game.
+ *
+ * Request body (one of):
+ * - `{ generatedGame }`: Repeat or daily game; the board is read from the stored generated game
+ * - `{ bingopediaGame }`: Random game; the 26 submitted titles are recorded as the board
+ *
+ * @param req - Incoming request
+ * @returns 201 with `{ sessionToken, startedAt, expiresAt }`, or 410 if the repeat game's
+ *   board has expired
+ */
+async function startSession(req: ApiRequest): Promise<ApiResponse> {
+  const { bingopediaGame, generatedGame } = (req.body || {}) as { [K in keyof StartSessionRequest]?: unknown };
+
+  if (generatedGame !== undefined) {
+    const link = String(generatedGame).trim();
+    if (!isValidHashedId(link)) {
+      return errorResponse(
+        400,
+        'VALIDATION_ERROR',
+        'Invalid game link format. Expected 16-character link hash',
+        { field: 'generatedGame', value: link }
+      );
+    }
+
+    const { game, error } = await findBoard(link);
+    if (error) {
+      return error;
+    }
+
+    const gameType = game.source === 'daily' ? 'daily' : undefined;
+    return jsonResponse(201, (await startGameSession(game.bingopediaGame, link, gameType)) satisfies Wire<StartSessionResponse>);
+  }
+
+  if (!Array.isArray(bingopediaGame) || bingopediaGame.length !== 26) {
+    return errorResponse(
+      400,
+      'VALIDATION_ERROR',
+      'bingopediaGame must be an array with exactly 26 elements',
+      { field: 'bingopediaGame', received: Array.isArray(bingopediaGame) ? bingopediaGame.length : typeof bingopediaGame }
+    );
+  }
+
+  return jsonResponse(201, (await startGameSession(bingopediaGame.map(String))) satisfies Wire<StartSessionResponse>);
+}
+
+/**
+ * Game sessions route (`/api/sessions`).
+ */
+export const sessionsRoute: Route = {
+  name: 'Sessions',
+  methods: { POST: startSession },
+  headers: { 'Cache-Control': 'no-store' },
+};
@@ -0,0 +1,100 @@
+import { getRepositories } from '../repositories';
+import { requireAdmin } from '../moderation';
+import { calculateUsageStats, type UsageStats } from '../usageStats';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type Route } from '../http';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of days covered when no range is given (ending today).
+ */
+const DEFAULT_RANGE_DAYS = 30;
+
+/**
+ * Longest range that can be requested, in days.
+ */
+const MAX_RANGE_DAYS = 366;
+
+const STATS_VIEWS = ['funnel', 'sharing', 'daily', 'weekly'] as const;
+type StatsView = (typeof STATS_VIEWS)[number];
+
+/**
+ * Parses a `YYYY-MM-DD` or ISO date query parameter to the start of its UTC day.
+ *
+ * @returns The day's start, undefined if the parameter is absent, or null if it is invalid
+ */
+function parseDay(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Handles GET /api/stats.
+ *
+ * Aggregates `game_events` and the leaderboard into usage statistics: the started → finished
+ * → submitted funnel, shared-link usage (shared vs random games, links copied, replays) and
+ * daily and weekly counts.
+ *
+ * Query parameters:
+ * - `dateFrom`, `dateTo`: first and last day of the range (`YYYY-MM-DD` or ISO date, UTC,
+ *   inclusive). Defaults to the last 30 days; at most 366 days
+ * - `view`: only return one section (`funnel`, `sharing`, `daily` or `weekly`) plus `range`
+ *
+ * @param req - Incoming request
+ * @returns 200 with the statistics as JSON (see `UsageStats`)
+ */
+async function getStats(req: ApiRequest): Promise<ApiResponse> {
+  const dateFrom = parseDay(req.query.dateFrom);
+  const dateTo = parseDay(req.query.dateTo);
+  if (dateFrom === null || dateTo === null) {
+    const field = dateFrom === null ? 'dateFrom' : 'dateTo';
+    return errorResponse(400, 'VALIDATION_ERROR', `Invalid ${field} format. Expected a date (e.g., 2024-01-31)`, {
+      field,
+      value: req.query[field],
+    });
+  }
+
+  const now = new Date();
+  const lastDay = dateTo ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const firstDay = dateFrom ?? new Date(lastDay.getTime() - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  const days = (lastDay.getTime() - firstDay.getTime()) / DAY_MS + 1;
+
+  if (days < 1) {
+    return errorResponse(400, 'VALIDATION_ERROR', 'dateFrom must be before or equal to dateTo');
+  }
+  if (days > MAX_RANGE_DAYS) {
+    return errorResponse(400, 'VALIDATION_ERROR', `The date range can cover at most ${MAX_RANGE_DAYS} days`);
+  }
+
+  const view = req.query.view as StatsView | undefined;
+  if (view !== undefined && !STATS_VIEWS.includes(view)) {
+    return errorResponse(400, 'VALIDATION_ERROR', `view must be one of: ${STATS_VIEWS.join(', ')}`, {
+      field: 'view',
+      value: view,
+    });
+  }
+
+  // The range ends at the last millisecond of its last day
+  const to = new Date(lastDay.getTime() + DAY_MS - 1);
+  const { events, leaderboard } = getRepositories();
+  const [eventCounts, entryCounts] = await Promise.all([
+    events.countByDay(firstDay, to),
+    leaderboard.countByDay(firstDay, to),
+  ]);
+  const stats: UsageStats = calculateUsageStats(firstDay, to, eventCounts, entryCounts);
+
+  return jsonResponse(200, view ? { range: stats.range, [view]: stats[view] } : stats);
+}
+
+/**
+ * Usage statistics route (`/api/stats`).
+ *
+ * Requires `Authorization: Bearer <ADMIN_TOKEN>`. Not cached.
+ */
+export const statsRoute: Route = {
+  name: 'Stats',
+  methods: { GET: requireAdmin(getStats) },
+  headers: { 'Cache-Control': 'no-store' },
+};
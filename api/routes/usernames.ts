@@ -0,0 +1,39 @@
+import { validateAndSanitizeUsername } from '../validation';
+import { findUsernameClaim } from '../usernameClaims';
+import type { UsernameStatus, Wire } from '../../shared/contracts';
+import { errorResponse, jsonResponse, type ApiRequest, type ApiResponse, type Route } from '../http';
+
+/**
+ * Handles GET /api/usernames/:username.
+ *
+ * Reports whether a username has been claimed, so the app can tell players before they
+ * submit whether the name needs an ownership key.
+ *
+ * @param req - Incoming request (`username` in `query`)
+ * @returns 200 with `{ username, claimed, claimedAt? }`, where `username` is the sanitized name
+ */
+async function getUsernameStatus(req: ApiRequest): Promise<ApiResponse> {
+  const validation = validateAndSanitizeUsername(req.query.username || '');
+  if (validation.error) {
+    return errorResponse(400, 'VALIDATION_ERROR', validation.error, { field: 'username', value: req.query.username });
+  }
+
+  const claim = await findUsernameClaim(validation.username);
+
+  return jsonResponse(200, {
+    username: validation.username,
+    claimed: Boolean(claim),
+    ...(claim ? { claimedAt: claim.claimedAt } : {}),
+  } satisfies Wire<UsernameStatus>);
+}
+
+/**
+ * Username claim status route (`/api/usernames/:username`).
+ *
+ * Not cached, so a name claimed moments ago is reported as claimed.
+ */
+export const usernameRoute: Route = {
+  name: 'Usernames',
+  methods: { GET: getUsernameStatus },
+  headers: { 'Cache-Control': 'no-store' },
+};
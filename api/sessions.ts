@@ -0,0 +1,9 @@
+import { toVercelHandler } from './http';
+import { sessionsRoute } from './routes/sessions';
+
+/**
+ * Vercel serverless function for POST /api/sessions.
+ *
+ * See `api/routes/sessions.ts` for the handler.
+ */
+export default toVercelHandler(sessionsRoute);
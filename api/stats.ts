@@ -0,0 +1,9 @@
+import { toVercelHandler } from './http';
+import { statsRoute } from './routes/stats';
+
+/**
+ * Vercel serverless function for GET /api/stats (admin token required).
+ *
+ * See `api/routes/stats.ts` for the handler.
+ */
+export default toVercelHandler(statsRoute);
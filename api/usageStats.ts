@@ -0,0 +1,182 @@
+import { GAME_EVENT_TYPES, isGameEventType, type GameEventType } from '../shared/gameEvents';
+import type { DailyCount } from './repositories';
+
+type SubmissionCounts = { random: number; repeat: number; daily: number };
+
+/**
+ * Counts for one day or week.
+ */
+export interface UsagePeriod {
+  /**
+   * First day of the period (`YYYY-MM-DD`, UTC). Weeks start on Monday.
+   */
+  period: string;
+  /**
+   * `game_started` plus `replay_started` events.
+   */
+  started: number;
+  /**
+   * `game_finished` events (games won).
+   */
+  finished: number;
+  /**
+   * Leaderboard entries submitted.
+   */
+  submitted: number;
+  /**
+   * Events by type. Every event type is listed, including those with no events.
+   */
+  events: Record<GameEventType, number>;
+  /**
+   * Leaderboard entries by game type. Legacy entries without a `gameType` count as random.
+   */
+  submissions: SubmissionCounts;
+}
+
+/**
+ * Usage statistics for a date range, built from `game_events` and the leaderboard.
+ */
+export interface UsageStats {
+  /**
+   * First and last day of the range (`YYYY-MM-DD`, UTC, inclusive).
+   */
+  range: { from: string; to: string };
+  /**
+   * Started → finished → submitted funnel. Rates are rounded to three decimal places and
+   * null when the previous step is empty.
+   */
+  funnel: {
+    started: number;
+    finished: number;
+    submitted: number;
+    completionRate: number | null;
+    submissionRate: number | null;
+  };
+  /**
+   * Shared-link usage. Shared games are leaderboard entries for a repeat (shared link) board.
+   */
+  sharing: {
+    sharedGames: number;
+    randomGames: number;
+    dailyGames: number;
+    sharedToRandomRatio: number | null;
+    shareLinksCopied: number;
+    replaysStarted: number;
+  };
+  daily: UsagePeriod[];
+  weekly: UsagePeriod[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the Monday of the week containing a day (`YYYY-MM-DD`).
+ */
+function startOfWeek(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return toDay(new Date(date.getTime() - daysSinceMonday * DAY_MS));
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+function emptyPeriod(period: string): UsagePeriod {
+  return {
+    period,
+    started: 0,
+    finished: 0,
+    submitted: 0,
+    events: Object.fromEntries(GAME_EVENT_TYPES.map((type) => [type, 0])) as Record<GameEventType, number>,
+    submissions: { random: 0, repeat: 0, daily: 0 },
+  };
+}
+
+/**
+ * Builds one period per day or week in the range and adds the daily counts to them.
+ * Counts for unknown event or game types (e.g. retired events) are ignored.
+ */
+function groupCounts(
+  days: string[],
+  periodOf: (day: string) => string,
+  eventCounts: DailyCount[],
+  entryCounts: DailyCount[]
+): UsagePeriod[] {
+  const periods = new Map<string, UsagePeriod>();
+  for (const day of days) {
+    const period = periodOf(day);
+    if (!periods.has(period)) periods.set(period, emptyPeriod(period));
+  }
+
+  for (const { day, key, count } of eventCounts) {
+    const period = periods.get(periodOf(day));
+    if (!period || !isGameEventType(key)) continue;
+    period.events[key] += count;
+  }
+
+  for (const { day, key, count } of entryCounts) {
+    const period = periods.get(periodOf(day));
+    if (!period || (key !== 'random' && key !== 'repeat' && key !== 'daily')) continue;
+    period.submissions[key] += count;
+  }
+
+  return [...periods.values()].map((period) => ({
+    ...period,
+    started: period.events.game_started + period.events.replay_started,
+    finished: period.events.game_finished,
+    submitted: period.submissions.random + period.submissions.repeat + period.submissions.daily,
+  }));
+}
+
+/**
+ * Calculates usage statistics from daily event and leaderboard counts.
+ *
+ * @param from - Start of the range (its UTC day is the first day)
+ * @param to - End of the range (its UTC day is the last day)
+ * @param eventCounts - Events per day and event type
+ * @param entryCounts - Leaderboard entries per day and game type
+ * @returns Funnel, sharing and daily and weekly counts for the range
+ *
+ * @example
+ * ```typescript
+ * calculateUsageStats(from, to, await events.countByDay(from, to), await leaderboard.countByDay(from, to));
+ * // { range: {...}, funnel: { started: 40, finished: 25, submitted: 20, completionRate: 0.625, ... }, ... }
+ * ```
+ */
+export function calculateUsageStats(from: Date, to: Date, eventCounts: DailyCount[], entryCounts: DailyCount[]): UsageStats {
+  const days: string[] = [];
+  for (let time = Date.parse(`${toDay(from)}T00:00:00Z`); time <= to.getTime(); time += DAY_MS) {
+    days.push(toDay(new Date(time)));
+  }
+
+  const daily = groupCounts(days, (day) => day, eventCounts, entryCounts);
+  const weekly = groupCounts(days, startOfWeek, eventCounts, entryCounts);
+
+  const total = groupCounts(days, () => 'total', eventCounts, entryCounts)[0] ?? emptyPeriod('total');
+
+  return {
+    range: { from: toDay(from), to: toDay(to) },
+    funnel: {
+      started: total.started,
+      finished: total.finished,
+      submitted: total.submitted,
+      completionRate: ratio(total.finished, total.started),
+      submissionRate: ratio(total.submitted, total.finished),
+    },
+    sharing: {
+      sharedGames: total.submissions.repeat,
+      randomGames: total.submissions.random,
+      dailyGames: total.submissions.daily,
+      sharedToRandomRatio: ratio(total.submissions.repeat, total.submissions.random),
+      shareLinksCopied: total.events.share_link_copied,
+      replaysStarted: total.events.replay_started,
+    },
+    daily,
+    weekly,
+  };
+}
@@ -0,0 +1,85 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { UsernameClaim } from './mongoClient';
+import { getRepositories, DuplicateKeyError } from './repositories';
+
+/**
+ * Username ownership keys.
+ *
+ * There are no accounts. Instead, the first leaderboard submission under a name claims it
+ * and receives a secret ownership key, which the app keeps in localStorage. Later
+ * submissions under a claimed name must send the key. Unclaimed names work without one.
+ *
+ * Only a hash of the key is stored, so a database leak does not expose keys.
+ */
+
+/**
+ * Normalizes a username for claim lookups (case-insensitive, surrounding whitespace ignored).
+ *
+ * @param username - Sanitized username
+ * @returns Lowercase username key
+ */
+export function getUsernameKey(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Hashes an ownership key for storage.
+ *
+ * @param ownershipKey - Ownership key
+ * @returns Hex-encoded SHA-256 hash
+ */
+export function hashOwnershipKey(ownershipKey: string): string {
+  return createHash('sha256').update(ownershipKey).digest('hex');
+}
+
+/**
+ * Checks an ownership key against a claim.
+ *
+ * @param claim - Stored username claim
+ * @param ownershipKey - Key received from the client (any type, validated here)
+ * @returns True if the key matches the claim
+ */
+export function verifyOwnershipKey(claim: UsernameClaim, ownershipKey: unknown): boolean {
+  if (typeof ownershipKey !== 'string' || !ownershipKey) {
+    return false;
+  }
+  const expected = Buffer.from(claim.keyHash);
+  const received = Buffer.from(hashOwnershipKey(ownershipKey));
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Looks up the claim for a username.
+ *
+ * @param username - Sanitized username
+ * @returns The claim, or null if the name is unclaimed
+ */
+export async function findUsernameClaim(username: string): Promise<UsernameClaim | null> {
+  return getRepositories().usernames.findByUsernameKey(getUsernameKey(username));
+}
+
+/**
+ * Claims an unclaimed username.
+ *
+ * @param username - Sanitized username
+ * @returns The new ownership key, or null if the name was claimed concurrently
+ */
+export async function claimUsername(username: string): Promise<string | null> {
+  const ownershipKey = randomBytes(24).toString('base64url');
+
+  try {
+    await getRepositories().usernames.insert({
+      username,
+      usernameKey: getUsernameKey(username),
+      keyHash: hashOwnershipKey(ownershipKey),
+      claimedAt: new Date(),
+    });
+  } catch (error) {
+    if (error instanceof DuplicateKeyError) {
+      return null;
+    }
+    throw error;
+  }
+
+  return ownershipKey;
+}
@@ -0,0 +1,11 @@
+import { toVercelHandler } from '../http';
+import { usernameRoute } from '../routes/usernames';
+
+/**
+ * Vercel serverless function for username claim status.
+ *
+ * - GET /api/usernames/:username: Reports whether the username is claimed
+ *
+ * See `api/routes/usernames.ts` for the handler.
+ */
+export default toVercelHandler(usernameRoute);
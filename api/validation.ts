@@ -2,17 +2,21 @@
  * Validation utilities for leaderboard API.
  */
 
+import { getProfanityMode } from './config';
+import { defaultProfanityFilter } from '../shared/profanityFilter';
+import { BOARD_DETAILS_MAX_LENGTH, type BoardDetails } from '../shared/contracts';
+
 const MAX_USERNAME_LENGTH = 50;
 
 /**
  * Validates and sanitizes a username.
  * - Trims whitespace
  * - Enforces maximum length
- * - Masks bad words
+ * - Masks or rejects bad words, depending on `PROFANITY_MODE`
  *
  * @param username - Raw username input
- * @returns Sanitized username
- * @throws Error if username is empty or exceeds max length
+ * @returns Sanitized username, or an error if the username is empty, too long, or
+ *   (in `reject` mode) contains a blocked word
  */
 export function validateAndSanitizeUsername(username: string): {
   username: string;
@@ -24,14 +28,93 @@ export function validateAndSanitizeUsername(username: string): {
     return { username: '', error: 'Username cannot be empty' };
   }
 
+  const sanitized = sanitizeText(trimmed, 'Username', MAX_USERNAME_LENGTH, 'name');
+  return sanitized.error ? { username: '', error: sanitized.error } : { username: sanitized.text };
+}
+
+/**
+ * Validates a username used to look up existing entries. Only trims and enforces the
+ * maximum length: names stored before the profanity filter, or with masked words, must
+ * still be found.
+ *
+ * @param username - Raw username input
+ * @returns Trimmed username, or an error if the username is empty or too long
+ */
+export function validateUsernameLookup(username: string): {
+  username: string;
+  error?: string;
+} {
+  const trimmed = username.trim();
+
+  if (!trimmed) {
+    return { username: '', error: 'Username cannot be empty' };
+  }
+
   if (trimmed.length > MAX_USERNAME_LENGTH) {
-    return {
-      username: '',
-      error: `Username must be at most ${MAX_USERNAME_LENGTH} characters`,
-    };
+    return { username: '', error: `Username must be at most ${MAX_USERNAME_LENGTH} characters` };
+  }
+
+  return { username: trimmed };
+}
+
+const BOARD_DETAIL_LABELS: Record<keyof BoardDetails, { label: string; noun: string }> = {
+  title: { label: 'Title', noun: 'title' },
+  creatorName: { label: 'Creator name', noun: 'name' },
+  description: { label: 'Description', noun: 'description' },
+};
+
+/**
+ * Validates and sanitizes the optional title, creator name and description of a shared board
+ * with the username rules (trimmed, length-limited, bad words masked or rejected). Blank
+ * fields are dropped.
+ *
+ * @param input - Raw fields from the request body
+ * @returns Sanitized fields, or an error and the offending field
+ */
+export function validateAndSanitizeBoardDetails(input: { [K in keyof BoardDetails]?: unknown }): {
+  details: BoardDetails;
+  error?: string;
+  field?: keyof BoardDetails;
+} {
+  const details: BoardDetails = {};
+
+  for (const field of Object.keys(BOARD_DETAIL_LABELS) as Array<keyof BoardDetails>) {
+    const trimmed = input[field] == null ? '' : String(input[field]).trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const { label, noun } = BOARD_DETAIL_LABELS[field];
+    const sanitized = sanitizeText(trimmed, label, BOARD_DETAILS_MAX_LENGTH[field], noun);
+    if (sanitized.error) {
+      return { details: {}, error: sanitized.error, field };
+    }
+    details[field] = sanitized.text;
+  }
+
+  return { details };
+}
+
+/**
+ * Applies the length limit and profanity filter shared by usernames and board details.
+ *
+ * @param trimmed - Trimmed, non-empty input
+ * @param label - Field name used in error messages
+ * @param maxLength - Maximum length
+ * @param noun - What to ask for instead when the text is rejected
+ * @returns Sanitized text or an error
+ */
+function sanitizeText(trimmed: string, label: string, maxLength: number, noun: string): { text: string; error?: string } {
+  if (trimmed.length > maxLength) {
+    return { text: '', error: `${label} must be at most ${maxLength} characters` };
   }
 
-  return { username: maskBadWords(trimmed) };
+  const profanity = defaultProfanityFilter.filter(trimmed, getProfanityMode());
+  if (profanity.rejected) {
+    return { text: '', error: `${label} contains inappropriate language. Please choose another ${noun}` };
+  }
+
+  return { text: profanity.text };
 }
 
 /**
@@ -80,40 +163,14 @@ export function validateScoreData(
 /**
  * Masks bad words in a username by replacing them with asterisks.
  *
- * **Intentionally Minimal Implementation:**
- * This filter uses a minimal word list as a basic profanity filter. It is designed
- * to catch the most obvious cases while remaining maintainable and avoiding false
- * positives. The list can be extended as needed, or replaced with a comprehensive
- * profanity filtering library (e.g., `bad-words`, `profanity-filter`) if more
- * thorough filtering is required.
- *
- * **Current Behavior:**
- * - Case-insensitive matching (already implemented)
- * - Replaces matched words with asterisks matching the word length
- * - Matches words anywhere in the string (not just whole words)
- *
- * **Future Enhancements:**
- * - Consider word boundaries to avoid false positives (e.g., "classic" containing "ass")
- * - Expand word list with common variations (plural, past tense, etc.)
- * - Evaluate and integrate a comprehensive profanity filtering library if needed
+ * Uses the shared filter in `shared/profanityFilter.ts` (word list, word-boundary rules,
+ * homoglyph and digit normalization, allowlist), regardless of `PROFANITY_MODE`.
  *
  * @param username - Username to sanitize
  * @returns Username with bad words masked
  */
 export function maskBadWords(username: string): string {
-  // Intentionally minimal word list - can be extended or replaced with a library
-  const badWords = ['fuck', 'shit', 'bitch'];
-  let result = username;
-
-  for (const word of badWords) {
-    const regex = new RegExp(word, 'gi');
-    if (regex.test(result)) {
-      const mask = '*'.repeat(word.length);
-      result = result.replace(regex, mask);
-    }
-  }
-
-  return result;
+  return defaultProfanityFilter.mask(username);
 }
 
 /**
@@ -180,3 +237,19 @@ export function validateGameMetrics(
   return {}; // Valid
 }
 
+
+/**
+ * Determines the time to record for a submission from the server-measured session duration.
+ *
+ * The server only measures when the score is submitted, not when the game was won, and the
+ * client timer pauses while articles load, so the server time is an upper bound: the client
+ * time is kept unless it exceeds the elapsed session time, and it is never raised. Implausibly
+ * fast times are still rejected by `validateGameMetrics`.
+ *
+ * @param clientTime - Game time in seconds reported by the client
+ * @param serverElapsed - Seconds between session start and submission, measured on the server
+ * @returns Time in seconds to use for scoring
+ */
+export function resolveSubmittedTime(clientTime: number, serverElapsed: number): number {
+  return Math.min(clientTime, Math.max(0, Math.floor(serverElapsed)));
+}
@@ -0,0 +1,9 @@
+import { toVercelHandler } from './http';
+import { versionRoute } from './routes/health';
+
+/**
+ * Vercel serverless function for GET /api/version (build information).
+ *
+ * See `api/routes/health.ts` for the handler.
+ */
+export default toVercelHandler(versionRoute);
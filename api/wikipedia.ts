@@ -0,0 +1,91 @@
+import { normalizeTitle } from '../shared/normalizeTitle';
+import { fetchArticleChecks, MAX_TITLES_PER_LOOKUP, type ArticleCheck } from '../shared/boardValidation';
+import { logger } from './logger';
+
+const WIKIPEDIA_API_URL = 'https://en.wikipedia.org/w/api.php';
+const REQUEST_TIMEOUT_MS = 5000;
+
+/**
+ * Resolves article titles to their canonical titles.
+ * Keys and values of the returned map are normalized titles (see `normalizeTitle`).
+ */
+export type TitleResolver = (titles: string[]) => Promise<Map<string, string>>;
+
+/**
+ * Looks up whether titles are existing, non-disambiguation articles and where they redirect.
+ * Keys of the returned map are normalized titles (see `normalizeTitle`).
+ */
+export type ArticleLookup = (titles: string[]) => Promise<Map<string, ArticleCheck>>;
+
+interface QueryResponse {
+  query?: {
+    normalized?: { from: string; to: string }[];
+    redirects?: { from: string; to: string }[];
+  };
+}
+
+/**
+ * Resolves Wikipedia redirects for a list of titles using the MediaWiki query API.
+ *
+ * Titles are sent in batches of 50 (the API limit). If a batch fails (network error,
+ * timeout or non-OK response), the titles in it resolve to themselves so callers can
+ * still compare by title.
+ *
+ * @param titles - Article titles to resolve
+ * @returns Map of normalized input title → normalized canonical title
+ */
+export const resolveWikipediaRedirects: TitleResolver = async (titles) => {
+  const resolved = new Map<string, string>();
+  const unique = Array.from(new Set(titles.filter(Boolean)));
+
+  for (let i = 0; i < unique.length; i += MAX_TITLES_PER_LOOKUP) {
+    const batch = unique.slice(i, i + MAX_TITLES_PER_LOOKUP);
+    batch.forEach((title) => resolved.set(normalizeTitle(title), normalizeTitle(title)));
+
+    try {
+      const url = new URL(WIKIPEDIA_API_URL);
+      url.searchParams.set('action', 'query');
+      url.searchParams.set('format', 'json');
+      url.searchParams.set('formatversion', '2');
+      url.searchParams.set('redirects', '1');
+      url.searchParams.set('titles', batch.map((title) => title.replace(/_/g, ' ')).join('|'));
+
+      const response = await fetch(url.toString(), { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+      if (!response.ok) {
+        logger.warn('Wikipedia redirect lookup failed', { status: response.status });
+        continue;
+      }
+
+      const json = (await response.json()) as QueryResponse;
+      const normalizedMap = new Map(
+        (json.query?.normalized ?? []).map(({ from, to }) => [normalizeTitle(from), normalizeTitle(to)])
+      );
+      const redirectMap = new Map(
+        (json.query?.redirects ?? []).map(({ from, to }) => [normalizeTitle(from), normalizeTitle(to)])
+      );
+
+      for (const title of batch) {
+        const key = normalizeTitle(title);
+        const normalized = normalizedMap.get(key) ?? key;
+        resolved.set(key, redirectMap.get(normalized) ?? normalized);
+      }
+    } catch (error) {
+      logger.warn('Wikipedia redirect lookup failed', { error });
+    }
+  }
+
+  return resolved;
+};
+
+/**
+ * Looks up titles with the MediaWiki query API (see `fetchArticleChecks` in `shared/boardValidation.ts`).
+ *
+ * Unlike `resolveWikipediaRedirects`, a failed batch throws: callers use the result to decide
+ * whether a board may be stored, so they can't fall back to the titles themselves.
+ *
+ * @param titles - Article titles to look up
+ * @returns Map of normalized title → article check
+ * @throws Error if a request fails, times out or returns a non-OK response
+ */
+export const lookupWikipediaArticles: ArticleLookup = (titles) =>
+  fetchArticleChecks(titles, { apiUrl: WIKIPEDIA_API_URL, timeoutMs: REQUEST_TIMEOUT_MS });
@@ -3,6 +3,7 @@ import { Analytics } from '@vercel/analytics/react'
 import { AppLayout } from './AppLayout'
 import { StartScreen } from '../features/game/StartScreen'
 import { GameScreen } from '../features/game/GameScreen'
+import { BoardBuilder } from '../features/builder/BoardBuilder'
 import { useGameState } from '../features/game/useGameState'
 import { ErrorBoundary } from '../shared/components/ErrorBoundary'
 import { ThemeProvider } from '../shared/theme/ThemeContext'
@@ -11,13 +12,13 @@ import { logEvent } from '../shared/api/loggingClient'
 /**
  * Root application component that manages the main view state.
  * 
- * Handles navigation between the start screen and game screen.
+ * Handles navigation between the start screen, the board builder and the game screen.
  * Wraps components in error boundaries for graceful error handling.
  * 
  * @returns The root app component
  */
 export function App() {
-  const [view, setView] = useState<'start' | 'game'>('start')
+  const [view, setView] = useState<'start' | 'builder' | 'game'>('start')
   const [gameLoadError, setGameLoadError] = useState<string | null>(null)
   const onMatchRef = useRef<((title: string) => void) | undefined>(undefined)
 
@@ -48,12 +49,30 @@ export function App() {
     const queryGameId = urlParams.get('game')
     
     const identifier = isValidHashedId ? pathHashedId : queryGameId
+    // Seed links reproduce a generated board: ?seed=<dataVersion>-<seed>
+    const boardSeed = urlParams.get('seed')
 
-    if (identifier) {
+    if (!identifier && boardSeed) {
+      controls
+        .startSeededGame(boardSeed)
+        .then(() => {
+          logEvent('game_started', { gameType: 'random' })
+          setView('game')
+          setGameLoadError(null)
+          const newUrl = new URL(window.location.href)
+          newUrl.searchParams.delete('seed')
+          window.history.replaceState({}, '', newUrl.toString())
+        })
+        .catch((error) => {
+          console.error('Failed to start game from seed:', error)
+          setGameLoadError(error instanceof Error ? error.message : 'Failed to start game from seed')
+        })
+    } else if (identifier) {
       // Load game from URL (path-based or query param)
       controls
         .loadGameFromId(identifier)
         .then(() => {
+          logEvent('game_started', { gameType: 'repeat', ...(isValidHashedId && { hashedId: pathHashedId }) })
           setView('game')
           setGameLoadError(null)
           // Clean up URL: remove query param if present, or update to path-based format
@@ -78,10 +97,37 @@ export function App() {
     setGameLoadError(null)
     await controls.startNewGame()
     // Log game_started event (non-blocking)
-    void logEvent('game_started')
+    logEvent('game_started', { gameType: 'random' })
     setView('game')
   }
 
+  const handleStartDaily = async () => {
+    setGameLoadError(null)
+    try {
+      await controls.startDailyGame()
+      // Log game_started event (non-blocking)
+      logEvent('game_started', { gameType: 'daily' })
+      setView('game')
+    } catch (error) {
+      setGameLoadError(error instanceof Error ? error.message : 'Failed to load the daily challenge')
+    }
+  }
+
+  const handlePlayBoard = async (link: string) => {
+    setGameLoadError(null)
+    try {
+      await controls.loadGameFromId(link)
+      logEvent('game_started', { gameType: 'repeat', hashedId: link })
+      window.history.pushState({}, '', `/${link}`)
+      setView('game')
+    } catch (error) {
+      console.error('Failed to load board:', error)
+      setGameLoadError(error instanceof Error ? error.message : 'Failed to load board')
+      // The error is shown on the start screen (boards can also be played from the builder)
+      setView('start')
+    }
+  }
+
   const handleReplay = async (gameState: { gridCells: any[]; startingArticle: any; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => {
     setGameLoadError(null)
     try {
@@ -109,6 +155,11 @@ export function App() {
       } else {
         throw new Error('Cannot replay: missing game data')
       }
+      // Log replay_started event (non-blocking)
+      logEvent('replay_started', {
+        ...(gameState.gameType && { gameType: gameState.gameType }),
+        ...(gameState.hashedId && { hashedId: gameState.hashedId }),
+      })
       setView('game')
     } catch (error) {
       console.error('Failed to replay game:', error)
@@ -136,14 +187,26 @@ export function App() {
                   <p style={{ margin: '0.5rem 0 0 0', fontSize: '0.875rem' }}>You can start a fresh game below.</p>
                 </div>
               )}
-              <StartScreen onStart={handleStart} onCreateShareableGame={controls.createShareableGame} onReplay={handleReplay} />
+              <StartScreen onStart={handleStart} onStartDaily={handleStartDaily} onCreateShareableGame={controls.createShareableGame} onReplay={handleReplay} onPlayBoard={handlePlayBoard} onOpenBuilder={() => setView('builder')} />
             </>
+          ) : view === 'builder' ? (
+            <BoardBuilder onClose={() => setView('start')} onPlay={handlePlayBoard} />
           ) : (
             <ErrorBoundary>
               <GameScreen
                 state={state}
                 controls={controls}
                 onBackToStart={() => {
+                  // Log game_abandoned event when leaving a game that was started but not won (non-blocking)
+                  if (state.gameStarted && !state.gameWon) {
+                    logEvent('game_abandoned', {
+                      clicks: state.clickCount,
+                      time: state.elapsedSeconds,
+                      squaresFound: state.matchedArticles.size,
+                      ...(state.gameType && { gameType: state.gameType }),
+                      ...(state.hashedId && { hashedId: state.hashedId }),
+                    })
+                  }
                   // Reset URL to home when starting a new game
                   if (window.location.pathname !== '/' || window.location.search) {
                     window.history.pushState({}, '', '/')
@@ -0,0 +1,28 @@
+import type { BoardDetails } from '../../../../shared/contracts'
+import './BoardDetailsSummary.css'
+
+interface BoardDetailsSummaryProps {
+  details: BoardDetails
+  /** Smaller layout for board cards */
+  compact?: boolean
+}
+
+/**
+ * Title, creator name and description a creator attached to a shared board.
+ * Fields the creator left blank are not shown.
+ *
+ * @param props - Component props
+ * @param props.details - Board details from the API
+ * @param props.compact - Use the smaller card layout
+ */
+export function BoardDetailsSummary({ details, compact = false }: BoardDetailsSummaryProps) {
+  const { title, creatorName, description } = details
+
+  return (
+    <div className={`bp-board-details ${compact ? 'bp-board-details--compact' : ''}`}>
+      {title && <p className="bp-board-details-title">{title}</p>}
+      {creatorName && <p className="bp-board-details-creator">by {creatorName}</p>}
+      {description && <p className="bp-board-details-description">{description}</p>}
+    </div>
+  )
+}
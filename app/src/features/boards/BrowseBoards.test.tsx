@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BrowseBoards } from './BrowseBoards'
+import { fetchBoards } from '../../shared/api/gamesClient'
+import type { BoardListPage } from '../../../../shared/contracts'
+
+vi.mock('../../shared/api/gamesClient', async () => {
+  const actual = await vi.importActual('../../shared/api/gamesClient')
+  return {
+    ...actual,
+    fetchBoards: vi.fn(),
+  }
+})
+
+const board = [...Array.from({ length: 25 }, (_, i) => `Article_${i}`), 'Starting_Article']
+
+function page(sort: BoardListPage['sort'], links: string[], totalPages = 1): BoardListPage {
+  return {
+    boards: links.map((link, index) => ({
+      link,
+      bingopediaGame: board,
+      createdAt: '2024-01-15T10:00:00.000Z',
+      timesPlayed: 10 - index,
+      bestScore: index === 0 ? 420 : null,
+      ...(sort === 'trending' ? { recentPlays: 3 } : {}),
+      ...(index === 0 ? { title: 'Famous Bridges', creatorName: 'Ada', description: 'Cross them all' } : {}),
+    })),
+    pagination: { page: 1, limit: 6, totalCount: links.length, totalPages },
+    sort,
+  }
+}
+
+describe('BrowseBoards', () => {
+  beforeEach(() => {
+    vi.mocked(fetchBoards).mockReset()
+  })
+
+  it('shows popular boards with their details, times played and best score', async () => {
+    vi.mocked(fetchBoards).mockResolvedValue(page('popular', ['aaaaaaaaaaaaaaaa', 'bbbbbbbbbbbbbbbb']))
+    render(<BrowseBoards onPlay={vi.fn()} />)
+
+    expect(await screen.findByText('420')).toBeInTheDocument()
+    expect(screen.getByText('—')).toBeInTheDocument()
+    expect(screen.getByText('Famous Bridges')).toBeInTheDocument()
+    expect(screen.getByText('by Ada')).toBeInTheDocument()
+    expect(screen.getByText('Cross them all')).toBeInTheDocument()
+    expect(screen.getAllByText('Starting Article')).toHaveLength(2)
+    expect(fetchBoards).toHaveBeenCalledWith('popular', { page: 1, limit: 6 })
+  })
+
+  it('switches lists and plays a board by link', async () => {
+    const user = userEvent.setup()
+    const onPlay = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(fetchBoards).mockImplementation(async (sort) => page(sort, ['cccccccccccccccc']))
+    render(<BrowseBoards onPlay={onPlay} />)
+
+    await user.click(await screen.findByRole('button', { name: 'Trending' }))
+    expect(await screen.findByText('This week')).toBeInTheDocument()
+    expect(fetchBoards).toHaveBeenLastCalledWith('trending', { page: 1, limit: 6 })
+
+    await user.click(screen.getByRole('button', { name: 'Play board cccccccccccccccc' }))
+    expect(onPlay).toHaveBeenCalledWith('cccccccccccccccc')
+  })
+
+  it('reports load failures', async () => {
+    vi.mocked(fetchBoards).mockRejectedValue(new Error('Server error'))
+    render(<BrowseBoards onPlay={vi.fn()} />)
+
+    expect(await screen.findByText('Unable to load boards.')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react'
+import { fetchBoards, getBoardDetails } from '../../shared/api/gamesClient'
+import { BoardDetailsSummary } from './BoardDetailsSummary'
+import type { BoardListPage, BoardListSort, BoardSummary } from '../../../../shared/contracts'
+import './BrowseBoards.css'
+
+const GRID_CELL_COUNT = 25
+
+const SORT_LABELS: Record<BoardListSort, string> = {
+  popular: 'Popular',
+  recent: 'Recent',
+  trending: 'Trending',
+}
+
+interface BrowseBoardsProps {
+  /** Starts the board with the given link (loaded through `loadGameFromId`) */
+  onPlay: (link: string) => Promise<void>
+  /** Boards per page (defaults to 6) */
+  pageSize?: number
+}
+
+function displayTitle(title: string): string {
+  return title.replace(/_/g, ' ')
+}
+
+/**
+ * Miniature 5×5 preview of a board's grid; full titles are shown on hover.
+ */
+function BoardPreview({ board }: { board: BoardSummary }) {
+  return (
+    <ol className="bp-browse-preview" aria-label="Board squares">
+      {board.bingopediaGame.slice(0, GRID_CELL_COUNT).map((title, index) => (
+        <li key={index} className="bp-browse-preview-cell" title={displayTitle(title)}>
+          {displayTitle(title)}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+/**
+ * "Browse boards" section of the start screen.
+ *
+ * Lists shared boards from `/api/games/popular`, `/api/games/recent` and `/api/games/trending`
+ * with the creator's title and description, a grid preview, times played and best score, so
+ * players can find boards without being sent a link.
+ *
+ * @param props - Component props
+ * @param props.onPlay - Called with the link of the board to play
+ * @param props.pageSize - Boards per page
+ */
+export function BrowseBoards({ onPlay, pageSize = 6 }: BrowseBoardsProps) {
+  const [sort, setSort] = useState<BoardListSort>('popular')
+  const [page, setPage] = useState(1)
+  const [playingLink, setPlayingLink] = useState<string | null>(null)
+  // Results are keyed by request so loading is derived rather than set inside the effect
+  const requestKey = `${sort}:${page}:${pageSize}`
+  const [result, setResult] = useState<{ key: string; data: BoardListPage | null; error: string | null } | null>(null)
+  const loading = result?.key !== requestKey
+  const boards = result?.data?.boards ?? []
+  const totalPages = result?.data?.pagination.totalPages ?? 0
+  const error = result?.error ?? null
+
+  useEffect(() => {
+    let cancelled = false
+    const key = `${sort}:${page}:${pageSize}`
+
+    fetchBoards(sort, { page, limit: pageSize })
+      .then((data) => {
+        if (!cancelled) setResult({ key, data, error: null })
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ key, data: null, error: 'Unable to load boards.' })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sort, page, pageSize])
+
+  const handleSortChange = (nextSort: BoardListSort) => {
+    setSort(nextSort)
+    setPage(1)
+  }
+
+  const handlePlay = async (link: string) => {
+    setPlayingLink(link)
+    try {
+      await onPlay(link)
+    } finally {
+      setPlayingLink(null)
+    }
+  }
+
+  return (
+    <section className="bp-browse-boards" aria-labelledby="bp-browse-boards-title">
+      <div className="bp-browse-header">
+        <h3 className="bp-browse-title" id="bp-browse-boards-title">
+          Browse boards
+        </h3>
+        <div className="bp-browse-sorts" role="group" aria-label="Sort boards">
+          {(Object.keys(SORT_LABELS) as BoardListSort[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`bp-browse-sort ${option === sort ? 'bp-browse-sort--active' : ''}`}
+              aria-pressed={option === sort}
+              onClick={() => handleSortChange(option)}
+            >
+              {SORT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && <p className="bp-muted">Loading boards…</p>}
+      {!loading && error && <p className="bp-error">{error}</p>}
+      {!loading && !error && boards.length === 0 && (
+        <p className="bp-muted">
+          {sort === 'trending' ? 'No boards have been played this week yet.' : 'No shared boards yet.'}
+        </p>
+      )}
+      {!loading && !error && boards.length > 0 && (
+        <ul className="bp-browse-list">
+          {boards.map((board) => {
+            const details = getBoardDetails(board)
+            return (
+              <li key={board.link} className="bp-browse-card">
+                {details && <BoardDetailsSummary details={details} compact />}
+                <BoardPreview board={board} />
+                <dl className="bp-browse-stats">
+                  <div>
+                    <dt>Times played</dt>
+                    <dd>{board.timesPlayed}</dd>
+                  </div>
+                  <div>
+                    <dt>Best score</dt>
+                    <dd>{board.bestScore != null ? board.bestScore.toLocaleString() : '—'}</dd>
+                  </div>
+                  {board.recentPlays != null && (
+                    <div>
+                      <dt>This week</dt>
+                      <dd>{board.recentPlays}</dd>
+                    </div>
+                  )}
+                </dl>
+                <p className="bp-browse-start">
+                  Starts at <strong>{displayTitle(board.bingopediaGame[GRID_CELL_COUNT] ?? '')}</strong>
+                </p>
+                <button
+                  type="button"
+                  className="bp-browse-play"
+                  onClick={() => void handlePlay(board.link)}
+                  disabled={playingLink !== null}
+                  aria-label={`Play board ${board.link}`}
+                >
+                  {playingLink === board.link ? 'Loading...' : 'Play'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="bp-browse-pagination">
+          <button type="button" onClick={() => setPage(page - 1)} disabled={loading || page <= 1}>
+            Previous
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button type="button" onClick={() => setPage(page + 1)} disabled={loading || page >= totalPages}>
+            Next
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { BoardBuilder } from './BoardBuilder'
+import { loadCuratedArticles } from '../../shared/data/curatedArticles'
+import { lookupArticles } from '../../shared/wiki/articleLookup'
+import { createGame } from '../../shared/api/gamesClient'
+import { normalizeTitle } from '../../shared/wiki/normalizeTitle'
+import type { CuratedArticlesPayload } from '../../shared/data/types'
+
+vi.mock('../../shared/data/curatedArticles')
+vi.mock('../../shared/wiki/articleLookup')
+vi.mock('../../shared/api/gamesClient')
+vi.mock('../../shared/api/loggingClient')
+
+const pool = Array.from({ length: 26 }, (_, i) => `Curated_${i}`)
+
+const payload: CuratedArticlesPayload = {
+  generatedAt: '2024-01-01T00:00:00.000Z',
+  totalCategories: 1,
+  totalArticles: pool.length,
+  groups: {},
+  categories: [{ name: 'Test', articleCount: pool.length, articles: pool }],
+}
+
+function checksFor(titles: string[], disambiguation: string[] = []) {
+  return new Map(
+    titles.map((title) => [
+      normalizeTitle(title),
+      { exists: true, disambiguation: disambiguation.includes(title), canonical: normalizeTitle(title) },
+    ]),
+  )
+}
+
+describe('BoardBuilder', () => {
+  beforeEach(() => {
+    vi.mocked(loadCuratedArticles).mockResolvedValue(payload)
+    vi.mocked(lookupArticles).mockReset()
+    vi.mocked(createGame).mockReset()
+  })
+
+  it('shows problems found when checking the board and keeps it unsaved', async () => {
+    const user = userEvent.setup()
+    vi.mocked(lookupArticles).mockImplementation(async (titles) => checksFor(titles, [titles[0]]))
+    render(<BoardBuilder onClose={vi.fn()} onPlay={vi.fn()} />)
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Fill empty squares' })).toBeEnabled())
+    await user.click(screen.getByRole('button', { name: 'Fill empty squares' }))
+    await user.click(screen.getByRole('button', { name: 'Check board' }))
+
+    expect(await screen.findByText('1 square needs attention.')).toBeInTheDocument()
+    expect(screen.getByLabelText('Square 1')).toHaveAttribute('aria-invalid', 'true')
+    expect(screen.getByText(/is a disambiguation page/)).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Save board' })).toBeDisabled()
+  })
+
+  it('saves a checked board as a custom game and plays it', async () => {
+    const user = userEvent.setup()
+    const onPlay = vi.fn().mockResolvedValue(undefined)
+    vi.mocked(lookupArticles).mockImplementation(async (titles) => checksFor(titles))
+    vi.mocked(createGame).mockResolvedValue({
+      link: 'abcdefghijklmnop',
+      bingopediaGame: pool,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      source: 'custom',
+    })
+    render(<BoardBuilder onClose={vi.fn()} onPlay={onPlay} />)
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Fill empty squares' })).toBeEnabled())
+    await user.click(screen.getByRole('button', { name: 'Fill empty squares' }))
+    await user.type(screen.getByLabelText('Title'), 'My board')
+    await user.click(screen.getByRole('button', { name: 'Check board' }))
+    expect(await screen.findByText('All articles check out.')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: 'Save board' }))
+
+    expect(createGame).toHaveBeenCalledWith(expect.objectContaining({ source: 'custom', title: 'My board' }))
+    expect(vi.mocked(createGame).mock.calls[0][0].bingopediaGame).toHaveLength(26)
+    expect(await screen.findByDisplayValue(`${window.location.origin}/abcdefghijklmnop`)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Play this board' }))
+    expect(onPlay).toHaveBeenCalledWith('abcdefghijklmnop')
+  })
+})
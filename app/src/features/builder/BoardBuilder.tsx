@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from 'react'
+import { loadCuratedArticles } from '../../shared/data/curatedArticles'
+import { getCuratedArticleTitle } from '../../shared/data/types'
+import { normalizeTitle } from '../../shared/wiki/normalizeTitle'
+import { lookupArticles, searchWikipediaTitles } from '../../shared/wiki/articleLookup'
+import { createGame } from '../../shared/api/gamesClient'
+import { logEvent } from '../../shared/api/loggingClient'
+import { GRID_CELL_COUNT, STARTING_POOL_SIZE } from '../../shared/constants'
+import { shuffle } from '../../../../shared/bingoSet'
+import { findBoardTitleIssues, type BoardTitleIssue } from '../../../../shared/boardValidation'
+import { BOARD_DETAILS_MAX_LENGTH, type BoardDetails } from '../../../../shared/contracts'
+import './BoardBuilder.css'
+
+const MAX_CURATED_SUGGESTIONS = 8
+const MIN_SEARCH_LENGTH = 2
+const SEARCH_DEBOUNCE_MS = 300
+
+interface BoardBuilderProps {
+  /** Returns to the start screen */
+  onClose: () => void
+  /** Starts the saved board (loaded through `loadGameFromId`) */
+  onPlay: (link: string) => Promise<void>
+}
+
+function displayTitle(title: string): string {
+  return title.replace(/_/g, ' ')
+}
+
+function cellLabel(index: number): string {
+  return index === GRID_CELL_COUNT ? 'Starting article' : `Square ${index + 1}`
+}
+
+/**
+ * Curated titles containing the query, titles starting with it first.
+ */
+function matchCurated(pool: string[], query: string): string[] {
+  const key = normalizeTitle(query)
+  if (key.length < MIN_SEARCH_LENGTH) return []
+
+  const prefix: string[] = []
+  const contains: string[] = []
+  for (const title of pool) {
+    const normalized = normalizeTitle(title)
+    if (normalized.startsWith(key)) prefix.push(title)
+    else if (normalized.includes(key)) contains.push(title)
+    if (prefix.length >= MAX_CURATED_SUGGESTIONS) break
+  }
+  return [...prefix, ...contains].slice(0, MAX_CURATED_SUGGESTIONS).map(displayTitle)
+}
+
+/**
+ * Board editor: the player picks or types 25 target articles and a starting article.
+ *
+ * Titles autocomplete from the curated pool and from Wikipedia title search. "Check board"
+ * looks the titles up on Wikipedia and applies the rules in `shared/boardValidation.ts`
+ * (existing article, not a disambiguation page, no two titles leading to the same article);
+ * a board that passes can be saved with `POST /api/games` (`source: 'custom'`), where the
+ * server checks it again.
+ *
+ * @param props - Component props
+ * @param props.onClose - Called when the player leaves the builder
+ * @param props.onPlay - Called with the link of the saved board to play it
+ */
+export function BoardBuilder({ onClose, onPlay }: BoardBuilderProps) {
+  const [titles, setTitles] = useState<string[]>(() => Array.from({ length: STARTING_POOL_SIZE }, () => ''))
+  const [details, setDetails] = useState<Required<BoardDetails>>({ title: '', creatorName: '', description: '' })
+  const [curatedPool, setCuratedPool] = useState<string[]>([])
+  const [activeIndex, setActiveIndex] = useState<number | null>(null)
+  const [searchResults, setSearchResults] = useState<{ query: string; titles: string[] } | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
+  // Keyed by the checked titles so editing a square invalidates the result
+  const [check, setCheck] = useState<{ key: string; issues: BoardTitleIssue[]; error: string | null } | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [created, setCreated] = useState<{ link: string; url: string } | null>(null)
+  const [copySuccess, setCopySuccess] = useState(false)
+  const [isStarting, setIsStarting] = useState(false)
+
+  const board = titles.map((title) => title.trim())
+  const boardKey = board.join('|')
+  const currentCheck = check?.key === boardKey ? check : null
+  const issuesByIndex = new Map((currentCheck?.issues ?? []).map((issue) => [issue.index, issue.message]))
+  const isComplete = board.every(Boolean)
+  const canSave = currentCheck !== null && !currentCheck.error && currentCheck.issues.length === 0
+  const activeQuery = activeIndex === null ? '' : titles[activeIndex].trim()
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadCuratedArticles()
+      .then((payload) => {
+        if (cancelled) return
+        const pool = new Set<string>()
+        payload.categories.forEach((category) => category.articles.forEach((article) => pool.add(getCuratedArticleTitle(article))))
+        setCuratedPool(Array.from(pool))
+      })
+      .catch((error) => {
+        // Wikipedia search still works without the curated pool
+        console.warn('Failed to load curated articles for the board builder:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (activeQuery.length < MIN_SEARCH_LENGTH) return
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      void searchWikipediaTitles(activeQuery).then((results) => {
+        if (!cancelled) setSearchResults({ query: activeQuery, titles: results })
+      })
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [activeQuery])
+
+  const suggestions = useMemo(() => {
+    const curated = matchCurated(curatedPool, activeQuery)
+    const wikipedia = searchResults?.query === activeQuery ? searchResults.titles : []
+    const seen = new Set<string>()
+    return [...curated, ...wikipedia].filter((title) => {
+      const key = normalizeTitle(title)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }, [curatedPool, activeQuery, searchResults])
+
+  const setTitle = (index: number, value: string) => {
+    setTitles((previous) => previous.map((title, i) => (i === index ? value : title)))
+    setSaveError(null)
+  }
+
+  const handleFillEmpty = () => {
+    const used = new Set(board.filter(Boolean).map(normalizeTitle))
+    const picks = shuffle(curatedPool.filter((title) => !used.has(normalizeTitle(title))))
+    setTitles((previous) => previous.map((title) => (title.trim() ? title : displayTitle(picks.pop() ?? ''))))
+  }
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+    try {
+      const checks = await lookupArticles(board)
+      setCheck({ key: boardKey, issues: findBoardTitleIssues(board, checks), error: null })
+    } catch (error) {
+      console.error('Failed to check board:', error)
+      setCheck({ key: boardKey, issues: [], error: 'Could not reach Wikipedia to check the board. Please try again.' })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setSaveError(null)
+    try {
+      // Blank details are left out; the server sanitizes the rest
+      const boardDetails = Object.fromEntries(
+        Object.entries(details).filter(([, value]) => value.trim() !== ''),
+      ) as BoardDetails
+      const game = await createGame({ bingopediaGame: board, source: 'custom', ...boardDetails })
+      logEvent('game_generated', { hashedId: game.link })
+      setCreated({ link: game.link, url: `${window.location.origin}/${game.link}` })
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save the board')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!created) return
+
+    try {
+      await navigator.clipboard.writeText(created.url)
+      setCopySuccess(true)
+      logEvent('share_link_copied', { linkType: 'game' })
+      setTimeout(() => setCopySuccess(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error)
+    }
+  }
+
+  const handlePlay = async () => {
+    if (!created) return
+
+    setIsStarting(true)
+    try {
+      await onPlay(created.link)
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  const renderCell = (index: number) => {
+    const issue = issuesByIndex.get(index)
+    const inputId = `bp-builder-cell-${index}`
+    return (
+      <div key={index} className={`bp-builder-cell ${issue ? 'bp-builder-cell--invalid' : ''}`}>
+        <label htmlFor={inputId} className="bp-builder-cell-label">
+          {cellLabel(index)}
+        </label>
+        <input
+          id={inputId}
+          type="text"
+          list="bp-builder-suggestions"
+          value={titles[index]}
+          onChange={(e) => setTitle(index, e.target.value)}
+          onFocus={() => setActiveIndex(index)}
+          disabled={created !== null}
+          aria-invalid={issue ? true : undefined}
+          aria-describedby={issue ? `${inputId}-issue` : undefined}
+        />
+        {issue && (
+          <span id={`${inputId}-issue`} className="bp-builder-cell-issue">
+            {issue}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="bp-board-builder">
+      <header className="bp-builder-header">
+        <button type="button" className="bp-link-button" onClick={onClose}>
+          ← Back
+        </button>
+        <h2>Build a board</h2>
+      </header>
+      <p className="bp-muted">
+        Pick 25 target articles and a starting article. Suggestions come from the curated articles and Wikipedia search.
+      </p>
+
+      <datalist id="bp-builder-suggestions">
+        {suggestions.map((title) => (
+          <option key={title} value={title} />
+        ))}
+      </datalist>
+
+      <div className="bp-builder-grid">{Array.from({ length: GRID_CELL_COUNT }, (_, index) => renderCell(index))}</div>
+      <div className="bp-builder-start">{renderCell(GRID_CELL_COUNT)}</div>
+
+      <div className="bp-builder-details">
+        <label>
+          Title
+          <input
+            type="text"
+            value={details.title}
+            maxLength={BOARD_DETAILS_MAX_LENGTH.title}
+            onChange={(e) => setDetails({ ...details, title: e.target.value })}
+            disabled={created !== null}
+          />
+        </label>
+        <label>
+          Your name
+          <input
+            type="text"
+            value={details.creatorName}
+            maxLength={BOARD_DETAILS_MAX_LENGTH.creatorName}
+            onChange={(e) => setDetails({ ...details, creatorName: e.target.value })}
+            disabled={created !== null}
+          />
+        </label>
+        <label>
+          Description
+          <textarea
+            rows={2}
+            value={details.description}
+            maxLength={BOARD_DETAILS_MAX_LENGTH.description}
+            onChange={(e) => setDetails({ ...details, description: e.target.value })}
+            disabled={created !== null}
+          />
+        </label>
+      </div>
+
+      {currentCheck?.error && <p className="bp-error">{currentCheck.error}</p>}
+      {currentCheck && !currentCheck.error && currentCheck.issues.length > 0 && (
+        <p className="bp-error" role="alert">
+          {currentCheck.issues.length === 1 ? '1 square needs attention.' : `${currentCheck.issues.length} squares need attention.`}
+        </p>
+      )}
+      {canSave && !created && <p className="bp-builder-valid">All articles check out.</p>}
+      {saveError && <p className="bp-error">{saveError}</p>}
+
+      {created ? (
+        <div className="bp-shareable-link-container">
+          <p className="bp-shareable-link-label">Share this board:</p>
+          <div className="bp-shareable-link-input-group">
+            <input type="text" readOnly value={created.url} className="bp-shareable-link-input" aria-label="Shareable game URL" />
+            <button type="button" className="bp-copy-button" onClick={() => void handleCopyLink()} aria-label="Copy link to clipboard">
+              {copySuccess ? '✓ Copied!' : 'Copy'}
+            </button>
+          </div>
+          <button type="button" className="bp-builder-button bp-builder-button--primary" onClick={() => void handlePlay()} disabled={isStarting}>
+            {isStarting ? 'Loading...' : 'Play this board'}
+          </button>
+        </div>
+      ) : (
+        <div className="bp-builder-actions">
+          <button type="button" className="bp-builder-button" onClick={handleFillEmpty} disabled={curatedPool.length === 0 || isComplete}>
+            Fill empty squares
+          </button>
+          <button type="button" className="bp-builder-button" onClick={() => void handleCheck()} disabled={!isComplete || isChecking}>
+            {isChecking ? 'Checking...' : 'Check board'}
+          </button>
+          <button
+            type="button"
+            className="bp-builder-button bp-builder-button--primary"
+            onClick={() => void handleSave()}
+            disabled={!canSave || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save board'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
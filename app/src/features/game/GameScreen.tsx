@@ -6,7 +6,10 @@ import { ArticleSummaryModal } from './ArticleSummaryModal'
 import { WinModal } from './WinModal'
 import { Confetti } from './Confetti'
 import { ArticleViewer } from '../article-viewer/ArticleViewer'
+import { BoardLeaderboard } from '../leaderboard/BoardLeaderboard'
+import { BoardDetailsSummary } from '../boards/BoardDetailsSummary'
 import { TimerDisplay } from './TimerDisplay'
+import { logEvent } from '../../shared/api/loggingClient'
 import './GameScreen.css'
 
 interface GameScreenProps {
@@ -39,6 +42,7 @@ export function GameScreen({ state, controls, onBackToStart, onMatchCallbackRead
   const [showWinModal, setShowWinModal] = useState(false)
   const [showWinConfetti, setShowWinConfetti] = useState(false)
   const [showMatchConfetti, setShowMatchConfetti] = useState(false)
+  const [seedLinkCopied, setSeedLinkCopied] = useState(false)
   // On mobile (screens < 960px), show bingo board by default
   const [bingoBoardOpen, setBingoBoardOpen] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -83,6 +87,21 @@ export function GameScreen({ state, controls, onBackToStart, onMatchCallbackRead
     await registerNavigation(title)
   }, [registerNavigation])
 
+  // Generated boards can be shared as a short seed link that reproduces the same board
+  const handleCopySeedLink = useCallback(async () => {
+    if (!state.boardSeed) return
+
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/?seed=${encodeURIComponent(state.boardSeed)}`)
+      setSeedLinkCopied(true)
+      // Log share_link_copied event (non-blocking)
+      logEvent('share_link_copied', { linkType: 'seed' })
+      setTimeout(() => setSeedLinkCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error)
+    }
+  }, [state.boardSeed])
+
   const handleArticleLoadFailure = useCallback(async (title: string) => {
     await replaceFailedArticle(title)
   }, [replaceFailedArticle])
@@ -106,6 +125,7 @@ export function GameScreen({ state, controls, onBackToStart, onMatchCallbackRead
           articleHistory={articleHistory}
           gameType={gameType}
           hashedId={state.hashedId}
+          sessionToken={state.sessionToken}
           onClose={() => setShowWinModal(false)}
         />
       )}
@@ -182,6 +202,21 @@ export function GameScreen({ state, controls, onBackToStart, onMatchCallbackRead
           winningCells={winningCells}
           onCellClick={handleCellClick}
         />
+        {state.boardSeed && (
+          <p className="bp-board-seed">
+            Board seed: <code>{state.boardSeed}</code>{' '}
+            <button type="button" className="bp-link-button" onClick={() => void handleCopySeedLink()}>
+              {seedLinkCopied ? '✓ Copied!' : 'Copy link'}
+            </button>
+          </p>
+        )}
+        {/* Shared boards show their creator's details and the scores to beat until the first click */}
+        {gameType === 'repeat' && state.hashedId && clickCount === 0 && !gameWon && (
+          <>
+            {state.boardDetails && <BoardDetailsSummary details={state.boardDetails} />}
+            <BoardLeaderboard link={state.hashedId} />
+          </>
+        )}
         <HistoryPanel
           history={articleHistory}
           onArticleClick={handleHistoryClick}
@@ -1,30 +1,57 @@
 import { useState } from 'react'
 import './StartScreen.css'
 import { StartScreenLeaderboard } from '../leaderboard/StartScreenLeaderboard'
+import { BrowseBoards } from '../boards/BrowseBoards'
 import { RulesModal } from './RulesModal'
 import type { GameGridCell } from './types'
 import type { CuratedArticle } from '../../shared/data/types'
+import { loadDailyStreak } from './dailyStreak'
+import { logEvent } from '../../shared/api/loggingClient'
+import { BOARD_DETAILS_MAX_LENGTH, type BoardDetails } from '../../../../shared/contracts'
 
 interface StartScreenProps {
   onStart: () => void | Promise<void>
-  onCreateShareableGame?: () => Promise<{ gameId: string; url: string }>
+  onStartDaily?: () => Promise<void>
+  onCreateShareableGame?: (details?: BoardDetails) => Promise<{ gameId: string; url: string }>
   onReplay?: (gameState: { gridCells: GameGridCell[]; startingArticle: CuratedArticle; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => Promise<void>
+  onPlayBoard?: (link: string) => Promise<void>
+  onOpenBuilder?: () => void
 }
 
 /**
  * Start screen component displayed before the game begins.
  * 
- * Shows the game title, rules, and leaderboard preview.
- * Provides the "Start Game" button to begin a new game.
+ * Shows the game title, rules, leaderboard preview and community boards.
+ * Provides the "Start Game" button to begin a new game and the "Daily Challenge" button
+ * with the browser's current daily streak.
  * 
  * @param props - Component props
  * @param props.onStart - Callback when "Start Game" is clicked
+ * @param props.onStartDaily - Callback when "Daily Challenge" is clicked
+ * @param props.onCreateShareableGame - Callback when "Generate Shareable Game" is clicked, with the
+ *   optional title, creator name and description entered for the board
+ * @param props.onPlayBoard - Callback when a board's "Play" button is clicked in "Browse boards"
+ * @param props.onOpenBuilder - Callback when "Build a Board" is clicked
  */
-export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartScreenProps) {
+export function StartScreen({ onStart, onStartDaily, onCreateShareableGame, onReplay, onPlayBoard, onOpenBuilder }: StartScreenProps) {
   const [shareableUrl, setShareableUrl] = useState<string | null>(null)
   const [isGenerating, setIsGenerating] = useState(false)
   const [copySuccess, setCopySuccess] = useState(false)
+  const [boardDetails, setBoardDetails] = useState<Required<BoardDetails>>({ title: '', creatorName: '', description: '' })
   const [showRules, setShowRules] = useState(false)
+  const [isLoadingDaily, setIsLoadingDaily] = useState(false)
+  const [dailyStreak] = useState(() => loadDailyStreak())
+
+  const handleStartDaily = async () => {
+    if (!onStartDaily) return
+
+    setIsLoadingDaily(true)
+    try {
+      await onStartDaily()
+    } finally {
+      setIsLoadingDaily(false)
+    }
+  }
 
   const handleGenerateShareable = async () => {
     if (!onCreateShareableGame) return
@@ -32,7 +59,11 @@ export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartS
     setIsGenerating(true)
     setCopySuccess(false)
     try {
-      const result = await onCreateShareableGame()
+      // Blank fields are left out; the server sanitizes the rest
+      const details = Object.fromEntries(
+        Object.entries(boardDetails).filter(([, value]) => value.trim() !== ''),
+      ) as BoardDetails
+      const result = await onCreateShareableGame(details)
       setShareableUrl(result.url)
     } catch (error) {
       console.error('Failed to create shareable game:', error)
@@ -48,6 +79,8 @@ export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartS
     try {
       await navigator.clipboard.writeText(shareableUrl)
       setCopySuccess(true)
+      // Log share_link_copied event (non-blocking)
+      logEvent('share_link_copied', { linkType: 'game' })
       setTimeout(() => setCopySuccess(false), 2000)
     } catch (error) {
       console.error('Failed to copy to clipboard:', error)
@@ -77,6 +110,20 @@ export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartS
             <button className="bp-start-button" type="button" onClick={() => void onStart()} aria-label="Start a new game">
               Start Game
             </button>
+            {onStartDaily && (
+              <button
+                className="bp-share-button bp-daily-button"
+                type="button"
+                onClick={() => void handleStartDaily()}
+                disabled={isLoadingDaily}
+                aria-label="Play today's daily challenge"
+              >
+                {isLoadingDaily ? 'Loading...' : 'Daily Challenge'}
+                {dailyStreak.current > 0 && (
+                  <span className="bp-daily-streak">{dailyStreak.current}-day streak</span>
+                )}
+              </button>
+            )}
             {onCreateShareableGame && (
               <button
                 className="bp-share-button"
@@ -88,7 +135,46 @@ export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartS
                 {isGenerating ? 'Generating...' : 'Generate Shareable Game'}
               </button>
             )}
+            {onOpenBuilder && (
+              <button className="bp-share-button" type="button" onClick={onOpenBuilder} aria-label="Build your own board">
+                Build a Board
+              </button>
+            )}
           </div>
+          {onCreateShareableGame && (
+            <details className="bp-share-details">
+              <summary>Add a title and description to your shareable game</summary>
+              <div className="bp-share-details-fields">
+                <label>
+                  Title
+                  <input
+                    type="text"
+                    value={boardDetails.title}
+                    maxLength={BOARD_DETAILS_MAX_LENGTH.title}
+                    onChange={(e) => setBoardDetails({ ...boardDetails, title: e.target.value })}
+                  />
+                </label>
+                <label>
+                  Your name
+                  <input
+                    type="text"
+                    value={boardDetails.creatorName}
+                    maxLength={BOARD_DETAILS_MAX_LENGTH.creatorName}
+                    onChange={(e) => setBoardDetails({ ...boardDetails, creatorName: e.target.value })}
+                  />
+                </label>
+                <label>
+                  Description
+                  <textarea
+                    rows={2}
+                    value={boardDetails.description}
+                    maxLength={BOARD_DETAILS_MAX_LENGTH.description}
+                    onChange={(e) => setBoardDetails({ ...boardDetails, description: e.target.value })}
+                  />
+                </label>
+              </div>
+            </details>
+          )}
           {showRules && <RulesModal onClose={() => setShowRules(false)} />}
           {shareableUrl && (
             <div className="bp-shareable-link-container">
@@ -117,6 +203,11 @@ export function StartScreen({ onStart, onCreateShareableGame, onReplay }: StartS
       <section className="bp-start-leaderboard-shell">
         <StartScreenLeaderboard onReplay={onReplay} />
       </section>
+      {onPlayBoard && (
+        <section className="bp-start-browse-shell">
+          <BrowseBoards onPlay={onPlayBoard} />
+        </section>
+      )}
     </div>
   )
 }
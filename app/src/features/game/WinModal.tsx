@@ -1,12 +1,13 @@
-import { useState, memo } from 'react'
+import { useEffect, useState, memo } from 'react'
 import { submitScore } from '../../shared/api/leaderboardClient'
-import type { GameGridCell } from './types'
+import type { GameGridCell, GameType } from './types'
 import { getCuratedArticleTitle } from '../../shared/data/types'
 import { normalizeTitle } from '../../shared/wiki/normalizeTitle'
 import { resolveRedirect } from '../../shared/wiki/resolveRedirect'
 import { validateUsername } from '../../shared/utils/validation'
 import { formatTime } from '../../shared/utils/timeFormat'
-import { logEvent } from '../../shared/api/loggingClient'
+import { fetchUsernameStatus } from '../../shared/api/usernamesClient'
+import { exportOwnershipKey, getOwnershipKey, importOwnershipKey, saveOwnershipKey } from './usernameKeys'
 import './WinModal.css'
 
 interface WinModalProps {
@@ -15,9 +16,10 @@ interface WinModalProps {
   gridCells: GameGridCell[]
   matchedArticles: Set<string>
   articleHistory: string[]
-  gameType?: 'random' | 'repeat'
+  gameType?: GameType
   onClose: () => void
   hashedId?: string
+  sessionToken?: string
 }
 
 /**
@@ -101,7 +103,8 @@ async function addFoundTagsToHistory(history: string[], bingoSquares: string[]):
  * Modal component displayed when the player wins the game.
  * 
  * Shows final score, time, and clicks. Allows the player to submit their score
- * to the leaderboard with a username. Includes real-time username validation.
+ * to the leaderboard with a username. Includes real-time username validation and
+ * shows whether the name is claimed, with export/import of the name's ownership key.
  * 
  * Wrapped with React.memo to prevent unnecessary re-renders from timer updates.
  * 
@@ -111,14 +114,68 @@ async function addFoundTagsToHistory(history: string[], bingoSquares: string[]):
  * @param props.gridCells - Array of grid cells for score submission
  * @param props.matchedArticles - Set of matched article titles
  * @param props.articleHistory - Array of visited article titles
+ * @param props.sessionToken - Server-issued game session token sent with the submission
  * @param props.onClose - Callback when the modal should be closed
  */
-function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType, onClose, hashedId }: WinModalProps) {
+function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType, onClose, hashedId, sessionToken }: WinModalProps) {
   const [username, setUsername] = useState('')
   const [submitting, setSubmitting] = useState(false)
   const [submitted, setSubmitted] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [validationError, setValidationError] = useState<string | null>(null)
+  // Claim status of the last checked name (compared with the current name when rendering)
+  const [usernameStatus, setUsernameStatus] = useState<{ username: string; claimed: boolean } | null>(null)
+  const [showKeyImport, setShowKeyImport] = useState(false)
+  const [keyImportValue, setKeyImportValue] = useState('')
+  const [keyMessage, setKeyMessage] = useState<string | null>(null)
+
+  const trimmedUsername = username.trim()
+  const ownershipKey = trimmedUsername ? getOwnershipKey(trimmedUsername) : undefined
+  const currentStatus = usernameStatus?.username === trimmedUsername ? usernameStatus : null
+
+  // Check whether the name is claimed once the player stops typing
+  useEffect(() => {
+    if (!trimmedUsername || validateUsername(trimmedUsername)) return
+
+    let cancelled = false
+    const timeout = setTimeout(() => {
+      fetchUsernameStatus(trimmedUsername)
+        .then((status) => {
+          if (!cancelled) setUsernameStatus({ username: trimmedUsername, claimed: status.claimed })
+        })
+        .catch((err) => console.warn('Failed to check username:', err))
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [trimmedUsername])
+
+  const handleExportKey = async () => {
+    const exported = exportOwnershipKey(trimmedUsername)
+    if (!exported) return
+
+    try {
+      await navigator.clipboard.writeText(exported)
+      setKeyMessage('Key copied. Keep it private and paste it into "Import key" on your other device.')
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err)
+      setKeyMessage(`Copy this key: ${exported}`)
+    }
+  }
+
+  const handleImportKey = () => {
+    try {
+      const importedUsername = importOwnershipKey(keyImportValue)
+      handleUsernameChange(importedUsername)
+      setShowKeyImport(false)
+      setKeyImportValue('')
+      setKeyMessage(`Key imported for "${importedUsername}".`)
+    } catch (err) {
+      setKeyMessage(err instanceof Error ? err.message : 'Invalid key.')
+    }
+  }
 
   const score = time * clicks
 
@@ -172,7 +229,7 @@ function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType,
         historyLength: taggedHistory.length
       })
 
-      await submitScore({
+      const entry = await submitScore({
         username: username.trim(),
         score,
         time,
@@ -182,15 +239,15 @@ function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType,
         history: taggedHistory,
         ...(hashedId && { generatedGame: hashedId }),
         gameType: finalGameType,
+        ...(sessionToken && { sessionToken }),
+        ...(ownershipKey && { ownershipKey }),
       })
 
-      // Log game_finished event (non-blocking)
-      void logEvent('game_finished', {
-        score,
-        time,
-        clicks,
-        ...(hashedId && { hashedId }),
-      })
+      // The first submission under a name claims it for this browser
+      if (entry.ownershipKey) {
+        saveOwnershipKey(username.trim(), entry.ownershipKey)
+        setKeyMessage('This name is now claimed for this browser. Export its key to use it on another device.')
+      }
 
       setSubmitted(true)
     } catch (err) {
@@ -224,6 +281,12 @@ function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType,
           {submitted ? (
             <div className="bp-win-submitted">
               <p className="bp-win-success-message">Your score has been submitted to the leaderboard!</p>
+              {keyMessage && <p className="bp-win-key-message">{keyMessage}</p>}
+              {ownershipKey && (
+                <button type="button" className="bp-win-key-button" onClick={() => void handleExportKey()}>
+                  Export key
+                </button>
+              )}
               <button className="bp-win-close-button" onClick={() => window.location.reload()}>
                 Home
               </button>
@@ -261,6 +324,40 @@ function WinModalComponent({ clicks, time, gridCells, articleHistory, gameType,
                     aria-label="Username input"
                   />
                   {validationError && <div className="bp-win-error">{validationError}</div>}
+                  {!validationError && currentStatus && (
+                    <div className="bp-win-claim-status">
+                      {!currentStatus.claimed && 'This name is unclaimed. Submitting will claim it for this browser.'}
+                      {currentStatus.claimed && ownershipKey && (
+                        <>
+                          You own this name on this browser.{' '}
+                          <button type="button" className="bp-win-key-button" onClick={() => void handleExportKey()}>
+                            Export key
+                          </button>
+                        </>
+                      )}
+                      {currentStatus.claimed && !ownershipKey && 'This name is claimed. If it is yours, import its key.'}
+                    </div>
+                  )}
+                  {showKeyImport ? (
+                    <div className="bp-win-key-import">
+                      <input
+                        type="text"
+                        value={keyImportValue}
+                        onChange={(e) => setKeyImportValue(e.target.value)}
+                        placeholder="Paste exported key"
+                        className="bp-win-input"
+                        aria-label="Exported username key"
+                      />
+                      <button type="button" className="bp-win-key-button" onClick={handleImportKey} disabled={!keyImportValue.trim()}>
+                        Import
+                      </button>
+                    </div>
+                  ) : (
+                    <button type="button" className="bp-win-key-button" onClick={() => setShowKeyImport(true)}>
+                      Import key
+                    </button>
+                  )}
+                  {keyMessage && <div className="bp-win-key-message">{keyMessage}</div>}
                 </div>
                 {error && <div className="bp-win-error">{error}</div>}
                 <div className="bp-win-actions">
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { getUtcDateKey, loadDailyStreak, recordDailyCompletion } from './dailyStreak'
+
+describe('dailyStreak', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should start with an empty streak', () => {
+    expect(loadDailyStreak('2024-03-10')).toEqual({ current: 0, best: 0, lastCompletedDate: null })
+  })
+
+  it('should count consecutive days', () => {
+    recordDailyCompletion('2024-03-09')
+    const streak = recordDailyCompletion('2024-03-10')
+    expect(streak).toEqual({ current: 2, best: 2, lastCompletedDate: '2024-03-10' })
+    expect(loadDailyStreak('2024-03-10').current).toBe(2)
+  })
+
+  it('should count across month boundaries', () => {
+    recordDailyCompletion('2024-02-29')
+    expect(recordDailyCompletion('2024-03-01').current).toBe(2)
+  })
+
+  it('should ignore a second completion on the same day', () => {
+    recordDailyCompletion('2024-03-10')
+    expect(recordDailyCompletion('2024-03-10').current).toBe(1)
+  })
+
+  it('should keep the streak until the next day is missed', () => {
+    recordDailyCompletion('2024-03-10')
+    expect(loadDailyStreak('2024-03-11').current).toBe(1)
+    expect(loadDailyStreak('2024-03-12').current).toBe(0)
+  })
+
+  it('should restart after a missed day and keep the best streak', () => {
+    recordDailyCompletion('2024-03-08')
+    recordDailyCompletion('2024-03-09')
+    const streak = recordDailyCompletion('2024-03-11')
+    expect(streak).toEqual({ current: 1, best: 2, lastCompletedDate: '2024-03-11' })
+  })
+
+  it('should ignore corrupt stored data', () => {
+    localStorage.setItem('bingopedia-daily-streak', '{not json')
+    expect(loadDailyStreak('2024-03-10').best).toBe(0)
+  })
+
+  it('should format dates as UTC days', () => {
+    expect(getUtcDateKey(new Date('2024-03-10T23:59:59Z'))).toBe('2024-03-10')
+  })
+})
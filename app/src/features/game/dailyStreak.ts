@@ -0,0 +1,96 @@
+/**
+ * Daily challenge streaks, tracked per browser in localStorage.
+ *
+ * A streak counts consecutive UTC days with a completed daily challenge. Missing a day
+ * resets the current streak; the best streak is kept.
+ */
+
+const DAILY_STREAK_STORAGE_KEY = 'bingopedia-daily-streak'
+
+export interface DailyStreak {
+  current: number
+  best: number
+  lastCompletedDate: string | null // UTC day (YYYY-MM-DD)
+}
+
+const EMPTY_STREAK: DailyStreak = { current: 0, best: 0, lastCompletedDate: null }
+
+/**
+ * Formats a date as its UTC day (YYYY-MM-DD), matching the server's daily challenge date.
+ * @param date - Date to format (defaults to now)
+ * @returns UTC date key
+ */
+export function getUtcDateKey(date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Returns the UTC day before a date key.
+ * @param dateKey - UTC date key (YYYY-MM-DD)
+ * @returns Previous UTC date key
+ */
+function previousDateKey(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() - 1)
+  return getUtcDateKey(date)
+}
+
+function readStoredStreak(): DailyStreak {
+  if (typeof window === 'undefined') return EMPTY_STREAK
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(DAILY_STREAK_STORAGE_KEY) ?? 'null')
+    if (
+      stored &&
+      typeof stored.current === 'number' &&
+      typeof stored.best === 'number' &&
+      (stored.lastCompletedDate === null || typeof stored.lastCompletedDate === 'string')
+    ) {
+      return stored as DailyStreak
+    }
+  } catch {
+    // Ignore corrupt data and start a new streak
+  }
+  return EMPTY_STREAK
+}
+
+/**
+ * Loads the streak as of a given day. The current streak is reported as 0 once a day
+ * has been missed, even though the stored value is only reset on the next completion.
+ * @param today - UTC date key to evaluate the streak for (defaults to today)
+ * @returns Streak for display
+ */
+export function loadDailyStreak(today = getUtcDateKey()): DailyStreak {
+  const streak = readStoredStreak()
+  const { lastCompletedDate } = streak
+  if (lastCompletedDate !== today && lastCompletedDate !== previousDateKey(today)) {
+    return { ...streak, current: 0 }
+  }
+  return streak
+}
+
+/**
+ * Records a completed daily challenge. Completing the same day twice has no effect.
+ * @param dateKey - UTC date key of the completed daily challenge
+ * @returns Updated streak
+ */
+export function recordDailyCompletion(dateKey: string): DailyStreak {
+  const streak = readStoredStreak()
+  if (streak.lastCompletedDate === dateKey) {
+    return streak
+  }
+
+  const current = streak.lastCompletedDate === previousDateKey(dateKey) ? streak.current + 1 : 1
+  const updated: DailyStreak = {
+    current,
+    best: Math.max(streak.best, current),
+    lastCompletedDate: dateKey,
+  }
+
+  try {
+    localStorage.setItem(DAILY_STREAK_STORAGE_KEY, JSON.stringify(updated))
+  } catch (error) {
+    console.warn('Failed to save daily streak:', error)
+  }
+  return updated
+}
@@ -1,4 +1,11 @@
 import type { CuratedArticle } from '../../shared/data/types'
+import type { BoardDetails, GameType, LeaderboardEntry } from '../../../../shared/contracts'
+
+/**
+ * 'random' for new games, 'repeat' for shared/replayed games, 'daily' for the daily challenge.
+ * Leaderboard entries come from the API as `LeaderboardEntry` (see `shared/contracts.ts`).
+ */
+export type { GameType, LeaderboardEntry }
 
 export interface GameGridCell {
   id: string
@@ -22,34 +29,11 @@ export interface GameState {
   currentArticleTitle: string | null
   hashedId?: string // 16-character hashed ID (primary identifier for shareable games)
   gameId?: string // UUID v4 (optional, for backward compatibility)
-  gameType?: 'random' | 'repeat' // 'random' for new games, 'repeat' for shared/replayed games
-}
-
-/**
- * Leaderboard entry from the API.
- * MongoDB returns `_id`, so we use that as the primary identifier.
- */
-export interface LeaderboardEntry {
-  _id?: string // MongoDB document ID
-  username: string
-  score: number
-  time: number
-  clicks: number
-  bingopediaGame?: string[]
-  history?: string[]
-  createdAt: string | Date
-  gameType?: 'random' | 'repeat' // Game type
-  /**
-   * 16-character URL-safe hash ID uniquely identifying this leaderboard entry.
-   * For repeat games, this references the game in the generated-games collection.
-   * For random games, this is generated automatically.
-   * Always present for new entries, but optional for backward compatibility with old entries.
-   */
-  generatedGame?: string
-  /**
-   * @deprecated Use bingopediaGame instead. This field is kept for backward compatibility with old entries.
-   */
-  bingoSquares?: string[]
+  gameType?: GameType
+  dailyDate?: string // UTC day (YYYY-MM-DD) of the daily challenge being played
+  boardSeed?: string // Board seed (`<dataVersion>-<seed>`) that reproduces a generated board
+  boardDetails?: BoardDetails // Title, creator name and description of a shared board, if its creator set any
+  sessionToken?: string // Server-issued token required to submit this game to the leaderboard
 }
 
 /**
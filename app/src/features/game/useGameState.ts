@@ -1,15 +1,26 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { loadCuratedArticles } from '../../shared/data/curatedArticles'
-import type { CuratedArticle, CuratedCategory } from '../../shared/data/types'
+import type { CuratedArticle } from '../../shared/data/types'
 import { getCuratedArticleTitle } from '../../shared/data/types'
 import { normalizeTitle } from '../../shared/wiki/normalizeTitle'
 import { resolveRedirect } from '../../shared/wiki/resolveRedirect'
 import { detectWinningCells } from './winDetection'
 import type { GameGridCell, GameState } from './types'
-import { GRID_CELL_COUNT, STARTING_POOL_SIZE } from '../../shared/constants'
+import type { BoardDetails } from '../../../../shared/contracts'
+import { GRID_CELL_COUNT } from '../../shared/constants'
+import { pickRandom } from '../../../../shared/bingoSet'
+import {
+  createRandomSeed,
+  formatBoardSeed,
+  generateBoardFromSeed,
+  getCuratedDataVersion,
+  parseBoardSeed,
+} from '../../../../shared/boardSeed'
 import { useGameTimer } from './useGameTimer'
-import { fetchGame, createGame } from '../../shared/api/gamesClient'
+import { fetchGame, fetchDailyGame, createGame, getBoardDetails } from '../../shared/api/gamesClient'
+import { recordDailyCompletion } from './dailyStreak'
 import { logEvent } from '../../shared/api/loggingClient'
+import { startSession, type StartSessionPayload } from '../../shared/api/sessionsClient'
 
 /**
  * Module loading verification:
@@ -39,118 +50,64 @@ function createInitialState(): GameState {
     currentArticleTitle: null,
     gameId: undefined,
     gameType: undefined,
+    dailyDate: undefined,
+    boardSeed: undefined,
+    boardDetails: undefined,
+    sessionToken: undefined,
   }
 }
 
-function pickRandom<T>(items: T[]): T {
-  return items[Math.floor(Math.random() * items.length)]
-}
-
-function shuffle<T>(items: T[]): T[] {
-  const arr = [...items]
-  for (let i = arr.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[arr[i], arr[j]] = [arr[j], arr[i]]
+/**
+ * Starts a server-side game session for leaderboard submission.
+ * Failures are logged and return undefined so the game can still be played;
+ * the score submission will then be rejected by the server.
+ *
+ * @param payload - Board (random games) or game link (repeat games)
+ * @returns Session token, or undefined if the session could not be started
+ */
+async function requestSessionToken(payload: StartSessionPayload): Promise<string | undefined> {
+  try {
+    const { sessionToken } = await startSession(payload)
+    return sessionToken
+  } catch (error) {
+    console.warn('Failed to start game session, score submission will be unavailable:', error)
+    return undefined
   }
-  return arr
 }
 
 /**
- * Generates a bingo set by selecting 26 distinct categories and one article per category.
- * The first 25 articles form the grid, and the 26th becomes the starting article.
- * 
- * This function ensures:
- * - All selected articles have unique titles (normalized for comparison)
- * - Group constraints are respected (e.g., max 1 occupation category per game)
- * - Exactly 26 articles are selected for a complete game
- * 
- * @param categories - Array of curated categories to select from
- * @param groups - Array of group definitions with maxPerGame constraints
- * @returns An object containing the grid cells and starting article
- * @throws Error if unable to generate enough unique articles
+ * Generates a board from the curated articles.
+ * A new random seed is created unless one is given, so every generated board can be
+ * reproduced exactly from its board seed.
+ *
+ * @param boardSeed - Shared board seed to reproduce (optional)
+ * @returns The grid cells, starting article and formatted board seed
+ * @throws Error if the seed is malformed or was created from a different version of the curated data
  */
-function generateBingoSet(
-  categories: CuratedCategory[],
-  groups: { [groupName: string]: { maxPerGame: number; categories: string[] } } = {},
-): {
+async function generateBoard(boardSeed?: string): Promise<{
   gridCells: GameGridCell[]
   startingArticle: CuratedArticle
-} {
-  // Build a map of group name -> maxPerGame for quick lookup
-  // Groups is an object with group names as keys
-  const groupMaxMap = new Map<string, number>()
-  for (const [groupName, groupInfo] of Object.entries(groups)) {
-    groupMaxMap.set(groupName, groupInfo.maxPerGame)
+  boardSeed: string
+}> {
+  const payload = await loadCuratedArticles()
+  const seed = boardSeed
+    ? parseBoardSeed(boardSeed)
+    : { dataVersion: getCuratedDataVersion(payload), seed: createRandomSeed() }
+  if (!seed) {
+    throw new Error(`Invalid board seed: ${boardSeed}`)
   }
 
-  // Shuffle all categories
-  const shuffledCategories = shuffle(categories)
+  const { gridArticles, startingArticle } = generateBoardFromSeed(payload, seed)
 
-  // Select categories respecting group constraints
-  const selectedCategories: CuratedCategory[] = []
-  const groupUsageCount = new Map<string, number>() // Track how many times each group has been used
-
-  for (const category of shuffledCategories) {
-    if (selectedCategories.length >= STARTING_POOL_SIZE) {
-      break
-    }
-
-    // Check if this category belongs to a group
-    if (category.group) {
-      const currentCount = groupUsageCount.get(category.group) || 0
-      const maxAllowed = groupMaxMap.get(category.group) ?? Infinity
-
-      // Skip if we've already used the max allowed from this group
-      if (currentCount >= maxAllowed) {
-        continue
-      }
-
-      // Increment group usage
-      groupUsageCount.set(category.group, currentCount + 1)
-    }
-
-    // Add this category
-    selectedCategories.push(category)
-  }
-
-  // Check if we got enough categories
-  if (selectedCategories.length < STARTING_POOL_SIZE) {
-    throw new Error(
-      `Failed to generate enough categories for bingo set. Need ${STARTING_POOL_SIZE}, got ${selectedCategories.length}. This may be due to group constraints.`,
-    )
-  }
-
-  const usedTitles = new Set<string>()
-  const articles: CuratedArticle[] = []
-
-  for (const category of selectedCategories) {
-    const shuffledArticles = shuffle(category.articles)
-    const chosen = shuffledArticles.find((article) => {
-      const title = getCuratedArticleTitle(article)
-      const norm = normalizeTitle(title)
-      if (usedTitles.has(norm)) return false
-      usedTitles.add(norm)
-      return true
-    })
-    if (chosen) {
-      articles.push(chosen)
-    }
-  }
-
-  if (articles.length < STARTING_POOL_SIZE) {
-    throw new Error('Failed to generate enough unique articles for bingo set')
-  }
-
-  const [starting, ...gridPool] = shuffle(articles)
-
-  const gridCells: GameGridCell[] = gridPool.slice(0, GRID_CELL_COUNT).map((article, index) => ({
+  const gridCells: GameGridCell[] = gridArticles.map((article, index) => ({
     id: `cell-${index}`,
     article,
   }))
 
   return {
     gridCells,
-    startingArticle: starting,
+    startingArticle,
+    boardSeed: formatBoardSeed(seed),
   }
 }
 
@@ -180,14 +137,16 @@ export interface UseGameStateOptions {
  * @param options.onMatch - Callback when a new match is detected
  * @returns A tuple containing:
  *   - [0] Current game state
- *   - [1] Control functions: startNewGame, loadGameFromId, createShareableGame, registerNavigation, setArticleLoading, replaceFailedArticle
+ *   - [1] Control functions: startNewGame, loadGameFromId, startDailyGame, startSeededGame, createShareableGame, registerNavigation, setArticleLoading, replaceFailedArticle
  */
 export function useGameState(options: UseGameStateOptions = {}): [
   GameState,
   {
     startNewGame: (gameState?: { gridCells: GameGridCell[]; startingArticle: CuratedArticle; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => Promise<void>
     loadGameFromId: (identifier: string, preserveGameId?: string) => Promise<void>
-    createShareableGame: () => Promise<{ gameId: string; url: string }>
+    startDailyGame: () => Promise<void>
+    startSeededGame: (boardSeed: string) => Promise<void>
+    createShareableGame: (details?: BoardDetails) => Promise<{ gameId: string; url: string }>
     registerNavigation: (title: string) => Promise<void>
     setArticleLoading: (loading: boolean) => void
     replaceFailedArticle: (title: string) => Promise<void>
@@ -250,6 +209,26 @@ export function useGameState(options: UseGameStateOptions = {}): [
     }
   }, [state.gameStarted, state.currentArticleTitle, state.articleLoading, state.timerRunning, state.gameWon])
 
+  // Record the daily streak as soon as the daily challenge is won
+  useEffect(() => {
+    if (state.gameWon && state.gameType === 'daily' && state.dailyDate) {
+      recordDailyCompletion(state.dailyDate)
+    }
+  }, [state.gameWon, state.gameType, state.dailyDate])
+
+  // Log game_finished as soon as the game is won, whether or not the score is submitted (non-blocking)
+  useEffect(() => {
+    if (!state.gameWon) return
+    const { clickCount, elapsedSeconds, gameType, hashedId } = stateRef.current
+    logEvent('game_finished', {
+      score: elapsedSeconds * clickCount,
+      time: elapsedSeconds,
+      clicks: clickCount,
+      ...(gameType && { gameType }),
+      ...(hashedId && { hashedId }),
+    })
+  }, [state.gameWon])
+
   /**
    * Converts article title strings to CuratedArticle objects.
    * Used when loading games from API where we only have titles.
@@ -258,12 +237,53 @@ export function useGameState(options: UseGameStateOptions = {}): [
     return { title }
   }, [])
 
+  /**
+   * Generates a board and starts a RANDOM game on it.
+   * @param boardSeed - Shared board seed to reproduce; a new seed is created if omitted
+   */
+  const startGeneratedGame = useCallback(async (boardSeed?: string) => {
+    const generated = await generateBoard(boardSeed)
+    const { gridCells, startingArticle } = generated
+
+    const startingTitle = getCuratedArticleTitle(startingArticle)
+    const sessionToken = await requestSessionToken({
+      bingopediaGame: [...gridCells.map((cell) => getCuratedArticleTitle(cell.article)), startingTitle],
+    })
+    console.log('[Game] Starting new RANDOM game', { boardSeed: generated.boardSeed })
+    setState({
+      ...createInitialState(),
+      gameStarted: true,
+      gridCells,
+      startingArticle,
+      currentArticleTitle: startingTitle,
+      articleHistory: [startingTitle],
+      timerRunning: true,
+      articleLoading: false,
+      gameType: 'random',
+      boardSeed: generated.boardSeed,
+      sessionToken,
+    })
+  }, [])
+
+  /**
+   * Starts a RANDOM game on the board reproduced from a shared board seed.
+   * @param boardSeed - Board seed (`<dataVersion>-<seed>`)
+   * @throws Error if the seed is malformed or was created from a different version of the curated data
+   */
+  const startSeededGame = useCallback((boardSeed: string) => startGeneratedGame(boardSeed), [startGeneratedGame])
+
   const startNewGame = useMemo(
     () => async (providedGameState?: { gridCells: GameGridCell[]; startingArticle: CuratedArticle; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => {
       if (providedGameState) {
         // Load game from provided state
         const startingTitle = getCuratedArticleTitle(providedGameState.startingArticle)
         const gameType = providedGameState.gameType || 'repeat'
+        const sessionToken = await requestSessionToken({
+          bingopediaGame: [
+            ...providedGameState.gridCells.map((cell) => getCuratedArticleTitle(cell.article)),
+            startingTitle,
+          ],
+        })
         console.log(`[Game] Starting ${gameType.toUpperCase()} game from provided state`, {
           hashedId: providedGameState.hashedId,
           gameId: providedGameState.gameId,
@@ -280,29 +300,14 @@ export function useGameState(options: UseGameStateOptions = {}): [
           hashedId: providedGameState.hashedId,
           gameId: providedGameState.gameId, // Keep for backward compatibility
           gameType,
+          sessionToken,
         })
       } else {
         // Generate new game
-        const payload = await loadCuratedArticles()
-        const { categories, groups } = payload
-        const { gridCells, startingArticle } = generateBingoSet(categories, groups)
-
-        const startingTitle = getCuratedArticleTitle(startingArticle)
-        console.log('[Game] Starting new RANDOM game')
-        setState({
-          ...createInitialState(),
-          gameStarted: true,
-          gridCells,
-          startingArticle,
-          currentArticleTitle: startingTitle,
-          articleHistory: [startingTitle],
-          timerRunning: true,
-          articleLoading: false,
-          gameType: 'random',
-        })
+        await startGeneratedGame()
       }
     },
-    [],
+    [startGeneratedGame],
   )
 
   /**
@@ -325,6 +330,8 @@ export function useGameState(options: UseGameStateOptions = {}): [
       
       const startingArticle = createArticleFromTitle(startingTitle)
       const startingTitleResolved = getCuratedArticleTitle(startingArticle)
+      const sessionToken = await requestSessionToken({ generatedGame: gameState.link })
+      const boardDetails = getBoardDetails(gameState)
       
       console.log('[Game] Starting REPEAT game from link', {
         hashedId: gameState.link,
@@ -342,6 +349,8 @@ export function useGameState(options: UseGameStateOptions = {}): [
         hashedId: gameState.link,
         ...(preserveGameId && { gameId: preserveGameId }), // Preserve gameId for replay scenarios
         gameType: 'repeat',
+        ...(boardDetails && { boardDetails }),
+        sessionToken,
       })
     } catch (error) {
       console.error('Failed to load game:', error)
@@ -349,16 +358,53 @@ export function useGameState(options: UseGameStateOptions = {}): [
     }
   }, [createArticleFromTitle])
 
+  /**
+   * Starts today's daily challenge.
+   * The board is fetched from the API and played like a shared game; the server marks the
+   * session as 'daily' so the score is submitted to the daily leaderboard.
+   */
+  const startDailyGame = useCallback(async () => {
+    try {
+      const gameState = await fetchDailyGame()
+
+      const gridCells: GameGridCell[] = gameState.bingopediaGame.slice(0, GRID_CELL_COUNT).map((title, index) => ({
+        id: `cell-${index}`,
+        article: createArticleFromTitle(title),
+      }))
+      const startingArticle = createArticleFromTitle(gameState.bingopediaGame[GRID_CELL_COUNT])
+      const startingTitle = getCuratedArticleTitle(startingArticle)
+      const sessionToken = await requestSessionToken({ generatedGame: gameState.link })
+
+      console.log('[Game] Starting DAILY game', { hashedId: gameState.link, dailyDate: gameState.dailyDate })
+      setState({
+        ...createInitialState(),
+        gameStarted: true,
+        gridCells,
+        startingArticle,
+        currentArticleTitle: startingTitle,
+        articleHistory: [startingTitle],
+        timerRunning: true,
+        articleLoading: false,
+        hashedId: gameState.link,
+        gameType: 'daily',
+        dailyDate: gameState.dailyDate,
+        sessionToken,
+      })
+    } catch (error) {
+      console.error('Failed to load daily challenge:', error)
+      throw error
+    }
+  }, [createArticleFromTitle])
+
   /**
    * Creates a shareable game by generating a new game and storing it in the API.
+   * @param details - Optional title, creator name and description shown to players of the link
    * @returns Object with hashedId and shareable URL (path-based format)
    */
-  const createShareableGame = useCallback(async (): Promise<{ gameId: string; url: string }> => {
+  const createShareableGame = useCallback(async (details: BoardDetails = {}): Promise<{ gameId: string; url: string }> => {
     try {
       // Generate new game
-      const payload = await loadCuratedArticles()
-      const { categories, groups } = payload
-      const { gridCells, startingArticle } = generateBingoSet(categories, groups)
+      const { gridCells, startingArticle } = await generateBoard()
 
       // Convert to string arrays for API
       const gridCellTitles = gridCells.map((cell) => getCuratedArticleTitle(cell.article))
@@ -368,13 +414,14 @@ export function useGameState(options: UseGameStateOptions = {}): [
       // Create game in API
       const createdGame = await createGame({
         bingopediaGame,
+        ...details,
       })
 
       // Generate shareable URL using path-based format: /{hashedId}
       const url = `${window.location.origin}/${createdGame.link}`
 
       // Log game_generated event (non-blocking)
-      void logEvent('game_generated', { hashedId: createdGame.link })
+      logEvent('game_generated', { hashedId: createdGame.link })
 
       return {
         gameId: createdGame.link,
@@ -505,6 +552,14 @@ export function useGameState(options: UseGameStateOptions = {}): [
       }
     })
 
+    // Log article_navigated event (non-blocking)
+    const hashedId = current.hashedId
+    logEvent('article_navigated', {
+      title: resolvedTitle,
+      clicks: current.clickCount + 1,
+      ...(hashedId && { hashedId }),
+    })
+
     // STEP 3: Article fetch will happen in ArticleViewer using resolvedTitle
     // The resolved title is already set in state, so ArticleViewer will fetch the correct article
     const normalizedClicked = normalizedResolved
@@ -555,6 +610,17 @@ export function useGameState(options: UseGameStateOptions = {}): [
       return prev
     })
 
+    // Log a square_found event for every newly matched square (non-blocking)
+    const foundTitles = [...newlyMatchedTitles, ...redirectMatchedTitles]
+    foundTitles.forEach((matchedTitle, index) => {
+      logEvent('square_found', {
+        title: matchedTitle,
+        clicks: current.clickCount + 1,
+        squaresFound: current.matchedArticles.size + index + 1,
+        ...(hashedId && { hashedId }),
+      })
+    })
+
     // Call onMatch callback for redirect-based matches
     // Wrap in try-catch to prevent crashes from confetti trigger errors
     if (onMatch && redirectMatchedTitles.length > 0) {
@@ -656,6 +722,10 @@ export function useGameState(options: UseGameStateOptions = {}): [
       replacingArticlesRef.current.add(normalizedFailed)
       console.warn(`Article failed to load: ${failedTitle}`)
 
+      // Log article_load_failed event (non-blocking)
+      const { hashedId } = stateRef.current
+      logEvent('article_load_failed', { title: failedTitle, ...(hashedId && { hashedId }) })
+
       try {
         setState((prev) => {
           // Collect all currently used article titles (normalized)
@@ -754,12 +824,14 @@ export function useGameState(options: UseGameStateOptions = {}): [
     () => ({
       startNewGame,
       loadGameFromId,
+      startDailyGame,
+      startSeededGame,
       createShareableGame,
       registerNavigation,
       setArticleLoading,
       replaceFailedArticle,
     }),
-    [startNewGame, loadGameFromId, createShareableGame, registerNavigation, setArticleLoading, replaceFailedArticle],
+    [startNewGame, loadGameFromId, startDailyGame, startSeededGame, createShareableGame, registerNavigation, setArticleLoading, replaceFailedArticle],
   )
 
   return [state, controls]
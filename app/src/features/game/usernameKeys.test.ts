@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { exportOwnershipKey, getOwnershipKey, importOwnershipKey, saveOwnershipKey } from './usernameKeys'
+
+describe('usernameKeys', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('should look up keys case-insensitively', () => {
+    saveOwnershipKey('Alice', 'key-123')
+    expect(getOwnershipKey(' alice ')).toBe('key-123')
+    expect(getOwnershipKey('bob')).toBeUndefined()
+  })
+
+  it('should export and import a key', () => {
+    saveOwnershipKey('Alice: The Great', 'key_123')
+    const exported = exportOwnershipKey('alice: the great')
+    expect(exported).toBe('key_123:Alice: The Great')
+
+    localStorage.clear()
+    expect(importOwnershipKey(`  ${exported}  `)).toBe('Alice: The Great')
+    expect(getOwnershipKey('Alice: The Great')).toBe('key_123')
+  })
+
+  it('should return undefined when exporting an unknown name', () => {
+    expect(exportOwnershipKey('nobody')).toBeUndefined()
+  })
+
+  it('should reject malformed imports', () => {
+    expect(() => importOwnershipKey('no-separator')).toThrow('Invalid key')
+    expect(() => importOwnershipKey(':Alice')).toThrow('Invalid key')
+    expect(() => importOwnershipKey('key 123:Alice')).toThrow('Invalid key')
+    expect(() => importOwnershipKey('key123:   ')).toThrow('Invalid key')
+  })
+})
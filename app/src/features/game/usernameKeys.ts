@@ -0,0 +1,89 @@
+/**
+ * Username ownership keys, stored per browser in localStorage.
+ *
+ * The first leaderboard submission under a name claims it and the server returns a
+ * secret ownership key. Later submissions under that name must send the key, so it is
+ * kept here and can be exported to another device as a single string.
+ */
+
+const USERNAME_KEYS_STORAGE_KEY = 'bingopedia-username-keys'
+
+/**
+ * Stored keys by lowercase username.
+ */
+type StoredUsernameKeys = Record<string, { username: string; ownershipKey: string }>
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase()
+}
+
+function readStoredKeys(): StoredUsernameKeys {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(USERNAME_KEYS_STORAGE_KEY) ?? '{}')
+    if (stored && typeof stored === 'object' && !Array.isArray(stored)) {
+      return stored as StoredUsernameKeys
+    }
+  } catch {
+    // Ignore corrupt data
+  }
+  return {}
+}
+
+/**
+ * Gets the ownership key saved for a username.
+ * @param username - Username (case-insensitive)
+ * @returns The ownership key, or undefined if this browser has none
+ */
+export function getOwnershipKey(username: string): string | undefined {
+  return readStoredKeys()[normalizeUsername(username)]?.ownershipKey
+}
+
+/**
+ * Saves the ownership key for a username, replacing any previous key.
+ * @param username - Username the key belongs to
+ * @param ownershipKey - Ownership key returned by the server
+ */
+export function saveOwnershipKey(username: string, ownershipKey: string): void {
+  const keys = readStoredKeys()
+  keys[normalizeUsername(username)] = { username: username.trim(), ownershipKey }
+
+  try {
+    localStorage.setItem(USERNAME_KEYS_STORAGE_KEY, JSON.stringify(keys))
+  } catch (error) {
+    console.warn('Failed to save username key:', error)
+  }
+}
+
+/**
+ * Exports a username and its key as a single string (`<ownershipKey>:<username>`)
+ * that can be pasted into another browser.
+ * @param username - Username to export
+ * @returns Export string, or undefined if this browser has no key for the username
+ */
+export function exportOwnershipKey(username: string): string | undefined {
+  const stored = readStoredKeys()[normalizeUsername(username)]
+  return stored ? `${stored.ownershipKey}:${stored.username}` : undefined
+}
+
+/**
+ * Imports a username key exported with `exportOwnershipKey`.
+ * The key is not checked here; the server rejects a wrong key on submission.
+ * @param exported - Export string
+ * @returns The imported username
+ * @throws Error if the string is not a valid export
+ */
+export function importOwnershipKey(exported: string): string {
+  const value = exported.trim()
+  const separator = value.indexOf(':')
+  const ownershipKey = value.slice(0, separator)
+  const username = value.slice(separator + 1).trim()
+
+  if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(ownershipKey) || !username) {
+    throw new Error('Invalid key. Paste the full key exported from your other device.')
+  }
+
+  saveOwnershipKey(username, ownershipKey)
+  return username
+}
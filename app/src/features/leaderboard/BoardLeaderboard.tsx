@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react'
+import { fetchBoardLeaderboard, type BoardStats } from '../../shared/api/leaderboardClient'
+import type { LeaderboardEntry } from '../game/types'
+import { formatTime } from '../../shared/utils/timeFormat'
+import './BoardLeaderboard.css'
+
+interface BoardLeaderboardProps {
+  /** 16-character link of the board */
+  link: string
+  /** Number of top entries to show (defaults to 5) */
+  limit?: number
+  /** Entry to highlight in the list (e.g. the one opened in GameDetailsModal) */
+  highlightEntryId?: string
+}
+
+/**
+ * "Top scores on this board" panel for a shared game.
+ *
+ * Shows board stats (finishers, best score, median clicks) and the top entries
+ * for a single board, loaded from `/api/games/:link/leaderboard`.
+ *
+ * @param props - Component props
+ * @param props.link - Board link
+ * @param props.limit - Number of entries to show
+ * @param props.highlightEntryId - Entry to highlight
+ */
+export function BoardLeaderboard({ link, limit = 5, highlightEntryId }: BoardLeaderboardProps) {
+  // Results are keyed by request so loading is derived rather than set inside the effect
+  const requestKey = `${link}:${limit}`
+  const [result, setResult] = useState<{
+    key: string
+    entries: LeaderboardEntry[]
+    stats: BoardStats | null
+    error: string | null
+  } | null>(null)
+  const loading = result?.key !== requestKey
+  const entries = result?.entries ?? []
+  const stats = result?.stats ?? null
+  const error = result?.error ?? null
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchBoardLeaderboard(link, { limit })
+      .then((res) => {
+        if (!cancelled) {
+          setResult({ key: `${link}:${limit}`, entries: res.users, stats: res.stats, error: null })
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setResult({ key: `${link}:${limit}`, entries: [], stats: null, error: 'Unable to load scores for this board.' })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [link, limit])
+
+  return (
+    <section className="bp-board-leaderboard" aria-labelledby={`bp-board-leaderboard-title-${link}`}>
+      <h4 className="bp-board-leaderboard-title" id={`bp-board-leaderboard-title-${link}`}>
+        Top scores on this board
+      </h4>
+      {loading && <p className="bp-muted">Loading…</p>}
+      {!loading && error && <p className="bp-error">{error}</p>}
+      {!loading && !error && stats && (
+        <>
+          <dl className="bp-board-leaderboard-stats">
+            <div className="bp-board-leaderboard-stat">
+              <dt>Finishers</dt>
+              <dd>{stats.finishers}</dd>
+            </div>
+            <div className="bp-board-leaderboard-stat">
+              <dt>Best score</dt>
+              <dd>{stats.bestScore != null ? stats.bestScore.toLocaleString() : '—'}</dd>
+            </div>
+            <div className="bp-board-leaderboard-stat">
+              <dt>Median clicks</dt>
+              <dd>{stats.medianClicks != null ? stats.medianClicks : '—'}</dd>
+            </div>
+          </dl>
+          {entries.length === 0 ? (
+            <p className="bp-muted">Nobody has finished this board yet. Be the first!</p>
+          ) : (
+            <ol className="bp-board-leaderboard-list">
+              {entries.map((entry) => (
+                <li
+                  key={entry._id || entry.username}
+                  className={`bp-board-leaderboard-entry ${
+                    highlightEntryId && entry._id === highlightEntryId ? 'bp-board-leaderboard-entry--highlight' : ''
+                  }`}
+                >
+                  <span className="bp-board-leaderboard-player">{entry.username}</span>
+                  <span>{entry.score.toLocaleString()}</span>
+                  <span>{formatTime(entry.time)}</span>
+                  <span>{entry.clicks} clicks</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
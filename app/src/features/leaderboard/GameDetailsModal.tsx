@@ -1,45 +1,21 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { createPortal } from 'react-dom'
-import type { LeaderboardEntry, GameGridCell } from '../game/types'
+import type { LeaderboardEntry } from '../game/types'
 import { BingoGrid } from '../game/BingoGrid'
 import { HistoryPanel } from '../game/HistoryPanel'
 import { ArticleSummaryModal } from '../game/ArticleSummaryModal'
-import type { CuratedArticle } from '../../shared/data/types'
+import { BoardLeaderboard } from './BoardLeaderboard'
+import { BoardDetailsSummary } from '../boards/BoardDetailsSummary'
+import { fetchGame, getBoardDetails } from '../../shared/api/gamesClient'
+import type { BoardDetails } from '../../../../shared/contracts'
+import { getReplayGameState, parseBingoSquares, stripFoundTag, type ReplayGameState } from './replayEntry'
 import { formatTime } from '../../shared/utils/timeFormat'
 import './GameDetailsModal.css'
 
 interface GameDetailsModalProps {
   entry: LeaderboardEntry
   onClose: () => void
-  onReplay?: (gameState: { gridCells: GameGridCell[]; startingArticle: CuratedArticle; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => Promise<void>
-}
-
-/**
- * Converts bingoSquares strings (which may include "[Found]" markers) into GameGridCell objects.
- * This allows the BingoGrid component to display the board state from a past game.
- * 
- * @param bingoSquares - Array of square strings, may include "[Found]" prefix
- * @returns Array of grid cell objects compatible with BingoGrid component
- */
-function parseBingoSquares(bingoSquares: string[]): Array<{ id: string; article: CuratedArticle }> {
-  return bingoSquares.map((square, index) => {
-    const isFound = square.startsWith('[Found] ')
-    const title = isFound ? square.replace('[Found] ', '') : square
-    
-    // Create a minimal CuratedArticle object
-    const article: CuratedArticle = {
-      title,
-    }
-    
-    return {
-      id: `cell-${index}`,
-      article,
-    }
-  })
-}
-
-function stripFoundTag(title: string): string {
-  return title.startsWith('[Found] ') ? title.replace('[Found] ', '') : title
+  onReplay?: (gameState: ReplayGameState) => Promise<void>
 }
 
 /**
@@ -49,17 +25,21 @@ function stripFoundTag(title: string): string {
 /**
  * Modal component that displays detailed information about a past game from the leaderboard.
  * 
- * Shows the bingo grid state, article history, and game statistics. Allows users to see
- * how a leaderboard entry was achieved.
+ * Shows the bingo grid state, article history, and game statistics, plus the creator's title
+ * and description for entries played on a shared board. Allows users to see how a
+ * leaderboard entry was achieved.
  * 
  * @param props - Component props
  * @param props.entry - Leaderboard entry to display
  * @param props.onClose - Callback when the modal should be closed
  */
 export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalProps) {
-  const [activeTab, setActiveTab] = useState<'board' | 'history'>('board')
+  const [activeTab, setActiveTab] = useState<'board' | 'history' | 'scores'>('board')
   const [summaryModalTitle, setSummaryModalTitle] = useState<string | null>(null)
   const [isReplaying, setIsReplaying] = useState(false)
+  // Keyed by board link so details from a previous entry are never shown
+  const [board, setBoard] = useState<{ link: string; details: BoardDetails | null } | null>(null)
+  const boardDetails = board && board.link === entry.generatedGame ? board.details : null
   const dialogRef = useRef<HTMLDivElement | null>(null)
   const previouslyFocusedElementRef = useRef<Element | null>(null)
   
@@ -89,6 +69,8 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
     })
   }
   
+  const canReplay = getReplayGameState(entry) !== null
+
   // Calculate winning cells (simplified - we don't store this in the entry)
   const winningCells: number[] = []
   
@@ -109,36 +91,9 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
 
     setIsReplaying(true)
     try {
-      // Prefer generatedGame (link to generated-games collection) if available
-      if (entry.generatedGame) {
-        // Load from generated-games collection using the generatedGame link
-        await onReplay({
-          gridCells: [], // Will be loaded from API
-          startingArticle: { title: '' }, // Will be loaded from API
-          hashedId: entry.generatedGame,
-          gameType: 'repeat',
-        })
-      } else if (entry.bingopediaGame && entry.bingopediaGame.length >= 26) {
-        // Reconstruct from bingopediaGame (25 board + starting article)
-        const startingTitle = stripFoundTag(entry.bingopediaGame[25])
-        const startingArticle: CuratedArticle = {
-          title: startingTitle,
-        }
-        await onReplay({
-          gridCells,
-          startingArticle,
-          gameType: 'repeat',
-        })
-      } else if (entry.bingoSquares && entry.history && entry.history.length > 0) {
-        // Legacy: Reconstruct from bingoSquares and history (for old entries)
-        const startingArticle: CuratedArticle = {
-          title: stripFoundTag(entry.history[0]),
-        }
-        await onReplay({
-          gridCells,
-          startingArticle,
-          gameType: 'repeat',
-        })
+      const replayState = getReplayGameState(entry)
+      if (replayState) {
+        await onReplay(replayState)
       } else {
         console.error('Cannot replay: missing generatedGame or game data')
       }
@@ -149,6 +104,25 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
     }
   }
 
+  // Boards are cached indefinitely, so this is usually served from the HTTP cache
+  useEffect(() => {
+    const link = entry.generatedGame
+    if (!link) return
+
+    let cancelled = false
+    fetchGame(link)
+      .then((game) => {
+        if (!cancelled) setBoard({ link, details: getBoardDetails(game) })
+      })
+      .catch(() => {
+        // Details are optional; the rest of the modal works without them
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [entry.generatedGame])
+
   // Basic focus trapping within the modal dialog
   useEffect(() => {
     previouslyFocusedElementRef.current = document.activeElement
@@ -245,6 +219,7 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
           </button>
         </div>
         <div className="bp-modal-body bp-game-details-body">
+          {boardDetails && <BoardDetailsSummary details={boardDetails} />}
           <div className="bp-game-details-stats">
             <div className="bp-game-details-stat">
               <span className="bp-game-details-stat-label">Score:</span>
@@ -267,10 +242,7 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
               </div>
             )}
           </div>
-          {onReplay &&
-            (entry.generatedGame ||
-              (entry.bingopediaGame && entry.bingopediaGame.length >= 26) ||
-              (entry.bingoSquares && entry.history && entry.history.length > 0)) && (
+          {onReplay && canReplay && (
             <div className="bp-game-details-actions">
               <button
                 type="button"
@@ -301,6 +273,16 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
             >
               Article History
             </button>
+            {entry.generatedGame && (
+              <button
+                type="button"
+                className={`bp-game-details-tab ${activeTab === 'scores' ? 'bp-game-details-tab--active' : ''}`}
+                onClick={() => setActiveTab('scores')}
+                aria-label="View top scores on this board"
+              >
+                Board Scores
+              </button>
+            )}
           </div>
           
           <div className="bp-game-details-content-area">
@@ -330,6 +312,12 @@ export function GameDetailsModal({ entry, onClose, onReplay }: GameDetailsModalP
                 <p className="bp-game-details-empty">No history data available for this entry.</p>
               )}
             </div>
+
+            {entry.generatedGame && activeTab === 'scores' && (
+              <div className="bp-game-details-scores">
+                <BoardLeaderboard link={entry.generatedGame} limit={10} highlightEntryId={entry._id} />
+              </div>
+            )}
           </div>
         </div>
       </div>
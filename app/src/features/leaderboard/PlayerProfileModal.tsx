@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import { fetchPlayerProfile, type PlayerProfile, type PlayerStats } from '../../shared/api/playersClient'
+import { getReplayGameState, type ReplayGameState } from './replayEntry'
+import type { LeaderboardEntry } from '../game/types'
+import { formatTime } from '../../shared/utils/timeFormat'
+import './PlayerProfileModal.css'
+
+interface PlayerProfileModalProps {
+  username: string
+  onClose: () => void
+  onReplay?: (gameState: ReplayGameState) => Promise<void>
+}
+
+const GAME_TYPE_LABELS: Record<keyof PlayerStats['gameTypes'], string> = {
+  random: 'Random',
+  repeat: 'Repeat',
+  daily: 'Daily',
+}
+
+const TREND_WIDTH = 300
+const TREND_HEIGHT = 60
+
+/**
+ * Builds the SVG polyline points for a score trend. Lower scores are better, so they are drawn higher.
+ *
+ * @param scores - Scores in chronological order
+ * @returns Points attribute for an SVG polyline
+ */
+function getTrendPoints(scores: number[]): string {
+  const min = Math.min(...scores)
+  const max = Math.max(...scores)
+  const range = max - min || 1
+  const step = scores.length > 1 ? TREND_WIDTH / (scores.length - 1) : 0
+
+  return scores
+    .map((score, index) => {
+      const x = scores.length > 1 ? index * step : TREND_WIDTH / 2
+      const y = ((score - min) / range) * TREND_HEIGHT
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+}
+
+/**
+ * Modal showing one player's stats across all their leaderboard entries.
+ *
+ * Loads the profile from `/api/players/:username` and shows games played, best score,
+ * averages, the game type split, a score trend, the player's most-found articles and
+ * their recent entries with replay buttons.
+ *
+ * @param props - Component props
+ * @param props.username - Player to show
+ * @param props.onClose - Callback when the modal should be closed
+ * @param props.onReplay - Callback to replay one of the player's games
+ */
+export function PlayerProfileModal({ username, onClose, onReplay }: PlayerProfileModalProps) {
+  // Results are keyed by username so loading is derived rather than set inside the effect
+  const [result, setResult] = useState<{
+    key: string
+    profile: PlayerProfile | null
+    error: string | null
+  } | null>(null)
+  const [replayingId, setReplayingId] = useState<string | null>(null)
+  const dialogRef = useRef<HTMLDivElement | null>(null)
+  const previouslyFocusedElementRef = useRef<Element | null>(null)
+  const loading = result?.key !== username
+  const profile = result?.profile ?? null
+  const error = result?.error ?? null
+
+  useEffect(() => {
+    let cancelled = false
+
+    fetchPlayerProfile(username)
+      .then((res) => {
+        if (!cancelled) {
+          setResult({ key: username, profile: res, error: null })
+        }
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) {
+          const message = err instanceof Error ? err.message : 'Unable to load this player.'
+          setResult({ key: username, profile: null, error: message })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [username])
+
+  const handleClose = useCallback(() => {
+    onClose()
+    // Restore focus to the element that launched the modal, if any
+    if (previouslyFocusedElementRef.current instanceof HTMLElement) {
+      previouslyFocusedElementRef.current.focus()
+    }
+  }, [onClose])
+
+  useEffect(() => {
+    previouslyFocusedElementRef.current = document.activeElement
+    const dialog = dialogRef.current
+    if (!dialog) return
+
+    dialog.focus()
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.stopPropagation()
+        handleClose()
+      }
+    }
+
+    dialog.addEventListener('keydown', handleKeyDown)
+    return () => {
+      dialog.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [handleClose])
+
+  const handleReplay = async (entry: LeaderboardEntry, entryKey: string) => {
+    const replayState = getReplayGameState(entry)
+    if (!onReplay || !replayState) return
+
+    setReplayingId(entryKey)
+    try {
+      await onReplay(replayState)
+    } catch (err) {
+      console.error('Failed to replay game:', err)
+    } finally {
+      setReplayingId(null)
+    }
+  }
+
+  const stats = profile?.stats
+
+  const modalContent = (
+    <div className="bp-modal-overlay bp-player-profile-overlay" onClick={handleClose} aria-hidden="true">
+      <div
+        className="bp-modal-content bp-player-profile-content"
+        onClick={(e: React.MouseEvent<HTMLDivElement>) => e.stopPropagation()}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bp-player-profile-title"
+        ref={dialogRef}
+        tabIndex={-1}
+      >
+        <div className="bp-modal-header">
+          <h3 className="bp-modal-title" id="bp-player-profile-title">
+            Player: {profile?.username ?? username}
+          </h3>
+          <button className="bp-modal-close" onClick={handleClose} aria-label="Close">
+            ✕
+          </button>
+        </div>
+        <div className="bp-modal-body bp-player-profile-body">
+          {loading && <p className="bp-muted">Loading…</p>}
+          {!loading && error && <p className="bp-error">{error}</p>}
+          {!loading && profile && stats && (
+            <>
+              <dl className="bp-player-profile-stats">
+                <div className="bp-player-profile-stat">
+                  <dt>Games played</dt>
+                  <dd>{stats.gamesPlayed}</dd>
+                </div>
+                <div className="bp-player-profile-stat">
+                  <dt>Best score</dt>
+                  <dd>{stats.bestScore != null ? stats.bestScore.toLocaleString() : '—'}</dd>
+                </div>
+                <div className="bp-player-profile-stat">
+                  <dt>Avg. clicks</dt>
+                  <dd>{stats.averageClicks ?? '—'}</dd>
+                </div>
+                <div className="bp-player-profile-stat">
+                  <dt>Avg. time</dt>
+                  <dd>{stats.averageTime != null ? formatTime(Math.round(stats.averageTime)) : '—'}</dd>
+                </div>
+                {(Object.keys(GAME_TYPE_LABELS) as Array<keyof PlayerStats['gameTypes']>).map((gameType) => (
+                  <div className="bp-player-profile-stat" key={gameType}>
+                    <dt>{GAME_TYPE_LABELS[gameType]} games</dt>
+                    <dd>{stats.gameTypes[gameType]}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {stats.scoreTrend.length > 1 && (
+                <section className="bp-player-profile-section">
+                  <h4 className="bp-player-profile-heading">Score trend</h4>
+                  <svg
+                    className="bp-player-profile-trend"
+                    viewBox={`-4 -4 ${TREND_WIDTH + 8} ${TREND_HEIGHT + 8}`}
+                    role="img"
+                    aria-label={`Scores over ${stats.scoreTrend.length} games, from ${stats.scoreTrend[0].score} to ${stats.scoreTrend[stats.scoreTrend.length - 1].score}`}
+                  >
+                    <polyline points={getTrendPoints(stats.scoreTrend.map((point) => point.score))} />
+                  </svg>
+                </section>
+              )}
+
+              {stats.topArticles.length > 0 && (
+                <section className="bp-player-profile-section">
+                  <h4 className="bp-player-profile-heading">Most-found articles</h4>
+                  <ol className="bp-player-profile-articles">
+                    {stats.topArticles.map((article) => (
+                      <li key={article.title}>
+                        {article.title} <span className="bp-muted">×{article.count}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+
+              <section className="bp-player-profile-section">
+                <h4 className="bp-player-profile-heading">Recent games</h4>
+                <ul className="bp-player-profile-entries">
+                  {profile.entries.map((entry, index) => {
+                    const entryKey = entry._id || `${entry.createdAt}-${index}`
+                    return (
+                      <li key={entryKey} className="bp-player-profile-entry">
+                        <span>{entry.createdAt ? new Date(entry.createdAt).toLocaleDateString() : 'N/A'}</span>
+                        <span>{GAME_TYPE_LABELS[entry.gameType ?? 'random']}</span>
+                        <span>{entry.score.toLocaleString()}</span>
+                        <span>{formatTime(entry.time)}</span>
+                        <span>{entry.clicks} clicks</span>
+                        {onReplay && getReplayGameState(entry) && (
+                          <button
+                            type="button"
+                            className="bp-player-profile-replay"
+                            onClick={() => handleReplay(entry, entryKey)}
+                            disabled={replayingId !== null}
+                            aria-label={`Replay game from ${new Date(entry.createdAt).toLocaleDateString()}`}
+                          >
+                            {replayingId === entryKey ? 'Loading...' : 'Replay'}
+                          </button>
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              </section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+
+  return createPortal(modalContent, document.body)
+}
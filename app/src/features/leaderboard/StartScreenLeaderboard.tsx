@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react'
 import { fetchLeaderboard, type FetchLeaderboardParams } from '../../shared/api/leaderboardClient'
-import type { LeaderboardEntry, GameGridCell } from '../game/types'
-import type { CuratedArticle } from '../../shared/data/types'
+import type { LeaderboardEntry } from '../game/types'
+import { getUtcDateKey } from '../game/dailyStreak'
 import { GameDetailsModal } from './GameDetailsModal'
+import { PlayerProfileModal } from './PlayerProfileModal'
+import type { ReplayGameState } from './replayEntry'
 import { formatTime } from '../../shared/utils/timeFormat'
 import './StartScreenLeaderboard.css'
 
@@ -10,7 +12,8 @@ import './StartScreenLeaderboard.css'
  * Leaderboard preview component displayed on the start screen.
  * 
  * Shows the top 5 scores with loading states and error handling.
- * Clicking a row opens the GameDetailsModal to view that game's details.
+ * Clicking a row opens the GameDetailsModal to view that game's details;
+ * clicking a username opens the PlayerProfileModal for that player.
  * 
  * @returns The leaderboard component
  */
@@ -29,7 +32,7 @@ function formatDate(date: string | Date): string {
 }
 
 type TimeFilter = 'all' | 'today' | '7days' | '30days' | 'year'
-type GameTypeFilter = 'random' | 'repeat' | 'all'
+type GameTypeFilter = 'random' | 'repeat' | 'daily' | 'all'
 
 /**
  * Calculates date range for a time filter option.
@@ -126,8 +129,23 @@ function getDateRange(filter: TimeFilter): { dateFrom?: string; dateTo?: string
   }
 }
 
+/**
+ * Builds the filter parameters for a leaderboard request.
+ * The daily filter shows today's daily challenge board, so the time filter does not apply.
+ * 
+ * @param timeFilter - Time filter option
+ * @param gameTypeFilter - Game type filter option
+ * @returns Date range, game type and daily date parameters
+ */
+function getFilterParams(timeFilter: TimeFilter, gameTypeFilter: GameTypeFilter): FetchLeaderboardParams {
+  if (gameTypeFilter === 'daily') {
+    return { gameType: 'daily', dailyDate: getUtcDateKey() }
+  }
+  return { ...getDateRange(timeFilter), gameType: gameTypeFilter }
+}
+
 interface StartScreenLeaderboardProps {
-  onReplay?: (gameState: { gridCells: GameGridCell[]; startingArticle: CuratedArticle; gameId?: string; hashedId?: string; gameType?: 'random' | 'repeat' }) => Promise<void>
+  onReplay?: (gameState: ReplayGameState) => Promise<void>
 }
 
 export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps = {}) {
@@ -135,6 +153,7 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedEntry, setSelectedEntry] = useState<LeaderboardEntry | null>(null)
+  const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null)
   const [sortBy, setSortBy] = useState<FetchLeaderboardParams['sortBy']>('score')
   // Default sort order is ascending (lower scores are better)
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
@@ -155,15 +174,14 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
     const load = async () => {
       try {
         setLoading(true)
-        const dateRange = getDateRange(timeFilter)
-        console.log('[Frontend] Time filter:', timeFilter, 'Date range:', dateRange)
+        const filterParams = getFilterParams(timeFilter, gameTypeFilter)
+        console.log('[Frontend] Time filter:', timeFilter, 'Filter params:', filterParams)
         const res = await fetchLeaderboard({
           limit,
           page,
           sortBy,
           sortOrder,
-          ...dateRange,
-          gameType: gameTypeFilter,
+          ...filterParams,
         })
         if (!cancelled) {
           setEntries(res.users)
@@ -196,14 +214,12 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
   const handleRetry = () => {
     setError(null)
     setLoading(true)
-    const dateRange = getDateRange(timeFilter)
     fetchLeaderboard({
       limit,
       page,
       sortBy,
       sortOrder,
-      ...dateRange,
-      gameType: gameTypeFilter,
+      ...getFilterParams(timeFilter, gameTypeFilter),
     })
       .then((res) => {
         setEntries(res.users)
@@ -232,21 +248,23 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
       <div className="bp-leaderboard-header">
         <h3>Top Scores</h3>
         <div className="bp-leaderboard-filters">
-          <select
-            id="time-filter"
-            className="bp-leaderboard-filter-select bp-leaderboard-filter-select-time"
-            value={timeFilter}
-            onChange={(e) => {
-              setTimeFilter(e.target.value as TimeFilter)
-            }}
-            aria-label="Filter by time period"
-          >
-            <option value="all">All Time</option>
-            <option value="today">Today</option>
-            <option value="7days">Past 7 Days</option>
-            <option value="30days">Past 30 Days</option>
-            <option value="year">Past Year</option>
-          </select>
+          {gameTypeFilter !== 'daily' && (
+            <select
+              id="time-filter"
+              className="bp-leaderboard-filter-select bp-leaderboard-filter-select-time"
+              value={timeFilter}
+              onChange={(e) => {
+                setTimeFilter(e.target.value as TimeFilter)
+              }}
+              aria-label="Filter by time period"
+            >
+              <option value="all">All Time</option>
+              <option value="today">Today</option>
+              <option value="7days">Past 7 Days</option>
+              <option value="30days">Past 30 Days</option>
+              <option value="year">Past Year</option>
+            </select>
+          )}
           <select
             id="game-type-filter"
             className="bp-leaderboard-filter-select bp-leaderboard-filter-select-game-type"
@@ -256,6 +274,7 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
           >
             <option value="random">Random Games</option>
             <option value="repeat">Repeat Games</option>
+            <option value="daily">Daily Challenge</option>
             <option value="all">All Games</option>
           </select>
         </div>
@@ -334,7 +353,21 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
                     aria-label={`View details for ${entry.username}'s game`}
                   >
                     <td className="bp-leaderboard-number-cell">{rowNumber}</td>
-                    <td>{entry.username}</td>
+                    <td>
+                      <button
+                        type="button"
+                        className="bp-leaderboard-player-button"
+                        onClick={(e) => {
+                          // Open the profile instead of the row's game details
+                          e.stopPropagation()
+                          setSelectedPlayer(entry.username)
+                        }}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        aria-label={`View ${entry.username}'s profile`}
+                      >
+                        {entry.username}
+                      </button>
+                    </td>
                     <td>{entry.score.toLocaleString()}</td>
                     <td>{formatTime(entry.time)}</td>
                     <td>{entry.clicks}</td>
@@ -397,6 +430,13 @@ export function StartScreenLeaderboard({ onReplay }: StartScreenLeaderboardProps
           })()}
         </>
       )}
+      {selectedPlayer && (
+        <PlayerProfileModal
+          username={selectedPlayer}
+          onClose={() => setSelectedPlayer(null)}
+          onReplay={onReplay}
+        />
+      )}
       {selectedEntry && (
         <GameDetailsModal
           entry={selectedEntry}
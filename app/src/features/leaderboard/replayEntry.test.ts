@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { getReplayGameState, parseBingoSquares } from './replayEntry'
+import type { LeaderboardEntry } from '../game/types'
+
+const baseEntry: LeaderboardEntry = {
+  username: 'alice',
+  score: 100,
+  time: 60,
+  clicks: 10,
+  createdAt: '2024-01-15T10:00:00Z',
+}
+
+const board = [...Array.from({ length: 25 }, (_, i) => (i === 0 ? '[Found] Article 0' : `Article ${i}`)), 'Start']
+
+describe('replayEntry', () => {
+  it('strips [Found] markers when parsing squares', () => {
+    expect(parseBingoSquares(['[Found] Moon', 'Sun'])).toEqual([
+      { id: 'cell-0', article: { title: 'Moon' } },
+      { id: 'cell-1', article: { title: 'Sun' } },
+    ])
+  })
+
+  it('prefers the generatedGame link', () => {
+    const state = getReplayGameState({ ...baseEntry, generatedGame: 'abcdefghijklmnop', bingopediaGame: board })
+    expect(state).toMatchObject({ hashedId: 'abcdefghijklmnop', gridCells: [], gameType: 'repeat' })
+  })
+
+  it('rebuilds the board from bingopediaGame', () => {
+    const state = getReplayGameState({ ...baseEntry, bingopediaGame: board })
+    expect(state?.gridCells).toHaveLength(25)
+    expect(state?.gridCells[0].article.title).toBe('Article 0')
+    expect(state?.startingArticle).toEqual({ title: 'Start' })
+  })
+
+  it('uses the first history entry as the start for legacy entries', () => {
+    const state = getReplayGameState({ ...baseEntry, bingoSquares: board.slice(0, 25), history: ['Legacy Start'] })
+    expect(state?.startingArticle).toEqual({ title: 'Legacy Start' })
+  })
+
+  it('returns null without board data', () => {
+    expect(getReplayGameState(baseEntry)).toBeNull()
+  })
+})
@@ -0,0 +1,72 @@
+import type { GameGridCell, LeaderboardEntry } from '../game/types'
+import type { CuratedArticle } from '../../shared/data/types'
+
+/**
+ * Game state passed to `onReplay` to start a past leaderboard game again.
+ */
+export interface ReplayGameState {
+  gridCells: GameGridCell[]
+  startingArticle: CuratedArticle
+  gameId?: string
+  hashedId?: string
+  gameType?: 'random' | 'repeat'
+}
+
+export function stripFoundTag(title: string): string {
+  return title.startsWith('[Found] ') ? title.replace('[Found] ', '') : title
+}
+
+/**
+ * Converts bingoSquares strings (which may include "[Found]" markers) into GameGridCell objects.
+ * This allows the BingoGrid component to display the board state from a past game.
+ *
+ * @param bingoSquares - Array of square strings, may include "[Found]" prefix
+ * @returns Array of grid cell objects compatible with BingoGrid component
+ */
+export function parseBingoSquares(bingoSquares: string[]): GameGridCell[] {
+  return bingoSquares.map((square, index) => ({
+    id: `cell-${index}`,
+    // Create a minimal CuratedArticle object
+    article: { title: stripFoundTag(square) },
+  }))
+}
+
+/**
+ * Builds the replay state for a leaderboard entry.
+ *
+ * Prefers the generatedGame link (loaded from the generated-games collection), then the
+ * stored bingopediaGame board, then legacy bingoSquares plus history.
+ *
+ * @param entry - Leaderboard entry to replay
+ * @returns Replay state, or null if the entry has no board data
+ */
+export function getReplayGameState(entry: LeaderboardEntry): ReplayGameState | null {
+  if (entry.generatedGame) {
+    return {
+      gridCells: [], // Will be loaded from API
+      startingArticle: { title: '' }, // Will be loaded from API
+      hashedId: entry.generatedGame,
+      gameType: 'repeat',
+    }
+  }
+
+  if (entry.bingopediaGame && entry.bingopediaGame.length >= 26) {
+    // Reconstruct from bingopediaGame (25 board + starting article)
+    return {
+      gridCells: parseBingoSquares(entry.bingopediaGame.slice(0, 25)),
+      startingArticle: { title: stripFoundTag(entry.bingopediaGame[25]) },
+      gameType: 'repeat',
+    }
+  }
+
+  if (entry.bingoSquares && entry.history && entry.history.length > 0) {
+    // Legacy: Reconstruct from bingoSquares and history (for old entries)
+    return {
+      gridCells: parseBingoSquares(entry.bingoSquares.slice(0, 25)),
+      startingArticle: { title: stripFoundTag(entry.history[0]) },
+      gameType: 'repeat',
+    }
+  }
+
+  return null
+}
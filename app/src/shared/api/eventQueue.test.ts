@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createEventQueue, type QueuedEvent } from './eventQueue'
+
+const STORAGE_KEY = 'bingopedia-event-queue'
+
+function makeEvent(title: string): QueuedEvent {
+  return { event: 'article_navigated', title, clicks: 1, timestamp: '2024-01-15T10:00:00.000Z' }
+}
+
+function okResponse() {
+  return new Response(JSON.stringify({ success: true, results: [] }), { status: 200 })
+}
+
+/**
+ * Events stored under the tabs' own keys.
+ */
+function tabQueues(): QueuedEvent[][] {
+  return Object.keys(localStorage)
+    .filter((key) => key.startsWith(`${STORAGE_KEY}:`))
+    .map((key) => JSON.parse(localStorage.getItem(key) ?? '{}').events)
+}
+
+function sentEvents(fetchMock: ReturnType<typeof vi.fn>, call: number): QueuedEvent[] {
+  return JSON.parse(fetchMock.mock.calls[call][1].body as string).events
+}
+
+describe('createEventQueue', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    localStorage.clear()
+    vi.useFakeTimers()
+    fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should send events logged close together in one batch', async () => {
+    fetchMock.mockResolvedValue(okResponse())
+    const queue = createEventQueue()
+    queue.enqueue(makeEvent('Moon'))
+    queue.enqueue(makeEvent('Sun'))
+    expect(tabQueues()).toEqual([[makeEvent('Moon'), makeEvent('Sun')]])
+
+    await vi.advanceTimersByTimeAsync(2000)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(sentEvents(fetchMock, 0).map((event) => 'title' in event && event.title)).toEqual(['Moon', 'Sun'])
+    expect(queue.size()).toBe(0)
+    expect(tabQueues()).toEqual([])
+  })
+
+  it('should keep each tab\'s events under its own key', async () => {
+    fetchMock.mockResolvedValue(okResponse())
+    const first = createEventQueue()
+    const second = createEventQueue()
+    first.enqueue(makeEvent('Moon'))
+    second.enqueue(makeEvent('Sun'))
+    expect(tabQueues()).toHaveLength(2)
+
+    await second.flush()
+    expect(sentEvents(fetchMock, 0)).toEqual([makeEvent('Sun')])
+    expect(tabQueues()).toEqual([[makeEvent('Moon')]])
+    expect(first.size()).toBe(1)
+  })
+
+  it('should pick up events stored by an earlier page load', async () => {
+    fetchMock.mockResolvedValue(okResponse())
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([makeEvent('Moon')]))
+
+    const queue = createEventQueue()
+    expect(queue.size()).toBe(1)
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull()
+
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(queue.size()).toBe(0)
+  })
+
+  it('should take over queues of tabs that stopped saving them, but not of open tabs', () => {
+    const open = { savedAt: Date.now(), events: [makeEvent('Moon')] }
+    const abandoned = { savedAt: Date.now() - 2 * 60 * 60 * 1000, events: [makeEvent('Sun')] }
+    localStorage.setItem(`${STORAGE_KEY}:open`, JSON.stringify(open))
+    localStorage.setItem(`${STORAGE_KEY}:abandoned`, JSON.stringify(abandoned))
+
+    const queue = createEventQueue()
+    expect(queue.size()).toBe(1)
+    expect(localStorage.getItem(`${STORAGE_KEY}:open`)).not.toBeNull()
+    expect(localStorage.getItem(`${STORAGE_KEY}:abandoned`)).toBeNull()
+    expect(tabQueues()).toContainEqual([makeEvent('Sun')])
+  })
+
+  it('should retry failed requests with increasing delays', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(new Response('', { status: 503 }))
+      .mockResolvedValueOnce(okResponse())
+    const queue = createEventQueue()
+    queue.enqueue(makeEvent('Moon'))
+
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    // First retry after 2s, second after 4s
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(3999)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(queue.size()).toBe(0)
+  })
+
+  it('should not retry events the server rejected', async () => {
+    fetchMock.mockResolvedValue(new Response('', { status: 400 }))
+    const queue = createEventQueue()
+    queue.enqueue(makeEvent('Moon'))
+
+    await vi.advanceTimersByTimeAsync(60_000)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(queue.size()).toBe(0)
+  })
+
+  it('should send everything with sendBeacon when the page is hidden', () => {
+    const sendBeacon = vi.fn().mockReturnValue(true)
+    vi.stubGlobal('navigator', { sendBeacon })
+    const queue = createEventQueue()
+    queue.enqueue(makeEvent('Moon'))
+
+    queue.flushWithBeacon()
+
+    expect(sendBeacon).toHaveBeenCalledWith('/api/logging', expect.any(Blob))
+    expect(queue.size()).toBe(0)
+    expect(tabQueues()).toEqual([])
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull()
+  })
+
+  it('should hand events sendBeacon refuses over to the next page load', () => {
+    vi.stubGlobal('navigator', { sendBeacon: vi.fn().mockReturnValue(false) })
+    const queue = createEventQueue()
+    queue.enqueue(makeEvent('Moon'))
+
+    queue.flushWithBeacon()
+
+    expect(queue.size()).toBe(0)
+    expect(tabQueues()).toEqual([])
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')).toEqual([makeEvent('Moon')])
+    expect(createEventQueue().size()).toBe(1)
+  })
+})
@@ -0,0 +1,272 @@
+/**
+ * Client-side queue for analytics events.
+ *
+ * Events are batched and sent to `/api/logging` in `{ events: [...] }` requests. Unsent
+ * events are kept in localStorage so they survive reloads and closed tabs, failed requests
+ * are retried with exponential backoff, and whatever is still queued when the page is hidden
+ * is sent with `navigator.sendBeacon`.
+ *
+ * Each page load stores its queue under its own key, so tabs never overwrite or resend each
+ * other's events. Events a page could not send before it went away are handed over under
+ * the shared key, and the next page load takes them, along with queues of tabs that stopped
+ * without handing theirs over.
+ */
+
+import { MAX_EVENT_BATCH_SIZE, type GameEvent, type GameEventBatchResult } from '../../../../shared/gameEvents'
+
+/**
+ * Events handed over by pages that went away, waiting for the next page load.
+ */
+const EVENT_QUEUE_STORAGE_KEY = 'bingopedia-event-queue'
+const TAB_QUEUE_KEY_PREFIX = `${EVENT_QUEUE_STORAGE_KEY}:`
+const LOGGING_ENDPOINT = '/api/logging'
+
+/**
+ * Delay before a batch is sent, so events logged close together share a request.
+ */
+const FLUSH_DELAY_MS = 2000
+
+const INITIAL_RETRY_DELAY_MS = 2000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+/**
+ * Maximum number of unsent events kept. The oldest events are dropped beyond this.
+ */
+const MAX_QUEUED_EVENTS = 500
+
+/**
+ * A tab's stored queue not saved for this long is taken over by the next page load. Tabs with
+ * queued events save them at least on every retry, which is never more than 5 minutes apart.
+ */
+const ABANDONED_QUEUE_MS = 60 * 60 * 1000
+
+/**
+ * An event waiting to be sent, timestamped when it was logged.
+ */
+export type QueuedEvent = GameEvent & { timestamp: string }
+
+export interface EventQueue {
+  /**
+   * Adds an event to the queue and schedules a flush.
+   */
+  enqueue(event: QueuedEvent): void
+  /**
+   * Sends queued events now, one batch at a time, until the queue is empty or a request fails.
+   */
+  flush(): Promise<void>
+  /**
+   * Sends all queued events with `navigator.sendBeacon` (for when the page is going away).
+   * Events the browser refuses are handed over to the next page load.
+   */
+  flushWithBeacon(): void
+  /**
+   * Number of events waiting to be sent.
+   */
+  size(): number
+}
+
+/**
+ * A tab's queue as stored in localStorage.
+ */
+interface StoredTabQueue {
+  savedAt: number
+  events: QueuedEvent[]
+}
+
+function parseStored(value: string | null): unknown {
+  try {
+    return JSON.parse(value ?? 'null')
+  } catch {
+    // Ignore corrupt data
+    return null
+  }
+}
+
+/**
+ * Takes the events handed over by pages that went away, and the queues of tabs that stopped
+ * saving theirs, out of localStorage.
+ */
+function takeOrphanedEvents(): QueuedEvent[] {
+  if (typeof window === 'undefined') return []
+
+  const taken: QueuedEvent[] = []
+  try {
+    for (const key of Object.keys(localStorage)) {
+      if (key === EVENT_QUEUE_STORAGE_KEY) {
+        const stored = parseStored(localStorage.getItem(key))
+        if (Array.isArray(stored)) taken.push(...(stored as QueuedEvent[]))
+        localStorage.removeItem(key)
+      } else if (key.startsWith(TAB_QUEUE_KEY_PREFIX)) {
+        const queue = parseStored(localStorage.getItem(key)) as Partial<StoredTabQueue> | null
+        // Open tabs keep saving their queues, so only stale ones are taken over
+        if (typeof queue?.savedAt === 'number' && Date.now() - queue.savedAt < ABANDONED_QUEUE_MS) continue
+        if (Array.isArray(queue?.events)) taken.push(...queue.events)
+        localStorage.removeItem(key)
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to load queued events:', error)
+  }
+  return taken
+}
+
+function writeStoredEvents(key: string, events: QueuedEvent[]): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    if (events.length > 0) {
+      localStorage.setItem(key, JSON.stringify({ savedAt: Date.now(), events } satisfies StoredTabQueue))
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch (error) {
+    console.warn('Failed to save queued events:', error)
+  }
+}
+
+/**
+ * Adds events to the ones handed over for the next page load.
+ */
+function handOverEvents(events: QueuedEvent[]): void {
+  if (typeof window === 'undefined' || events.length === 0) return
+
+  try {
+    const stored = parseStored(localStorage.getItem(EVENT_QUEUE_STORAGE_KEY))
+    const handedOver = [...(Array.isArray(stored) ? (stored as QueuedEvent[]) : []), ...events]
+    localStorage.setItem(EVENT_QUEUE_STORAGE_KEY, JSON.stringify(handedOver.slice(-MAX_QUEUED_EVENTS)))
+  } catch (error) {
+    console.warn('Failed to save queued events:', error)
+  }
+}
+
+/**
+ * Creates an event queue. Events handed over by earlier page loads, and queues abandoned by
+ * other tabs, are picked up and sent after the usual flush delay.
+ *
+ * @returns Event queue
+ *
+ * @example
+ * ```typescript
+ * const queue = createEventQueue()
+ * queue.enqueue({ event: 'game_started', timestamp: new Date().toISOString() })
+ * window.addEventListener('pagehide', () => queue.flushWithBeacon())
+ * ```
+ */
+export function createEventQueue(): EventQueue {
+  const storageKey = `${TAB_QUEUE_KEY_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`
+  let events = takeOrphanedEvents().slice(-MAX_QUEUED_EVENTS)
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  let flushing = false
+  let retryDelay = 0
+
+  const persist = () => writeStoredEvents(storageKey, events)
+
+  const scheduleFlush = (delay: number) => {
+    if (flushTimer !== null) return
+    flushTimer = setTimeout(() => {
+      flushTimer = null
+      void flush()
+    }, delay)
+  }
+
+  // Schedules a retry, doubling the delay after each consecutive failure. Saving the queue
+  // again keeps other tabs from taking it over as abandoned
+  const scheduleRetry = () => {
+    persist()
+    retryDelay = Math.min(retryDelay > 0 ? retryDelay * 2 : INITIAL_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS)
+    scheduleFlush(retryDelay)
+  }
+
+  const flush = async () => {
+    if (flushing) return
+    if (flushTimer !== null) {
+      clearTimeout(flushTimer)
+      flushTimer = null
+    }
+
+    flushing = true
+    try {
+      while (events.length > 0) {
+        const batch = events.slice(0, MAX_EVENT_BATCH_SIZE)
+
+        let response: Response
+        try {
+          response = await fetch(LOGGING_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ events: batch }),
+          })
+        } catch (error) {
+          console.warn('Failed to send events, will retry:', error)
+          scheduleRetry()
+          return
+        }
+
+        // Server errors and rate limiting are temporary; anything else will not succeed on retry
+        if (response.status >= 500 || response.status === 429) {
+          scheduleRetry()
+          return
+        }
+
+        if (response.ok) {
+          const { results } = (await response.json().catch(() => ({}))) as { results?: GameEventBatchResult[] }
+          results
+            ?.filter((result) => !result.accepted)
+            .forEach((result) => console.warn('Event rejected by server:', batch[result.index]?.event, result))
+        } else {
+          console.warn(`Dropping ${batch.length} events rejected with status ${response.status}`)
+        }
+
+        // The queue may have changed during the request (new events, a beacon flush), so
+        // remove exactly the events that were sent
+        const sent = new Set(batch)
+        events = events.filter((event) => !sent.has(event))
+        persist()
+        retryDelay = 0
+      }
+    } finally {
+      flushing = false
+    }
+  }
+
+  const flushWithBeacon = () => {
+    if (events.length === 0) return
+
+    // A request still in flight may deliver some of these again; duplicates beat losing events
+    let sent = 0
+    if (typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      while (sent < events.length) {
+        const batch = events.slice(sent, sent + MAX_EVENT_BATCH_SIZE)
+        const blob = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' })
+        if (!navigator.sendBeacon(LOGGING_ENDPOINT, blob)) break
+        sent += batch.length
+      }
+    }
+
+    // Anything the browser refused is handed over to the next page load
+    handOverEvents(events.slice(sent))
+    events = []
+    persist()
+  }
+
+  const enqueue = (event: QueuedEvent) => {
+    events.push(event)
+    if (events.length > MAX_QUEUED_EVENTS) {
+      events = events.slice(events.length - MAX_QUEUED_EVENTS)
+    }
+    persist()
+
+    if (events.length >= MAX_EVENT_BATCH_SIZE && retryDelay === 0) {
+      void flush()
+    } else {
+      scheduleFlush(FLUSH_DELAY_MS)
+    }
+  }
+
+  if (events.length > 0) {
+    persist()
+    scheduleFlush(FLUSH_DELAY_MS)
+  }
+
+  return { enqueue, flush, flushWithBeacon, size: () => events.length }
+}
@@ -1,15 +1,17 @@
 // Removed getApiBaseUrl import - using direct paths instead
+import type {
+  BoardDetails,
+  BoardListPage,
+  BoardListQuery,
+  BoardListSort,
+  CreateGameRequest,
+  DailyGame,
+  GeneratedGame,
+} from '../../../../shared/contracts'
 
-export interface GameStateResponse {
-  link: string
-  bingopediaGame: string[]
-  createdAt: string | Date
-  timesPlayed: number
-}
+export type GameStateResponse = GeneratedGame
 
-export interface CreateGamePayload {
-  bingopediaGame: string[]
-}
+export type CreateGamePayload = CreateGameRequest
 
 /**
  * Validates if a string is a valid hashed ID (16 characters, URL-safe).
@@ -21,6 +23,19 @@ export function isValidHashedId(id: string): boolean {
   return /^[A-Za-z0-9_-]{16}$/.test(id)
 }
 
+/**
+ * Picks the creator's title, name and description from a board.
+ * @param board - Board from the API
+ * @returns The details that are set, or null if the creator set none
+ */
+export function getBoardDetails(board: BoardDetails): BoardDetails | null {
+  const details: BoardDetails = {}
+  if (board.title) details.title = board.title
+  if (board.creatorName) details.creatorName = board.creatorName
+  if (board.description) details.description = board.description
+  return Object.keys(details).length > 0 ? details : null
+}
+
 /**
  * Fetches a game state by hashedId (preferred) or gameId (backward compatibility) from the API.
  * @param identifier - Hashed ID (16 chars) or UUID v4 game identifier
@@ -55,6 +70,8 @@ export async function fetchGame(identifier: string): Promise<GameStateResponse>
       } catch {
         if (response.status === 404) {
           errorMessage = 'Game not found'
+        } else if (response.status === 410) {
+          errorMessage = 'This board has expired'
         } else if (response.status >= 500) {
           errorMessage = 'Server error. Please try again later.'
         } else {
@@ -127,3 +144,91 @@ export async function createGame(payload: CreateGamePayload): Promise<GameStateR
   }
 }
 
+
+/**
+ * Fetches today's daily challenge board (UTC). The server creates it on the first request of the day.
+ * @returns Daily game state, including its `link` and `dailyDate`
+ * @throws Error if the request fails
+ */
+export async function fetchDailyGame(): Promise<DailyGame> {
+  const url = new URL('/api/daily', window.location.origin)
+
+  try {
+    const response = await fetch(url.toString())
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to load the daily challenge'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to load the daily challenge (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    const json = (await response.json()) as DailyGame
+    if (!Array.isArray(json.bingopediaGame) || json.bingopediaGame.length !== 26) {
+      throw new Error('Invalid game data received from API.')
+    }
+    return json
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      const networkError = new Error('Network error: Unable to connect to the server.')
+      throw networkError
+    }
+    throw error
+  }
+}
+
+/**
+ * Fetches one page of community boards.
+ * @param sort - 'popular' (most replayed), 'recent' (newest) or 'trending' (most played this week)
+ * @param params - Pagination options
+ * @returns Boards with their grid, times played and best score
+ * @throws Error if the request fails
+ */
+export async function fetchBoards(sort: BoardListSort, params: BoardListQuery = {}): Promise<BoardListPage> {
+  const url = new URL(`/api/games/${sort}`, window.location.origin)
+
+  if (params.limit != null) url.searchParams.set('limit', String(params.limit))
+  if (params.page != null) url.searchParams.set('page', String(params.page))
+
+  try {
+    const response = await fetch(url.toString())
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to load boards'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to load boards (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return (await response.json()) as BoardListPage
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to connect to the server.')
+    }
+    throw error
+  }
+}
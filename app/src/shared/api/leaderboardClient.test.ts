@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { fetchLeaderboard, submitScore } from './leaderboardClient'
+import { fetchBoardLeaderboard, fetchLeaderboard, submitScore } from './leaderboardClient'
 
 // Mock fetch globally
 global.fetch = vi.fn()
@@ -182,5 +182,38 @@ describe('leaderboardClient', () => {
       await expect(submitScore(payload)).rejects.toThrow('Failed to submit score')
     })
   })
-})
 
+  describe('fetchBoardLeaderboard', () => {
+    it('should request the board leaderboard with pagination parameters', async () => {
+      const mockResponse = {
+        link: 'abcdefghijklmnop',
+        users: [],
+        pagination: { page: 1, limit: 5, totalCount: 0, totalPages: 0 },
+        sort: { sortBy: 'score', sortOrder: 'asc' },
+        stats: { finishers: 0, bestScore: null, medianClicks: null },
+      }
+
+      const mockFetch = vi.mocked(fetch).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      } as Response)
+
+      const result = await fetchBoardLeaderboard('abcdefghijklmnop', { limit: 5 })
+
+      const url = new URL(mockFetch.mock.calls[0][0] as string)
+      expect(url.pathname).toBe('/api/games/abcdefghijklmnop/leaderboard')
+      expect(url.searchParams.get('limit')).toBe('5')
+      expect(result).toEqual(mockResponse)
+    })
+
+    it('should surface the API error message', async () => {
+      vi.mocked(fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        json: async () => ({ error: { code: 'NOT_FOUND', message: 'Game not found' } }),
+      } as Response)
+
+      await expect(fetchBoardLeaderboard('abcdefghijklmnop')).rejects.toThrow('Game not found')
+    })
+  })
+})
@@ -1,29 +1,16 @@
 import { getApiBaseUrl } from './config'
-import type { LeaderboardEntry } from '../../features/game/types'
-
-export interface FetchLeaderboardParams {
-  limit?: number
-  page?: number
-  sortBy?: 'score' | 'time' | 'clicks' | 'createdAt' | 'username'
-  sortOrder?: 'asc' | 'desc'
-  dateFrom?: string
-  dateTo?: string
-  gameType?: 'random' | 'repeat' | 'all'
-}
+import type {
+  BoardLeaderboardPage,
+  BoardStats,
+  GetLeaderboardQuery,
+  LeaderboardPage,
+  SubmitScoreRequest,
+  SubmittedEntry,
+} from '../../../../shared/contracts'
 
-export interface FetchLeaderboardResponse {
-  users: LeaderboardEntry[]
-  pagination: {
-    page: number
-    limit: number
-    totalCount: number
-    totalPages: number
-  }
-  sort: {
-    sortBy: string
-    sortOrder: string
-  }
-}
+export type FetchLeaderboardParams = GetLeaderboardQuery
+
+export type FetchLeaderboardResponse = LeaderboardPage
 
 export async function fetchLeaderboard(params: FetchLeaderboardParams = {}): Promise<FetchLeaderboardResponse> {
   const baseUrl = getApiBaseUrl()
@@ -36,6 +23,7 @@ export async function fetchLeaderboard(params: FetchLeaderboardParams = {}): Pro
   if (params.dateFrom) url.searchParams.set('dateFrom', params.dateFrom)
   if (params.dateTo) url.searchParams.set('dateTo', params.dateTo)
   if (params.gameType) url.searchParams.set('gameType', params.gameType)
+  if (params.dailyDate) url.searchParams.set('dailyDate', params.dailyDate)
 
   // Debug: Log the actual URL being requested
   console.log('[Leaderboard Client] Request URL:', url.toString())
@@ -90,19 +78,72 @@ export async function fetchLeaderboard(params: FetchLeaderboardParams = {}): Pro
   }
 }
 
-export interface SubmitScorePayload {
-  username: string
-  time: number
-  clicks: number
-  score: number
-  bingoSquares: string[]
-  bingopediaGame?: string[]
-  history: string[]
-  generatedGame?: string
-  gameType?: 'random' | 'repeat'
+export type { BoardStats }
+
+export type FetchBoardLeaderboardResponse = BoardLeaderboardPage
+
+export type FetchBoardLeaderboardParams = Pick<FetchLeaderboardParams, 'limit' | 'page' | 'sortBy' | 'sortOrder'>
+
+/**
+ * Fetches the leaderboard for a single board (shared game link), with board stats.
+ *
+ * @param link - 16-character game link
+ * @param params - Pagination and sorting options
+ * @returns Entries for the board plus finisher count, best score and median clicks
+ * @throws Error if the board is not found or the request fails
+ */
+export async function fetchBoardLeaderboard(
+  link: string,
+  params: FetchBoardLeaderboardParams = {},
+): Promise<FetchBoardLeaderboardResponse> {
+  const url = new URL(`/api/games/${encodeURIComponent(link)}/leaderboard`, window.location.origin)
+
+  if (params.limit != null) url.searchParams.set('limit', String(params.limit))
+  if (params.page != null) url.searchParams.set('page', String(params.page))
+  if (params.sortBy) url.searchParams.set('sortBy', params.sortBy)
+  if (params.sortOrder) url.searchParams.set('sortOrder', params.sortOrder)
+
+  try {
+    const response = await fetch(url.toString())
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to fetch board leaderboard'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status === 404) {
+          errorMessage = 'Game not found'
+        } else if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to fetch board leaderboard (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return (await response.json()) as FetchBoardLeaderboardResponse
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to connect to the server. Please check your internet connection.')
+    }
+    throw error
+  }
 }
 
-export async function submitScore(payload: SubmitScorePayload): Promise<LeaderboardEntry> {
+export type SubmitScorePayload = SubmitScoreRequest
+
+/**
+ * The stored entry; `ownershipKey` is returned once, when this submission claimed the username.
+ */
+export type SubmitScoreResponse = SubmittedEntry
+
+export async function submitScore(payload: SubmitScorePayload): Promise<SubmitScoreResponse> {
   const baseUrl = getApiBaseUrl()
   
   try {
@@ -121,7 +162,7 @@ export async function submitScore(payload: SubmitScorePayload): Promise<Leaderbo
       try {
         const errorData = await response.json()
         if (errorData.error || errorData.message) {
-          errorMessage = errorData.error || errorData.message
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
         }
       } catch {
         // If response is not JSON, use status-based message
@@ -145,7 +186,7 @@ export async function submitScore(payload: SubmitScorePayload): Promise<Leaderbo
       throw new Error(errorMessage)
     }
 
-    const json = (await response.json()) as LeaderboardEntry
+    const json = (await response.json()) as SubmitScoreResponse
     return json
   } catch (error) {
     // Handle network errors
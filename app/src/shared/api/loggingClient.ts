@@ -1,42 +1,61 @@
 /**
  * Logging client for sending game events to the backend logging API.
- * 
+ *
  * All logging is non-blocking - failures will not interrupt game flow.
- * Events are sent asynchronously and errors are logged to console for debugging.
+ * Events are queued and sent in batches (see `eventQueue.ts`), so they are not lost when
+ * a request fails or the tab is closed.
+ *
+ * Events and their fields are defined in `shared/gameEvents.ts`, which the API uses to
+ * validate them.
  */
 
-export type LogEventType = 'game_started' | 'game_generated' | 'game_finished'
+import type { GameEventFields, GameEventType } from '../../../../shared/gameEvents'
+import { createEventQueue, type EventQueue, type QueuedEvent } from './eventQueue'
 
-export interface LogEventMetadata {
-  [key: string]: unknown
+export type { GameEventFields, GameEventType } from '../../../../shared/gameEvents'
+
+/**
+ * Field arguments for an event: optional when the event has no required fields.
+ */
+type LogEventArgs<E extends GameEventType> = object extends GameEventFields<E>
+  ? [fields?: GameEventFields<E>]
+  : [fields: GameEventFields<E>]
+
+let eventQueue: EventQueue | null = null
+
+/**
+ * Gets the shared event queue, creating it on first use. Queued events are sent with
+ * `navigator.sendBeacon` when the page is hidden for good (`pagehide`).
+ */
+function getEventQueue(): EventQueue {
+  if (!eventQueue) {
+    const queue = createEventQueue()
+    window.addEventListener('pagehide', () => queue.flushWithBeacon())
+    eventQueue = queue
+  }
+  return eventQueue
 }
 
 /**
  * Logs a game event to the backend logging API.
- * 
- * This function is non-blocking - logging failures will not interrupt the game.
- * Errors are logged to console for debugging but do not throw exceptions.
- * 
+ *
+ * This function is non-blocking - the event is queued and sent in the background.
+ * Delivery failures are retried and never interrupt the game.
+ *
  * @param event - The type of event to log
- * @param metadata - Optional metadata to include with the event
+ * @param fields - The event's fields, as declared in its schema
+ *
+ * @example
+ * ```typescript
+ * logEvent('game_started')
+ * logEvent('square_found', { title: 'Moon', clicks: 4, squaresFound: 2 })
+ * ```
  */
-export async function logEvent(
-  event: LogEventType,
-  metadata?: LogEventMetadata
-): Promise<void> {
+export function logEvent<E extends GameEventType>(event: E, ...[fields]: LogEventArgs<E>): void {
   try {
-    await fetch('/api/logging', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        event,
-        timestamp: new Date().toISOString(),
-        ...metadata,
-      }),
-    })
+    getEventQueue().enqueue({ ...fields, event, timestamp: new Date().toISOString() } as QueuedEvent)
   } catch (error) {
     // Logging failures should not break the game
     console.error('Failed to log event:', error)
   }
 }
-
@@ -0,0 +1,45 @@
+import type { PlayerProfile, PlayerStats } from '../../../../shared/contracts'
+
+export type { PlayerProfile, PlayerStats }
+
+/**
+ * Fetches a player's profile: stats across all their leaderboard entries plus their recent entries.
+ * @param username - Player username (matched case-insensitively)
+ * @returns Player profile
+ * @throws Error if the player has no entries or the request fails
+ */
+export async function fetchPlayerProfile(username: string): Promise<PlayerProfile> {
+  const url = new URL(`/api/players/${encodeURIComponent(username.trim())}`, window.location.origin)
+
+  try {
+    const response = await fetch(url.toString())
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to load player profile'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status === 404) {
+          errorMessage = 'Player not found'
+        } else if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to load player profile (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return (await response.json()) as PlayerProfile
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to connect to the server.')
+    }
+    throw error
+  }
+}
@@ -0,0 +1,55 @@
+import type { StartSessionRequest, StartSessionResponse } from '../../../../shared/contracts'
+
+export type StartSessionPayload = StartSessionRequest
+
+export type { StartSessionResponse }
+
+/**
+ * Starts a server-side game session.
+ *
+ * The server records the start time and board, and returns a signed token that must be
+ * sent with the leaderboard submission for this game.
+ *
+ * @param payload - Board (random games) or game link (repeat games)
+ * @returns Session token with server start and expiry times
+ * @throws Error if the session cannot be created
+ */
+export async function startSession(payload: StartSessionPayload): Promise<StartSessionResponse> {
+  const url = new URL('/api/sessions', window.location.origin)
+
+  try {
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(payload),
+    })
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to start game session'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to start game session (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return (await response.json()) as StartSessionResponse
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to connect to the server.')
+    }
+    throw error
+  }
+}
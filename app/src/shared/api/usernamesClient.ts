@@ -0,0 +1,43 @@
+import type { UsernameStatus } from '../../../../shared/contracts'
+
+export type { UsernameStatus }
+
+/**
+ * Checks whether a username has been claimed on the leaderboard.
+ * @param username - Username to check
+ * @returns Claim status
+ * @throws Error if the request fails
+ */
+export async function fetchUsernameStatus(username: string): Promise<UsernameStatus> {
+  const url = new URL(`/api/usernames/${encodeURIComponent(username.trim())}`, window.location.origin)
+
+  try {
+    const response = await fetch(url.toString())
+
+    if (!response.ok) {
+      let errorMessage = 'Failed to check username'
+
+      try {
+        const errorData = await response.json()
+        if (errorData.error || errorData.message) {
+          errorMessage = errorData.error?.message || errorData.message || errorMessage
+        }
+      } catch {
+        if (response.status >= 500) {
+          errorMessage = 'Server error. Please try again later.'
+        } else {
+          errorMessage = `Failed to check username (HTTP ${response.status})`
+        }
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return (await response.json()) as UsernameStatus
+  } catch (error) {
+    if (error instanceof TypeError && error.message.includes('fetch')) {
+      throw new Error('Network error: Unable to connect to the server.')
+    }
+    throw error
+  }
+}
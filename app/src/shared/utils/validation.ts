@@ -1,7 +1,11 @@
 import { MAX_USERNAME_LENGTH } from '../constants'
+import { defaultProfanityFilter } from '../../../../shared/profanityFilter'
 
 /**
  * Validates a username for leaderboard submission.
+ *
+ * Usernames with blocked words are rejected using the same filter as the server,
+ * so players can pick another name instead of having it masked on submission.
  * 
  * @param username - The username to validate
  * @returns Error message if validation fails, null if valid
@@ -14,6 +18,9 @@ export function validateUsername(username: string): string | null {
   if (trimmed.length > MAX_USERNAME_LENGTH) {
     return `Username must be ${MAX_USERNAME_LENGTH} characters or less`
   }
+  if (defaultProfanityFilter.filter(trimmed, 'reject').rejected) {
+    return 'Username contains inappropriate language. Please choose another name'
+  }
   return null
 }
 
@@ -0,0 +1,48 @@
+import { WIKIPEDIA_API_BASE } from '../constants'
+import { fetchArticleChecks, type ArticleCheck } from '../../../../shared/boardValidation'
+
+/**
+ * Searches Wikipedia article titles for autocomplete (MediaWiki `opensearch`).
+ *
+ * Failures resolve to an empty list so autocomplete falls back to the curated pool.
+ *
+ * @param query - Text typed so far
+ * @param limit - Most titles to return
+ * @returns Matching article titles, best match first
+ */
+export async function searchWikipediaTitles(query: string, limit = 5): Promise<string[]> {
+  const url = new URL('/w/api.php', WIKIPEDIA_API_BASE)
+  url.searchParams.set('action', 'opensearch')
+  url.searchParams.set('format', 'json')
+  url.searchParams.set('namespace', '0')
+  url.searchParams.set('limit', String(limit))
+  url.searchParams.set('search', query)
+  url.searchParams.set('origin', '*')
+
+  try {
+    const response = await fetch(url.toString())
+    if (!response.ok) return []
+
+    const [, titles] = (await response.json()) as [string, string[]]
+    return Array.isArray(titles) ? titles : []
+  } catch (error) {
+    console.warn('Wikipedia title search failed:', error instanceof Error ? error.message : String(error))
+    return []
+  }
+}
+
+/**
+ * Looks up whether titles are existing, non-disambiguation articles and where they redirect,
+ * with the same queries the API uses to check custom boards (see `fetchArticleChecks` in
+ * `shared/boardValidation.ts`).
+ *
+ * @param titles - Article titles
+ * @returns Map of normalized title → article check
+ * @throws Error if Wikipedia can't be reached
+ */
+export function lookupArticles(titles: string[]): Promise<Map<string, ArticleCheck>> {
+  return fetchArticleChecks(titles, {
+    apiUrl: new URL('/w/api.php', WIKIPEDIA_API_BASE).toString(),
+    params: { origin: '*' },
+  })
+}
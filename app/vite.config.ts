@@ -5,6 +5,10 @@ import react from '@vitejs/plugin-react'
 export default defineConfig({
   plugins: [react()],
   server: {
+    // Allow serving modules from the repo-level shared/ directory (shared with the API)
+    fs: {
+      allow: ['..'],
+    },
     proxy: {
       '/api/leaderboard': {
         target: 'http://localhost:3001',
@@ -16,6 +20,31 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
       },
+      '/api/sessions': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
+      '/api/usernames': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
+      '/api/players': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
+      '/api/daily': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
+      '/api/logging': {
+        target: 'http://localhost:3001',
+        changeOrigin: true,
+        secure: false,
+      },
     },
   },
   // @ts-expect-error - Vitest config is valid but TypeScript doesn't recognize it without vitest/config import
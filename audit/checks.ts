@@ -0,0 +1,163 @@
+import type { Document } from 'mongodb';
+import { generateHashedId } from '../api/hashedId';
+import { calculateScore } from '../api/validation';
+import { buildBingopediaGame } from '../migrations/002-leaderboard-bingopedia-game';
+import { normalizeTitle } from '../shared/normalizeTitle';
+import type { AuditCheck, AuditContext } from './types';
+
+const FOUND_PREFIX = '[Found] ';
+
+/**
+ * Squares in a row, column or diagonal: the fewest found squares a bingo can have.
+ */
+const BINGO_LINE_LENGTH = 5;
+
+const stripFoundTag = (title: string) => (title.startsWith(FOUND_PREFIX) ? title.slice(FOUND_PREFIX.length) : title);
+
+function getHistory(entry: Document): string[] {
+  return Array.isArray(entry.history) ? entry.history.filter((title: unknown) => typeof title === 'string') : [];
+}
+
+/**
+ * Returns the 25 grid titles of an entry's board (from `bingopediaGame`, or the deprecated
+ * `bingoSquares`) without `[Found] ` tags.
+ */
+function getGridTitles(entry: Document): string[] {
+  const board = Array.isArray(entry.bingopediaGame)
+    ? entry.bingopediaGame
+    : Array.isArray(entry.bingoSquares)
+      ? entry.bingoSquares
+      : [];
+  return board
+    .slice(0, 25)
+    .filter((title: unknown) => typeof title === 'string')
+    .map(stripFoundTag);
+}
+
+export const lowFoundTags: AuditCheck = {
+  id: 'low-found-tags',
+  description: `History has fewer than ${BINGO_LINE_LENGTH} [Found] tags, too few for a bingo`,
+  collection: 'leaderboard',
+  inspect: (entry) => {
+    const history = getHistory(entry);
+    if (history.length === 0) return null;
+    const found = history.filter((title) => title.startsWith(FOUND_PREFIX)).length;
+    return found < BINGO_LINE_LENGTH ? { message: `Only ${found} found tags in ${history.length} history entries` } : null;
+  },
+};
+
+/**
+ * Reports `[Found]` history entries that are not on the board and board squares visited
+ * without a `[Found]` tag. With a redirect resolver, titles are also compared after
+ * resolving Wikipedia redirects.
+ */
+export const historyBoardMismatch: AuditCheck = {
+  id: 'history-board-mismatch',
+  description: 'History [Found] tags do not match the board',
+  collection: 'leaderboard',
+  inspect: async (entry, context: AuditContext) => {
+    const grid = getGridTitles(entry);
+    const history = getHistory(entry);
+    if (grid.length === 0 || history.length === 0) return null;
+
+    let canonical = (title: string) => normalizeTitle(title);
+    if (context.resolveTitles) {
+      const resolved = await context.resolveTitles([...grid, ...history.map(stripFoundTag)]);
+      canonical = (title) => resolved.get(normalizeTitle(title)) ?? normalizeTitle(title);
+    }
+
+    const gridTitles = new Set(grid.map(canonical));
+    const tagged = new Set(history.filter((title) => title.startsWith(FOUND_PREFIX)).map((title) => canonical(stripFoundTag(title))));
+
+    const problems: string[] = [];
+    for (const title of history) {
+      const key = canonical(stripFoundTag(title));
+      if (title.startsWith(FOUND_PREFIX) && !gridTitles.has(key)) {
+        problems.push(`"${stripFoundTag(title)}" is tagged but not on the board`);
+      } else if (!title.startsWith(FOUND_PREFIX) && gridTitles.has(key) && !tagged.has(key)) {
+        problems.push(`"${title}" is on the board but never tagged`);
+        tagged.add(key);
+      }
+    }
+
+    return problems.length > 0 ? { message: problems.join('; ') } : null;
+  },
+};
+
+export const missingGeneratedGame: AuditCheck = {
+  id: 'missing-generated-game',
+  description: 'Leaderboard entry has no generatedGame link',
+  collection: 'leaderboard',
+  inspect: (entry, context) => {
+    if (typeof entry.generatedGame === 'string' && entry.generatedGame) return null;
+
+    let generatedGame = generateHashedId();
+    while (context.entryLinks.has(generatedGame) || context.gameLinks.has(generatedGame)) {
+      generatedGame = generateHashedId();
+    }
+    context.entryLinks.add(generatedGame);
+    return { message: 'Missing generatedGame', fix: { set: { generatedGame } } };
+  },
+};
+
+/**
+ * Generated games created from a leaderboard submission whose entry no longer exists.
+ * Not fixed automatically: the link may already have been shared.
+ */
+export const orphanedGeneratedGame: AuditCheck = {
+  id: 'orphaned-generated-game',
+  description: "Generated game with source 'leaderboard' is not referenced by any leaderboard entry",
+  collection: 'generated-games',
+  inspect: (game, context) =>
+    game.source === 'leaderboard' && !context.entryLinks.has(game.link)
+      ? { message: `No leaderboard entry has generatedGame ${game.link}` }
+      : null,
+};
+
+/**
+ * Entries still using the deprecated `bingoSquares`. Fixed by removing it when
+ * `bingopediaGame` exists, or converting it when the starting article is known.
+ */
+export const deprecatedBingoSquares: AuditCheck = {
+  id: 'deprecated-bingo-squares',
+  description: 'Leaderboard entry uses the deprecated bingoSquares field',
+  collection: 'leaderboard',
+  inspect: (entry) => {
+    if (entry.bingoSquares === undefined) return null;
+    if (Array.isArray(entry.bingopediaGame)) {
+      return { message: 'Has both bingoSquares and bingopediaGame', fix: { unset: ['bingoSquares'] } };
+    }
+    const bingopediaGame = buildBingopediaGame(entry);
+    return bingopediaGame
+      ? { message: 'Has bingoSquares instead of bingopediaGame', fix: { set: { bingopediaGame }, unset: ['bingoSquares'] } }
+      : { message: 'Has bingoSquares that cannot be converted to bingopediaGame' };
+  },
+};
+
+export const scoreMismatch: AuditCheck = {
+  id: 'score-mismatch',
+  description: 'Score is not time × clicks',
+  collection: 'leaderboard',
+  inspect: (entry) => {
+    const { score, time, clicks } = entry;
+    if (typeof time !== 'number' || typeof clicks !== 'number') {
+      return { message: 'Missing or invalid time or clicks' };
+    }
+    const expected = calculateScore(time, clicks);
+    return score === expected
+      ? null
+      : { message: `Score ${score} should be ${expected} (${time} × ${clicks})`, fix: { set: { score: expected } } };
+  },
+};
+
+/**
+ * All checks, in report order.
+ */
+export const AUDIT_CHECKS: AuditCheck[] = [
+  lowFoundTags,
+  historyBoardMismatch,
+  missingGeneratedGame,
+  orphanedGeneratedGame,
+  deprecatedBingoSquares,
+  scoreMismatch,
+];
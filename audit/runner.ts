@@ -0,0 +1,141 @@
+import type { AnyBulkWriteOperation, Db, Document } from 'mongodb';
+import type { TitleResolver } from '../api/wikipedia';
+import type { AuditCheck, AuditCollection, AuditContext, AuditFix, AuditIssue, AuditReport } from './types';
+
+const COLLECTIONS: AuditCollection[] = ['leaderboard', 'generated-games'];
+
+export interface AuditOptions {
+  checks: AuditCheck[];
+  /**
+   * Write the fixes for fixable issues.
+   */
+  fix: boolean;
+  /**
+   * Documents read (and fixes written) per batch.
+   */
+  batchSize: number;
+  resolveTitles?: TitleResolver;
+}
+
+function toUpdate(fix: AuditFix): Document {
+  return {
+    ...(fix.set ? { $set: fix.set } : {}),
+    ...(fix.unset ? { $unset: Object.fromEntries(fix.unset.map((field) => [field, ''])) } : {}),
+  };
+}
+
+/**
+ * Runs audit checks over the leaderboard and generated-games collections.
+ *
+ * Each collection is read once with a cursor and every check for it inspects each document.
+ * With `fix`, a document's fixes are merged into one update and written with `bulkWrite`
+ * once per batch. Nothing is written otherwise.
+ *
+ * @param db - Database to audit
+ * @param options - Checks to run, fix mode, batch size and optional redirect resolver
+ * @returns Issues found, counted per check
+ *
+ * @example
+ * ```typescript
+ * const report = await runAudit(db, { checks: AUDIT_CHECKS, fix: false, batchSize: 500 });
+ * console.log(formatAuditTable(report));
+ * ```
+ */
+export async function runAudit(db: Db, options: AuditOptions): Promise<AuditReport> {
+  const leaderboard = db.collection('leaderboard');
+  const games = db.collection('generated-games');
+  const context: AuditContext = {
+    gameLinks: new Set((await games.distinct('link')).filter((link) => typeof link === 'string')),
+    entryLinks: new Set((await leaderboard.distinct('generatedGame')).filter((link) => typeof link === 'string')),
+    ...(options.resolveTitles ? { resolveTitles: options.resolveTitles } : {}),
+  };
+
+  const report: AuditReport = {
+    scanned: { leaderboard: 0, 'generated-games': 0 },
+    counts: Object.fromEntries(options.checks.map((check) => [check.id, 0])),
+    issues: [],
+    fixed: 0,
+  };
+
+  for (const collectionName of COLLECTIONS) {
+    const checks = options.checks.filter((check) => check.collection === collectionName);
+    if (checks.length === 0) continue;
+
+    const collection = db.collection(collectionName);
+    let batch: AnyBulkWriteOperation<Document>[] = [];
+    let batchIssues: AuditIssue[] = [];
+
+    const flush = async () => {
+      if (batch.length > 0) {
+        await collection.bulkWrite(batch, { ordered: false });
+        for (const issue of batchIssues) issue.fixed = true;
+        report.fixed += batchIssues.length;
+      }
+      batch = [];
+      batchIssues = [];
+    };
+
+    for await (const doc of collection.find({}).batchSize(options.batchSize)) {
+      report.scanned[collectionName] += 1;
+      const fix: Required<AuditFix> = { set: {}, unset: [] };
+      const fixedIssues: AuditIssue[] = [];
+
+      for (const check of checks) {
+        const finding = await check.inspect(doc, context);
+        if (!finding) continue;
+
+        const issue: AuditIssue = {
+          check: check.id,
+          collection: collectionName,
+          id: String(doc._id),
+          message: finding.message,
+          fixable: Boolean(finding.fix),
+          fixed: false,
+        };
+        report.counts[check.id] += 1;
+        report.issues.push(issue);
+
+        if (options.fix && finding.fix) {
+          Object.assign(fix.set, finding.fix.set);
+          fix.unset.push(...(finding.fix.unset ?? []));
+          fixedIssues.push(issue);
+        }
+      }
+
+      if (fixedIssues.length > 0) {
+        batch.push({ updateOne: { filter: { _id: doc._id }, update: toUpdate(fix) } });
+        batchIssues.push(...fixedIssues);
+      }
+      if (report.scanned[collectionName] % options.batchSize === 0) {
+        await flush();
+      }
+    }
+    await flush();
+  }
+
+  return report;
+}
+
+/**
+ * Formats a report as a table of issues followed by counts per check.
+ */
+export function formatAuditTable(report: AuditReport): string {
+  const rows = [['CHECK', 'COLLECTION', 'ID', 'FIX', 'ISSUE']];
+  for (const issue of report.issues) {
+    rows.push([issue.check, issue.collection, issue.id, issue.fixed ? 'fixed' : issue.fixable ? 'fixable' : '-', issue.message]);
+  }
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const lines = rows.map((row) =>
+    row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column]))).join('  ')
+  );
+
+  lines.push(
+    '',
+    `Scanned ${report.scanned.leaderboard} leaderboard entries and ${report.scanned['generated-games']} generated games`
+  );
+  for (const [check, count] of Object.entries(report.counts)) {
+    lines.push(`  ${check}: ${count}`);
+  }
+  lines.push(`Fixed: ${report.fixed}`);
+  return lines.join('\n');
+}
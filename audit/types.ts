@@ -0,0 +1,82 @@
+import type { Document } from 'mongodb';
+import type { TitleResolver } from '../api/wikipedia';
+
+export type AuditCollection = 'leaderboard' | 'generated-games';
+
+/**
+ * Update that repairs a document: fields to `$set` and fields to `$unset`.
+ */
+export interface AuditFix {
+  set?: Record<string, unknown>;
+  unset?: string[];
+}
+
+/**
+ * A problem found by a check in one document.
+ */
+export interface AuditFinding {
+  message: string;
+  /**
+   * Present when the problem can be repaired safely with `--fix`.
+   */
+  fix?: AuditFix;
+}
+
+/**
+ * Data shared by all checks during one audit, loaded before documents are scanned.
+ */
+export interface AuditContext {
+  /**
+   * `link` of every generated game.
+   */
+  gameLinks: Set<string>;
+  /**
+   * `generatedGame` of every leaderboard entry that has one.
+   */
+  entryLinks: Set<string>;
+  /**
+   * Redirect resolver for title comparisons. Only set when the audit may call Wikipedia.
+   */
+  resolveTitles?: TitleResolver;
+}
+
+/**
+ * A data-quality check run against every document in one collection.
+ */
+export interface AuditCheck {
+  /**
+   * Kebab-case ID used with `--checks`, e.g. `score-mismatch`.
+   */
+  id: string;
+  description: string;
+  collection: AuditCollection;
+  inspect(doc: Document, context: AuditContext): AuditFinding | null | Promise<AuditFinding | null>;
+}
+
+/**
+ * One reported problem.
+ */
+export interface AuditIssue {
+  check: string;
+  collection: AuditCollection;
+  id: string;
+  message: string;
+  fixable: boolean;
+  /**
+   * True once the fix has been written (`--fix` only).
+   */
+  fixed: boolean;
+}
+
+export interface AuditReport {
+  /**
+   * Documents scanned per collection.
+   */
+  scanned: Record<AuditCollection, number>;
+  /**
+   * Number of issues per check ID. Every check that ran is listed.
+   */
+  counts: Record<string, number>;
+  issues: AuditIssue[];
+  fixed: number;
+}
@@ -0,0 +1,121 @@
+import { MongoClient } from 'mongodb';
+import { getMongoConfig } from '../api/config';
+import { resolveWikipediaRedirects } from '../api/wikipedia';
+import { AUDIT_CHECKS } from '../audit/checks';
+import { formatAuditTable, runAudit } from '../audit/runner';
+import type { AuditCheck } from '../audit/types';
+
+/**
+ * Maintainer CLI for leaderboard data-quality audits (see `audit/checks.ts`).
+ *
+ * Usage: npm run audit:data -- [--checks <id,...>] [--format table|json] [--fix] [--redirects]
+ *
+ * Environment variables (read from `.env.local` like the server):
+ * - `MONGODB_USERNAME`, `MONGODB_PASSWORD`, `MONGODB_CLUSTER`: MongoDB connection (required)
+ */
+
+const DEFAULT_BATCH_SIZE = 500;
+
+export const USAGE = `Usage: npm run audit:data -- [options]
+
+Checks:
+${AUDIT_CHECKS.map((check) => `  ${check.id.padEnd(26)}${check.description}`).join('\n')}
+
+Options:
+  --checks <id,...>        Only run these checks (default: all)
+  --format table|json      Output format (default table)
+  --fix                    Repair issues that can be fixed safely
+  --redirects              Resolve Wikipedia redirects when comparing history and board
+  --batch-size <n>         Documents read per batch (default ${DEFAULT_BATCH_SIZE})`;
+
+export interface AuditArgs {
+  checks: AuditCheck[];
+  format: 'table' | 'json';
+  fix: boolean;
+  redirects: boolean;
+  batchSize: number;
+}
+
+/**
+ * Parses CLI arguments into audit options.
+ *
+ * @param argv - Arguments after the script name
+ * @returns Audit options
+ * @throws Error with a usage message if the arguments are invalid
+ */
+export function parseAuditArgs(argv: string[]): AuditArgs {
+  const options: Record<string, string> = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--fix' || arg === '--redirects') {
+      flags.add(arg.slice(2));
+    } else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i += 1;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  let checks = AUDIT_CHECKS;
+  if (options.checks) {
+    const ids = options.checks.split(',').map((id) => id.trim());
+    const unknown = ids.filter((id) => !AUDIT_CHECKS.some((check) => check.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown check: ${unknown.join(', ')}`);
+    }
+    checks = AUDIT_CHECKS.filter((check) => ids.includes(check.id));
+  }
+
+  const format = options.format ?? 'table';
+  if (format !== 'table' && format !== 'json') {
+    throw new Error('--format must be table or json');
+  }
+
+  const batchSize = options['batch-size'] === undefined ? DEFAULT_BATCH_SIZE : Number(options['batch-size']);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+
+  return { checks, format, fix: flags.has('fix'), redirects: flags.has('redirects'), batchSize };
+}
+
+async function main(): Promise<void> {
+  let args: AuditArgs;
+  try {
+    args = parseAuditArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri);
+  await client.connect();
+
+  try {
+    const report = await runAudit(client.db(dbName), {
+      checks: args.checks,
+      fix: args.fix,
+      batchSize: args.batchSize,
+      ...(args.redirects ? { resolveTitles: resolveWikipediaRedirects } : {}),
+    });
+    console.log(args.format === 'json' ? JSON.stringify(report, null, 2) : formatAuditTable(report));
+  } finally {
+    await client.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Audit failed:', (error as Error).message);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,152 @@
+import { getAdminToken } from '../api/config';
+import { isBoardAdminAction } from '../api/routes/adminBoards';
+import type { BoardCleanupReport } from '../shared/contracts';
+
+/**
+ * Maintainer CLI for board retention. Wraps `/api/admin/boards`.
+ *
+ * Usage: npm run boards -- <command> [arguments] [--apply] [--format table|json]
+ *
+ * Commands:
+ * - cleanup [--apply]   (lists expired boards; deletes them with --apply)
+ * - pin | unpin <link>
+ *
+ * Environment variables (read from `.env.local` like the server):
+ * - `ADMIN_TOKEN`: Admin token (required)
+ * - `BINGOPEDIA_API_URL`: API base URL (defaults to http://localhost:3001)
+ */
+
+export const USAGE = `Usage: npm run boards -- <command> [arguments] [options]
+
+Commands:
+  cleanup           List the expired boards the cleanup would delete
+  cleanup --apply   Delete them (their links keep answering "board expired")
+  pin <link>        Keep a featured board regardless of plays
+  unpin <link>      Make a pinned board subject to the retention rules again
+
+Options:
+  --format table|json   Output format for cleanup (default table)`;
+
+export interface BoardsRequest {
+  method: 'GET' | 'POST';
+  body?: Record<string, string>;
+  format: 'table' | 'json';
+}
+
+/**
+ * Parses CLI arguments into an `/api/admin/boards` request.
+ *
+ * @param argv - Arguments after the script name
+ * @returns Request to send
+ * @throws Error with a usage message if the arguments are invalid
+ */
+export function parseBoardsArgs(argv: string[]): BoardsRequest {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  let apply = false;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--apply') {
+      apply = true;
+    } else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i += 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const format = options.format ?? 'table';
+  if (format !== 'table' && format !== 'json') {
+    throw new Error('--format must be table or json');
+  }
+
+  const [command, link] = positional;
+  if (!isBoardAdminAction(command)) {
+    throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  if (command === 'cleanup') {
+    return apply ? { method: 'POST', body: { action: 'cleanup' }, format } : { method: 'GET', format };
+  }
+
+  if (apply) {
+    throw new Error('--apply is only accepted with cleanup');
+  }
+  if (!link) {
+    throw new Error(`Missing link for ${command}`);
+  }
+  return { method: 'POST', body: { action: command, link }, format };
+}
+
+/**
+ * Formats a cleanup report as a plain-text table.
+ *
+ * @param report - Cleanup report from `/api/admin/boards`
+ * @returns Table text
+ */
+export function formatCleanupTable(report: BoardCleanupReport): string {
+  const verb = report.applied ? 'Deleted' : 'Would delete';
+  const lines = [`${verb} ${report.boards.length} expired board(s) (retention: ${report.retentionDays} days)`];
+
+  if (report.boards.length > 0) {
+    lines.push('', `${'link'.padEnd(18)}${'source'.padEnd(11)}${'created'.padEnd(26)}expires`);
+    for (const board of report.boards) {
+      lines.push(`${board.link.padEnd(18)}${(board.source ?? '').padEnd(11)}${board.createdAt.padEnd(26)}${board.expiresAt ?? '-'}`);
+    }
+  }
+
+  if (report.kept.length > 0) {
+    lines.push('', `Kept ${report.kept.length} expired board(s) with leaderboard entries: ${report.kept.join(', ')}`);
+  }
+
+  if (!report.applied && report.boards.length > 0) {
+    lines.push('', 'Run again with --apply to delete them.');
+  }
+
+  return lines.join('\n');
+}
+
+async function main(): Promise<void> {
+  let request: BoardsRequest;
+  try {
+    request = parseBoardsArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const url = new URL('/api/admin/boards', process.env.BINGOPEDIA_API_URL || 'http://localhost:3001');
+  const response = await fetch(url, {
+    method: request.method,
+    headers: {
+      Authorization: `Bearer ${getAdminToken()}`,
+      ...(request.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(request.body ? { body: JSON.stringify(request.body) } : {}),
+  });
+
+  const result = await response.json().catch(() => null);
+  const isReport = response.ok && result && Array.isArray(result.boards);
+  console.log(
+    isReport && request.format === 'table'
+      ? formatCleanupTable(result as BoardCleanupReport)
+      : JSON.stringify(result, null, 2)
+  );
+  if (!response.ok) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Board request failed:', (error as Error).message);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,191 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { openApiDocument, type OperationObject, type SchemaObject } from '../api/openapi';
+
+/**
+ * Writes the client types and a JSON copy of the OpenAPI document in `api/openapi.ts`.
+ *
+ * Usage: npm run generate:api-types -- [--check]
+ *
+ * `--check` writes nothing and fails if either file is out of date.
+ */
+
+const ROOT = join(__dirname, '..');
+
+export const API_TYPES_PATH = join(ROOT, 'shared', 'apiTypes.ts');
+export const OPENAPI_JSON_PATH = join(ROOT, 'docs', 'api', 'openapi.json');
+
+const HEADER = `/**
+ * Types for the public API, generated from the OpenAPI document in \`api/openapi.ts\`.
+ *
+ * Do not edit: run \`npm run generate:api-types\` after changing the document.
+ */
+`;
+
+const pascalCase = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function docComment(schema: SchemaObject, indent: string): string {
+  const lines = [
+    ...(typeof schema.description === 'string' ? [schema.description] : []),
+    ...(schema.deprecated ? ['@deprecated'] : []),
+  ];
+  if (lines.length <= 1) {
+    return lines.length === 1 ? `${indent}/** ${lines[0]} */\n` : '';
+  }
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}\n`).join('')}${indent} */\n`;
+}
+
+/**
+ * Converts JSON Schemas to TypeScript. Inline schemas with a `title` become named
+ * declarations of their own.
+ */
+class TypeRenderer {
+  private readonly declarations: string[] = [];
+
+  declare(name: string, schema: SchemaObject): void {
+    const comment = docComment(schema, '');
+    if (schema.type === 'object' && schema.properties && !schema.oneOf) {
+      this.declarations.push(`${comment}export interface ${name} ${this.objectType(schema, '')}`);
+    } else {
+      this.declarations.push(`${comment}export type ${name} = ${this.type(schema, '')}`);
+    }
+  }
+
+  render(): string {
+    return `${HEADER}\n${this.declarations.join('\n\n')}\n`;
+  }
+
+  private type(schema: SchemaObject, indent: string): string {
+    if (schema.nullable) {
+      const { nullable: _nullable, ...rest } = schema;
+      return `${this.type(rest, indent)} | null`;
+    }
+    if (typeof schema.$ref === 'string') {
+      return schema.$ref.split('/').pop() as string;
+    }
+    const variants = (schema.oneOf ?? schema.anyOf) as SchemaObject[] | undefined;
+    if (variants) {
+      return variants.map((variant) => this.named(variant, indent)).join(' | ');
+    }
+    if (schema.allOf) {
+      return (schema.allOf as SchemaObject[]).map((part) => this.type(part, indent)).join(' & ');
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map((value) => JSON.stringify(value).replace(/"/g, "'")).join(' | ');
+    }
+
+    switch (schema.type) {
+      case 'string':
+        return 'string';
+      case 'integer':
+      case 'number':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'array': {
+        const items = this.type((schema.items ?? {}) as SchemaObject, indent);
+        return /[|&]/.test(items) ? `(${items})[]` : `${items}[]`;
+      }
+      case 'object':
+        return schema.properties ? this.objectType(schema, indent) : 'Record<string, unknown>';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private named(schema: SchemaObject, indent: string): string {
+    if (typeof schema.title !== 'string') {
+      return this.type(schema, indent);
+    }
+    this.declare(schema.title, schema);
+    return schema.title;
+  }
+
+  private objectType(schema: SchemaObject, indent: string): string {
+    const required = new Set((schema.required ?? []) as string[]);
+    const inner = `${indent}  `;
+    const members = Object.entries(schema.properties as Record<string, SchemaObject>).map(
+      ([name, property]) =>
+        `${docComment(property, inner)}${inner}${name}${required.has(name) ? '' : '?'}: ${this.type(property, inner)}`
+    );
+    return `{\n${members.join('\n')}\n${indent}}`;
+  }
+}
+
+function parametersSchema(operation: OperationObject, location: 'query' | 'path'): SchemaObject | null {
+  const parameters = (operation.parameters ?? []).filter((parameter) => parameter.in === location);
+  if (parameters.length === 0) {
+    return null;
+  }
+  return {
+    type: 'object',
+    description: `${location === 'query' ? 'Query' : 'Path'} parameters for \`${operation.operationId}\``,
+    properties: Object.fromEntries(
+      parameters.map((parameter) => [parameter.name, { ...parameter.schema, description: parameter.description }])
+    ),
+    required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+  };
+}
+
+/**
+ * Renders `shared/apiTypes.ts`: one declaration per component schema, plus query and path
+ * parameter types per operation (e.g. `GetLeaderboardQuery`).
+ *
+ * @param document - OpenAPI document
+ * @returns TypeScript source in the `shared/` style
+ */
+export function renderApiTypes(document: typeof openApiDocument): string {
+  const renderer = new TypeRenderer();
+
+  for (const [name, schema] of Object.entries(document.components.schemas)) {
+    renderer.declare(name, schema);
+  }
+
+  for (const methods of Object.values(document.paths)) {
+    for (const operation of Object.values(methods)) {
+      const query = parametersSchema(operation, 'query');
+      if (query) renderer.declare(`${pascalCase(operation.operationId)}Query`, query);
+      const path = parametersSchema(operation, 'path');
+      if (path) renderer.declare(`${pascalCase(operation.operationId)}Params`, path);
+    }
+  }
+
+  return renderer.render();
+}
+
+/**
+ * Renders `docs/api/openapi.json`.
+ */
+export function renderOpenApiJson(document: typeof openApiDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function main(): void {
+  const check = process.argv.slice(2).includes('--check');
+  const outputs = [
+    { path: API_TYPES_PATH, content: renderApiTypes(openApiDocument) },
+    { path: OPENAPI_JSON_PATH, content: renderOpenApiJson(openApiDocument) },
+  ];
+
+  for (const { path, content } of outputs) {
+    if (!check) {
+      writeFileSync(path, content);
+      console.log(`Wrote ${path}`);
+      continue;
+    }
+    let current = '';
+    try {
+      current = readFileSync(path, 'utf8');
+    } catch {
+      // Missing files are out of date
+    }
+    if (current !== content) {
+      console.error(`${path} is out of date. Run npm run generate:api-types`);
+      process.exitCode = 1;
+    }
+  }
+}
+
+if (require.main === module) {
+  main();
+}
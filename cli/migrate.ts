@@ -0,0 +1,125 @@
+import { MongoClient } from 'mongodb';
+import { getMongoConfig } from '../api/config';
+import { MIGRATIONS } from '../migrations';
+import { createMongoMigrationStore, getMigrationStatus, runMigrations } from '../migrations/runner';
+
+/**
+ * Maintainer CLI for database migrations (see `migrations/`).
+ *
+ * Usage: npm run migrate -- <command> [options]
+ *
+ * Commands:
+ * - up [--dry-run] [--batch-size <n>] [--to <id>]   (apply pending migrations)
+ * - status                                          (list applied and pending migrations)
+ *
+ * Environment variables (read from `.env.local` like the server):
+ * - `MONGODB_USERNAME`, `MONGODB_PASSWORD`, `MONGODB_CLUSTER`: MongoDB connection (required)
+ */
+
+const DEFAULT_BATCH_SIZE = 500;
+
+export const USAGE = `Usage: npm run migrate -- <command> [options]
+
+Commands:
+  up        Apply pending migrations in order
+  status    List applied and pending migrations
+
+Options (up):
+  --dry-run          Report what would change without writing anything
+  --batch-size <n>   Documents read and written per batch (default ${DEFAULT_BATCH_SIZE})
+  --to <id>          Stop after this migration`;
+
+export type MigrateCommand =
+  | { command: 'up'; dryRun: boolean; batchSize: number; to?: string }
+  | { command: 'status' };
+
+/**
+ * Parses CLI arguments into a migrate command.
+ *
+ * @param argv - Arguments after the script name
+ * @returns Command to run
+ * @throws Error with a usage message if the arguments are invalid
+ */
+export function parseMigrateArgs(argv: string[]): MigrateCommand {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i += 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command] = positional;
+  if (command === 'status') {
+    return { command: 'status' };
+  }
+  if (command !== 'up') {
+    throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  const batchSize = options['batch-size'] === undefined ? DEFAULT_BATCH_SIZE : Number(options['batch-size']);
+  if (!Number.isInteger(batchSize) || batchSize <= 0) {
+    throw new Error('--batch-size must be a positive integer');
+  }
+
+  return { command: 'up', dryRun, batchSize, ...(options.to ? { to: options.to } : {}) };
+}
+
+async function main(): Promise<void> {
+  let args: MigrateCommand;
+  try {
+    args = parseMigrateArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { uri, dbName } = getMongoConfig();
+  const client = new MongoClient(uri);
+  await client.connect();
+
+  try {
+    const db = client.db(dbName);
+    const store = createMongoMigrationStore(db);
+
+    if (args.command === 'status') {
+      for (const { id, description, appliedAt } of await getMigrationStatus(MIGRATIONS, store)) {
+        console.log(`${appliedAt ? `applied ${appliedAt.toISOString()}` : 'pending'.padEnd(32)}  ${id}  ${description}`);
+      }
+      return;
+    }
+
+    const results = await runMigrations(MIGRATIONS, store, {
+      db,
+      dryRun: args.dryRun,
+      batchSize: args.batchSize,
+      to: args.to,
+      log: (message) => console.log(message),
+    });
+    if (results.length > 0) {
+      console.log(`\n${args.dryRun ? 'Dry run complete (nothing written)' : 'Applied'}: ${results.length} migration(s)`);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Migration failed:', (error as Error).message);
+    process.exitCode = 1;
+  });
+}
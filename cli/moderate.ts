@@ -0,0 +1,141 @@
+import { getAdminToken } from '../api/config';
+import { isModerationAction } from '../api/moderation';
+
+/**
+ * Maintainer CLI for leaderboard moderation. Wraps `/api/admin/moderation`.
+ *
+ * Usage: npm run moderate -- <command> [arguments] [--reason <text>] [--actor <name>] [--limit <n>]
+ *
+ * Commands:
+ * - hide | unhide | flag | unflag <entryId>
+ * - annotate <entryId> <note>   (an empty note clears it)
+ * - audit [entryId]             (recent moderation actions)
+ * - flagged                     (flagged entries)
+ *
+ * Environment variables (read from `.env.local` like the server):
+ * - `ADMIN_TOKEN`: Admin token (required)
+ * - `BINGOPEDIA_API_URL`: API base URL (defaults to http://localhost:3001)
+ * - `MODERATOR`: Default `--actor` recorded in the audit log
+ */
+
+export const USAGE = `Usage: npm run moderate -- <command> [arguments] [options]
+
+Commands:
+  hide <entryId>              Hide an entry from every public leaderboard
+  unhide <entryId>            Restore a hidden entry
+  flag <entryId>              Flag an entry for review
+  unflag <entryId>            Clear an entry's flag
+  annotate <entryId> <note>   Set the moderator note ("" clears it)
+  audit [entryId]             List recent moderation actions
+  flagged                     List flagged entries
+
+Options:
+  --reason <text>   Reason recorded in the audit log
+  --actor <name>    Moderator name (defaults to $MODERATOR)
+  --limit <n>       Number of records to list`;
+
+export interface ModerateRequest {
+  method: 'GET' | 'POST';
+  query?: Record<string, string>;
+  body?: Record<string, string>;
+}
+
+/**
+ * Parses CLI arguments into an `/api/admin/moderation` request.
+ *
+ * @param argv - Arguments after the script name
+ * @param env - Environment variables (for the default actor)
+ * @returns Request to send
+ * @throws Error with a usage message if the arguments are invalid
+ */
+export function parseModerateArgs(argv: string[], env: Record<string, string | undefined> = process.env): ModerateRequest {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const value = argv[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options[arg.slice(2)] = value;
+      i += 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...args] = positional;
+  const limit: Record<string, string> = options.limit ? { limit: options.limit } : {};
+
+  if (command === 'audit') {
+    return { method: 'GET', query: { view: 'audit', ...(args[0] ? { entryId: args[0] } : {}), ...limit } };
+  }
+
+  if (command === 'flagged') {
+    return { method: 'GET', query: { view: 'flagged', ...limit } };
+  }
+
+  if (!isModerationAction(command)) {
+    throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  const [entryId, note] = args;
+  if (!entryId) {
+    throw new Error(`Missing entryId for ${command}`);
+  }
+  if (command === 'annotate' && note === undefined) {
+    throw new Error('Missing note for annotate');
+  }
+
+  const actor = options.actor ?? env.MODERATOR;
+  return {
+    method: 'POST',
+    body: {
+      entryId,
+      action: command,
+      ...(command === 'annotate' ? { note } : {}),
+      ...(options.reason ? { reason: options.reason } : {}),
+      ...(actor ? { actor } : {}),
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  let request: ModerateRequest;
+  try {
+    request = parseModerateArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const url = new URL('/api/admin/moderation', process.env.BINGOPEDIA_API_URL || 'http://localhost:3001');
+  for (const [key, value] of Object.entries(request.query ?? {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const response = await fetch(url, {
+    method: request.method,
+    headers: {
+      Authorization: `Bearer ${getAdminToken()}`,
+      ...(request.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+    ...(request.body ? { body: JSON.stringify(request.body) } : {}),
+  });
+
+  const result = await response.json().catch(() => null);
+  console.log(JSON.stringify(result, null, 2));
+  if (!response.ok) {
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Moderation request failed:', (error as Error).message);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,31 @@
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+/**
+ * Returns the current game type for a stored one, or null if it is already current.
+ * Renames the old terminology (`fresh` → `random`, `linked` → `repeat`) and defaults
+ * missing game types to `random`.
+ */
+export function upgradeGameType(gameType: unknown): 'random' | 'repeat' | null {
+  if (gameType === 'fresh' || gameType === undefined || gameType === null) return 'random';
+  if (gameType === 'linked') return 'repeat';
+  return null;
+}
+
+/**
+ * Ported from `scripts/migrateLeaderboardGameType.js`.
+ */
+export const leaderboardGameType: Migration = {
+  id: '001-leaderboard-game-type',
+  description: "Rename leaderboard game types ('fresh' → 'random', 'linked' → 'repeat') and default missing ones to 'random'",
+  up: (context) =>
+    updateDocuments(context, {
+      collection: 'leaderboard',
+      // Null also matches entries without the field
+      filter: { gameType: { $in: ['fresh', 'linked', null] } },
+      update: (doc) => {
+        const gameType = upgradeGameType(doc.gameType);
+        return gameType ? { gameType } : null;
+      },
+    }),
+};
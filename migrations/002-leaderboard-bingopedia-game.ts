@@ -0,0 +1,38 @@
+import type { Document } from 'mongodb';
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+/**
+ * Builds the 26-title `bingopediaGame` (25 squares + starting article) for an entry that
+ * only has `bingoSquares`. The starting article is the first history title.
+ *
+ * @returns The board, or null if the entry already has one or can't be rebuilt
+ */
+export function buildBingopediaGame(entry: Document): string[] | null {
+  if (entry.bingopediaGame || !Array.isArray(entry.bingoSquares) || !Array.isArray(entry.history)) return null;
+  const startingTitle = entry.history[0];
+  if (entry.bingoSquares.length !== 25 || !startingTitle) return null;
+  return [...entry.bingoSquares, startingTitle];
+}
+
+/**
+ * Ported from `scripts/migrateLeaderboardBingopediaGame.js`. The script's missing-`gameType`
+ * step is covered by `001-leaderboard-game-type`.
+ */
+export const leaderboardBingopediaGame: Migration = {
+  id: '002-leaderboard-bingopedia-game',
+  description: 'Add bingopediaGame (25 squares + starting article) to leaderboard entries that only have bingoSquares',
+  up: (context) =>
+    updateDocuments(context, {
+      collection: 'leaderboard',
+      filter: {
+        bingopediaGame: { $exists: false },
+        bingoSquares: { $exists: true, $size: 25 },
+        history: { $exists: true, $ne: [] },
+      },
+      update: (doc) => {
+        const bingopediaGame = buildBingopediaGame(doc);
+        return bingopediaGame ? { bingopediaGame } : null;
+      },
+    }),
+};
@@ -0,0 +1,33 @@
+import { generateHashedId } from '../api/hashedId';
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+const MAX_ATTEMPTS = 10;
+
+/**
+ * Ported from `scripts/migrateLeaderboardGeneratedGame.js`.
+ */
+export const leaderboardGeneratedGame: Migration = {
+  id: '003-leaderboard-generated-game',
+  description: 'Give every leaderboard entry a unique generatedGame link',
+  up: (context) => {
+    const leaderboard = context.db.collection('leaderboard');
+    // Links handed out in this run, which a dry run never writes to the database
+    const assigned = new Set<string>();
+
+    return updateDocuments(context, {
+      collection: 'leaderboard',
+      filter: { generatedGame: { $exists: false } },
+      update: async () => {
+        for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt += 1) {
+          const generatedGame = generateHashedId();
+          if (!assigned.has(generatedGame) && !(await leaderboard.findOne({ generatedGame }))) {
+            assigned.add(generatedGame);
+            return { generatedGame };
+          }
+        }
+        throw new Error(`Failed to generate a unique generatedGame after ${MAX_ATTEMPTS} attempts`);
+      },
+    });
+  },
+};
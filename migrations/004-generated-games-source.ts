@@ -0,0 +1,16 @@
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+/**
+ * Ported from `scripts/migrateGeneratedGamesSource.js`.
+ */
+export const generatedGamesSource: Migration = {
+  id: '004-generated-games-source',
+  description: "Set source: 'generated' on generated games without a source",
+  up: (context) =>
+    updateDocuments(context, {
+      collection: 'generated-games',
+      filter: { source: { $exists: false } },
+      update: () => ({ source: 'generated' }),
+    }),
+};
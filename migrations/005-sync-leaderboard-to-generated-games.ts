@@ -0,0 +1,65 @@
+import type { Document } from 'mongodb';
+import { createSummary, recordChange } from './batch';
+import type { Migration } from './types';
+
+/**
+ * Ported from `scripts/syncLeaderboardToGeneratedGames.js`.
+ *
+ * Inserts a `source: 'leaderboard'` generated game for every leaderboard entry whose
+ * `generatedGame` link has no game yet, so shared links from old entries can be replayed.
+ */
+export const syncLeaderboardToGeneratedGames: Migration = {
+  id: '005-sync-leaderboard-to-generated-games',
+  description: "Create generated games (source: 'leaderboard') for leaderboard entries whose link has no game",
+  up: async (context) => {
+    const leaderboard = context.db.collection('leaderboard');
+    const games = context.db.collection('generated-games');
+    const summary = createSummary();
+    // Links inserted in this run, which a dry run never writes to the database
+    const inserted = new Set<string>();
+    let batch: Document[] = [];
+
+    const flush = async () => {
+      if (batch.length > 0 && !context.dryRun) {
+        await games.insertMany(batch, { ordered: false });
+      }
+      batch = [];
+      context.log(`  Processed ${summary.scanned} documents...`);
+    };
+
+    const cursor = leaderboard
+      .find({ generatedGame: { $exists: true }, bingopediaGame: { $type: 'array' } })
+      .batchSize(context.batchSize);
+    for await (const entry of cursor) {
+      summary.scanned += 1;
+
+      const link = entry.generatedGame;
+      if (
+        typeof link === 'string' &&
+        Array.isArray(entry.bingopediaGame) &&
+        entry.bingopediaGame.length === 26 &&
+        !inserted.has(link) &&
+        !(await games.findOne({ link }))
+      ) {
+        inserted.add(link);
+        batch.push({
+          link,
+          bingopediaGame: entry.bingopediaGame.map(String),
+          createdAt: entry.createdAt ?? new Date(),
+          timesPlayed: 0,
+          source: 'leaderboard',
+        });
+        recordChange(summary, 'generated-games', { _id: link }, { '(inserted)': link });
+      }
+
+      if (summary.scanned % context.batchSize === 0) {
+        await flush();
+      }
+    }
+    if (summary.scanned % context.batchSize !== 0) {
+      await flush();
+    }
+
+    return summary;
+  },
+};
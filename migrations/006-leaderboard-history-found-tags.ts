@@ -0,0 +1,72 @@
+import type { Document } from 'mongodb';
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+const FOUND_PREFIX = '[Found] ';
+
+export function stripFoundTag(title: unknown): unknown {
+  return typeof title === 'string' && title.startsWith(FOUND_PREFIX) ? title.slice(FOUND_PREFIX.length) : title;
+}
+
+/**
+ * Prefixes the first visit to each board title in a history with `[Found] `.
+ */
+export function addFoundTagsToHistory(history: unknown[], boardTitles: unknown[]): unknown[] {
+  const seen = new Set<unknown>();
+  const board = new Set(boardTitles);
+
+  return history.map((title) => {
+    if (!title || !board.has(title) || seen.has(title)) return title;
+    seen.add(title);
+    return `${FOUND_PREFIX}${title}`;
+  });
+}
+
+/**
+ * Returns the `[Found] `-tagged history and the untagged `bingopediaGame` for a leaderboard
+ * entry. Histories that already contain tags are left as they are.
+ *
+ * @returns The fields that change (possibly none)
+ */
+export function tagFoundHistory(entry: Document): Record<string, unknown> {
+  const rawBoard: unknown[] =
+    (Array.isArray(entry.bingopediaGame) && entry.bingopediaGame.slice(0, 25)) ||
+    (Array.isArray(entry.bingoSquares) && entry.bingoSquares.slice(0, 25)) ||
+    [];
+  const boardTitles = rawBoard.map(stripFoundTag);
+  const set: Record<string, unknown> = {};
+
+  if (Array.isArray(entry.bingopediaGame)) {
+    const bingopediaGame = entry.bingopediaGame.map(stripFoundTag);
+    if (JSON.stringify(bingopediaGame) !== JSON.stringify(entry.bingopediaGame)) {
+      set.bingopediaGame = bingopediaGame;
+    }
+  }
+
+  if (Array.isArray(entry.history)) {
+    const hasFoundTags = entry.history.some((title) => typeof title === 'string' && title.startsWith(FOUND_PREFIX));
+    const history = hasFoundTags ? entry.history : addFoundTagsToHistory(entry.history, boardTitles);
+    if (JSON.stringify(history) !== JSON.stringify(entry.history)) {
+      set.history = history;
+    }
+  }
+
+  return set;
+}
+
+/**
+ * Ported from `scripts/migrateLeaderboardHistoryFoundTags.js`.
+ */
+export const leaderboardHistoryFoundTags: Migration = {
+  id: '006-leaderboard-history-found-tags',
+  description: "Tag found squares in leaderboard histories with '[Found] ' and remove tags from bingopediaGame",
+  up: (context) =>
+    updateDocuments(context, {
+      collection: 'leaderboard',
+      filter: {
+        history: { $exists: true, $ne: [] },
+        $or: [{ bingopediaGame: { $exists: true, $ne: [] } }, { bingoSquares: { $exists: true, $ne: [] } }],
+      },
+      update: tagFoundHistory,
+    }),
+};
@@ -0,0 +1,31 @@
+import { updateDocuments } from './batch';
+import type { Migration } from './types';
+
+/**
+ * Replaces whitespace with underscores in a history title, keeping a `[Found] ` prefix intact.
+ */
+export function replaceSpacesWithUnderscores(title: unknown): unknown {
+  if (!title || typeof title !== 'string') return title;
+  if (title.startsWith('[Found] ')) {
+    return `[Found] ${title.slice('[Found] '.length).replace(/\s+/g, '_')}`;
+  }
+  return title.replace(/\s+/g, '_');
+}
+
+/**
+ * Ported from `scripts/migrateLeaderboardHistorySpaces.js`.
+ */
+export const leaderboardHistorySpaces: Migration = {
+  id: '007-leaderboard-history-spaces',
+  description: 'Use underscores instead of spaces in leaderboard history titles',
+  up: (context) =>
+    updateDocuments(context, {
+      collection: 'leaderboard',
+      filter: { history: { $exists: true, $ne: [] } },
+      update: (doc) => {
+        if (!Array.isArray(doc.history)) return null;
+        const history = doc.history.map(replaceSpacesWithUnderscores);
+        return JSON.stringify(history) !== JSON.stringify(doc.history) ? { history } : null;
+      },
+    }),
+};
@@ -0,0 +1,115 @@
+import type { AnyBulkWriteOperation, Document, Filter } from 'mongodb';
+import type { MigrationContext, MigrationSummary } from './types';
+
+/**
+ * Number of example changes kept in a summary.
+ */
+const MAX_SAMPLES = 10;
+
+export function createSummary(): MigrationSummary {
+  return { scanned: 0, changed: 0, fields: {}, samples: [] };
+}
+
+/**
+ * Records one changed document in a summary.
+ *
+ * @param summary - Summary to update
+ * @param collection - Collection the document belongs to
+ * @param doc - Document before the change
+ * @param set - Fields and their new values
+ */
+export function recordChange(
+  summary: MigrationSummary,
+  collection: string,
+  doc: Document,
+  set: Record<string, unknown>
+): void {
+  summary.changed += 1;
+  for (const [field, after] of Object.entries(set)) {
+    summary.fields[field] = (summary.fields[field] ?? 0) + 1;
+    if (summary.samples.length < MAX_SAMPLES) {
+      summary.samples.push({ collection, id: String(doc._id), field, before: doc[field], after });
+    }
+  }
+}
+
+/**
+ * Formats a summary for the console: counts per field followed by example changes.
+ *
+ * @param summary - Migration summary
+ * @returns Multi-line text
+ */
+export function formatSummary(summary: MigrationSummary): string {
+  const lines = [`  Scanned: ${summary.scanned}`, `  Changed: ${summary.changed}`];
+  for (const [field, count] of Object.entries(summary.fields)) {
+    lines.push(`    ${field}: ${count}`);
+  }
+  for (const sample of summary.samples) {
+    lines.push(
+      `  ${sample.collection} ${sample.id} ${sample.field}: ${JSON.stringify(sample.before)} → ${JSON.stringify(sample.after)}`
+    );
+  }
+  return lines.join('\n');
+}
+
+export interface UpdateDocumentsOptions {
+  collection: string;
+  filter: Filter<Document>;
+  /**
+   * Returns the fields to `$set` on a document, or null to leave it unchanged.
+   */
+  update(doc: Document): Record<string, unknown> | null | Promise<Record<string, unknown> | null>;
+}
+
+/**
+ * Updates matching documents in batches of `context.batchSize`.
+ *
+ * Documents are read with a cursor and each batch of changes is written with one
+ * `bulkWrite`. In a dry run nothing is written, but the summary still lists every change.
+ *
+ * @param context - Migration context
+ * @param options - Collection, filter and per-document update
+ * @returns Summary of the changes
+ *
+ * @example
+ * ```typescript
+ * await updateDocuments(context, {
+ *   collection: 'leaderboard',
+ *   filter: { gameType: { $exists: false } },
+ *   update: () => ({ gameType: 'random' }),
+ * });
+ * ```
+ */
+export async function updateDocuments(context: MigrationContext, options: UpdateDocumentsOptions): Promise<MigrationSummary> {
+  const collection = context.db.collection(options.collection);
+  const summary = createSummary();
+  let batch: AnyBulkWriteOperation<Document>[] = [];
+
+  const flush = async () => {
+    if (batch.length > 0 && !context.dryRun) {
+      await collection.bulkWrite(batch, { ordered: false });
+    }
+    batch = [];
+    context.log(`  Processed ${summary.scanned} documents...`);
+  };
+
+  const cursor = collection.find(options.filter).batchSize(context.batchSize);
+  for await (const doc of cursor) {
+    summary.scanned += 1;
+
+    const set = await options.update(doc);
+    if (set && Object.keys(set).length > 0) {
+      recordChange(summary, options.collection, doc, set);
+      batch.push({ updateOne: { filter: { _id: doc._id }, update: { $set: set } } });
+    }
+
+    if (summary.scanned % context.batchSize === 0) {
+      await flush();
+    }
+  }
+  if (summary.scanned % context.batchSize !== 0) {
+    await flush();
+  }
+
+  return summary;
+}
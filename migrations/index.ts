@@ -0,0 +1,22 @@
+import { leaderboardGameType } from './001-leaderboard-game-type';
+import { leaderboardBingopediaGame } from './002-leaderboard-bingopedia-game';
+import { leaderboardGeneratedGame } from './003-leaderboard-generated-game';
+import { generatedGamesSource } from './004-generated-games-source';
+import { syncLeaderboardToGeneratedGames } from './005-sync-leaderboard-to-generated-games';
+import { leaderboardHistoryFoundTags } from './006-leaderboard-history-found-tags';
+import { leaderboardHistorySpaces } from './007-leaderboard-history-spaces';
+import type { Migration } from './types';
+
+/**
+ * All migrations, in the order they are applied. Add new migrations to the end with the
+ * next number.
+ */
+export const MIGRATIONS: Migration[] = [
+  leaderboardGameType,
+  leaderboardBingopediaGame,
+  leaderboardGeneratedGame,
+  generatedGamesSource,
+  syncLeaderboardToGeneratedGames,
+  leaderboardHistoryFoundTags,
+  leaderboardHistorySpaces,
+];
@@ -0,0 +1,138 @@
+import type { Db } from 'mongodb';
+import { formatSummary } from './batch';
+import type { AppliedMigration, Migration, MigrationContext, MigrationSummary } from './types';
+
+/**
+ * Collection recording which migrations have been applied.
+ */
+export const MIGRATIONS_COLLECTION = 'migrations';
+
+/**
+ * Where applied migrations are recorded.
+ */
+export interface MigrationStore {
+  listApplied(): Promise<AppliedMigration[]>;
+  markApplied(record: AppliedMigration): Promise<void>;
+}
+
+/**
+ * Stores applied migrations in the `migrations` collection, keyed by migration ID.
+ */
+export function createMongoMigrationStore(db: Db): MigrationStore {
+  const collection = db.collection<AppliedMigration>(MIGRATIONS_COLLECTION);
+  return {
+    async listApplied() {
+      return collection.find().sort({ _id: 1 }).toArray();
+    },
+    async markApplied(record) {
+      await collection.replaceOne({ _id: record._id }, record, { upsert: true });
+    },
+  };
+}
+
+export interface RunMigrationsOptions extends MigrationContext {
+  /**
+   * Last migration to apply (inclusive). Defaults to the newest.
+   */
+  to?: string;
+}
+
+export interface MigrationResult {
+  id: string;
+  summary: MigrationSummary;
+  durationMs: number;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  appliedAt: Date | null;
+}
+
+/**
+ * Checks that migration IDs are unique and listed in ascending order.
+ *
+ * @throws Error naming the first out-of-order or duplicate ID
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  for (let i = 1; i < migrations.length; i += 1) {
+    if (migrations[i].id <= migrations[i - 1].id) {
+      throw new Error(`Migration ${migrations[i].id} must come after ${migrations[i - 1].id} and have a unique ID`);
+    }
+  }
+}
+
+/**
+ * Lists every migration with the time it was applied (null if pending).
+ */
+export async function getMigrationStatus(migrations: Migration[], store: MigrationStore): Promise<MigrationStatus[]> {
+  const applied = new Map((await store.listApplied()).map((record) => [record._id, record.appliedAt]));
+  return migrations.map(({ id, description }) => ({ id, description, appliedAt: applied.get(id) ?? null }));
+}
+
+/**
+ * Applies pending migrations in order, up to and including `options.to`.
+ *
+ * Each migration is recorded in the store as soon as it succeeds, so a failed run can be
+ * resumed. A failing migration stops the run. In a dry run migrations only report what they
+ * would change and nothing is recorded.
+ *
+ * @param migrations - All migrations, in order
+ * @param store - Applied migration records
+ * @param options - Migration context and optional target ID
+ * @returns The migrations that ran, with their summaries
+ * @throws Error if the migration list is invalid, `to` is unknown, or a migration fails
+ *
+ * @example
+ * ```typescript
+ * await runMigrations(MIGRATIONS, createMongoMigrationStore(db), { db, dryRun: true, batchSize: 500, log: console.log });
+ * ```
+ */
+export async function runMigrations(
+  migrations: Migration[],
+  store: MigrationStore,
+  options: RunMigrationsOptions
+): Promise<MigrationResult[]> {
+  validateMigrations(migrations);
+
+  const { to, ...context } = options;
+  const lastIndex = to === undefined ? migrations.length - 1 : migrations.findIndex((migration) => migration.id === to);
+  if (lastIndex === -1) {
+    throw new Error(`Unknown migration: ${to}`);
+  }
+
+  const applied = new Set((await store.listApplied()).map((record) => record._id));
+  const pending = migrations.slice(0, lastIndex + 1).filter((migration) => !applied.has(migration.id));
+  if (pending.length === 0) {
+    context.log('No pending migrations.');
+    return [];
+  }
+
+  const results: MigrationResult[] = [];
+  for (const migration of pending) {
+    context.log(`${context.dryRun ? '[dry run] ' : ''}${migration.id}: ${migration.description}`);
+    const startedAt = Date.now();
+    let summary: MigrationSummary;
+    try {
+      summary = await migration.up(context);
+    } catch (error) {
+      throw new Error(`Migration ${migration.id} failed: ${(error as Error).message}`);
+    }
+    const durationMs = Date.now() - startedAt;
+    context.log(formatSummary(summary));
+
+    if (!context.dryRun) {
+      const { samples: _samples, ...counts } = summary;
+      await store.markApplied({
+        _id: migration.id,
+        description: migration.description,
+        appliedAt: new Date(),
+        durationMs,
+        summary: counts,
+      });
+    }
+    results.push({ id: migration.id, summary, durationMs });
+  }
+
+  return results;
+}
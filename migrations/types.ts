@@ -0,0 +1,74 @@
+import type { Db } from 'mongodb';
+
+/**
+ * Passed to every migration's `up`.
+ */
+export interface MigrationContext {
+  db: Db;
+  /**
+   * When true, migrations report what they would change without writing anything.
+   */
+  dryRun: boolean;
+  /**
+   * Number of documents read and written per batch.
+   */
+  batchSize: number;
+  log(message: string): void;
+}
+
+/**
+ * One example change, shown in dry-run summaries.
+ */
+export interface ChangeSample {
+  collection: string;
+  id: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * What a migration changed (or would change, in a dry run).
+ */
+export interface MigrationSummary {
+  /**
+   * Documents examined.
+   */
+  scanned: number;
+  /**
+   * Documents updated or inserted.
+   */
+  changed: number;
+  /**
+   * Number of changed documents per field. Inserted documents are counted under `(inserted)`.
+   */
+  fields: Record<string, number>;
+  /**
+   * The first few changes, for reviewing a dry run.
+   */
+  samples: ChangeSample[];
+}
+
+/**
+ * A numbered migration. Migrations run once each, in `id` order, and must be safe to re-run
+ * after a partial failure.
+ */
+export interface Migration {
+  /**
+   * Unique ID starting with a zero-padded number, e.g. `001-leaderboard-game-type`.
+   */
+  id: string;
+  description: string;
+  up(context: MigrationContext): Promise<MigrationSummary>;
+}
+
+/**
+ * A migration recorded in the `migrations` collection once it has been applied.
+ */
+export interface AppliedMigration {
+  _id: string;
+  description: string;
+  appliedAt: Date;
+  durationMs: number;
+  summary: Omit<MigrationSummary, 'samples'>;
+}
@@ -0,0 +1,24 @@
+import type { Request, Response } from 'express';
+import { dispatch, flattenHeaders, flattenQuery, writeResponse, type Route } from '../api/http';
+
+/**
+ * Wraps a route as an Express handler for the local dev server.
+ *
+ * Path parameters (e.g. `:hashedId`) are merged into `ApiRequest.query`, matching how
+ * Vercel exposes dynamic route segments. CORS is handled by the `cors()` middleware.
+ *
+ * @param route - Route definition shared with the Vercel functions
+ * @returns Express request handler
+ */
+export function toExpressHandler(route: Route) {
+  return async function handler(req: Request, res: Response) {
+    const response = await dispatch(route, {
+      method: req.method,
+      query: flattenQuery({ ...(req.query as Record<string, unknown>), ...req.params }),
+      body: req.body,
+      headers: flattenHeaders(req.headers),
+    });
+
+    writeResponse(res, response);
+  };
+}
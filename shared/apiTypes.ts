@@ -0,0 +1,297 @@
+/**
+ * Types for the public API, generated from the OpenAPI document in `api/openapi.ts`.
+ *
+ * Do not edit: run `npm run generate:api-types` after changing the document.
+ */
+
+export interface ApiError {
+  error: {
+    code: 'VALIDATION_ERROR' | 'MISSING_FIELD' | 'INVALID_VALUE' | 'DATABASE_ERROR' | 'NETWORK_ERROR' | 'SERVER_ERROR' | 'METHOD_NOT_ALLOWED' | 'NOT_FOUND' | 'BOARD_EXPIRED' | 'INVALID_SESSION' | 'UNAUTHORIZED' | 'USERNAME_CLAIMED'
+    message: string
+    /** Only included when NODE_ENV=development */
+    details?: unknown
+  }
+}
+
+export type GameType = 'random' | 'repeat' | 'daily'
+
+/** 25 grid squares followed by the starting article */
+export type Board = string[]
+
+/** A shareable board. Boards never change, so lookups are cacheable indefinitely */
+export interface GeneratedGame {
+  link: string
+  bingopediaGame: Board
+  createdAt: string
+  source?: 'leaderboard' | 'generated' | 'daily' | 'custom'
+  /** UTC day of a daily challenge board */
+  dailyDate?: string
+  /** Board title (at most 80 characters) */
+  title?: string
+  /** Display name of the board's creator (at most 50 characters) */
+  creatorName?: string
+  /** Short description of the board (at most 280 characters) */
+  description?: string
+}
+
+export interface GamePlays {
+  link: string
+  /** Leaderboard submissions replaying the board */
+  timesPlayed: number
+}
+
+/** A board in the community board lists */
+export interface BoardSummary {
+  link: string
+  bingopediaGame: Board
+  createdAt: string
+  /** Leaderboard submissions replaying the board */
+  timesPlayed: number
+  /** Best (lowest) score, or null if nobody has finished the board */
+  bestScore: number | null
+  /** Leaderboard entries in the last 7 days (trending list only) */
+  recentPlays?: number
+  /** Board title (at most 80 characters) */
+  title?: string
+  /** Display name of the board's creator (at most 50 characters) */
+  creatorName?: string
+  /** Short description of the board (at most 280 characters) */
+  description?: string
+}
+
+export interface BoardListPage {
+  boards: BoardSummary[]
+  pagination: {
+    page: number
+    limit: number
+    totalCount: number
+    totalPages: number
+  }
+  sort: 'popular' | 'recent' | 'trending'
+}
+
+export interface CreateGameRequest {
+  bingopediaGame: Board
+  /** 'custom' for boards built by a player: titles must be existing, distinct articles that aren't disambiguation pages */
+  source?: 'generated' | 'custom'
+  /** Board title (at most 80 characters) */
+  title?: string
+  /** Display name of the board's creator (at most 50 characters) */
+  creatorName?: string
+  /** Short description of the board (at most 280 characters) */
+  description?: string
+}
+
+export interface LeaderboardEntry {
+  _id?: string
+  username: string
+  score: number
+  time: number
+  clicks: number
+  bingopediaGame?: string[]
+  history?: string[]
+  createdAt: string
+  gameType?: GameType
+  /** Link of the board this entry was played on */
+  generatedGame?: string
+  /**
+   * Use bingopediaGame instead; only present on old entries
+   * @deprecated
+   */
+  bingoSquares?: string[]
+}
+
+export interface LeaderboardPage {
+  users: LeaderboardEntry[]
+  pagination: {
+    page: number
+    limit: number
+    totalCount: number
+    totalPages: number
+  }
+  sort: {
+    sortBy: 'score' | 'clicks' | 'time' | 'createdAt' | 'username'
+    sortOrder: 'asc' | 'desc'
+  }
+}
+
+export interface SubmitScoreRequest {
+  username: string
+  /** Ignored; the score is recalculated from time and clicks */
+  score: number
+  time?: number
+  clicks?: number
+  history?: string[]
+  bingopediaGame?: string[]
+  /**
+   * Ignored
+   * @deprecated
+   */
+  bingoSquares?: string[]
+  generatedGame?: string
+  gameType?: GameType
+  /** Token from POST /api/sessions */
+  sessionToken?: string
+  /** Required for claimed usernames */
+  ownershipKey?: string
+}
+
+export type SubmittedEntry = LeaderboardEntry & {
+  /** Only returned when the submission claimed the username */
+  ownershipKey?: string
+}
+
+/** `game_started` analytics event */
+export interface GameStartedEvent {
+  event: 'game_started'
+  timestamp: string
+  gameType?: 'random' | 'repeat' | 'daily'
+  hashedId?: string
+}
+
+/** `game_generated` analytics event */
+export interface GameGeneratedEvent {
+  event: 'game_generated'
+  timestamp: string
+  hashedId: string
+}
+
+/** `game_finished` analytics event */
+export interface GameFinishedEvent {
+  event: 'game_finished'
+  timestamp: string
+  score: number
+  time: number
+  clicks: number
+  gameType?: 'random' | 'repeat' | 'daily'
+  hashedId?: string
+}
+
+/** `article_navigated` analytics event */
+export interface ArticleNavigatedEvent {
+  event: 'article_navigated'
+  timestamp: string
+  title: string
+  clicks: number
+  hashedId?: string
+}
+
+/** `square_found` analytics event */
+export interface SquareFoundEvent {
+  event: 'square_found'
+  timestamp: string
+  title: string
+  clicks: number
+  squaresFound: number
+  hashedId?: string
+}
+
+/** `article_load_failed` analytics event */
+export interface ArticleLoadFailedEvent {
+  event: 'article_load_failed'
+  timestamp: string
+  title: string
+  hashedId?: string
+}
+
+/** `game_abandoned` analytics event */
+export interface GameAbandonedEvent {
+  event: 'game_abandoned'
+  timestamp: string
+  clicks: number
+  time: number
+  squaresFound: number
+  gameType?: 'random' | 'repeat' | 'daily'
+  hashedId?: string
+}
+
+/** `share_link_copied` analytics event */
+export interface ShareLinkCopiedEvent {
+  event: 'share_link_copied'
+  timestamp: string
+  linkType: 'seed' | 'game'
+  hashedId?: string
+}
+
+/** `replay_started` analytics event */
+export interface ReplayStartedEvent {
+  event: 'replay_started'
+  timestamp: string
+  gameType?: 'random' | 'repeat' | 'daily'
+  hashedId?: string
+}
+
+export type GameEvent = GameStartedEvent | GameGeneratedEvent | GameFinishedEvent | ArticleNavigatedEvent | SquareFoundEvent | ArticleLoadFailedEvent | GameAbandonedEvent | ShareLinkCopiedEvent | ReplayStartedEvent
+
+export interface GameEventBatch {
+  events: GameEvent[]
+}
+
+export interface GameEventBatchResult {
+  index: number
+  accepted: boolean
+  /** Why the event was rejected */
+  error?: string
+  field?: string
+}
+
+export interface LoggingResponse {
+  success: boolean
+  /** Batch requests only */
+  accepted?: number
+  /** Batch requests only */
+  rejected?: number
+  /** Batch requests only */
+  results?: GameEventBatchResult[]
+}
+
+/** Query parameters for `getGame` */
+export interface GetGameQuery {
+  /** 16-character game link */
+  link: string
+}
+
+/** Query parameters for `listPopularGames` */
+export interface ListPopularGamesQuery {
+  limit?: number
+  page?: number
+}
+
+/** Query parameters for `listRecentGames` */
+export interface ListRecentGamesQuery {
+  limit?: number
+  page?: number
+}
+
+/** Query parameters for `listTrendingGames` */
+export interface ListTrendingGamesQuery {
+  limit?: number
+  page?: number
+}
+
+/** Path parameters for `getGameByHashedId` */
+export interface GetGameByHashedIdParams {
+  /** 16-character game link */
+  hashedId: string
+}
+
+/** Path parameters for `getGamePlays` */
+export interface GetGamePlaysParams {
+  /** 16-character game link */
+  hashedId: string
+}
+
+/** Query parameters for `getLeaderboard` */
+export interface GetLeaderboardQuery {
+  limit?: number
+  page?: number
+  sortBy?: 'score' | 'clicks' | 'time' | 'createdAt' | 'username'
+  sortOrder?: 'asc' | 'desc'
+  /** ISO date or date-time; entries created at or after it */
+  dateFrom?: string
+  /** ISO date or date-time; entries created at or before it */
+  dateTo?: string
+  gameType?: 'random' | 'repeat' | 'daily' | 'all'
+  /** UTC day (YYYY-MM-DD) selecting that day's daily challenge board */
+  dailyDate?: string
+}
@@ -0,0 +1,135 @@
+import { getCuratedArticleTitle, type CuratedArticle, type CuratedCategory, type CuratedGroupsConfig } from './curatedArticles'
+import { normalizeTitle } from './normalizeTitle'
+import type { RandomSource } from './random'
+
+/**
+ * Board generation shared by the app (random games) and the API (daily challenge).
+ */
+
+export const GRID_CELL_COUNT = 25
+export const STARTING_POOL_SIZE = GRID_CELL_COUNT + 1 // 25 grid + 1 starting article
+
+/**
+ * Picks a random element from a non-empty array.
+ *
+ * @param items - Items to pick from
+ * @param random - Random source (defaults to `Math.random`)
+ * @returns One of the items
+ */
+export function pickRandom<T>(items: T[], random: RandomSource = Math.random): T {
+  return items[Math.floor(random() * items.length)]
+}
+
+/**
+ * Returns a shuffled copy of an array (Fisher-Yates).
+ *
+ * @param items - Items to shuffle (not modified)
+ * @param random - Random source (defaults to `Math.random`)
+ * @returns New array with the items in random order
+ */
+export function shuffle<T>(items: T[], random: RandomSource = Math.random): T[] {
+  const arr = [...items]
+  for (let i = arr.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1))
+    ;[arr[i], arr[j]] = [arr[j], arr[i]]
+  }
+  return arr
+}
+
+/**
+ * Generates a bingo set by selecting 26 distinct categories and one article per category.
+ * The first 25 articles form the grid, and the 26th becomes the starting article.
+ * 
+ * This function ensures:
+ * - All selected articles have unique titles (normalized for comparison)
+ * - Group constraints are respected (e.g., max 1 occupation category per game)
+ * - Exactly 26 articles are selected for a complete game
+ * 
+ * With a seeded random source the result depends only on the seed and the curated data.
+ * 
+ * @param categories - Array of curated categories to select from
+ * @param groups - Group definitions with maxPerGame constraints
+ * @param random - Random source (defaults to `Math.random`)
+ * @returns An object containing the 25 grid articles and the starting article
+ * @throws Error if unable to generate enough unique articles
+ */
+export function generateBingoSet(
+  categories: CuratedCategory[],
+  groups: CuratedGroupsConfig = {},
+  random: RandomSource = Math.random,
+): {
+  gridArticles: CuratedArticle[]
+  startingArticle: CuratedArticle
+} {
+  // Build a map of group name -> maxPerGame for quick lookup
+  // Groups is an object with group names as keys
+  const groupMaxMap = new Map<string, number>()
+  for (const [groupName, groupInfo] of Object.entries(groups)) {
+    groupMaxMap.set(groupName, groupInfo.maxPerGame)
+  }
+
+  // Shuffle all categories
+  const shuffledCategories = shuffle(categories, random)
+
+  // Select categories respecting group constraints
+  const selectedCategories: CuratedCategory[] = []
+  const groupUsageCount = new Map<string, number>() // Track how many times each group has been used
+
+  for (const category of shuffledCategories) {
+    if (selectedCategories.length >= STARTING_POOL_SIZE) {
+      break
+    }
+
+    // Check if this category belongs to a group
+    if (category.group) {
+      const currentCount = groupUsageCount.get(category.group) || 0
+      const maxAllowed = groupMaxMap.get(category.group) ?? Infinity
+
+      // Skip if we've already used the max allowed from this group
+      if (currentCount >= maxAllowed) {
+        continue
+      }
+
+      // Increment group usage
+      groupUsageCount.set(category.group, currentCount + 1)
+    }
+
+    // Add this category
+    selectedCategories.push(category)
+  }
+
+  // Check if we got enough categories
+  if (selectedCategories.length < STARTING_POOL_SIZE) {
+    throw new Error(
+      `Failed to generate enough categories for bingo set. Need ${STARTING_POOL_SIZE}, got ${selectedCategories.length}. This may be due to group constraints.`,
+    )
+  }
+
+  const usedTitles = new Set<string>()
+  const articles: CuratedArticle[] = []
+
+  for (const category of selectedCategories) {
+    const shuffledArticles = shuffle(category.articles, random)
+    const chosen = shuffledArticles.find((article) => {
+      const title = getCuratedArticleTitle(article)
+      const norm = normalizeTitle(title)
+      if (usedTitles.has(norm)) return false
+      usedTitles.add(norm)
+      return true
+    })
+    if (chosen) {
+      articles.push(chosen)
+    }
+  }
+
+  if (articles.length < STARTING_POOL_SIZE) {
+    throw new Error('Failed to generate enough unique articles for bingo set')
+  }
+
+  const [starting, ...gridPool] = shuffle(articles, random)
+
+  return {
+    gridArticles: gridPool.slice(0, GRID_CELL_COUNT),
+    startingArticle: starting,
+  }
+}
@@ -0,0 +1,97 @@
+import { generateBingoSet } from './bingoSet'
+import type { CuratedArticle, CuratedArticlesPayload } from './curatedArticles'
+import { createSeededRandom, type RandomSource } from './random'
+
+/**
+ * Short, shareable board seeds.
+ *
+ * A board seed is `<dataVersion>-<seed>`. The same seed always produces the same board
+ * from the same curated data, so the data version is part of the seed: a seed created
+ * before the curated articles were regenerated is rejected instead of silently producing
+ * a different board.
+ */
+
+export interface BoardSeed {
+  /**
+   * Version of the curated article data the board was generated from.
+   */
+  dataVersion: string
+  /**
+   * Seed for the random source.
+   */
+  seed: string
+}
+
+const SEED_LENGTH = 8
+const SEED_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz'
+const BOARD_SEED_PATTERN = /^([0-9a-z]{1,16})-([0-9a-z]{1,32})$/
+
+/**
+ * Derives a short version identifier for the curated article data from its generation time.
+ *
+ * @param payload - Curated article data
+ * @returns Base-36 version string (e.g., `t6zbxg`)
+ */
+export function getCuratedDataVersion(payload: Pick<CuratedArticlesPayload, 'generatedAt'>): string {
+  const generatedAt = new Date(payload.generatedAt).getTime()
+  if (isNaN(generatedAt)) {
+    throw new Error('Curated article data has an invalid generatedAt timestamp')
+  }
+  return Math.floor(generatedAt / 1000).toString(36)
+}
+
+/**
+ * Creates a new random seed.
+ *
+ * @param random - Random source (defaults to `Math.random`)
+ * @returns 8-character base-36 seed
+ */
+export function createRandomSeed(random: RandomSource = Math.random): string {
+  let seed = ''
+  for (let i = 0; i < SEED_LENGTH; i += 1) {
+    seed += SEED_ALPHABET[Math.floor(random() * SEED_ALPHABET.length)]
+  }
+  return seed
+}
+
+/**
+ * Formats a board seed for sharing.
+ *
+ * @param boardSeed - Data version and seed
+ * @returns `<dataVersion>-<seed>`
+ */
+export function formatBoardSeed({ dataVersion, seed }: BoardSeed): string {
+  return `${dataVersion}-${seed}`
+}
+
+/**
+ * Parses a shared board seed.
+ *
+ * @param value - Value to parse (case-insensitive, surrounding whitespace ignored)
+ * @returns The data version and seed, or null if the value is not a board seed
+ */
+export function parseBoardSeed(value: string): BoardSeed | null {
+  const match = BOARD_SEED_PATTERN.exec(value.trim().toLowerCase())
+  return match ? { dataVersion: match[1], seed: match[2] } : null
+}
+
+/**
+ * Generates the board for a board seed.
+ *
+ * @param payload - Curated article data
+ * @param boardSeed - Data version and seed
+ * @returns The 25 grid articles and the starting article
+ * @throws Error if the seed was created from a different version of the curated data
+ */
+export function generateBoardFromSeed(
+  payload: CuratedArticlesPayload,
+  boardSeed: BoardSeed,
+): { gridArticles: CuratedArticle[]; startingArticle: CuratedArticle } {
+  const dataVersion = getCuratedDataVersion(payload)
+  if (boardSeed.dataVersion !== dataVersion) {
+    throw new Error(
+      `Board seed ${formatBoardSeed(boardSeed)} was created from a different version of the article list (current version: ${dataVersion})`,
+    )
+  }
+  return generateBingoSet(payload.categories, payload.groups, createSeededRandom(boardSeed.seed))
+}
@@ -0,0 +1,187 @@
+import { normalizeTitle } from './normalizeTitle'
+
+/**
+ * Title checks for custom boards (`source: 'custom'`), shared by the app's board builder and
+ * the API, which checks a custom board again before storing it.
+ *
+ * Both sides look the titles up with the same MediaWiki queries (`fetchArticleChecks`) and
+ * apply the same rules to the result (`findBoardTitleIssues`).
+ */
+
+/**
+ * Most titles the MediaWiki query API accepts in one request.
+ */
+export const MAX_TITLES_PER_LOOKUP = 50
+
+export interface ArticleCheck {
+  /** False for missing pages, invalid titles and pages outside the article namespace */
+  exists: boolean
+  disambiguation: boolean
+  /** Normalized title after following redirects */
+  canonical: string
+}
+
+export type BoardTitleProblem = 'empty' | 'missing' | 'disambiguation' | 'duplicate'
+
+export interface BoardTitleIssue {
+  /** Board index: 0–24 for grid squares, 25 for the starting article */
+  index: number
+  title: string
+  problem: BoardTitleProblem
+  message: string
+}
+
+interface ArticleLookupResponse {
+  query?: {
+    normalized?: { from: string; to: string }[]
+    redirects?: { from: string; to: string }[]
+    pages?: {
+      title: string
+      ns?: number
+      missing?: boolean
+      invalid?: boolean
+      pageprops?: { disambiguation?: string }
+    }[]
+  }
+}
+
+/**
+ * Query parameters that look up up to `MAX_TITLES_PER_LOOKUP` titles, following redirects
+ * and flagging disambiguation pages.
+ *
+ * @param titles - Article titles
+ * @returns Parameters for `https://en.wikipedia.org/w/api.php`
+ */
+export function articleLookupParams(titles: string[]): Record<string, string> {
+  return {
+    action: 'query',
+    format: 'json',
+    formatversion: '2',
+    redirects: '1',
+    prop: 'pageprops',
+    ppprop: 'disambiguation',
+    titles: titles.map((title) => title.trim().replace(/_/g, ' ')).join('|'),
+  }
+}
+
+/**
+ * Reads the response to an `articleLookupParams` query.
+ *
+ * @param titles - Titles that were looked up
+ * @param response - Parsed JSON response
+ * @returns Map of normalized title → check. Titles missing from the response count as missing pages
+ */
+export function parseArticleLookup(titles: string[], response: unknown): Map<string, ArticleCheck> {
+  const query = (response as ArticleLookupResponse | null)?.query ?? {}
+  const normalized = new Map((query.normalized ?? []).map(({ from, to }) => [normalizeTitle(from), normalizeTitle(to)]))
+  const redirects = new Map((query.redirects ?? []).map(({ from, to }) => [normalizeTitle(from), normalizeTitle(to)]))
+  const pages = new Map((query.pages ?? []).map((page) => [normalizeTitle(page.title), page]))
+  const checks = new Map<string, ArticleCheck>()
+
+  for (const title of titles) {
+    const key = normalizeTitle(title)
+    let canonical = normalized.get(key) ?? key
+    // Follow redirect chains, guarding against loops
+    const seen = new Set<string>()
+    while (redirects.has(canonical) && !seen.has(canonical)) {
+      seen.add(canonical)
+      canonical = redirects.get(canonical) as string
+    }
+
+    const page = pages.get(canonical)
+    checks.set(key, {
+      exists: Boolean(page && !page.missing && !page.invalid && (page.ns ?? 0) === 0),
+      disambiguation: page?.pageprops?.disambiguation !== undefined,
+      canonical,
+    })
+  }
+
+  return checks
+}
+
+export interface ArticleLookupOptions {
+  /** MediaWiki API endpoint, e.g. `https://en.wikipedia.org/w/api.php` */
+  apiUrl: string
+  /** Extra query parameters, such as `origin: '*'` for requests from the browser */
+  params?: Record<string, string>
+  /** Abort each request after this many milliseconds */
+  timeoutMs?: number
+}
+
+/**
+ * Looks titles up in batches of `MAX_TITLES_PER_LOOKUP` with `articleLookupParams` queries.
+ *
+ * @param titles - Article titles (blank and repeated titles are looked up once at most)
+ * @param options - Endpoint, extra query parameters and timeout
+ * @returns Map of normalized title → check (see `parseArticleLookup`)
+ * @throws Error if a request fails, times out or returns a non-OK response
+ */
+export async function fetchArticleChecks(
+  titles: string[],
+  { apiUrl, params = {}, timeoutMs }: ArticleLookupOptions
+): Promise<Map<string, ArticleCheck>> {
+  const checks = new Map<string, ArticleCheck>()
+  const unique = Array.from(new Set(titles.map((title) => title.trim()).filter(Boolean)))
+
+  for (let i = 0; i < unique.length; i += MAX_TITLES_PER_LOOKUP) {
+    const batch = unique.slice(i, i + MAX_TITLES_PER_LOOKUP)
+    const url = new URL(apiUrl)
+    Object.entries({ ...articleLookupParams(batch), ...params }).forEach(([key, value]) => url.searchParams.set(key, value))
+
+    const response = await fetch(url.toString(), timeoutMs ? { signal: AbortSignal.timeout(timeoutMs) } : undefined)
+    if (!response.ok) {
+      throw new Error(`Wikipedia article lookup failed (HTTP ${response.status})`)
+    }
+
+    parseArticleLookup(batch, await response.json()).forEach((check, title) => checks.set(title, check))
+  }
+
+  return checks
+}
+
+function describeIndex(index: number): string {
+  return index === 25 ? 'Starting article' : `Square ${index + 1}`
+}
+
+/**
+ * Checks a custom board: every title must be an existing article that isn't a disambiguation
+ * page, and no two titles may lead to the same article (directly or through a redirect).
+ *
+ * @param board - 25 grid titles followed by the starting article
+ * @param checks - Lookup results keyed by normalized title (see `parseArticleLookup`)
+ * @returns Problems in board order, at most one per title (empty when the board is valid)
+ */
+export function findBoardTitleIssues(board: string[], checks: Map<string, ArticleCheck>): BoardTitleIssue[] {
+  const issues: BoardTitleIssue[] = []
+  const firstIndexByArticle = new Map<string, number>()
+
+  board.forEach((rawTitle, index) => {
+    const title = rawTitle.trim()
+    const label = describeIndex(index)
+    const issue = (problem: BoardTitleProblem, message: string) => issues.push({ index, title, problem, message })
+
+    if (!title) {
+      issue('empty', `${label} is empty`)
+      return
+    }
+
+    const check = checks.get(normalizeTitle(title))
+    if (!check?.exists) {
+      issue('missing', `${label}: "${title}" is not a Wikipedia article`)
+      return
+    }
+    if (check.disambiguation) {
+      issue('disambiguation', `${label}: "${title}" is a disambiguation page`)
+      return
+    }
+
+    const firstIndex = firstIndexByArticle.get(check.canonical)
+    if (firstIndex !== undefined) {
+      issue('duplicate', `${label}: "${title}" is the same article as ${describeIndex(firstIndex).toLowerCase()}`)
+      return
+    }
+    firstIndexByArticle.set(check.canonical, index)
+  })
+
+  return issues
+}
@@ -0,0 +1,338 @@
+import type { GameEventType } from './gameEvents'
+import type { BoardListPage, GameType, GeneratedGame, LeaderboardEntry, LeaderboardPage, ListPopularGamesQuery } from './apiTypes'
+
+/**
+ * Request and response bodies and error codes shared by the API (`api/`) and the app (`app/`).
+ *
+ * Bodies described by the OpenAPI document are re-exported from the generated `./apiTypes`;
+ * the rest are declared here. Both sides import from this module only: the API checks its
+ * own types against it in `api/contracts.ts`, and routes check their response bodies with
+ * `satisfies Wire<...>`, so a field changed on one side fails the other side's type-check.
+ */
+
+export type {
+  ApiError,
+  BoardListPage,
+  BoardSummary,
+  CreateGameRequest,
+  GameEvent,
+  GameEventBatch,
+  GameEventBatchResult,
+  GamePlays,
+  GameType,
+  GeneratedGame,
+  GetLeaderboardQuery,
+  LeaderboardEntry,
+  LeaderboardPage,
+  LoggingResponse,
+  SubmitScoreRequest,
+  SubmittedEntry,
+} from './apiTypes'
+
+export const ERROR_CODES = [
+  'VALIDATION_ERROR',
+  'MISSING_FIELD',
+  'INVALID_VALUE',
+  'DATABASE_ERROR',
+  'NETWORK_ERROR',
+  'SERVER_ERROR',
+  'METHOD_NOT_ALLOWED',
+  'NOT_FOUND',
+  'BOARD_EXPIRED',
+  'INVALID_SESSION',
+  'UNAUTHORIZED',
+  'USERNAME_CLAIMED',
+] as const
+
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+/**
+ * What the API may hand to `JSON.stringify` to send a `T`: strings may still be objects that
+ * serialize to one, such as `Date` or a MongoDB `ObjectId`.
+ */
+export type Wire<T> = T extends string
+  ? T | { toJSON(): string }
+  : T extends readonly (infer Item)[]
+    ? Wire<Item>[]
+    : T extends object
+      ? { [K in keyof T]: Wire<T[K]> }
+      : T
+
+// Games
+
+/**
+ * GET /api/daily. Unlike board lookups, the daily board includes its play count.
+ */
+export interface DailyGame extends GeneratedGame {
+  timesPlayed: number
+}
+
+/**
+ * Optional title, creator name and description of a shared board (POST /api/games).
+ * The API sanitizes them with the username rules and leaves out blank fields.
+ */
+export type BoardDetails = Pick<GeneratedGame, 'title' | 'creatorName' | 'description'>
+
+export const BOARD_DETAILS_MAX_LENGTH: Record<keyof BoardDetails, number> = {
+  title: 80,
+  creatorName: 50,
+  description: 280,
+}
+
+/**
+ * GET /api/games/popular, /api/games/recent and /api/games/trending.
+ */
+export type BoardListSort = BoardListPage['sort']
+
+export type BoardListQuery = ListPopularGamesQuery
+
+// Sessions
+
+/**
+ * POST /api/sessions: a board (random games) or a game link (repeat and daily games).
+ */
+export interface StartSessionRequest {
+  /** 26 titles (25 grid + starting article) for a random game */
+  bingopediaGame?: string[]
+  /** Link of the generated game, for repeat and daily games */
+  generatedGame?: string
+}
+
+export interface StartSessionResponse {
+  /** Signed token to send with the leaderboard submission */
+  sessionToken: string
+  startedAt: string
+  expiresAt: string
+}
+
+// Leaderboards and players
+
+export interface BoardStats {
+  /** Number of leaderboard entries for the board */
+  finishers: number
+  /** Best (lowest) score, or null if nobody has finished the board */
+  bestScore: number | null
+  /** Median clicks, or null if nobody has finished the board */
+  medianClicks: number | null
+}
+
+/**
+ * GET /api/games/:link/leaderboard.
+ */
+export interface BoardLeaderboardPage extends LeaderboardPage {
+  link: string
+  stats: BoardStats
+}
+
+/**
+ * GET /api/usernames/:username.
+ */
+export interface UsernameStatus {
+  /** Sanitized username as stored by the server */
+  username: string
+  claimed: boolean
+  claimedAt?: string
+}
+
+export interface ScoreTrendPoint {
+  createdAt: string
+  score: number
+  gameType: GameType
+}
+
+export interface PlayerStats {
+  gamesPlayed: number
+  /** Best (lowest) score, or null if the player has no entries */
+  bestScore: number | null
+  averageClicks: number | null
+  /** Seconds */
+  averageTime: number | null
+  /** Legacy entries without a `gameType` count as random */
+  gameTypes: Record<GameType, number>
+  /** Oldest first */
+  scoreTrend: ScoreTrendPoint[]
+  /** Most found first */
+  topArticles: Array<{ title: string; count: number }>
+}
+
+/**
+ * GET /api/players/:username.
+ */
+export interface PlayerProfile {
+  username: string
+  stats: PlayerStats
+  /** Most recent entries, newest first */
+  entries: LeaderboardEntry[]
+}
+
+// Health
+
+/**
+ * GET /api/health.
+ */
+export interface HealthStatus {
+  status: 'ok'
+  uptimeSeconds: number
+}
+
+/**
+ * GET /api/ready (503 when `not_ready`).
+ */
+export interface ReadinessSummary {
+  status: 'ready' | 'degraded' | 'not_ready'
+  database: { ok: boolean; latencyMs: number }
+  /** Number of missing indexes */
+  indexes: { ok: boolean; missing: number }
+  /** Names of invalid settings */
+  config: { ok: boolean; invalid: string[] }
+}
+
+/**
+ * GET /api/version.
+ */
+export interface BuildInfo {
+  name: string
+  version: string
+  /** Git commit and branch of the deployment (Vercel only) */
+  commit: string | null
+  branch: string | null
+  environment: string
+}
+
+// Admin
+
+/**
+ * GET /api/admin/diagnostics.
+ */
+export interface Diagnostics {
+  build: BuildInfo
+  storage: 'mongo' | 'memory'
+  readiness: {
+    status: ReadinessSummary['status']
+    database: { ok: boolean; latencyMs: number; error?: string }
+    indexes: { ok: boolean; missing: Array<{ collection: string; key: Record<string, number> }> }
+    config: { ok: boolean; checks: Array<{ name: string; required: boolean; ok: boolean; error?: string }> }
+  }
+  /** Null when the database is unreachable */
+  generatedGames: { total: number; recentLinks: Array<{ link: string; createdAt: string }> } | null
+}
+
+export type ModerationAction = 'hide' | 'unhide' | 'flag' | 'unflag' | 'annotate'
+
+export interface EntryModeration {
+  hidden?: boolean
+  flagged?: boolean
+  note?: string
+  updatedAt?: string
+}
+
+/**
+ * POST /api/admin/moderation.
+ */
+export interface ModerationRequest {
+  entryId: string
+  action: ModerationAction
+  /** Annotate only; an empty note clears it */
+  note?: string
+  reason?: string
+  actor?: string
+}
+
+export interface ModerationResponse {
+  entryId: string
+  moderation: EntryModeration
+}
+
+export interface ModerationAuditRecord {
+  _id?: string
+  entryId: string
+  action: ModerationAction
+  actor?: string
+  reason?: string
+  before: EntryModeration
+  after: EntryModeration
+  createdAt: string
+}
+
+/**
+ * GET /api/admin/moderation: `{ entries }` with `view=flagged`, otherwise `{ audit }`.
+ */
+export type ModerationListResponse =
+  | { entries: Array<LeaderboardEntry & { moderation?: EntryModeration }> }
+  | { audit: ModerationAuditRecord[] }
+
+export type BoardAdminAction = 'cleanup' | 'pin' | 'unpin'
+
+/**
+ * POST /api/admin/boards. `link` is required to pin or unpin a board.
+ */
+export interface BoardAdminRequest {
+  action: BoardAdminAction
+  link?: string
+}
+
+/**
+ * GET /api/admin/boards (a dry run) and POST /api/admin/boards with `action: 'cleanup'`.
+ */
+export interface BoardCleanupReport {
+  retentionDays: number
+  /** False for a dry run */
+  applied: boolean
+  /** Expired boards deleted (or that would be), oldest first */
+  boards: Array<{ link: string; source?: GeneratedGame['source']; createdAt: string; expiresAt?: string }>
+  /** Expired boards kept because they have leaderboard entries */
+  kept: string[]
+}
+
+/**
+ * POST /api/admin/boards with `action: 'pin'` or `'unpin'`.
+ */
+export interface BoardPinResponse {
+  link: string
+  pinned: boolean
+}
+
+/**
+ * Counts for one day or week of GET /api/stats.
+ */
+export interface UsagePeriod {
+  /** First day of the period (`YYYY-MM-DD`, UTC). Weeks start on Monday */
+  period: string
+  /** `game_started` plus `replay_started` events */
+  started: number
+  /** `game_finished` events (games won) */
+  finished: number
+  /** Leaderboard entries submitted */
+  submitted: number
+  /** Events by type, including types with no events */
+  events: Record<GameEventType, number>
+  /** Leaderboard entries by game type. Legacy entries without a `gameType` count as random */
+  submissions: Record<GameType, number>
+}
+
+/**
+ * GET /api/stats (a `view` query parameter returns only `range` and that view).
+ */
+export interface UsageStats {
+  /** First and last day of the range (`YYYY-MM-DD`, UTC, inclusive) */
+  range: { from: string; to: string }
+  /** Rates are rounded to three decimal places and null when the previous step is empty */
+  funnel: {
+    started: number
+    finished: number
+    submitted: number
+    completionRate: number | null
+    submissionRate: number | null
+  }
+  /** Shared games are leaderboard entries for a repeat (shared link) board */
+  sharing: {
+    sharedGames: number
+    randomGames: number
+    dailyGames: number
+    sharedToRandomRatio: number | null
+    shareLinksCopied: number
+    replaysStarted: number
+  }
+  daily: UsagePeriod[]
+  weekly: UsagePeriod[]
+}
@@ -0,0 +1,125 @@
+/**
+ * Analytics events sent to `POST /api/logging`, shared by the app (`logEvent`) and the API
+ * (the `GameEvent` schema in `api/openapi.ts` is built from this registry) so both sides agree
+ * on which events exist and what each one carries.
+ *
+ * Every event declares its required and optional fields. Fields travel at the top level of
+ * each event next to `event` and `timestamp`; any field not declared for the event is
+ * rejected. Events are sent one at a time or in batches of up to `MAX_EVENT_BATCH_SIZE`.
+ */
+
+/**
+ * Type of a field value: a primitive, or one of a fixed set of strings.
+ */
+export type FieldType = 'string' | 'number' | 'boolean' | readonly string[]
+
+export interface EventSchema {
+  required: Record<string, FieldType>
+  optional: Record<string, FieldType>
+}
+
+const GAME_TYPES = ['random', 'repeat', 'daily'] as const
+
+/**
+ * Maximum length of string fields.
+ */
+export const MAX_EVENT_STRING_LENGTH = 300
+
+/**
+ * Maximum number of events in one batch (`{ events: [...] }`) request.
+ */
+export const MAX_EVENT_BATCH_SIZE = 50
+
+export const GAME_EVENT_SCHEMAS = {
+  /** User started a game from the start screen */
+  game_started: {
+    required: {},
+    optional: { gameType: GAME_TYPES, hashedId: 'string' },
+  },
+  /** A shareable game link was created */
+  game_generated: {
+    required: { hashedId: 'string' },
+    optional: {},
+  },
+  /** Game was won, whether or not the score is submitted */
+  game_finished: {
+    required: { score: 'number', time: 'number', clicks: 'number' },
+    optional: { gameType: GAME_TYPES, hashedId: 'string' },
+  },
+  /** Player navigated to an article (link or history click) */
+  article_navigated: {
+    required: { title: 'string', clicks: 'number' },
+    optional: { hashedId: 'string' },
+  },
+  /** Navigation matched a square on the board */
+  square_found: {
+    required: { title: 'string', clicks: 'number', squaresFound: 'number' },
+    optional: { hashedId: 'string' },
+  },
+  /** An article failed to load and was replaced */
+  article_load_failed: {
+    required: { title: 'string' },
+    optional: { hashedId: 'string' },
+  },
+  /** Player left a game before winning it */
+  game_abandoned: {
+    required: { clicks: 'number', time: 'number', squaresFound: 'number' },
+    optional: { gameType: GAME_TYPES, hashedId: 'string' },
+  },
+  /** A link to the current board was copied */
+  share_link_copied: {
+    required: { linkType: ['seed', 'game'] },
+    optional: { hashedId: 'string' },
+  },
+  /** Player replayed a game from a leaderboard */
+  replay_started: {
+    required: {},
+    optional: { gameType: GAME_TYPES, hashedId: 'string' },
+  },
+} as const satisfies Record<string, EventSchema>
+
+type Schemas = typeof GAME_EVENT_SCHEMAS
+
+export type GameEventType = keyof Schemas
+
+type FieldValue<T> = T extends 'string'
+  ? string
+  : T extends 'number'
+    ? number
+    : T extends 'boolean'
+      ? boolean
+      : T extends readonly (infer V)[]
+        ? V
+        : never
+
+/**
+ * Fields carried by one event type (everything except `event` and `timestamp`).
+ */
+export type GameEventFields<E extends GameEventType> = {
+  -readonly [K in keyof Schemas[E]['required']]: FieldValue<Schemas[E]['required'][K]>
+} & {
+  -readonly [K in keyof Schemas[E]['optional']]?: FieldValue<Schemas[E]['optional'][K]>
+}
+
+/**
+ * Any valid event, discriminated by `event`.
+ */
+export type GameEvent = {
+  [E in GameEventType]: { event: E } & GameEventFields<E>
+}[GameEventType]
+
+/**
+ * Outcome for one event of a batch request, in request order. Rejected events are not
+ * stored and should not be retried.
+ */
+export type GameEventBatchResult =
+  | { index: number; accepted: true }
+  | { index: number; accepted: false; error: string; field?: string }
+
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key)
+
+export const GAME_EVENT_TYPES = Object.keys(GAME_EVENT_SCHEMAS) as GameEventType[]
+
+export function isGameEventType(value: unknown): value is GameEventType {
+  return typeof value === 'string' && hasOwn(GAME_EVENT_SCHEMAS, value)
+}
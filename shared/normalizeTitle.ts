@@ -0,0 +1,23 @@
+/**
+ * Normalizes a Wikipedia article title for consistent comparison.
+ * 
+ * Normalization steps:
+ * - Trims leading/trailing whitespace
+ * - Replaces all whitespace with underscores
+ * - Collapses multiple underscores into single underscores
+ * - Converts to lowercase
+ * 
+ * This ensures titles like "New York", "New_York", and "new york" all match.
+ * Used by both the app (match detection) and the API (bingo verification).
+ * 
+ * @param rawTitle - The raw article title (may be null/undefined)
+ * @returns Normalized title string (empty string if input is falsy)
+ */
+export function normalizeTitle(rawTitle: string | null | undefined): string {
+  if (!rawTitle) return ''
+  return rawTitle
+    .trim()
+    .replace(/\s+/g, '_')
+    .replace(/_+/g, '_')
+    .toLowerCase()
+}
@@ -0,0 +1,247 @@
+/**
+ * Profanity filtering for usernames, shared by the API (submission) and the app
+ * (`WinModal` live validation) so both sides agree on what is blocked.
+ *
+ * Text is normalized before matching:
+ * - Unicode compatibility forms and accents are folded (`ｆ`, `ü` → `f`, `u`)
+ * - Common homoglyphs are mapped to Latin letters (Cyrillic `с`, Greek `ο`, ...)
+ * - Digit and symbol substitutions are undone (`5h1t`, `@$$`)
+ * - Zero-width characters are ignored, repeated letters match (`fuuuck`) and
+ *   letters spaced out one by one still match (`f u c k`, `f.u.c.k`)
+ *
+ * Matches are mapped back to the original text, so masking keeps everything else intact.
+ */
+
+/**
+ * How a blocked word is matched.
+ * - `substring`: anywhere, including inside other words (for words with no innocent uses)
+ * - `word`: only as a whole word, so `class` does not match `ass`. Word boundaries are
+ *   non-letters and lower-to-upper case changes (`BigAss`)
+ */
+export type BlockedWordMatch = 'substring' | 'word'
+
+export interface BlockedWord {
+  word: string
+  match: BlockedWordMatch
+}
+
+export interface ProfanityFilterConfig {
+  words: BlockedWord[]
+  /**
+   * Innocent words that contain blocked words (e.g. `shiitake`). A match that lies
+   * entirely inside an allowlisted word is ignored.
+   */
+  allowlist: string[]
+}
+
+/**
+ * - `mask`: replace blocked words with asterisks
+ * - `reject`: leave the text unchanged and report it as rejected
+ */
+export type ProfanityMode = 'mask' | 'reject'
+
+export interface ProfanityResult {
+  /**
+   * Masked text in `mask` mode, the original text in `reject` mode.
+   */
+  text: string
+  /**
+   * Blocked words that were found (each listed once).
+   */
+  matches: string[]
+  /**
+   * True in `reject` mode when a blocked word was found.
+   */
+  rejected: boolean
+}
+
+export interface ProfanityFilter {
+  /**
+   * Returns the blocked words found in the text (each listed once).
+   */
+  findMatches(text: string): string[]
+  mask(text: string): string
+  filter(text: string, mode: ProfanityMode): ProfanityResult
+}
+
+export const DEFAULT_PROFANITY_CONFIG: ProfanityFilterConfig = {
+  words: [
+    ...['fuck', 'shit', 'bitch', 'cunt', 'nigger', 'nigga', 'faggot', 'asshole', 'pussy', 'whore', 'slut', 'wanker', 'twat', 'bastard'].map(
+      (word): BlockedWord => ({ word, match: 'substring' }),
+    ),
+    ...['ass', 'fag', 'dick', 'cock', 'tit', 'tits', 'piss', 'rape', 'rapist', 'porn', 'anal'].map(
+      (word): BlockedWord => ({ word, match: 'word' }),
+    ),
+  ],
+  allowlist: ['shiitake', 'scunthorpe', 'cockpit', 'cocktail', 'hancock', 'peacock', 'therapist', 'bassist', 'assassin', 'dickens', 'titan', 'title'],
+}
+
+/**
+ * Look-alike characters from other scripts, mapped to the Latin letter they imitate.
+ */
+const HOMOGLYPHS: Record<string, string> = {
+  а: 'a', в: 'b', е: 'e', ё: 'e', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p', с: 'c', т: 't', у: 'y', х: 'x', і: 'i', ј: 'j', ѕ: 's', ԁ: 'd', ɡ: 'g',
+  α: 'a', β: 'b', ε: 'e', η: 'n', ι: 'i', κ: 'k', ν: 'v', ο: 'o', ρ: 'p', τ: 't', υ: 'u', χ: 'x',
+  ս: 'u', օ: 'o', ց: 'g', ı: 'i', ɑ: 'a', ʏ: 'y',
+}
+
+/**
+ * Digits and symbols commonly used in place of letters.
+ */
+const SUBSTITUTIONS: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'i', '+': 't', '€': 'e',
+}
+
+/**
+ * Characters that separate spaced-out letters (`f.u.c.k`).
+ */
+const SEPARATOR_CLASS = '[\\s._\\-*~,:;\'"/\\\\]'
+
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF\u00AD]/u
+
+/**
+ * One character of normalized text, pointing back at the code point it came from.
+ */
+interface NormalizedChar {
+  char: string
+  /**
+   * Index of the source code point in the original text.
+   */
+  source: number
+}
+
+/**
+ * Normalizes text for matching while keeping track of where each character came from.
+ *
+ * @param codePoints - Original text split into code points
+ * @returns Normalized characters (lowercase Latin letters where possible)
+ */
+function normalize(codePoints: string[]): NormalizedChar[] {
+  const normalized: NormalizedChar[] = []
+
+  codePoints.forEach((codePoint, source) => {
+    if (ZERO_WIDTH.test(codePoint)) return
+
+    const folded = codePoint.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+    for (const char of folded) {
+      normalized.push({ char: HOMOGLYPHS[char] ?? SUBSTITUTIONS[char] ?? char, source })
+    }
+  })
+
+  return normalized
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Builds the patterns for one word: letters written together (repeats allowed) or
+ * spaced out one by one.
+ */
+function buildPattern({ word, match }: BlockedWord): RegExp {
+  const letters = [...word.toLowerCase()].map(escapeRegExp)
+  // Inside other words the last letter repeats lazily, so "shitty" masks as "****ty"
+  const lazy = match === 'substring' ? '?' : ''
+  const compact = letters.map((letter, index) => `${letter}+${index === letters.length - 1 ? lazy : ''}`).join('')
+  const spaced = letters.join(`${SEPARATOR_CLASS}{1,3}`)
+  return new RegExp(`${compact}|${spaced}`, 'gu')
+}
+
+const isLetter = (value: string) => /\p{L}/u.test(value)
+const isLower = (value: string) => value !== value.toUpperCase() && value === value.toLowerCase()
+const isUpper = (value: string) => value !== value.toLowerCase() && value === value.toUpperCase()
+
+/**
+ * Creates a profanity filter.
+ *
+ * @param config - Blocked words and allowlist (defaults to `DEFAULT_PROFANITY_CONFIG`)
+ * @returns Filter with `findMatches`, `mask` and `filter` methods
+ *
+ * @example
+ * ```typescript
+ * const profanity = createProfanityFilter()
+ * profanity.mask('Sh1tHead')           // '****Head'
+ * profanity.filter('ClassAct', 'reject') // { text: 'ClassAct', matches: [], rejected: false }
+ * ```
+ */
+export function createProfanityFilter(config: ProfanityFilterConfig = DEFAULT_PROFANITY_CONFIG): ProfanityFilter {
+  const patterns = config.words.map((blocked) => ({ ...blocked, pattern: buildPattern(blocked) }))
+  const allowlist = config.allowlist.map((word) => word.toLowerCase())
+
+  /**
+   * Finds blocked word matches as code point ranges `[start, end)` of the original text.
+   */
+  const findRanges = (codePoints: string[]): Array<{ word: string; start: number; end: number }> => {
+    const chars = normalize(codePoints)
+    const text = chars.map((c) => c.char).join('')
+    // Normalized characters are single UTF-16 units except for rare astral characters,
+    // so map string offsets back to character positions
+    const offsets: number[] = []
+    chars.forEach((c, index) => {
+      for (let i = 0; i < c.char.length; i += 1) offsets.push(index)
+    })
+
+    const allowed: Array<[number, number]> = []
+    for (const word of allowlist) {
+      let from = text.indexOf(word)
+      while (from !== -1) {
+        allowed.push([from, from + word.length])
+        from = text.indexOf(word, from + 1)
+      }
+    }
+
+    const ranges: Array<{ word: string; start: number; end: number }> = []
+    for (const { word, match, pattern } of patterns) {
+      for (const found of text.matchAll(pattern)) {
+        const start = found.index ?? 0
+        const end = start + found[0].length
+        if (allowed.some(([from, to]) => from <= start && end <= to)) continue
+
+        const first = chars[offsets[start]]
+        const last = chars[offsets[end - 1]]
+
+        if (match === 'word') {
+          const before = codePoints[first.source - 1]
+          const after = codePoints[last.source + 1]
+          const startsWord = !before || !isLetter(before) || (isLower(before) && isUpper(codePoints[first.source]))
+          const endsWord = !after || !isLetter(after) || (isLower(codePoints[last.source]) && isUpper(after))
+          if (!startsWord || !endsWord) continue
+        }
+
+        ranges.push({ word, start: first.source, end: last.source + 1 })
+      }
+    }
+
+    return ranges
+  }
+
+  const findMatches = (text: string) => [...new Set(findRanges([...text]).map((range) => range.word))]
+
+  const mask = (text: string) => {
+    const codePoints = [...text]
+    for (const { start, end } of findRanges(codePoints)) {
+      for (let i = start; i < end; i += 1) {
+        // Keep separators readable in spaced-out words ("f u c k" → "* * * *")
+        if (!/^[\s.\-_]$/u.test(codePoints[i])) codePoints[i] = '*'
+      }
+    }
+    return codePoints.join('')
+  }
+
+  const filter = (text: string, mode: ProfanityMode): ProfanityResult => {
+    const matches = findMatches(text)
+    if (mode === 'reject') {
+      return { text, matches, rejected: matches.length > 0 }
+    }
+    return { text: matches.length > 0 ? mask(text) : text, matches, rejected: false }
+  }
+
+  return { findMatches, mask, filter }
+}
+
+/**
+ * Filter using `DEFAULT_PROFANITY_CONFIG`.
+ */
+export const defaultProfanityFilter = createProfanityFilter()
@@ -0,0 +1,39 @@
+/**
+ * Returns a float in [0, 1), like `Math.random`.
+ */
+export type RandomSource = () => number
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ *
+ * @param value - String to hash
+ * @returns 32-bit hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Creates a deterministic random source (mulberry32) from a string seed.
+ *
+ * The same seed always produces the same sequence, in the browser and in Node,
+ * so a board generated from a seed can be regenerated anywhere.
+ *
+ * @param seed - Any string (e.g., `daily:2024-01-31`)
+ * @returns Random source returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  let state = hashString(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import type { Db, Document } from 'mongodb';
+import { parseAuditArgs } from '../cli/audit';
+import {
+  AUDIT_CHECKS,
+  deprecatedBingoSquares,
+  historyBoardMismatch,
+  lowFoundTags,
+  missingGeneratedGame,
+  orphanedGeneratedGame,
+  scoreMismatch,
+} from '../audit/checks';
+import { formatAuditTable, runAudit } from '../audit/runner';
+import type { AuditContext, AuditFinding } from '../audit/types';
+
+const bingoSquares = Array.from({ length: 25 }, (_, i) => `Square_${i}`);
+const board = [...bingoSquares, 'Start'];
+
+function createContext(): AuditContext {
+  return { gameLinks: new Set(['game1']), entryLinks: new Set(['entry1']) };
+}
+
+/**
+ * Minimal `Db` over in-memory collections, supporting the calls `runAudit` makes.
+ * Filters are ignored.
+ */
+function createDb(collections: Record<string, Document[]>): { db: Db; updates: Document[] } {
+  const updates: Document[] = [];
+  const collection = (name: string) => ({
+    distinct: async (field: string) => (collections[name] ?? []).map((doc) => doc[field]),
+    find: () => ({
+      batchSize: () => ({
+        async *[Symbol.asyncIterator]() {
+          yield* collections[name] ?? [];
+        },
+      }),
+    }),
+    bulkWrite: async (operations: { updateOne: Document }[]) => {
+      updates.push(...operations.map((operation) => operation.updateOne));
+    },
+  });
+  return { db: { collection } as unknown as Db, updates };
+}
+
+describe('audit checks', () => {
+  it('flags histories with too few found tags', () => {
+    const history = ['Start', '[Found] Square_0', '[Found] Square_1'];
+    expect(lowFoundTags.inspect({ history }, createContext())).toEqual({ message: 'Only 2 found tags in 3 history entries' });
+    expect(lowFoundTags.inspect({ history: [] }, createContext())).toBeNull();
+  });
+
+  it('flags found tags off the board and untagged board squares', async () => {
+    const finding = await historyBoardMismatch.inspect(
+      { bingopediaGame: board, history: ['Start', '[Found] Elsewhere', 'Square_3', '[Found] Square_4'] },
+      createContext()
+    );
+    expect(finding?.message).toBe('"Elsewhere" is tagged but not on the board; "Square_3" is on the board but never tagged');
+    expect(
+      await historyBoardMismatch.inspect({ bingopediaGame: board, history: ['Start', '[Found] Square_3', 'Square_3'] }, createContext())
+    ).toBeNull();
+  });
+
+  it('resolves redirects when a resolver is available', async () => {
+    const context = { ...createContext(), resolveTitles: async () => new Map([['redirect', 'square_0']]) };
+    expect(await historyBoardMismatch.inspect({ bingopediaGame: board, history: ['Start', '[Found] Redirect'] }, context)).toBeNull();
+  });
+
+  it('assigns an unused generatedGame to entries without one', () => {
+    const context = createContext();
+    const finding = missingGeneratedGame.inspect({}, context) as AuditFinding;
+    const generatedGame = finding.fix?.set?.generatedGame as string;
+    expect(generatedGame).toMatch(/^[A-Za-z0-9_-]{16}$/);
+    expect(context.entryLinks.has(generatedGame)).toBe(true);
+    expect(missingGeneratedGame.inspect({ generatedGame: 'entry1' }, context)).toBeNull();
+  });
+
+  it('flags leaderboard games without an entry', () => {
+    expect(orphanedGeneratedGame.inspect({ link: 'lost', source: 'leaderboard' }, createContext())).not.toBeNull();
+    expect(orphanedGeneratedGame.inspect({ link: 'entry1', source: 'leaderboard' }, createContext())).toBeNull();
+    expect(orphanedGeneratedGame.inspect({ link: 'lost', source: 'generated' }, createContext())).toBeNull();
+  });
+
+  it('converts or removes deprecated bingoSquares', () => {
+    expect(deprecatedBingoSquares.inspect({ bingoSquares, bingopediaGame: board }, createContext())).toMatchObject({
+      fix: { unset: ['bingoSquares'] },
+    });
+    expect(deprecatedBingoSquares.inspect({ bingoSquares, history: ['Start'] }, createContext())).toMatchObject({
+      fix: { set: { bingopediaGame: board }, unset: ['bingoSquares'] },
+    });
+    expect(deprecatedBingoSquares.inspect({ bingoSquares: [] }, createContext())).not.toHaveProperty('fix');
+  });
+
+  it('recalculates scores that are not time × clicks', () => {
+    expect(scoreMismatch.inspect({ score: 100, time: 30, clicks: 4 }, createContext())).toEqual({
+      message: 'Score 100 should be 120 (30 × 4)',
+      fix: { set: { score: 120 } },
+    });
+    expect(scoreMismatch.inspect({ score: 120, time: 30, clicks: 4 }, createContext())).toBeNull();
+  });
+});
+
+describe('runAudit', () => {
+  const collections = () => ({
+    leaderboard: [
+      { _id: 'a', score: 10, time: 5, clicks: 2, generatedGame: 'g1' },
+      { _id: 'b', score: 11, time: 5, clicks: 2, bingoSquares, bingopediaGame: board },
+    ],
+    'generated-games': [{ _id: 'x', link: 'orphan', source: 'leaderboard' }],
+  });
+  const checks = [missingGeneratedGame, orphanedGeneratedGame, deprecatedBingoSquares, scoreMismatch];
+
+  it('reports issues per check without writing', async () => {
+    const { db, updates } = createDb(collections());
+    const report = await runAudit(db, { checks, fix: false, batchSize: 10 });
+
+    expect(report.scanned).toEqual({ leaderboard: 2, 'generated-games': 1 });
+    expect(report.counts).toEqual({
+      'missing-generated-game': 1,
+      'orphaned-generated-game': 1,
+      'deprecated-bingo-squares': 1,
+      'score-mismatch': 1,
+    });
+    expect(report.fixed).toBe(0);
+    expect(updates).toEqual([]);
+    expect(formatAuditTable(report)).toContain('score-mismatch            leaderboard      b   fixable  Score 11 should be 10');
+  });
+
+  it('merges fixes for a document into one update', async () => {
+    const { db, updates } = createDb(collections());
+    const report = await runAudit(db, { checks, fix: true, batchSize: 1 });
+
+    expect(report.fixed).toBe(3);
+    expect(updates).toEqual([
+      {
+        filter: { _id: 'b' },
+        update: { $set: { generatedGame: expect.any(String), score: 10 }, $unset: { bingoSquares: '' } },
+      },
+    ]);
+    expect(report.issues.find((issue) => issue.check === 'orphaned-generated-game')).toMatchObject({ fixed: false });
+  });
+});
+
+describe('parseAuditArgs', () => {
+  it('defaults to every check as a table', () => {
+    expect(parseAuditArgs([])).toEqual({ checks: AUDIT_CHECKS, format: 'table', fix: false, redirects: false, batchSize: 500 });
+  });
+
+  it('parses checks, format and flags', () => {
+    expect(parseAuditArgs(['--checks', 'score-mismatch,low-found-tags', '--format', 'json', '--fix'])).toEqual({
+      checks: [lowFoundTags, scoreMismatch],
+      format: 'json',
+      fix: true,
+      redirects: false,
+      batchSize: 500,
+    });
+  });
+
+  it('rejects invalid arguments', () => {
+    expect(() => parseAuditArgs(['--checks', 'nope'])).toThrow('Unknown check: nope');
+    expect(() => parseAuditArgs(['--format', 'csv'])).toThrow('--format must be table or json');
+    expect(() => parseAuditArgs(['scan'])).toThrow('Unexpected argument: scan');
+  });
+});
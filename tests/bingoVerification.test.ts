@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { verifyBingo } from '../api/bingoVerification';
+import type { TitleResolver } from '../api/wikipedia';
+
+const board = [...Array.from({ length: 25 }, (_, i) => `Article ${i}`), 'Starting Article'];
+
+const identityResolver: TitleResolver = async (titles) =>
+  new Map(titles.map((title) => [title.toLowerCase().replace(/\s+/g, '_'), title.toLowerCase().replace(/\s+/g, '_')]));
+
+describe('verifyBingo', () => {
+  it('accepts a completed row', async () => {
+    const history = ['Starting_Article', 'Foo', '[Found] Article_0', '[Found] Article_1', '[Found] Article_2', '[Found] Article_3', '[Found] Article_4'];
+    const result = await verifyBingo(board, history, identityResolver);
+    expect(result.error).toBeUndefined();
+    expect(result.winningCells).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('accepts a completed diagonal', async () => {
+    const history = ['Starting Article', '[Found] Article 0', '[Found] Article 6', '[Found] Article 12', '[Found] Article 18', '[Found] Article 24'];
+    const result = await verifyBingo(board, history, identityResolver);
+    expect(result.winningCells).toEqual([0, 6, 12, 18, 24]);
+  });
+
+  it('rejects history that does not begin with the starting article', async () => {
+    const history = ['Article 7', '[Found] Article 0', '[Found] Article 1', '[Found] Article 2', '[Found] Article 3', '[Found] Article 4'];
+    const result = await verifyBingo(board, history, identityResolver);
+    expect(result.error).toBe('History must begin with the starting article');
+  });
+
+  it('rejects found articles that are not on the board', async () => {
+    const history = ['Starting Article', '[Found] Article 0', '[Found] Not On Board'];
+    const result = await verifyBingo(board, history, identityResolver);
+    expect(result.error).toBe('Found article "Not On Board" is not on the board');
+  });
+
+  it('rejects found cells that do not complete a line', async () => {
+    const history = ['Starting Article', '[Found] Article 0', '[Found] Article 1', '[Found] Article 2', '[Found] Article 3', '[Found] Article 9'];
+    const result = await verifyBingo(board, history, identityResolver);
+    expect(result.error).toBe('Found articles do not complete a row, column or diagonal');
+  });
+
+  it('matches found articles reached through redirects', async () => {
+    const redirectBoard = [...board];
+    redirectBoard[0] = 'LucasArts';
+    const resolver: TitleResolver = vi.fn(async (titles: string[]) => {
+      const map = await identityResolver(titles);
+      map.set('lucasarts', 'lucasfilm_games');
+      return map;
+    });
+    const history = ['Starting Article', '[Found] Lucasfilm_Games', '[Found] Article 1', '[Found] Article 2', '[Found] Article 3', '[Found] Article 4'];
+
+    const result = await verifyBingo(redirectBoard, history, resolver);
+    expect(result.error).toBeUndefined();
+    expect(result.winningCells).toEqual([0, 1, 2, 3, 4]);
+    expect(resolver).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not resolve redirects when every found article matches directly', async () => {
+    const resolver = vi.fn(identityResolver);
+    const history = ['Starting Article', '[Found] Article 0', '[Found] Article 5', '[Found] Article 10', '[Found] Article 15', '[Found] Article 20'];
+    await verifyBingo(board, history, resolver);
+    expect(resolver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRandomSeed,
+  formatBoardSeed,
+  generateBoardFromSeed,
+  getCuratedDataVersion,
+  parseBoardSeed,
+} from '../shared/boardSeed';
+import type { CuratedArticlesPayload } from '../shared/curatedArticles';
+
+const payload: CuratedArticlesPayload = {
+  generatedAt: '2024-01-01T00:00:00Z',
+  totalCategories: 30,
+  totalArticles: 90,
+  groups: {},
+  categories: Array.from({ length: 30 }, (_, c) => ({
+    name: `Category ${c}`,
+    articleCount: 3,
+    articles: Array.from({ length: 3 }, (_, a) => ({ title: `Article ${c}-${a}` })),
+  })),
+};
+
+const dataVersion = getCuratedDataVersion(payload);
+
+describe('board seeds', () => {
+  it('derives the data version from the generation time', () => {
+    expect(dataVersion).toBe((Date.parse('2024-01-01T00:00:00Z') / 1000).toString(36));
+    expect(getCuratedDataVersion({ generatedAt: '2024-01-02T00:00:00Z' })).not.toBe(dataVersion);
+    expect(() => getCuratedDataVersion({ generatedAt: 'soon' })).toThrow('invalid generatedAt');
+  });
+
+  it('creates 8-character base-36 seeds', () => {
+    expect(createRandomSeed()).toMatch(/^[0-9a-z]{8}$/);
+  });
+
+  it('round-trips formatted seeds', () => {
+    const boardSeed = { dataVersion, seed: 'abc123xy' };
+    expect(parseBoardSeed(formatBoardSeed(boardSeed))).toEqual(boardSeed);
+    expect(parseBoardSeed(` ${formatBoardSeed(boardSeed).toUpperCase()} `)).toEqual(boardSeed);
+  });
+
+  it('rejects malformed seeds', () => {
+    expect(parseBoardSeed('abc123xy')).toBeNull();
+    expect(parseBoardSeed('v1-abc_123')).toBeNull();
+    expect(parseBoardSeed('')).toBeNull();
+  });
+
+  it('reproduces the same board from the same seed', () => {
+    const first = generateBoardFromSeed(payload, { dataVersion, seed: 'abc123xy' });
+    const second = generateBoardFromSeed(payload, { dataVersion, seed: 'abc123xy' });
+    const other = generateBoardFromSeed(payload, { dataVersion, seed: 'zzz999aa' });
+
+    expect(first.gridArticles).toHaveLength(25);
+    expect(second).toEqual(first);
+    expect(other).not.toEqual(first);
+  });
+
+  it('rejects seeds from a different curated data version', () => {
+    expect(() => generateBoardFromSeed(payload, { dataVersion: 'old', seed: 'abc123xy' })).toThrow(
+      'different version of the article list'
+    );
+  });
+});
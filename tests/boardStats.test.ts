@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBoardStats } from '../api/boardStats';
+
+describe('calculateBoardStats', () => {
+  it('returns empty stats for a board nobody has finished', () => {
+    expect(calculateBoardStats([])).toEqual({ finishers: 0, bestScore: null, medianClicks: null });
+  });
+
+  it('uses the lowest score and the middle clicks value', () => {
+    const stats = calculateBoardStats([
+      { score: 900, clicks: 30 },
+      { score: 400, clicks: 12 },
+      { score: 650, clicks: 8 },
+    ]);
+    expect(stats).toEqual({ finishers: 3, bestScore: 400, medianClicks: 12 });
+  });
+
+  it('averages the two middle clicks values for an even number of finishers', () => {
+    const stats = calculateBoardStats([
+      { score: 900, clicks: 7 },
+      { score: 700, clicks: 13 },
+    ]);
+    expect(stats.medianClicks).toBe(10);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { articleLookupParams, fetchArticleChecks, findBoardTitleIssues, parseArticleLookup } from '../shared/boardValidation';
+
+const board = [...Array.from({ length: 25 }, (_, i) => `Article ${i}`), 'Starting Article'];
+
+function lookup(titles: string[], query: Record<string, unknown>) {
+  return parseArticleLookup(titles, { query });
+}
+
+describe('articleLookupParams', () => {
+  it('asks for redirects and disambiguation page props', () => {
+    expect(articleLookupParams(['New_York', ' Paris '])).toMatchObject({
+      redirects: '1',
+      prop: 'pageprops',
+      ppprop: 'disambiguation',
+      titles: 'New York|Paris',
+    });
+  });
+});
+
+describe('parseArticleLookup', () => {
+  it('follows normalization and redirects to the page', () => {
+    const checks = lookup(['lucasArts', 'Mercury', 'Nowhere Page'], {
+      normalized: [{ from: 'lucasArts', to: 'LucasArts' }],
+      redirects: [{ from: 'LucasArts', to: 'Lucasfilm Games' }],
+      pages: [
+        { title: 'Lucasfilm Games', ns: 0 },
+        { title: 'Mercury', ns: 0, pageprops: { disambiguation: '' } },
+        { title: 'Nowhere Page', ns: 0, missing: true },
+      ],
+    });
+
+    expect(checks.get('lucasarts')).toEqual({ exists: true, disambiguation: false, canonical: 'lucasfilm_games' });
+    expect(checks.get('mercury')).toEqual({ exists: true, disambiguation: true, canonical: 'mercury' });
+    expect(checks.get('nowhere_page')).toMatchObject({ exists: false });
+  });
+
+  it('treats pages outside the article namespace as missing', () => {
+    const checks = lookup(['Category:Birds'], { pages: [{ title: 'Category:Birds', ns: 14 }] });
+    expect(checks.get('category:birds')).toMatchObject({ exists: false });
+  });
+});
+
+describe('fetchArticleChecks', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('looks titles up in batches of 50 with the extra parameters', async () => {
+    const fetchMock = vi.fn(async (url: string) => {
+      const titles = new URL(url).searchParams.get('titles')!.split('|');
+      return new Response(JSON.stringify({ query: { pages: titles.map((title) => ({ title, ns: 0 })) } }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const titles = Array.from({ length: 60 }, (_, i) => `Article ${i}`);
+
+    const checks = await fetchArticleChecks([...titles, 'Article 0', ' '], {
+      apiUrl: 'https://en.wikipedia.org/w/api.php',
+      params: { origin: '*' },
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('origin')).toBe('*');
+    expect(checks.size).toBe(60);
+    expect(checks.get('article_59')).toEqual({ exists: true, disambiguation: false, canonical: 'article_59' });
+  });
+
+  it('throws when Wikipedia answers with an error', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503 })));
+    await expect(fetchArticleChecks(['Moon'], { apiUrl: 'https://en.wikipedia.org/w/api.php' })).rejects.toThrow(
+      'Wikipedia article lookup failed (HTTP 503)'
+    );
+  });
+});
+
+describe('findBoardTitleIssues', () => {
+  const pages = board.map((title) => ({ title, ns: 0 }));
+
+  it('accepts a board of distinct articles', () => {
+    expect(findBoardTitleIssues(board, lookup(board, { pages }))).toEqual([]);
+  });
+
+  it('reports empty, missing, disambiguation and duplicate titles', () => {
+    const custom = [...board];
+    custom[0] = ' ';
+    custom[1] = 'Nowhere Page';
+    custom[2] = 'Mercury';
+    custom[25] = 'Article Four';
+
+    const checks = lookup(custom, {
+      redirects: [{ from: 'Article Four', to: 'Article 4' }],
+      pages: [...pages, { title: 'Nowhere Page', missing: true }, { title: 'Mercury', ns: 0, pageprops: { disambiguation: '' } }],
+    });
+
+    expect(findBoardTitleIssues(custom, checks)).toEqual([
+      { index: 0, title: '', problem: 'empty', message: 'Square 1 is empty' },
+      { index: 1, title: 'Nowhere Page', problem: 'missing', message: 'Square 2: "Nowhere Page" is not a Wikipedia article' },
+      { index: 2, title: 'Mercury', problem: 'disambiguation', message: 'Square 3: "Mercury" is a disambiguation page' },
+      {
+        index: 25,
+        title: 'Article Four',
+        problem: 'duplicate',
+        message: 'Starting article: "Article Four" is the same article as square 5',
+      },
+    ]);
+  });
+});
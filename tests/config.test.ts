@@ -1,5 +1,5 @@
 import { describe, expect, it, vi, beforeEach, afterAll } from 'vitest';
-import { getMongoConfig, getServerPort } from '../api/config';
+import { getGameRetentionDays, getMongoConfig, getProfanityMode, getServerPort, getStorageMode } from '../api/config';
 
 describe('getMongoConfig', () => {
   const OLD_ENV = process.env;
@@ -64,3 +64,84 @@ describe('getServerPort', () => {
 
 
 
+
+describe('getStorageMode', () => {
+  const OLD_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+  });
+
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('defaults to mongo', () => {
+    delete process.env.STORAGE;
+    expect(getStorageMode()).toBe('mongo');
+  });
+
+  it('accepts memory', () => {
+    process.env.STORAGE = 'memory';
+    expect(getStorageMode()).toBe('memory');
+  });
+
+  it('throws on unknown values', () => {
+    process.env.STORAGE = 'redis';
+    expect(() => getStorageMode()).toThrow(/Invalid STORAGE/);
+  });
+});
+
+describe('getProfanityMode', () => {
+  const OLD_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+  });
+
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('defaults to mask', () => {
+    delete process.env.PROFANITY_MODE;
+    expect(getProfanityMode()).toBe('mask');
+  });
+
+  it('accepts reject', () => {
+    process.env.PROFANITY_MODE = 'Reject';
+    expect(getProfanityMode()).toBe('reject');
+  });
+
+  it('throws on unknown values', () => {
+    process.env.PROFANITY_MODE = 'block';
+    expect(() => getProfanityMode()).toThrow(/Invalid PROFANITY_MODE/);
+  });
+});
+
+describe('getGameRetentionDays', () => {
+  const OLD_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+  });
+
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('defaults to 30 days', () => {
+    delete process.env.GAME_RETENTION_DAYS;
+    expect(getGameRetentionDays()).toBe(30);
+  });
+
+  it('uses GAME_RETENTION_DAYS when valid', () => {
+    process.env.GAME_RETENTION_DAYS = ' 14 ';
+    expect(getGameRetentionDays()).toBe(14);
+  });
+
+  it('throws on values that are not positive integers', () => {
+    process.env.GAME_RETENTION_DAYS = '1.5';
+    expect(() => getGameRetentionDays()).toThrow(/Invalid GAME_RETENTION_DAYS/);
+  });
+});
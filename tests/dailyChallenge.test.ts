@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { generateDailyBoard, getDailyLink, getUtcDateKey, isValidDateKey } from '../api/dailyChallenge';
+import { isValidHashedId } from '../api/hashedId';
+import { createSeededRandom } from '../shared/random';
+import type { CuratedArticlesPayload } from '../shared/curatedArticles';
+
+const payload: CuratedArticlesPayload = {
+  generatedAt: '2024-01-01T00:00:00Z',
+  totalCategories: 30,
+  totalArticles: 90,
+  groups: { people: { maxPerGame: 1, categories: ['Category 0', 'Category 1'] } },
+  categories: Array.from({ length: 30 }, (_, c) => ({
+    name: `Category ${c}`,
+    articleCount: 3,
+    ...(c < 2 ? { group: 'people' } : {}),
+    articles: Array.from({ length: 3 }, (_, a) => `Article ${c}-${a}`),
+  })),
+};
+
+describe('createSeededRandom', () => {
+  it('produces the same sequence for the same seed', () => {
+    const a = createSeededRandom('seed');
+    const b = createSeededRandom('seed');
+    expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('produces floats in [0, 1)', () => {
+    const random = createSeededRandom('range');
+    for (let i = 0; i < 1000; i += 1) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('daily challenge', () => {
+  it('formats UTC date keys', () => {
+    expect(getUtcDateKey(new Date('2024-01-15T23:59:59Z'))).toBe('2024-01-15');
+  });
+
+  it('validates date keys', () => {
+    expect(isValidDateKey('2024-02-29')).toBe(true);
+    expect(isValidDateKey('2023-02-29')).toBe(false);
+    expect(isValidDateKey('2024-1-5')).toBe(false);
+    expect(isValidDateKey('today')).toBe(false);
+  });
+
+  it('derives a stable, valid link per day', () => {
+    expect(getDailyLink('2024-01-15')).toBe(getDailyLink('2024-01-15'));
+    expect(getDailyLink('2024-01-15')).not.toBe(getDailyLink('2024-01-16'));
+    expect(isValidHashedId(getDailyLink('2024-01-15'))).toBe(true);
+  });
+
+  it('generates the same board for the same day', () => {
+    const board = generateDailyBoard('2024-01-15', payload);
+    expect(board).toHaveLength(26);
+    expect(new Set(board).size).toBe(26);
+    expect(generateDailyBoard('2024-01-15', payload)).toEqual(board);
+    expect(generateDailyBoard('2024-01-16', payload)).not.toEqual(board);
+  });
+
+  it('respects group limits', () => {
+    const board = generateDailyBoard('2024-01-15', payload);
+    const fromGroup = board.filter((title) => /^Article [01]-/.test(title));
+    expect(fromGroup.length).toBeLessThanOrEqual(1);
+  });
+});
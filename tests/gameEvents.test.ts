@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_EVENT_TYPES, MAX_EVENT_STRING_LENGTH } from '../shared/gameEvents';
+import { validateSchema } from '../api/requestValidation';
+
+const timestamp = '2024-01-15T10:00:00.000Z';
+
+const validateEvent = (payload: Record<string, unknown>) => validateSchema('GameEvent', { timestamp, ...payload })[0];
+
+describe('GameEvent schema', () => {
+  it('accepts every registered event with its required fields', () => {
+    expect(GAME_EVENT_TYPES).toEqual([
+      'game_started',
+      'game_generated',
+      'game_finished',
+      'article_navigated',
+      'square_found',
+      'article_load_failed',
+      'game_abandoned',
+      'share_link_copied',
+      'replay_started',
+    ]);
+    expect(validateEvent({ event: 'game_started' })).toBeUndefined();
+    expect(validateEvent({ event: 'square_found', title: 'Moon', clicks: 4, squaresFound: 2, hashedId: 'abc' })).toBeUndefined();
+  });
+
+  it('rejects unknown event types', () => {
+    expect(validateEvent({ event: 'game_paused' })).toMatchObject({ field: 'event' });
+    expect(validateEvent({ event: 'toString' })).toMatchObject({ field: 'event' });
+  });
+
+  it('rejects missing required fields', () => {
+    expect(validateEvent({ event: 'game_finished', score: 100, time: 60 })).toMatchObject({
+      code: 'MISSING_FIELD',
+      message: 'Missing required field for game_finished: clicks',
+      field: 'clicks',
+    });
+    expect(validateSchema('GameEvent', { event: 'game_started' })[0]).toMatchObject({ field: 'timestamp' });
+  });
+
+  it('rejects unknown fields, including the legacy metadata and gameId fields', () => {
+    expect(validateEvent({ event: 'game_started', metadata: { a: 1 } })).toMatchObject({
+      message: 'Unknown field for game_started: metadata',
+      field: 'metadata',
+    });
+    expect(validateEvent({ event: 'game_generated', hashedId: 'abc', gameId: 'abc' })).toMatchObject({ field: 'gameId' });
+  });
+
+  it('rejects mistyped fields', () => {
+    expect(validateEvent({ event: 'article_navigated', title: 'Moon', clicks: '4' })).toMatchObject({ field: 'clicks' });
+    expect(validateEvent({ event: 'article_navigated', title: '', clicks: 4 })).toMatchObject({ field: 'title' });
+    expect(
+      validateEvent({ event: 'article_navigated', title: 'x'.repeat(MAX_EVENT_STRING_LENGTH + 1), clicks: 4 })
+    ).toMatchObject({ field: 'title' });
+    expect(validateEvent({ event: 'share_link_copied', linkType: 'email' })).toMatchObject({
+      message: 'Invalid linkType for share_link_copied. Expected one of: seed, game',
+      field: 'linkType',
+    });
+    expect(validateEvent({ event: 'replay_started', gameType: 'weekly' })).toMatchObject({ field: 'gameType' });
+    expect(validateEvent({ event: 'game_started', timestamp: 'yesterday' })).toMatchObject({ field: 'timestamp' });
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { cleanupExpiredBoards, getBoardExpiry, isBoardExpired } from '../api/gameRetention';
+import { createMemoryRepositories } from '../api/repositories/memory';
+import type { Repositories } from '../api/repositories';
+import type { GeneratedGame } from '../api/mongoClient';
+import { parseBoardsArgs } from '../cli/boards';
+
+const board = [...Array.from({ length: 25 }, (_, i) => `Article ${i}`), 'Starting Article'];
+const now = new Date('2024-03-01T00:00:00Z');
+
+function game(link: string, fields: Partial<GeneratedGame>): GeneratedGame {
+  return { link, bingopediaGame: board, createdAt: new Date('2024-02-20T00:00:00Z'), timesPlayed: 0, source: 'generated', ...fields };
+}
+
+describe('board expiry', () => {
+  it('expires boards the retention period after creation', () => {
+    const expiresAt = getBoardExpiry(new Date('2024-01-01T00:00:00Z'), 30);
+    expect(expiresAt).toEqual(new Date('2024-01-31T00:00:00Z'));
+    expect(isBoardExpired({ expiresAt }, new Date('2024-01-30T23:59:59Z'))).toBe(false);
+    expect(isBoardExpired({ expiresAt }, expiresAt)).toBe(true);
+    expect(isBoardExpired({}, now)).toBe(false);
+  });
+});
+
+describe('cleanupExpiredBoards', () => {
+  let repositories: Repositories;
+
+  beforeEach(async () => {
+    repositories = createMemoryRepositories();
+    const { games, leaderboard } = repositories;
+    const past = new Date('2024-02-28T00:00:00Z');
+    await games.insert(game('expired', { expiresAt: past }));
+    await games.insert(game('custom', { source: 'custom', expiresAt: past }));
+    await games.insert(game('notYetExpired', { expiresAt: new Date('2024-03-05T00:00:00Z') }));
+    await games.insert(game('replayed', { expiresAt: past, timesPlayed: 2 }));
+    await games.insert(game('legacyOld', { createdAt: new Date('2024-01-01T00:00:00Z') }));
+    await games.insert(game('legacyNew', {}));
+    await games.insert(game('daily', { source: 'daily', createdAt: new Date('2024-01-01T00:00:00Z') }));
+    await games.insert(game('synced', { source: 'leaderboard', createdAt: new Date('2024-01-01T00:00:00Z') }));
+    await games.insert(game('featured', { expiresAt: past }));
+    await games.insert(game('withEntry', { expiresAt: past }));
+    await games.setPinned('featured', true);
+    await leaderboard.insert({
+      username: 'alice',
+      score: 1,
+      time: 60,
+      clicks: 5,
+      history: [],
+      createdAt: past,
+      gameType: 'repeat',
+      generatedGame: 'withEntry',
+      moderation: { hidden: true },
+    });
+  });
+
+  it('reports unplayed, unpinned shared boards past their expiry without deleting them', async () => {
+    const report = await cleanupExpiredBoards({ apply: false, now, retentionDays: 30 }, repositories);
+
+    expect(report.boards.map((expired) => expired.link)).toEqual(['legacyOld', 'expired', 'custom']);
+    expect(report).toMatchObject({ applied: false, retentionDays: 30, kept: ['withEntry'] });
+    expect(await repositories.games.findByLink('expired')).not.toBeNull();
+    expect(await repositories.expiredGames.findByLink('expired')).toBeNull();
+  });
+
+  it('deletes expired boards and records their links with apply', async () => {
+    const report = await cleanupExpiredBoards({ apply: true, now, retentionDays: 30 }, repositories);
+
+    expect(report.applied).toBe(true);
+    for (const link of ['legacyOld', 'expired', 'custom']) {
+      expect(await repositories.games.findByLink(link)).toBeNull();
+      expect(await repositories.expiredGames.findByLink(link)).toMatchObject({ link, expiredAt: now });
+    }
+    expect(await repositories.games.count()).toBe(7);
+    expect((await cleanupExpiredBoards({ apply: true, now, retentionDays: 30 }, repositories)).boards).toEqual([]);
+  });
+
+  it('keeps boards once they are played or pinned', async () => {
+    const { games } = repositories;
+    await games.incrementTimesPlayed('expired');
+    await games.setPinned('custom', true);
+    await games.setPinned('featured', false);
+
+    const report = await cleanupExpiredBoards({ apply: false, now, retentionDays: 30 }, repositories);
+    expect(report.boards.map((expired) => expired.link)).toEqual(['legacyOld']);
+    expect(await games.findByLink('expired')).not.toHaveProperty('expiresAt');
+
+    // Pinning cleared the expiry, so an unpinned board expires by age like older boards
+    const shorter = await cleanupExpiredBoards({ apply: false, now, retentionDays: 5 }, repositories);
+    expect(shorter.boards.map((expired) => expired.link)).toContain('featured');
+  });
+});
+
+describe('parseBoardsArgs', () => {
+  it('lists expired boards by default and deletes them with --apply', () => {
+    expect(parseBoardsArgs(['cleanup'])).toEqual({ method: 'GET', format: 'table' });
+    expect(parseBoardsArgs(['cleanup', '--apply', '--format', 'json'])).toEqual({
+      method: 'POST',
+      body: { action: 'cleanup' },
+      format: 'json',
+    });
+  });
+
+  it('pins and unpins a board', () => {
+    expect(parseBoardsArgs(['pin', 'abcdefghijklmnop'])).toMatchObject({
+      method: 'POST',
+      body: { action: 'pin', link: 'abcdefghijklmnop' },
+    });
+    expect(parseBoardsArgs(['unpin', 'abcdefghijklmnop']).body).toEqual({ action: 'unpin', link: 'abcdefghijklmnop' });
+  });
+
+  it('rejects unknown commands and missing arguments', () => {
+    expect(() => parseBoardsArgs([])).toThrow('Missing command');
+    expect(() => parseBoardsArgs(['delete'])).toThrow('Unknown command: delete');
+    expect(() => parseBoardsArgs(['pin'])).toThrow('Missing link for pin');
+    expect(() => parseBoardsArgs(['pin', 'abcdefghijklmnop', '--apply'])).toThrow('--apply is only accepted with cleanup');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createSessionToken, verifySessionToken, validateSessionBoard } from '../api/gameSessions';
+
+const SECRET = 'test-secret';
+
+function makeBoard(prefix = 'Article'): string[] {
+  return Array.from({ length: 26 }, (_, i) => `${prefix} ${i}`);
+}
+
+describe('session tokens', () => {
+  const now = new Date('2024-01-15T10:00:00Z');
+  const expiresAt = new Date('2024-01-16T10:00:00Z');
+
+  it('verifies a token it created', () => {
+    const token = createSessionToken('session-1', expiresAt, SECRET);
+    const result = verifySessionToken(token, now, SECRET);
+    expect(result.error).toBeUndefined();
+    expect(result.sessionId).toBe('session-1');
+  });
+
+  it('rejects missing tokens', () => {
+    expect(verifySessionToken(undefined, now, SECRET).error).toBe('Session token is required');
+    expect(verifySessionToken('', now, SECRET).error).toBe('Session token is required');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifySessionToken('not-a-token', now, SECRET).error).toBe('Session token is malformed');
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const token = createSessionToken('session-1', expiresAt, 'other-secret');
+    expect(verifySessionToken(token, now, SECRET).error).toBe('Session token signature is invalid');
+  });
+
+  it('rejects tokens with a tampered payload', () => {
+    const token = createSessionToken('session-1', expiresAt, SECRET);
+    const [, signature] = token.split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ sid: 'session-2', exp: expiresAt.getTime() })).toString('base64url');
+    expect(verifySessionToken(`${forgedPayload}.${signature}`, now, SECRET).error).toBe('Session token signature is invalid');
+  });
+
+  it('rejects expired tokens', () => {
+    const token = createSessionToken('session-1', expiresAt, SECRET);
+    const later = new Date('2024-01-16T10:00:01Z');
+    expect(verifySessionToken(token, later, SECRET).error).toBe('Session token has expired');
+  });
+});
+
+describe('validateSessionBoard', () => {
+  it('accepts an identical board', () => {
+    expect(validateSessionBoard(makeBoard(), makeBoard()).error).toBeUndefined();
+  });
+
+  it('treats spaces, underscores and case as equal', () => {
+    const submitted = makeBoard().map((title) => title.replace(/ /g, '_').toUpperCase());
+    expect(validateSessionBoard(makeBoard(), submitted).error).toBeUndefined();
+  });
+
+  it('rejects a different starting article', () => {
+    const submitted = makeBoard();
+    submitted[25] = 'Something Else';
+    expect(validateSessionBoard(makeBoard(), submitted).error).toBe('Starting article does not match the game session');
+  });
+
+  it('allows a few replaced grid squares', () => {
+    const submitted = makeBoard();
+    submitted[0] = 'Replacement 0';
+    submitted[1] = 'Replacement 1';
+    submitted[2] = 'Replacement 2';
+    expect(validateSessionBoard(makeBoard(), submitted).error).toBeUndefined();
+  });
+
+  it('rejects a different board', () => {
+    const submitted = makeBoard('Other');
+    submitted[25] = makeBoard()[25];
+    expect(validateSessionBoard(makeBoard(), submitted).error).toMatch(/Board does not match/);
+  });
+});
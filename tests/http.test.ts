@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dispatch, flattenQuery, jsonResponse, type ApiRequest, type Route } from '../api/http';
+
+function makeRequest(overrides: Partial<ApiRequest> = {}): ApiRequest {
+  return { method: 'GET', query: {}, body: undefined, headers: {}, ...overrides };
+}
+
+const route: Route = {
+  name: 'Test',
+  methods: {
+    GET: async (req) => jsonResponse(200, { id: req.query.id }),
+    POST: async () => {
+      throw new Error('Database connection failed');
+    },
+  },
+  headers: { 'Cache-Control': 'no-store' },
+};
+
+describe('dispatch', () => {
+  it('runs the handler for the request method and adds route headers', async () => {
+    const response = await dispatch(route, makeRequest({ query: { id: 'abc' } }));
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ id: 'abc' });
+    expect(response.headers).toEqual({ 'Cache-Control': 'no-store', 'X-Request-Id': expect.any(String) });
+  });
+
+  it('reuses a valid incoming request ID and replaces invalid ones', async () => {
+    const reused = await dispatch(route, makeRequest({ headers: { 'x-request-id': 'req-123' } }));
+    expect(reused.headers?.['X-Request-Id']).toBe('req-123');
+
+    const replaced = await dispatch(route, makeRequest({ headers: { 'x-request-id': 'bad id\n' } }));
+    expect(replaced.headers?.['X-Request-Id']).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('answers CORS preflight requests without calling a handler', async () => {
+    const response = await dispatch(route, makeRequest({ method: 'OPTIONS' }));
+    expect(response.status).toBe(200);
+    expect(response.body).toBeUndefined();
+  });
+
+  it('rejects unsupported methods with 405 and an Allow header', async () => {
+    const response = await dispatch(route, makeRequest({ method: 'DELETE' }));
+    expect(response.status).toBe(405);
+    expect(response.headers?.Allow).toBe('GET,POST,OPTIONS');
+    expect((response.body as { error: { code: string } }).error.code).toBe('METHOD_NOT_ALLOWED');
+  });
+
+  it('converts thrown errors into structured error responses', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await dispatch(route, makeRequest({ method: 'POST' }));
+    consoleError.mockRestore();
+
+    expect(response.status).toBe(503);
+    expect((response.body as { error: { code: string } }).error.code).toBe('DATABASE_ERROR');
+  });
+});
+
+describe('flattenQuery', () => {
+  it('keeps the first value of repeated parameters and drops non-strings', () => {
+    expect(flattenQuery({ page: ['2', '3'], sortBy: 'time', nested: { a: 1 } })).toEqual({
+      page: '2',
+      sortBy: 'time',
+    });
+  });
+});
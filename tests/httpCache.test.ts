@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { ApiRequest } from '../api/http';
+import { cachedJsonResponse, computeETag, isNotModified, REVALIDATE_CACHE } from '../api/httpCache';
+
+const request = (headers: Record<string, string>): ApiRequest => ({ method: 'GET', query: {}, body: undefined, headers });
+
+describe('computeETag', () => {
+  it('is stable for equal bodies and differs otherwise', () => {
+    expect(computeETag({ a: 1 })).toBe(computeETag({ a: 1 }));
+    expect(computeETag({ a: 1 })).not.toBe(computeETag({ a: 2 }));
+    expect(computeETag({ a: 1 })).toMatch(/^"[A-Za-z0-9_-]+"$/);
+  });
+});
+
+describe('isNotModified', () => {
+  const etag = computeETag({ a: 1 });
+  const lastModified = new Date('2024-01-15T10:00:00.500Z');
+
+  it('matches If-None-Match lists, weak tags and *', () => {
+    expect(isNotModified(request({ 'if-none-match': `"other", W/${etag}` }), etag)).toBe(true);
+    expect(isNotModified(request({ 'if-none-match': '*' }), etag)).toBe(true);
+    expect(isNotModified(request({ 'if-none-match': '"other"' }), etag)).toBe(false);
+  });
+
+  it('uses If-Modified-Since at second precision, only without If-None-Match', () => {
+    expect(isNotModified(request({ 'if-modified-since': lastModified.toUTCString() }), etag, lastModified)).toBe(true);
+    expect(isNotModified(request({ 'if-modified-since': 'Mon, 15 Jan 2024 09:59:59 GMT' }), etag, lastModified)).toBe(false);
+    expect(
+      isNotModified(request({ 'if-none-match': '"other"', 'if-modified-since': lastModified.toUTCString() }), etag, lastModified)
+    ).toBe(false);
+    expect(isNotModified(request({ 'if-modified-since': 'yesterday' }), etag, lastModified)).toBe(false);
+  });
+});
+
+describe('cachedJsonResponse', () => {
+  it('returns the body with caching headers, or an empty 304', () => {
+    const fresh = cachedJsonResponse(request({}), { a: 1 }, REVALIDATE_CACHE);
+    expect(fresh).toEqual({ status: 200, body: { a: 1 }, headers: { 'Cache-Control': 'no-cache', ETag: computeETag({ a: 1 }) } });
+
+    const notModified = cachedJsonResponse(request({ 'if-none-match': computeETag({ a: 1 }) }), { a: 1 }, REVALIDATE_CACHE);
+    expect(notModified).toEqual({ status: 304, headers: fresh.headers });
+  });
+});
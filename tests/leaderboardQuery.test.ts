@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseLeaderboardQuery } from '../api/routes/leaderboard';
+import { buildLeaderboardFilter } from '../api/repositories/mongo';
+import { getDailyLink } from '../api/dailyChallenge';
+
+describe('parseLeaderboardQuery', () => {
+  it('applies defaults', () => {
+    expect(parseLeaderboardQuery({})).toEqual({
+      limit: 10,
+      page: 1,
+      sortField: 'score',
+      sortOrder: 'asc',
+      dateFrom: undefined,
+      dateTo: undefined,
+      gameType: 'random',
+    });
+  });
+
+  it('falls back to score for unknown sort fields', () => {
+    expect(parseLeaderboardQuery({ sortBy: 'password' }).sortField).toBe('score');
+  });
+
+  it('rejects invalid dates and ranges', () => {
+    expect(() => parseLeaderboardQuery({ dateFrom: 'yesterday' })).toThrow('Invalid dateFrom format');
+    expect(() =>
+      parseLeaderboardQuery({ dateFrom: '2024-02-01T00:00:00Z', dateTo: '2024-01-01T00:00:00Z' })
+    ).toThrow('dateFrom must be before or equal to dateTo');
+  });
+
+  it('rejects unknown game types', () => {
+    expect(() => parseLeaderboardQuery({ gameType: 'weekly' })).toThrow("gameType must be 'random', 'repeat', 'daily', or 'all'");
+  });
+
+  it('maps a daily date to that day\'s daily board', () => {
+    expect(parseLeaderboardQuery({ gameType: 'daily', dailyDate: '2024-01-15' })).toMatchObject({
+      gameType: 'daily',
+      generatedGame: getDailyLink('2024-01-15'),
+    });
+    expect(() => parseLeaderboardQuery({ dailyDate: '2024-13-01' })).toThrow('Invalid dailyDate format');
+  });
+});
+
+describe('buildLeaderboardFilter', () => {
+  const notHidden = { 'moderation.hidden': { $ne: true } };
+
+  it('includes legacy entries without gameType in random results', () => {
+    expect(buildLeaderboardFilter({ gameType: 'random' })).toEqual({
+      ...notHidden,
+      $or: [{ gameType: 'random' }, { gameType: { $exists: false } }],
+    });
+  });
+
+  it('filters repeat games and leaves all games unfiltered apart from hidden entries', () => {
+    expect(buildLeaderboardFilter({ gameType: 'repeat' })).toEqual({ ...notHidden, gameType: 'repeat' });
+    expect(buildLeaderboardFilter({ gameType: 'daily' })).toEqual({ ...notHidden, gameType: 'daily' });
+    expect(buildLeaderboardFilter({ gameType: 'all' })).toEqual(notHidden);
+  });
+
+  it('combines date bounds with the gameType filter', () => {
+    const dateFrom = new Date('2024-01-01T00:00:00Z');
+    const dateTo = new Date('2024-01-31T23:59:59.999Z');
+    expect(buildLeaderboardFilter({ dateFrom, dateTo, gameType: 'repeat' })).toEqual({
+      ...notHidden,
+      createdAt: { $gte: dateFrom, $lte: dateTo },
+      gameType: 'repeat',
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createLogger, redact } from '../api/logger';
+import type { LogLevel } from '../api/config';
+
+function createOutput() {
+  const lines: { level: LogLevel; entry: Record<string, unknown> }[] = [];
+  const write = (level: LogLevel, line: string) => lines.push({ level, entry: JSON.parse(line) });
+  return { lines, write };
+}
+
+describe('createLogger', () => {
+  it('writes JSON entries with bindings and fields', () => {
+    const { lines, write } = createOutput();
+    const log = createLogger({ requestId: 'abc' }, { level: 'debug', write }).child({ route: 'Games' });
+
+    log.info('Game created', { link: 'abcdefghijklmnop' });
+    expect(lines).toHaveLength(1);
+    expect(lines[0].level).toBe('info');
+    expect(lines[0].entry).toMatchObject({
+      level: 'info',
+      msg: 'Game created',
+      requestId: 'abc',
+      route: 'Games',
+      link: 'abcdefghijklmnop',
+      time: expect.any(String),
+    });
+  });
+
+  it('skips entries below the configured level', () => {
+    const { lines, write } = createOutput();
+    const log = createLogger({}, { level: 'warn', write });
+
+    log.debug('debug');
+    log.info('info');
+    log.warn('warn');
+    log.error('error');
+    expect(lines.map((line) => line.entry.msg)).toEqual(['warn', 'error']);
+
+    const silent = createLogger({}, { level: 'silent', write });
+    silent.error('never written');
+    expect(lines).toHaveLength(2);
+  });
+});
+
+describe('redact', () => {
+  it('hides usernames, history and credentials at any depth', () => {
+    expect(
+      redact({
+        username: 'alice',
+        filter: { username: 'alice', gameType: 'random' },
+        entries: [{ history: ['A', 'B'], score: 10 }],
+        ownershipKey: 'secret',
+      })
+    ).toEqual({
+      username: '[redacted]',
+      filter: { username: '[redacted]', gameType: 'random' },
+      entries: [{ history: '[redacted]', score: 10 }],
+      ownershipKey: '[redacted]',
+    });
+  });
+
+  it('serializes errors', () => {
+    expect(redact({ error: new Error('boom') })).toMatchObject({ error: { name: 'Error', message: 'boom' } });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryGamesRepository, InMemoryLeaderboardRepository, InMemorySessionsRepository } from '../api/repositories/memory';
+import { DuplicateKeyError } from '../api/repositories';
+import type { LeaderboardEntry } from '../api/mongoClient';
+
+function makeEntry(overrides: Partial<LeaderboardEntry>): LeaderboardEntry {
+  return {
+    username: 'player',
+    score: 100,
+    time: 60,
+    clicks: 10,
+    history: [],
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    gameType: 'random',
+    ...overrides,
+  };
+}
+
+describe('InMemoryLeaderboardRepository', () => {
+  async function seed() {
+    const repository = new InMemoryLeaderboardRepository();
+    await repository.insert(makeEntry({ username: 'alice', score: 300, createdAt: new Date('2024-01-10T00:00:00Z') }));
+    await repository.insert(makeEntry({ username: 'bob', score: 100, createdAt: new Date('2024-01-20T00:00:00Z') }));
+    await repository.insert(makeEntry({ username: 'carol', score: 100, createdAt: new Date('2024-01-05T00:00:00Z') }));
+    await repository.insert(makeEntry({ username: 'dave', score: 50, gameType: 'repeat' }));
+    await repository.insert(makeEntry({ username: 'legacy', score: 200, gameType: undefined }));
+    return repository;
+  }
+
+  it('sorts by score with earlier entries winning ties', async () => {
+    const repository = await seed();
+    const page = await repository.findPage({
+      filter: { gameType: 'all' },
+      sortField: 'score',
+      sortOrder: 'asc',
+      skip: 0,
+      limit: 10,
+    });
+    expect(page.entries.map((entry) => entry.username)).toEqual(['dave', 'carol', 'bob', 'legacy', 'alice']);
+    expect(page.totalCount).toBe(5);
+  });
+
+  it('treats legacy entries without gameType as random games', async () => {
+    const repository = await seed();
+    const page = await repository.findPage({
+      filter: { gameType: 'random' },
+      sortField: 'username',
+      sortOrder: 'desc',
+      skip: 0,
+      limit: 10,
+    });
+    expect(page.entries.map((entry) => entry.username)).toEqual(['legacy', 'carol', 'bob', 'alice']);
+  });
+
+  it('filters by inclusive date range and paginates', async () => {
+    const repository = await seed();
+    const page = await repository.findPage({
+      filter: { gameType: 'random', dateFrom: new Date('2024-01-05T00:00:00Z'), dateTo: new Date('2024-01-10T00:00:00Z') },
+      sortField: 'createdAt',
+      sortOrder: 'asc',
+      skip: 1,
+      limit: 1,
+    });
+    expect(page.entries.map((entry) => entry.username)).toEqual(['alice']);
+    expect(page.totalCount).toBe(2);
+  });
+
+  it('returns copies that do not affect stored entries', async () => {
+    const repository = new InMemoryLeaderboardRepository();
+    const inserted = await repository.insert(makeEntry({}));
+    inserted.score = 0;
+    const page = await repository.findPage({ filter: { gameType: 'all' }, sortField: 'score', sortOrder: 'asc', skip: 0, limit: 1 });
+    expect(page.entries[0].score).toBe(100);
+    expect(page.entries[0]._id).toBe(inserted._id);
+  });
+
+  it('finds a player\'s entries case-insensitively, newest first', async () => {
+    const repository = await seed();
+    await repository.insert(makeEntry({ username: 'Alice', score: 250, createdAt: new Date('2024-01-12T00:00:00Z') }));
+    const entries = await repository.findByUsername('ALICE', 10);
+    expect(entries.map((entry) => entry.score)).toEqual([250, 300]);
+    expect(await repository.findByUsername('alice', 1)).toHaveLength(1);
+  });
+
+  it('counts recent plays per board, most played first, and best scores per board', async () => {
+    const repository = new InMemoryLeaderboardRepository();
+    await repository.insert(makeEntry({ generatedGame: 'board-a', score: 300 }));
+    await repository.insert(makeEntry({ generatedGame: 'board-b', score: 200 }));
+    await repository.insert(makeEntry({ generatedGame: 'board-b', score: 150 }));
+    await repository.insert(makeEntry({ generatedGame: 'board-a', score: 90, createdAt: new Date('2024-01-01T00:00:00Z') }));
+    await repository.insert(makeEntry({ generatedGame: 'daily-board', gameType: 'daily' }));
+    const hidden = await repository.insert(makeEntry({ generatedGame: 'board-c', score: 10 }));
+    await repository.setModeration(hidden._id, { hidden: true });
+
+    const trending = await repository.findTrendingBoards({ since: new Date('2024-01-10T00:00:00Z'), skip: 0, limit: 10 });
+    expect(trending).toEqual({
+      boards: [
+        { generatedGame: 'board-b', plays: 2 },
+        { generatedGame: 'board-a', plays: 1 },
+      ],
+      totalCount: 2,
+    });
+
+    expect(await repository.getBestScores(['board-a', 'board-b', 'board-c'])).toEqual({ 'board-a': 90, 'board-b': 150 });
+  });
+});
+
+describe('InMemoryGamesRepository', () => {
+  const game = {
+    link: 'abcdefghijklmnop',
+    bingopediaGame: Array.from({ length: 26 }, (_, i) => `Article ${i}`),
+    createdAt: new Date('2024-01-15T10:00:00Z'),
+    timesPlayed: 0,
+  };
+
+  it('increments timesPlayed', async () => {
+    const repository = new InMemoryGamesRepository();
+    await repository.insert(game);
+    await repository.incrementTimesPlayed(game.link);
+    await repository.incrementTimesPlayed(game.link);
+    expect((await repository.findByLink(game.link))?.timesPlayed).toBe(2);
+  });
+
+  it('rejects duplicate links', async () => {
+    const repository = new InMemoryGamesRepository();
+    await repository.insert(game);
+    await expect(repository.insert(game)).rejects.toBeInstanceOf(DuplicateKeyError);
+  });
+
+  it('pages boards by plays or age, leaving out daily boards', async () => {
+    const repository = new InMemoryGamesRepository();
+    await repository.insert(game);
+    await repository.insert({ ...game, link: 'newer-and-played', createdAt: new Date('2024-01-16T00:00:00Z'), timesPlayed: 3 });
+    await repository.insert({ ...game, link: 'newest-unplayed', createdAt: new Date('2024-01-17T00:00:00Z') });
+    await repository.insert({ ...game, link: 'daily-board-link', source: 'daily', timesPlayed: 50 });
+
+    const popular = await repository.findPage({ sort: 'popular', skip: 0, limit: 10 });
+    expect(popular.games.map((found) => found.link)).toEqual(['newer-and-played', 'newest-unplayed', game.link]);
+    expect(popular.totalCount).toBe(3);
+
+    const recent = await repository.findPage({ sort: 'recent', skip: 1, limit: 1 });
+    expect(recent.games.map((found) => found.link)).toEqual(['newer-and-played']);
+
+    expect((await repository.findByLinks(['newest-unplayed', 'unknown'])).map((found) => found.link)).toEqual(['newest-unplayed']);
+  });
+});
+
+describe('InMemorySessionsRepository', () => {
+  it('marks a session as used only once and hides expired sessions', async () => {
+    const repository = new InMemorySessionsRepository();
+    const startedAt = new Date();
+    await repository.insert({
+      sessionId: 'active',
+      bingopediaGame: [],
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + 60_000),
+    });
+    await repository.insert({
+      sessionId: 'expired',
+      bingopediaGame: [],
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() - 1),
+    });
+
+    expect(await repository.markUsed('active', new Date())).toBe(true);
+    expect(await repository.markUsed('active', new Date())).toBe(false);
+    await repository.markUnused('active');
+    expect(await repository.markUsed('active', new Date())).toBe(true);
+    expect(await repository.findBySessionId('expired')).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import type { Db, Document } from 'mongodb';
+import { parseMigrateArgs } from '../cli/migrate';
+import { upgradeGameType } from '../migrations/001-leaderboard-game-type';
+import { buildBingopediaGame } from '../migrations/002-leaderboard-bingopedia-game';
+import { tagFoundHistory } from '../migrations/006-leaderboard-history-found-tags';
+import { replaceSpacesWithUnderscores } from '../migrations/007-leaderboard-history-spaces';
+import { createSummary, updateDocuments } from '../migrations/batch';
+import { MIGRATIONS } from '../migrations';
+import { getMigrationStatus, runMigrations, validateMigrations, type MigrationStore } from '../migrations/runner';
+import type { AppliedMigration, Migration, MigrationContext } from '../migrations/types';
+
+function createStore(initial: AppliedMigration[] = []): MigrationStore & { records: AppliedMigration[] } {
+  const records = [...initial];
+  return {
+    records,
+    listApplied: async () => records,
+    markApplied: async (record) => {
+      records.push(record);
+    },
+  };
+}
+
+function createMigration(id: string, calls: string[], fail = false): Migration {
+  return {
+    id,
+    description: `Migration ${id}`,
+    up: async () => {
+      calls.push(id);
+      if (fail) throw new Error('boom');
+      return { ...createSummary(), scanned: 2, changed: 1 };
+    },
+  };
+}
+
+/**
+ * Minimal `Db` holding one collection's documents, supporting the cursor and `bulkWrite`
+ * calls `updateDocuments` makes. Filters are ignored.
+ */
+function createDb(docs: Document[]): { db: Db; writes: number[] } {
+  const writes: number[] = [];
+  const collection = {
+    find: () => ({
+      batchSize: () => ({
+        async *[Symbol.asyncIterator]() {
+          yield* docs;
+        },
+      }),
+    }),
+    bulkWrite: async (operations: { updateOne: { filter: { _id: unknown }; update: { $set: Document } } }[]) => {
+      writes.push(operations.length);
+      for (const { updateOne } of operations) {
+        Object.assign(docs.find((doc) => doc._id === updateOne.filter._id)!, updateOne.update.$set);
+      }
+    },
+  };
+  return { db: { collection: () => collection } as unknown as Db, writes };
+}
+
+function createContext(db: Db, dryRun = false, batchSize = 2): MigrationContext {
+  return { db, dryRun, batchSize, log: () => {} };
+}
+
+describe('runMigrations', () => {
+  const db = {} as Db;
+
+  it('applies pending migrations in order and records them', async () => {
+    const calls: string[] = [];
+    const store = createStore([
+      { _id: '001-a', description: '', appliedAt: new Date(), durationMs: 1, summary: createSummary() },
+    ]);
+    const migrations = ['001-a', '002-b', '003-c'].map((id) => createMigration(id, calls));
+
+    const results = await runMigrations(migrations, store, createContext(db));
+    expect(calls).toEqual(['002-b', '003-c']);
+    expect(results.map((result) => result.id)).toEqual(['002-b', '003-c']);
+    expect(store.records.map((record) => record._id)).toEqual(['001-a', '002-b', '003-c']);
+    expect(store.records[1].summary).toEqual({ scanned: 2, changed: 1, fields: {} });
+  });
+
+  it('records nothing in a dry run', async () => {
+    const calls: string[] = [];
+    const store = createStore();
+    await runMigrations([createMigration('001-a', calls)], store, createContext(db, true));
+    expect(calls).toEqual(['001-a']);
+    expect(store.records).toEqual([]);
+  });
+
+  it('stops at --to and after a failing migration', async () => {
+    const calls: string[] = [];
+    const store = createStore();
+    const migrations = [createMigration('001-a', calls), createMigration('002-b', calls, true), createMigration('003-c', calls)];
+
+    await runMigrations(migrations, store, { ...createContext(db), to: '001-a' });
+    expect(calls).toEqual(['001-a']);
+
+    await expect(runMigrations(migrations, store, createContext(db))).rejects.toThrow('Migration 002-b failed: boom');
+    expect(calls).toEqual(['001-a', '002-b']);
+    expect(store.records.map((record) => record._id)).toEqual(['001-a']);
+
+    await expect(runMigrations(migrations, store, { ...createContext(db), to: '009-z' })).rejects.toThrow(
+      'Unknown migration: 009-z'
+    );
+  });
+
+  it('reports status and rejects unordered or duplicate IDs', async () => {
+    const calls: string[] = [];
+    const appliedAt = new Date('2024-01-15T10:00:00Z');
+    const store = createStore([{ _id: '001-a', description: '', appliedAt, durationMs: 1, summary: createSummary() }]);
+    const status = await getMigrationStatus([createMigration('001-a', calls), createMigration('002-b', calls)], store);
+    expect(status.map((migration) => migration.appliedAt)).toEqual([appliedAt, null]);
+
+    expect(() => validateMigrations([createMigration('002-b', calls), createMigration('001-a', calls)])).toThrow();
+    expect(() => validateMigrations([createMigration('001-a', calls), createMigration('001-a', calls)])).toThrow();
+    expect(() => validateMigrations(MIGRATIONS)).not.toThrow();
+  });
+});
+
+describe('updateDocuments', () => {
+  const update = (doc: Document) => (doc.gameType === 'fresh' ? { gameType: 'random' } : null);
+
+  it('writes changes in batches and summarises them', async () => {
+    const docs = [1, 2, 3].map((_id) => ({ _id, gameType: _id === 2 ? 'repeat' : 'fresh' }));
+    const { db, writes } = createDb(docs);
+
+    const summary = await updateDocuments(createContext(db), { collection: 'leaderboard', filter: {}, update });
+    expect(writes).toEqual([1, 1]);
+    expect(docs.map((doc) => doc.gameType)).toEqual(['random', 'repeat', 'random']);
+    expect(summary).toMatchObject({ scanned: 3, changed: 2, fields: { gameType: 2 } });
+    expect(summary.samples[0]).toEqual({ collection: 'leaderboard', id: '1', field: 'gameType', before: 'fresh', after: 'random' });
+  });
+
+  it('writes nothing in a dry run', async () => {
+    const docs = [{ _id: 1, gameType: 'fresh' }];
+    const { db, writes } = createDb(docs);
+
+    const summary = await updateDocuments(createContext(db, true), { collection: 'leaderboard', filter: {}, update });
+    expect(writes).toEqual([]);
+    expect(docs[0].gameType).toBe('fresh');
+    expect(summary.changed).toBe(1);
+  });
+});
+
+describe('ported migrations', () => {
+  it('upgrades legacy game types', () => {
+    expect(upgradeGameType('fresh')).toBe('random');
+    expect(upgradeGameType('linked')).toBe('repeat');
+    expect(upgradeGameType(undefined)).toBe('random');
+    expect(upgradeGameType('daily')).toBeNull();
+  });
+
+  it('builds bingopediaGame from bingoSquares and the starting article', () => {
+    const bingoSquares = Array.from({ length: 25 }, (_, i) => `Square_${i}`);
+    expect(buildBingopediaGame({ bingoSquares, history: ['Start', 'Square_1'] })).toEqual([...bingoSquares, 'Start']);
+    expect(buildBingopediaGame({ bingoSquares: bingoSquares.slice(1), history: ['Start'] })).toBeNull();
+    expect(buildBingopediaGame({ bingoSquares, history: ['Start'], bingopediaGame: [] })).toBeNull();
+  });
+
+  it('tags the first visit to each square and cleans the board', () => {
+    const entry = {
+      bingopediaGame: ['[Found] Cat', 'Dog', 'Start'],
+      history: ['Start', 'Cat', 'Fish', 'Cat', 'Dog'],
+    };
+    expect(tagFoundHistory(entry)).toEqual({
+      bingopediaGame: ['Cat', 'Dog', 'Start'],
+      history: ['[Found] Start', '[Found] Cat', 'Fish', 'Cat', '[Found] Dog'],
+    });
+    expect(tagFoundHistory({ bingopediaGame: ['Cat'], history: ['[Found] Cat'] })).toEqual({});
+  });
+
+  it('replaces spaces in history titles', () => {
+    expect(replaceSpacesWithUnderscores('New York City')).toBe('New_York_City');
+    expect(replaceSpacesWithUnderscores('[Found] New York')).toBe('[Found] New_York');
+    expect(replaceSpacesWithUnderscores(null)).toBeNull();
+  });
+});
+
+describe('parseMigrateArgs', () => {
+  it('parses up and status', () => {
+    expect(parseMigrateArgs(['up'])).toEqual({ command: 'up', dryRun: false, batchSize: 500 });
+    expect(parseMigrateArgs(['up', '--dry-run', '--batch-size', '100', '--to', '003-leaderboard-generated-game'])).toEqual({
+      command: 'up',
+      dryRun: true,
+      batchSize: 100,
+      to: '003-leaderboard-generated-game',
+    });
+    expect(parseMigrateArgs(['status'])).toEqual({ command: 'status' });
+  });
+
+  it('rejects invalid arguments', () => {
+    expect(() => parseMigrateArgs([])).toThrow('Missing command');
+    expect(() => parseMigrateArgs(['down'])).toThrow('Unknown command: down');
+    expect(() => parseMigrateArgs(['up', '--batch-size', '0'])).toThrow('--batch-size must be a positive integer');
+    expect(() => parseMigrateArgs(['up', '--to'])).toThrow('Missing value for --to');
+  });
+});
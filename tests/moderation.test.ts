@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { applyModerationAction, isAdminRequest } from '../api/moderation';
+import { parseModerateArgs } from '../cli/moderate';
+
+describe('applyModerationAction', () => {
+  const now = new Date('2024-01-15T10:00:00Z');
+
+  it('hides and unhides without touching other state', () => {
+    const hidden = applyModerationAction({ flagged: true }, 'hide', undefined, now);
+    expect(hidden).toEqual({ flagged: true, hidden: true, updatedAt: now });
+    expect(applyModerationAction(hidden, 'unhide', undefined, now)).toMatchObject({ flagged: true, hidden: false });
+  });
+
+  it('sets and clears the note when annotating', () => {
+    const annotated = applyModerationAction({}, 'annotate', 'Suspicious time', now);
+    expect(annotated.note).toBe('Suspicious time');
+    expect(applyModerationAction(annotated, 'annotate', undefined, now)).not.toHaveProperty('note');
+  });
+});
+
+describe('isAdminRequest', () => {
+  const OLD_TOKEN = process.env.ADMIN_TOKEN;
+
+  beforeEach(() => {
+    process.env.ADMIN_TOKEN = 'admin-secret';
+  });
+
+  afterEach(() => {
+    process.env.ADMIN_TOKEN = OLD_TOKEN;
+  });
+
+  it('accepts only the configured bearer token', () => {
+    expect(isAdminRequest({ authorization: 'Bearer admin-secret' })).toBe(true);
+    expect(isAdminRequest({ authorization: 'bearer admin-secret' })).toBe(true);
+    expect(isAdminRequest({ authorization: 'Bearer admin' })).toBe(false);
+    expect(isAdminRequest({ authorization: 'admin-secret' })).toBe(false);
+    expect(isAdminRequest({})).toBe(false);
+  });
+
+  it('throws when ADMIN_TOKEN is not configured', () => {
+    delete process.env.ADMIN_TOKEN;
+    expect(() => isAdminRequest({ authorization: 'Bearer anything' })).toThrow('Missing admin configuration');
+  });
+});
+
+describe('parseModerateArgs', () => {
+  it('builds moderation actions with reason and actor', () => {
+    expect(parseModerateArgs(['hide', 'abc', '--reason', 'Offensive name'], { MODERATOR: 'sam' })).toEqual({
+      method: 'POST',
+      body: { entryId: 'abc', action: 'hide', reason: 'Offensive name', actor: 'sam' },
+    });
+    expect(parseModerateArgs(['annotate', 'abc', 'Checked', '--actor', 'kim'], {})).toEqual({
+      method: 'POST',
+      body: { entryId: 'abc', action: 'annotate', note: 'Checked', actor: 'kim' },
+    });
+  });
+
+  it('builds list requests', () => {
+    expect(parseModerateArgs(['audit', 'abc', '--limit', '5'], {})).toEqual({
+      method: 'GET',
+      query: { view: 'audit', entryId: 'abc', limit: '5' },
+    });
+    expect(parseModerateArgs(['flagged'], {})).toEqual({ method: 'GET', query: { view: 'flagged' } });
+  });
+
+  it('rejects unknown commands and missing arguments', () => {
+    expect(() => parseModerateArgs([], {})).toThrow('Missing command');
+    expect(() => parseModerateArgs(['delete', 'abc'], {})).toThrow('Unknown command: delete');
+    expect(() => parseModerateArgs(['flag'], {})).toThrow('Missing entryId for flag');
+    expect(() => parseModerateArgs(['annotate', 'abc'], {})).toThrow('Missing note for annotate');
+    expect(() => parseModerateArgs(['hide', 'abc', '--reason'], {})).toThrow('Missing value for --reason');
+  });
+});
@@ -0,0 +1,70 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { openApiDocument } from '../api/openapi';
+import { validateRequest, validateSchema } from '../api/requestValidation';
+import type { ApiRequest } from '../api/http';
+import { API_TYPES_PATH, OPENAPI_JSON_PATH, renderApiTypes, renderOpenApiJson } from '../cli/generateApiTypes';
+
+const request = (overrides: Partial<ApiRequest>): ApiRequest => ({ method: 'GET', query: {}, body: undefined, headers: {}, ...overrides });
+
+const board = Array.from({ length: 26 }, (_, i) => `Article_${i}`);
+
+describe('generated API files', () => {
+  it('match the OpenAPI document (run npm run generate:api-types)', () => {
+    expect(readFileSync(API_TYPES_PATH, 'utf8')).toBe(renderApiTypes(openApiDocument));
+    expect(readFileSync(OPENAPI_JSON_PATH, 'utf8')).toBe(renderOpenApiJson(openApiDocument));
+  });
+});
+
+describe('validateRequest', () => {
+  it('accepts valid requests', () => {
+    expect(validateRequest('getGame', request({ query: { link: 'abcdefghijklmnop' } }))).toBeNull();
+    expect(validateRequest('createGame', request({ method: 'POST', body: { bingopediaGame: board } }))).toBeNull();
+    expect(
+      validateRequest('getLeaderboard', request({ query: { limit: '20', page: '2', dateFrom: '2024-01-01', dateTo: '2024-01-31T23:59:59Z' } }))
+    ).toBeNull();
+  });
+
+  it('reports invalid parameters with the ApiError shape', () => {
+    expect(validateRequest('getGame', request({ query: { link: 'short' } }))).toEqual({
+      status: 400,
+      body: { error: { code: 'VALIDATION_ERROR', message: 'Invalid game link format. Expected 16-character link hash' } },
+    });
+    expect(validateRequest('getGame', request({}))?.body).toMatchObject({ error: { code: 'MISSING_FIELD' } });
+    expect(validateRequest('getLeaderboard', request({ query: { limit: 'ten' } }))?.body).toMatchObject({
+      error: { message: 'limit must be a positive integer' },
+    });
+    expect(validateRequest('getLeaderboard', request({ query: { sortBy: 'rank' } }))?.status).toBe(400);
+    expect(validateRequest('getLeaderboard', request({ query: { dateTo: 'not-a-date' } }))?.body).toMatchObject({
+      error: { message: expect.stringContaining('Invalid dateTo format') },
+    });
+    expect(validateRequest('getLeaderboard', request({ query: { dailyDate: '2024-1-5' } }))?.body).toMatchObject({
+      error: { message: 'Invalid dailyDate format. Expected YYYY-MM-DD' },
+    });
+  });
+
+  it('reports invalid bodies', () => {
+    expect(validateRequest('createGame', request({ method: 'POST', body: { bingopediaGame: board.slice(1) } }))?.body).toMatchObject({
+      error: { code: 'VALIDATION_ERROR', message: 'bingopediaGame must be an array with exactly 26 elements' },
+    });
+    expect(validateRequest('submitScore', request({ method: 'POST', body: { score: 100 } }))?.body).toMatchObject({
+      error: { code: 'MISSING_FIELD', message: 'Username and score are required' },
+    });
+    expect(validateRequest('submitScore', request({ method: 'POST', body: { username: 'alice', score: 'lots' } }))?.body).toMatchObject({
+      error: { code: 'VALIDATION_ERROR', message: 'score must be number' },
+    });
+  });
+});
+
+describe('validateSchema', () => {
+  it('reports failures with the path of each offending value', () => {
+    const timestamp = '2024-01-15T10:00:00.000Z';
+    expect(
+      validateSchema('GameEventBatch', { events: [{ event: 'game_started', timestamp }, { event: 'game_paused', timestamp }] })
+    ).toEqual([expect.objectContaining({ field: 'event', path: '/events/1' })]);
+  });
+
+  it('throws for unknown schemas', () => {
+    expect(() => validateSchema('Nope', {})).toThrow('Unknown schema: Nope');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePlayerStats } from '../api/playerStats';
+
+describe('calculatePlayerStats', () => {
+  it('returns empty stats for a player without entries', () => {
+    expect(calculatePlayerStats([])).toEqual({
+      gamesPlayed: 0,
+      bestScore: null,
+      averageClicks: null,
+      averageTime: null,
+      gameTypes: { random: 0, repeat: 0, daily: 0 },
+      scoreTrend: [],
+      topArticles: [],
+    });
+  });
+
+  it('aggregates scores, averages and the game type split', () => {
+    const stats = calculatePlayerStats([
+      { score: 900, clicks: 12, time: 100, createdAt: new Date('2024-01-12T00:00:00Z'), gameType: 'repeat', history: [] },
+      { score: 700, clicks: 9, time: 91, createdAt: new Date('2024-01-10T00:00:00Z'), history: [] },
+      { score: 800, clicks: 10, time: 95, createdAt: new Date('2024-01-11T00:00:00Z'), gameType: 'daily', history: [] },
+    ]);
+
+    expect(stats).toMatchObject({
+      gamesPlayed: 3,
+      bestScore: 700,
+      averageClicks: 10.3,
+      averageTime: 95.3,
+      gameTypes: { random: 1, repeat: 1, daily: 1 },
+    });
+    expect(stats.scoreTrend.map((point) => point.score)).toEqual([700, 800, 900]);
+    expect(stats.scoreTrend[0].gameType).toBe('random');
+  });
+
+  it('counts found articles once per game, case-insensitively', () => {
+    const stats = calculatePlayerStats([
+      {
+        score: 1, clicks: 1, time: 1, createdAt: new Date(),
+        history: ['Start', '[Found] Moon_Landing', '[Found] moon landing', '[Found] Apollo'],
+      },
+      { score: 1, clicks: 1, time: 1, createdAt: new Date(), history: ['Start', '[Found] Moon_Landing'] },
+      // Legacy entry: found markers only on the board
+      { score: 1, clicks: 1, time: 1, createdAt: new Date(), history: ['Start'], bingoSquares: ['[Found] Apollo', 'Zebra'] },
+    ]);
+
+    expect(stats.topArticles).toEqual([
+      { title: 'Apollo', count: 2 },
+      { title: 'moon landing', count: 2 },
+    ]);
+  });
+});
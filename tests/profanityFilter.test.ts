@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createProfanityFilter, defaultProfanityFilter } from '../shared/profanityFilter';
+
+describe('defaultProfanityFilter', () => {
+  const { mask, findMatches, filter } = defaultProfanityFilter;
+
+  it('undoes digit and symbol substitutions', () => {
+    expect(mask('Sh1tHead')).toBe('****Head');
+    expect(mask('@$$')).toBe('***');
+    expect(findMatches('t1ts')).toEqual(['tits']);
+  });
+
+  it('folds homoglyphs, fullwidth letters and zero-width characters', () => {
+    expect(findMatches('ѕhit')).toEqual(['shit']); // Cyrillic ѕ
+    expect(findMatches('fսck')).toEqual(['fuck']); // Armenian ս
+    expect(findMatches('ｆｕｃｋ')).toEqual(['fuck']);
+    expect(findMatches('sh\u200Bit')).toEqual(['shit']);
+  });
+
+  it('catches repeated and spaced-out letters', () => {
+    expect(mask('fuuuck')).toBe('******');
+    expect(mask('f u c k')).toBe('* * * *');
+    expect(mask('f.u.c.k')).toBe('*.*.*.*');
+    // Spacing only counts when every letter is separated
+    expect(findMatches('this hit')).toEqual([]);
+  });
+
+  it('only matches whole-word entries at word boundaries', () => {
+    expect(mask('BigAss')).toBe('Big***');
+    expect(mask('ass_hat')).toBe('***_hat');
+    for (const clean of ['Classic', 'Grass', 'bass player', 'Analyst', 'canal', 'Mitsubishi']) {
+      expect(findMatches(clean)).toEqual([]);
+    }
+  });
+
+  it('ignores matches inside allowlisted words', () => {
+    for (const clean of ['Shiitake', 'Scunthorpe', 'Cocktail', 'assassin', 'Dickens']) {
+      expect(findMatches(clean)).toEqual([]);
+    }
+  });
+
+  it('masks or rejects depending on the mode', () => {
+    expect(filter('PlayerFuck', 'mask')).toEqual({ text: 'Player****', matches: ['fuck'], rejected: false });
+    expect(filter('PlayerFuck', 'reject')).toEqual({ text: 'PlayerFuck', matches: ['fuck'], rejected: true });
+    expect(filter('Player1', 'reject')).toEqual({ text: 'Player1', matches: [], rejected: false });
+  });
+});
+
+describe('createProfanityFilter', () => {
+  it('uses the configured word list and allowlist', () => {
+    const filter = createProfanityFilter({
+      words: [{ word: 'darn', match: 'word' }],
+      allowlist: ['darnell'],
+    });
+    expect(filter.mask('darn it')).toBe('**** it');
+    expect(filter.mask('Darnell')).toBe('Darnell');
+    expect(filter.mask('fuck')).toBe('fuck');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { checkReadiness, getBuildInfo } from '../api/readiness';
+import type { ConfigCheck } from '../api/config';
+import type { IndexStatus, SystemRepository } from '../api/repositories';
+
+function createSystem(ping: () => Promise<void>, indexes: IndexStatus[] = []): SystemRepository {
+  return { ping, getIndexStatus: async () => indexes };
+}
+
+const validConfig: ConfigCheck[] = [
+  { name: 'STORAGE', required: true, ok: true },
+  { name: 'ADMIN_TOKEN', required: false, ok: false, error: 'Missing admin configuration' },
+];
+
+describe('checkReadiness', () => {
+  it('is ready when the database responds and required settings are valid', async () => {
+    const report = await checkReadiness(createSystem(async () => {}), validConfig);
+    expect(report.status).toBe('ready');
+    expect(report.database.ok).toBe(true);
+    expect(report.config.ok).toBe(true);
+  });
+
+  it('is degraded when indexes are missing', async () => {
+    const indexes: IndexStatus[] = [
+      { collection: 'leaderboard', key: { score: -1, createdAt: 1 }, present: true },
+      { collection: 'generated-games', key: { link: 1 }, present: false },
+    ];
+    const report = await checkReadiness(createSystem(async () => {}, indexes), validConfig);
+    expect(report.status).toBe('degraded');
+    expect(report.indexes).toEqual({ ok: false, missing: [{ collection: 'generated-games', key: { link: 1 } }] });
+  });
+
+  it('is not ready when the ping fails or a required setting is invalid', async () => {
+    const failing = await checkReadiness(createSystem(async () => Promise.reject(new Error('timeout'))), validConfig);
+    expect(failing.status).toBe('not_ready');
+    expect(failing.database).toMatchObject({ ok: false, error: 'timeout' });
+
+    const invalid = await checkReadiness(createSystem(async () => {}), [
+      { name: 'GAME_SESSION_SECRET', required: true, ok: false, error: 'Missing game session configuration' },
+    ]);
+    expect(invalid.status).toBe('not_ready');
+    expect(invalid.config.ok).toBe(false);
+  });
+});
+
+describe('getBuildInfo', () => {
+  it('reads the deployment from Vercel environment variables', () => {
+    expect(
+      getBuildInfo({ VERCEL_GIT_COMMIT_SHA: 'abc123', VERCEL_GIT_COMMIT_REF: 'main', VERCEL_ENV: 'production' })
+    ).toMatchObject({ commit: 'abc123', branch: 'main', environment: 'production' });
+    expect(getBuildInfo({})).toMatchObject({ commit: null, branch: null, environment: 'development' });
+  });
+});
@@ -0,0 +1,663 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dispatch, type ApiRequest, type ApiResponse, type Route } from '../api/http';
+import { setRepositories, type Repositories } from '../api/repositories';
+import { createMemoryRepositories, type InMemoryEventsRepository } from '../api/repositories/memory';
+import { gamesRoute } from '../api/routes/games';
+import { gameLeaderboardRoute } from '../api/routes/gameLeaderboard';
+import { gamePlaysRoute } from '../api/routes/gamePlays';
+import { popularGamesRoute, recentGamesRoute, trendingGamesRoute } from '../api/routes/gameLists';
+import { leaderboardRoute } from '../api/routes/leaderboard';
+import { sessionsRoute } from '../api/routes/sessions';
+import { dailyRoute } from '../api/routes/daily';
+import { usernameRoute } from '../api/routes/usernames';
+import { playerRoute } from '../api/routes/players';
+import { adminModerationRoute } from '../api/routes/adminModeration';
+import { loggingRoute } from '../api/routes/logging';
+import { statsRoute } from '../api/routes/stats';
+import { healthRoute, readyRoute, versionRoute } from '../api/routes/health';
+import { adminDiagnosticsRoute } from '../api/routes/adminDiagnostics';
+import { adminBoardsRoute } from '../api/routes/adminBoards';
+import { getDailyLink } from '../api/dailyChallenge';
+import { BOARD_EXPIRED_MESSAGE } from '../api/gameRetention';
+
+/**
+ * End-to-end route tests against the in-memory storage backend (no Atlas required).
+ */
+
+const board = [...Array.from({ length: 25 }, (_, i) => `Article ${i}`), 'Starting Article'];
+const winningHistory = ['Starting Article', '[Found] Article 0', '[Found] Article 1', '[Found] Article 2', '[Found] Article 3', '[Found] Article 4'];
+
+function call(route: Route, method: string, options: Partial<ApiRequest> = {}): Promise<ApiResponse> {
+  return dispatch(route, { method, query: {}, body: undefined, headers: {}, ...options });
+}
+
+describe('routes with in-memory storage', () => {
+  const OLD_SECRET = process.env.GAME_SESSION_SECRET;
+  const OLD_ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+  let repositories: Repositories;
+
+  beforeAll(() => {
+    process.env.GAME_SESSION_SECRET = 'test-secret';
+    process.env.ADMIN_TOKEN = 'admin-token';
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    process.env.GAME_SESSION_SECRET = OLD_SECRET;
+    process.env.ADMIN_TOKEN = OLD_ADMIN_TOKEN;
+    vi.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-15T10:00:00Z'));
+    repositories = createMemoryRepositories();
+    setRepositories(repositories);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    setRepositories(null);
+  });
+
+  async function playGame(body: Record<string, unknown>, username: string, extra: Record<string, unknown> = {}) {
+    const session = await call(sessionsRoute, 'POST', { body });
+    expect(session.status).toBe(201);
+
+    vi.setSystemTime(Date.now() + 90_000);
+    return call(leaderboardRoute, 'POST', {
+      body: {
+        username,
+        score: 1,
+        time: 90,
+        clicks: 6,
+        history: winningHistory,
+        bingopediaGame: board,
+        sessionToken: (session.body as { sessionToken: string }).sessionToken,
+        ...(body.generatedGame ? { generatedGame: body.generatedGame } : {}),
+        ...extra,
+      },
+    });
+  }
+
+  it('submits a random game and lists it on the leaderboard', async () => {
+    const submission = await playGame({ bingopediaGame: board }, 'alice');
+    expect(submission.status).toBe(201);
+    expect(submission.body).toMatchObject({ username: 'alice', time: 90, gameType: 'random' });
+
+    const leaderboard = await call(leaderboardRoute, 'GET');
+    expect(leaderboard.status).toBe(200);
+    expect(leaderboard.body).toMatchObject({ pagination: { totalCount: 1 }, users: [{ username: 'alice' }] });
+
+    // Random games are saved as replayable generated games
+    const link = (submission.body as { generatedGame: string }).generatedGame;
+    const game = await call(gamesRoute, 'GET', { query: { link } });
+    expect(game.body).toMatchObject({ link, source: 'leaderboard' });
+    expect(game.body).not.toHaveProperty('timesPlayed');
+    expect((await call(gamePlaysRoute, 'GET', { query: { hashedId: link } })).body).toEqual({ link, timesPlayed: 0 });
+  });
+
+  it('increments timesPlayed for repeat games', async () => {
+    const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+    expect(created.status).toBe(201);
+    const link = (created.body as { link: string }).link;
+
+    const submission = await playGame({ generatedGame: link }, 'bob');
+    expect(submission.status).toBe(201);
+    expect(submission.body).toMatchObject({ gameType: 'repeat', generatedGame: link });
+
+    const plays = await call(gamePlaysRoute, 'GET', { query: { hashedId: link } });
+    expect(plays.body).toEqual({ link, timesPlayed: 1 });
+
+    const repeats = await call(leaderboardRoute, 'GET', { query: { gameType: 'repeat' } });
+    expect(repeats.body).toMatchObject({ pagination: { totalCount: 1 } });
+  });
+
+  it('stores sanitized board details and returns them with the board', async () => {
+    const created = await call(gamesRoute, 'POST', {
+      body: { bingopediaGame: board, title: '  Famous Bridges ', creatorName: 'ShitMaker', description: 'Cross them all' },
+    });
+    expect(created.status).toBe(201);
+    const link = (created.body as { link: string }).link;
+    const details = { title: 'Famous Bridges', creatorName: '****Maker', description: 'Cross them all' };
+    expect(created.body).toMatchObject(details);
+
+    const fetched = await call(gamesRoute, 'GET', { query: { link } });
+    expect(fetched.body).toMatchObject(details);
+
+    const listed = await call(recentGamesRoute, 'GET');
+    expect(listed.body).toMatchObject({ boards: [{ link, ...details }] });
+
+    const invalid = await call(gamesRoute, 'POST', { body: { bingopediaGame: board, title: 'x'.repeat(81) } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: 'Title must be at most 80 characters' } });
+  });
+
+  it('checks custom board titles with Wikipedia before storing them', async () => {
+    const pages = board.map((title) => ({ title, ns: 0 }));
+    const fetchMock = vi.fn(async (url: string) => {
+      const titles = new URL(url).searchParams.get('titles') ?? '';
+      const disambiguation = titles.includes('Mercury') ? [{ title: 'Mercury', ns: 0, pageprops: { disambiguation: '' } }] : [];
+      return new Response(JSON.stringify({ query: { pages: [...pages, ...disambiguation] } }));
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    try {
+      const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board, source: 'custom' } });
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ source: 'custom', bingopediaGame: board });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      const invalid = await call(gamesRoute, 'POST', { body: { bingopediaGame: ['Mercury', ...board.slice(1)], source: 'custom' } });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: 'Square 1: "Mercury" is a disambiguation page' } });
+
+      fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const unavailable = await call(gamesRoute, 'POST', { body: { bingopediaGame: board, source: 'custom' } });
+      expect(unavailable.status).toBe(503);
+      expect(unavailable.body).toMatchObject({ error: { code: 'NETWORK_ERROR' } });
+
+      // Generated boards are not looked up
+      await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('ranks entries per board with board stats', async () => {
+    const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+    const link = (created.body as { link: string }).link;
+
+    await playGame({ generatedGame: link }, 'dave');
+    await playGame({ generatedGame: link }, 'erin');
+    await playGame({ bingopediaGame: board }, 'other-board');
+
+    const response = await call(gameLeaderboardRoute, 'GET', { query: { hashedId: link, limit: '1' } });
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      link,
+      users: [{ username: 'dave' }],
+      pagination: { page: 1, limit: 1, totalCount: 2, totalPages: 2 },
+      stats: { finishers: 2, medianClicks: 6 },
+    });
+
+    const missing = await call(gameLeaderboardRoute, 'GET', { query: { hashedId: 'abcdefghijklmnop' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('lists popular, recent and trending boards with times played and best score', async () => {
+    const older = (await call(gamesRoute, 'POST', { body: { bingopediaGame: board } })).body as { link: string };
+    await playGame({ generatedGame: older.link }, 'fay');
+    await playGame({ generatedGame: older.link }, 'gus');
+
+    vi.setSystemTime(new Date('2024-01-20T10:00:00Z'));
+    const newer = (await call(gamesRoute, 'POST', { body: { bingopediaGame: board } })).body as { link: string };
+    await playGame({ generatedGame: newer.link }, 'hal');
+    await call(dailyRoute, 'GET');
+
+    const popular = await call(popularGamesRoute, 'GET', { query: { limit: '1' } });
+    expect(popular.status).toBe(200);
+    expect(popular.headers).toMatchObject({ 'Cache-Control': 'public, max-age=60', ETag: expect.any(String) });
+    expect(popular.body).toMatchObject({
+      boards: [{ link: older.link, timesPlayed: 2, bestScore: expect.any(Number), bingopediaGame: board }],
+      pagination: { page: 1, limit: 1, totalCount: 2, totalPages: 2 },
+      sort: 'popular',
+    });
+
+    const recent = await call(recentGamesRoute, 'GET');
+    expect((recent.body as { boards: { link: string }[] }).boards.map((listed) => listed.link)).toEqual([newer.link, older.link]);
+
+    // Only the last 7 days count towards trending
+    vi.setSystemTime(new Date('2024-01-25T10:00:00Z'));
+    const trending = await call(trendingGamesRoute, 'GET');
+    expect(trending.body).toMatchObject({
+      boards: [{ link: newer.link, timesPlayed: 1, recentPlays: 1 }],
+      pagination: { totalCount: 1 },
+    });
+
+    const invalid = await call(popularGamesRoute, 'GET', { query: { limit: '500' } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toMatchObject({ error: { message: 'limit must be an integer between 1 and 50' } });
+  });
+
+  it('serves the daily board and ranks it on the daily leaderboard', async () => {
+    const link = getDailyLink('2024-01-15');
+    await repositories.games.insert({
+      link,
+      bingopediaGame: board,
+      createdAt: new Date(),
+      timesPlayed: 0,
+      source: 'daily',
+      dailyDate: '2024-01-15',
+    });
+
+    const daily = await call(dailyRoute, 'GET');
+    expect(daily.status).toBe(200);
+    expect(daily.body).toMatchObject({ link, dailyDate: '2024-01-15', source: 'daily' });
+
+    const submission = await playGame({ generatedGame: link }, 'alice');
+    expect(submission.status).toBe(201);
+    expect(submission.body).toMatchObject({ gameType: 'daily', generatedGame: link });
+    expect((await playGame({ bingopediaGame: board }, 'bob')).status).toBe(201);
+
+    const leaderboard = await call(leaderboardRoute, 'GET', { query: { gameType: 'daily', dailyDate: '2024-01-15' } });
+    expect(leaderboard.body).toMatchObject({ pagination: { totalCount: 1 }, users: [{ username: 'alice' }] });
+
+    const otherDay = await call(leaderboardRoute, 'GET', { query: { gameType: 'daily', dailyDate: '2024-01-14' } });
+    expect(otherDay.body).toMatchObject({ pagination: { totalCount: 0 } });
+
+    const invalid = await call(leaderboardRoute, 'GET', { query: { gameType: 'daily', dailyDate: 'yesterday' } });
+    expect(invalid.status).toBe(400);
+  });
+
+  it('creates the daily board from the curated articles on first request', async () => {
+    const first = await call(dailyRoute, 'GET');
+    expect(first.status).toBe(200);
+    const game = first.body as { link: string; bingopediaGame: string[] };
+    expect(game.link).toBe(getDailyLink('2024-01-15'));
+    expect(game.bingopediaGame).toHaveLength(26);
+
+    const second = await call(dailyRoute, 'GET');
+    expect(second.body).toEqual(first.body);
+    expect(await repositories.games.count()).toBe(1);
+  });
+
+  it('claims a username on first submission and requires its key afterwards', async () => {
+    const before = await call(usernameRoute, 'GET', { query: { username: 'Alice' } });
+    expect(before.body).toMatchObject({ username: 'Alice', claimed: false });
+
+    const first = await playGame({ bingopediaGame: board }, 'Alice');
+    expect(first.status).toBe(201);
+    const { ownershipKey } = first.body as { ownershipKey: string };
+    expect(ownershipKey).toEqual(expect.any(String));
+
+    const after = await call(usernameRoute, 'GET', { query: { username: 'alice' } });
+    expect(after.body).toMatchObject({ claimed: true });
+
+    // Claims are case-insensitive
+    const withoutKey = await playGame({ bingopediaGame: board }, 'ALICE');
+    expect(withoutKey.status).toBe(403);
+    expect(withoutKey.body).toMatchObject({ error: { code: 'USERNAME_CLAIMED' } });
+
+    const wrongKey = await playGame({ bingopediaGame: board }, 'alice', { ownershipKey: 'not-the-key' });
+    expect(wrongKey.status).toBe(403);
+
+    const withKey = await playGame({ bingopediaGame: board }, 'alice', { ownershipKey });
+    expect(withKey.status).toBe(201);
+    expect(withKey.body).not.toHaveProperty('ownershipKey');
+  });
+
+  it('aggregates a player profile across their entries', async () => {
+    const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+    const link = (created.body as { link: string }).link;
+
+    const first = await playGame({ bingopediaGame: board }, 'Frank');
+    const { ownershipKey } = first.body as { ownershipKey: string };
+    await playGame({ generatedGame: link }, 'frank', { ownershipKey });
+    await playGame({ bingopediaGame: board }, 'grace');
+
+    const profile = await call(playerRoute, 'GET', { query: { username: 'FRANK' } });
+    expect(profile.status).toBe(200);
+    expect(profile.body).toMatchObject({
+      username: 'frank',
+      stats: {
+        gamesPlayed: 2,
+        averageClicks: 6,
+        averageTime: 90,
+        gameTypes: { random: 1, repeat: 1, daily: 0 },
+      },
+      entries: [{ gameType: 'repeat', generatedGame: link }, { gameType: 'random' }],
+    });
+
+    const { topArticles } = (profile.body as { stats: { topArticles: unknown[] } }).stats;
+    expect(topArticles).toHaveLength(5);
+    expect(topArticles[0]).toEqual({ title: 'Article 0', count: 2 });
+
+    // Cached like leaderboard pages
+    expect(profile.headers).toMatchObject({
+      'Cache-Control': 'no-cache',
+      'CDN-Cache-Control': 'public, max-age=30, stale-while-revalidate=300',
+      ETag: expect.any(String),
+    });
+    const revalidated = await call(playerRoute, 'GET', { query: { username: 'frank' }, headers: { 'if-none-match': profile.headers!.ETag } });
+    expect(revalidated.status).toBe(304);
+
+    const missing = await call(playerRoute, 'GET', { query: { username: 'nobody' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('finds profiles by their stored name without the profanity filter', async () => {
+    vi.stubEnv('PROFANITY_MODE', 'reject');
+    await repositories.leaderboard.insert({
+      username: 'Sh1tHead',
+      score: 540,
+      time: 90,
+      clicks: 6,
+      history: winningHistory,
+      createdAt: new Date(),
+      gameType: 'random',
+    });
+
+    const profile = await call(playerRoute, 'GET', { query: { username: ' sh1thead ' } });
+    expect(profile.status).toBe(200);
+    expect(profile.body).toMatchObject({ username: 'Sh1tHead', stats: { gamesPlayed: 1 } });
+    expect((await call(playerRoute, 'GET', { query: { username: 'Sh1tFace' } })).status).toBe(404);
+  });
+
+  it('hides moderated entries from public queries and audits every action', async () => {
+    const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+    const link = (created.body as { link: string }).link;
+    const submission = await playGame({ generatedGame: link }, 'mallory');
+    const entryId = (submission.body as { _id: string })._id;
+    const admin = { authorization: 'Bearer admin-token' };
+
+    const unauthorized = await call(adminModerationRoute, 'POST', { body: { entryId, action: 'hide' } });
+    expect(unauthorized.status).toBe(401);
+    expect(unauthorized.body).toMatchObject({ error: { code: 'UNAUTHORIZED' } });
+
+    const hidden = await call(adminModerationRoute, 'POST', {
+      headers: admin,
+      body: { entryId, action: 'hide', reason: 'Cheated score', actor: 'sam' },
+    });
+    expect(hidden.status).toBe(200);
+    expect(hidden.body).toMatchObject({ entryId, moderation: { hidden: true } });
+
+    expect((await call(leaderboardRoute, 'GET', { query: { gameType: 'all' } })).body).toMatchObject({ pagination: { totalCount: 0 } });
+    expect((await call(gameLeaderboardRoute, 'GET', { query: { hashedId: link } })).body).toMatchObject({ stats: { finishers: 0 } });
+    expect((await call(playerRoute, 'GET', { query: { username: 'mallory' } })).status).toBe(404);
+
+    await call(adminModerationRoute, 'POST', { headers: admin, body: { entryId, action: 'annotate', note: 'Reviewed' } });
+    await call(adminModerationRoute, 'POST', { headers: admin, body: { entryId, action: 'unhide' } });
+    const restored = await call(leaderboardRoute, 'GET', { query: { gameType: 'all' } });
+    expect(restored.body).toMatchObject({ pagination: { totalCount: 1 } });
+    // Moderation state is never exposed publicly
+    expect((restored.body as { users: object[] }).users[0]).not.toHaveProperty('moderation');
+
+    const audit = await call(adminModerationRoute, 'GET', { headers: admin, query: { entryId } });
+    expect(audit.body).toMatchObject({
+      audit: [
+        { action: 'unhide', before: { hidden: true, note: 'Reviewed' } },
+        { action: 'annotate' },
+        { action: 'hide', actor: 'sam', reason: 'Cheated score', before: {}, after: { hidden: true } },
+      ],
+    });
+
+    const missing = await call(adminModerationRoute, 'POST', {
+      headers: admin,
+      body: { entryId: '0123456789abcdef01234567', action: 'flag' },
+    });
+    expect(missing.status).toBe(404);
+  });
+
+  it('rejects reusing a session token', async () => {
+    const session = await call(sessionsRoute, 'POST', { body: { bingopediaGame: board } });
+    const sessionToken = (session.body as { sessionToken: string }).sessionToken;
+    vi.setSystemTime(Date.now() + 90_000);
+
+    const body = { username: 'carol', score: 1, time: 90, clicks: 6, history: winningHistory, bingopediaGame: board, sessionToken };
+    const first = await call(leaderboardRoute, 'POST', { body });
+    expect(first.status).toBe(201);
+
+    const { ownershipKey } = first.body as { ownershipKey: string };
+    const retry = await call(leaderboardRoute, 'POST', { body: { ...body, ownershipKey } });
+    expect(retry.status).toBe(401);
+    expect(retry.body).toMatchObject({ error: { code: 'INVALID_SESSION' } });
+  });
+
+  it('keeps the client time when the score is submitted long after the win', async () => {
+    const submission = await playGame({ bingopediaGame: board }, 'dana', { time: 60, clicks: 5 });
+    expect(submission.status).toBe(201);
+    expect(submission.body).toMatchObject({ time: 60, clicks: 5 });
+
+    const tooSlow = await playGame({ bingopediaGame: board }, 'erin', { time: 500, clicks: 5 });
+    expect(tooSlow.body).toMatchObject({ time: 90 });
+  });
+
+  it('lets a submission be retried when the entry cannot be stored', async () => {
+    vi.spyOn(repositories.leaderboard, 'insert').mockRejectedValueOnce(new Error('connection refused'));
+    const session = await call(sessionsRoute, 'POST', { body: { bingopediaGame: board } });
+    const sessionToken = (session.body as { sessionToken: string }).sessionToken;
+    vi.setSystemTime(Date.now() + 90_000);
+
+    const body = { username: 'carol', score: 1, time: 90, clicks: 6, history: winningHistory, bingopediaGame: board, sessionToken };
+    const failed = await call(leaderboardRoute, 'POST', { body });
+    expect(failed.status).toBeGreaterThanOrEqual(500);
+
+    const retry = await call(leaderboardRoute, 'POST', { body });
+    expect(retry.status).toBe(201);
+    expect(retry.body).toMatchObject({ username: 'carol', time: 90 });
+  });
+
+  it('stores validated events and rejects unknown fields', async () => {
+    const timestamp = '2024-01-15T10:00:00.000Z';
+    const logged = await call(loggingRoute, 'POST', {
+      body: { event: 'square_found', timestamp, title: 'Moon', clicks: 4, squaresFound: 2 },
+    });
+    expect(logged.status).toBe(200);
+    expect((repositories.events as InMemoryEventsRepository).events).toEqual([
+      { event: 'square_found', timestamp: new Date(timestamp), title: 'Moon', clicks: 4, squaresFound: 2 },
+    ]);
+
+    const unknown = await call(loggingRoute, 'POST', { body: { event: 'game_started', timestamp, metadata: { a: 1 } } });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body).toMatchObject({ error: { code: 'VALIDATION_ERROR', message: 'Unknown field for game_started: metadata' } });
+    expect((repositories.events as InMemoryEventsRepository).events).toHaveLength(1);
+  });
+
+  it('validates each event of a batch separately', async () => {
+    const timestamp = '2024-01-15T10:00:00.000Z';
+    const logged = await call(loggingRoute, 'POST', {
+      body: {
+        events: [
+          { event: 'game_started', timestamp },
+          { event: 'game_finished', timestamp, score: 100 },
+          { event: 'share_link_copied', timestamp, linkType: 'seed' },
+        ],
+      },
+    });
+    expect(logged.status).toBe(200);
+    expect(logged.body).toEqual({
+      success: true,
+      accepted: 2,
+      rejected: 1,
+      results: [
+        { index: 0, accepted: true },
+        { index: 1, accepted: false, error: 'Missing required field for game_finished: time', field: 'time' },
+        { index: 2, accepted: true },
+      ],
+    });
+    expect((repositories.events as InMemoryEventsRepository).events.map((event) => event.event)).toEqual([
+      'game_started',
+      'share_link_copied',
+    ]);
+
+    const empty = await call(loggingRoute, 'POST', { body: { events: [] } });
+    expect(empty.status).toBe(400);
+  });
+
+  it('fails a batch with 503 when the events cannot be stored', async () => {
+    const timestamp = '2024-01-15T10:00:00.000Z';
+    vi.spyOn(repositories.events, 'insertMany').mockRejectedValue(new Error('connection refused'));
+
+    const logged = await call(loggingRoute, 'POST', { body: { events: [{ event: 'game_started', timestamp }] } });
+    expect(logged.status).toBe(503);
+    expect(logged.body).toMatchObject({ error: { code: 'DATABASE_ERROR' } });
+    expect(logged.body).not.toHaveProperty('accepted');
+    expect((repositories.events as InMemoryEventsRepository).events).toHaveLength(0);
+  });
+
+  it('aggregates events and submissions into admin usage stats', async () => {
+    const timestamp = new Date().toISOString();
+    await call(loggingRoute, 'POST', {
+      body: {
+        events: [
+          { event: 'game_started', timestamp, gameType: 'random' },
+          { event: 'game_started', timestamp, gameType: 'random' },
+          { event: 'game_finished', timestamp, score: 540, time: 90, clicks: 6 },
+        ],
+      },
+    });
+    expect((await playGame({ bingopediaGame: board }, 'alice')).status).toBe(201);
+
+    const unauthorized = await call(statsRoute, 'GET');
+    expect(unauthorized.status).toBe(401);
+
+    const headers = { authorization: 'Bearer admin-token' };
+    const stats = await call(statsRoute, 'GET', { headers, query: { dateFrom: '2024-01-01', dateTo: '2024-01-31' } });
+    expect(stats.status).toBe(200);
+    expect(stats.body).toMatchObject({
+      range: { from: '2024-01-01', to: '2024-01-31' },
+      funnel: { started: 2, finished: 1, submitted: 1, completionRate: 0.5, submissionRate: 1 },
+      sharing: { randomGames: 1, sharedGames: 0 },
+    });
+    expect((stats.body as { daily: unknown[] }).daily).toHaveLength(31);
+
+    const weekly = await call(statsRoute, 'GET', { headers, query: { view: 'weekly' } });
+    expect(Object.keys(weekly.body as object)).toEqual(['range', 'weekly']);
+
+    const reversed = await call(statsRoute, 'GET', { headers, query: { dateFrom: '2024-02-01', dateTo: '2024-01-01' } });
+    expect(reversed.status).toBe(400);
+  });
+
+  it('reports health, readiness and version', async () => {
+    const OLD_STORAGE = process.env.STORAGE;
+    process.env.STORAGE = 'memory';
+    try {
+      expect((await call(healthRoute, 'GET')).body).toMatchObject({ status: 'ok' });
+
+      const ready = await call(readyRoute, 'GET');
+      expect(ready.status).toBe(200);
+      expect(ready.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+      expect(ready.body).toMatchObject({ status: 'ready', database: { ok: true }, config: { ok: true, invalid: [] } });
+
+      vi.spyOn(repositories.system, 'ping').mockRejectedValueOnce(new Error('connection refused'));
+      const notReady = await call(readyRoute, 'GET');
+      expect(notReady.status).toBe(503);
+      expect(JSON.stringify(notReady.body)).not.toContain('connection refused');
+
+      expect((await call(versionRoute, 'GET')).body).toMatchObject({ name: 'bingopedia-revamp-backend', version: expect.any(String) });
+    } finally {
+      if (OLD_STORAGE === undefined) {
+        delete process.env.STORAGE;
+      } else {
+        process.env.STORAGE = OLD_STORAGE;
+      }
+    }
+  });
+
+  it('serves diagnostics to admins only', async () => {
+    await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+
+    expect((await call(adminDiagnosticsRoute, 'GET')).status).toBe(401);
+    const diagnostics = await call(adminDiagnosticsRoute, 'GET', { headers: { authorization: 'Bearer admin-token' } });
+    expect(diagnostics.status).toBe(200);
+    expect(diagnostics.body).toMatchObject({ readiness: { database: { ok: true } }, generatedGames: { total: 1 } });
+
+    // The old public debug view is gone
+    expect((await call(gamesRoute, 'GET', { query: { debug: 'true' } })).status).toBe(400);
+  });
+
+  it('caches played boards indefinitely and answers conditional requests with 304', async () => {
+    const created = await call(gamesRoute, 'POST', { body: { bingopediaGame: board } });
+    const link = (created.body as { link: string }).link;
+
+    // Unplayed boards may still expire, so they are revalidated
+    const unplayed = await call(gamesRoute, 'GET', { query: { link } });
+    expect(unplayed.headers).toMatchObject({ 'Cache-Control': 'no-cache' });
+    await playGame({ generatedGame: link }, 'alice');
+
+    const game = await call(gamesRoute, 'GET', { query: { link } });
+    expect(game.status).toBe(200);
+    expect(game.headers).toMatchObject({
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      ETag: expect.any(String),
+      'Last-Modified': new Date('2024-01-15T10:00:00Z').toUTCString(),
+    });
+
+    const etag = game.headers!.ETag;
+    const revalidated = await call(gamesRoute, 'GET', { query: { link }, headers: { 'if-none-match': etag } });
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.body).toBeUndefined();
+    expect(revalidated.headers).toMatchObject({ ETag: etag });
+
+    const since = await call(gamesRoute, 'GET', { query: { link }, headers: { 'if-modified-since': game.headers!['Last-Modified'] } });
+    expect(since.status).toBe(304);
+  });
+
+  it('caches leaderboard pages briefly per query', async () => {
+    await playGame({ bingopediaGame: board }, 'alice');
+
+    const page = await call(leaderboardRoute, 'GET', { query: { limit: '5' } });
+    expect(page.headers).toMatchObject({
+      'Cache-Control': 'no-cache',
+      'CDN-Cache-Control': 'public, max-age=30, stale-while-revalidate=300',
+    });
+    const etag = page.headers!.ETag;
+    expect((await call(leaderboardRoute, 'GET', { query: { limit: '5' }, headers: { 'if-none-match': etag } })).status).toBe(304);
+
+    // A new entry changes the page and its ETag
+    await playGame({ bingopediaGame: board }, 'bob');
+    const updated = await call(leaderboardRoute, 'GET', { query: { limit: '5' }, headers: { 'if-none-match': etag } });
+    expect(updated.status).toBe(200);
+    expect(updated.headers!.ETag).not.toBe(etag);
+
+    // Errors and submissions are never cached
+    const invalid = await call(leaderboardRoute, 'GET', { query: { gameType: 'weekly' } });
+    expect(invalid.headers).toMatchObject({ 'Cache-Control': 'no-store' });
+  });
+
+  it('expires unplayed boards and keeps answering 410 after the cleanup', async () => {
+    vi.stubEnv('GAME_RETENTION_DAYS', '7');
+    const admin = { authorization: 'Bearer admin-token' };
+    const linkOf = (response: ApiResponse) => (response.body as { link: string }).link;
+    const unplayed = linkOf(await call(gamesRoute, 'POST', { body: { bingopediaGame: board } }));
+    const played = linkOf(await call(gamesRoute, 'POST', { body: { bingopediaGame: board } }));
+    const featured = linkOf(await call(gamesRoute, 'POST', { body: { bingopediaGame: board } }));
+    await playGame({ generatedGame: played }, 'alice');
+    expect((await call(adminBoardsRoute, 'POST', { headers: admin, body: { action: 'pin', link: featured } })).body).toEqual({
+      link: featured,
+      pinned: true,
+    });
+
+    vi.setSystemTime(new Date('2024-01-23T10:00:00Z'));
+    const expired = await call(gamesRoute, 'GET', { query: { link: unplayed } });
+    expect(expired.status).toBe(410);
+    expect(expired.body).toMatchObject({ error: { code: 'BOARD_EXPIRED', message: BOARD_EXPIRED_MESSAGE } });
+    expect((await call(sessionsRoute, 'POST', { body: { generatedGame: unplayed } })).status).toBe(410);
+    expect((await call(gamesRoute, 'GET', { query: { link: played } })).status).toBe(200);
+    expect((await call(gamesRoute, 'GET', { query: { link: featured } })).status).toBe(200);
+    expect((await call(recentGamesRoute, 'GET')).body).toMatchObject({ pagination: { totalCount: 2 } });
+
+    const dryRun = await call(adminBoardsRoute, 'GET', { headers: admin });
+    expect(dryRun.body).toMatchObject({ retentionDays: 7, applied: false, boards: [{ link: unplayed, source: 'generated' }] });
+    expect(await repositories.games.findByLink(unplayed)).not.toBeNull();
+
+    const cleanup = await call(adminBoardsRoute, 'POST', { headers: admin, body: { action: 'cleanup' } });
+    expect(cleanup.body).toMatchObject({ applied: true, boards: [{ link: unplayed }] });
+    expect(await repositories.games.findByLink(unplayed)).toBeNull();
+    expect((await call(gamesRoute, 'GET', { query: { link: unplayed } })).status).toBe(410);
+    expect((await call(gamePlaysRoute, 'GET', { query: { hashedId: unplayed } })).status).toBe(410);
+  });
+
+  it('revalidates older boards without an expiry until the cleanup deletes them', async () => {
+    const createdAt = new Date('2023-12-01T00:00:00Z');
+    await repositories.games.insert({ link: 'legacyUnplayed01', bingopediaGame: board, createdAt, timesPlayed: 0, source: 'generated' });
+    await repositories.games.insert({ link: 'legacySynced0001', bingopediaGame: board, createdAt, timesPlayed: 0, source: 'leaderboard' });
+
+    const unplayed = await call(gamesRoute, 'GET', { query: { link: 'legacyUnplayed01' } });
+    expect(unplayed.headers).toMatchObject({ 'Cache-Control': 'no-cache' });
+    const synced = await call(gamesRoute, 'GET', { query: { link: 'legacySynced0001' } });
+    expect(synced.headers).toMatchObject({ 'Cache-Control': 'public, max-age=31536000, immutable' });
+
+    const cleanup = await call(adminBoardsRoute, 'POST', { headers: { authorization: 'Bearer admin-token' }, body: { action: 'cleanup' } });
+    expect(cleanup.body).toMatchObject({ applied: true, boards: [{ link: 'legacyUnplayed01' }] });
+    expect((await call(gamesRoute, 'GET', { query: { link: 'legacyUnplayed01' } })).status).toBe(410);
+  });
+
+  it('returns 404 for unknown games', async () => {
+    const response = await call(gamesRoute, 'GET', { query: { link: 'abcdefghijklmnop' } });
+    expect(response.status).toBe(404);
+  });
+});
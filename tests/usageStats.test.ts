@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { calculateUsageStats } from '../api/usageStats';
+
+describe('calculateUsageStats', () => {
+  // Wednesday 2024-01-10 to Tuesday 2024-01-16
+  const from = new Date('2024-01-10T00:00:00Z');
+  const to = new Date('2024-01-16T23:59:59.999Z');
+
+  const eventCounts = [
+    { day: '2024-01-10', key: 'game_started', count: 6 },
+    { day: '2024-01-10', key: 'game_finished', count: 3 },
+    { day: '2024-01-15', key: 'game_started', count: 2 },
+    { day: '2024-01-15', key: 'replay_started', count: 2 },
+    { day: '2024-01-15', key: 'game_finished', count: 2 },
+    { day: '2024-01-15', key: 'share_link_copied', count: 1 },
+    { day: '2024-01-15', key: 'legacy_event', count: 9 },
+  ];
+  const entryCounts = [
+    { day: '2024-01-10', key: 'random', count: 2 },
+    { day: '2024-01-15', key: 'repeat', count: 1 },
+    { day: '2024-01-16', key: 'daily', count: 1 },
+  ];
+
+  it('builds the started → finished → submitted funnel', () => {
+    const stats = calculateUsageStats(from, to, eventCounts, entryCounts);
+    expect(stats.range).toEqual({ from: '2024-01-10', to: '2024-01-16' });
+    expect(stats.funnel).toEqual({ started: 10, finished: 5, submitted: 4, completionRate: 0.5, submissionRate: 0.8 });
+  });
+
+  it('reports shared-link usage', () => {
+    expect(calculateUsageStats(from, to, eventCounts, entryCounts).sharing).toEqual({
+      sharedGames: 1,
+      randomGames: 2,
+      dailyGames: 1,
+      sharedToRandomRatio: 0.5,
+      shareLinksCopied: 1,
+      replaysStarted: 2,
+    });
+  });
+
+  it('lists every day and Monday-based week in the range, including empty ones', () => {
+    const stats = calculateUsageStats(from, to, eventCounts, entryCounts);
+    expect(stats.daily).toHaveLength(7);
+    expect(stats.daily[1]).toMatchObject({ period: '2024-01-11', started: 0, finished: 0, submitted: 0 });
+    expect(stats.daily[0].events).toMatchObject({ game_started: 6, game_finished: 3, square_found: 0 });
+    expect(stats.weekly.map((week) => [week.period, week.started, week.submitted])).toEqual([
+      ['2024-01-08', 6, 2],
+      ['2024-01-15', 4, 2],
+    ]);
+  });
+
+  it('returns null rates when there is nothing to compare against', () => {
+    const stats = calculateUsageStats(from, to, [], []);
+    expect(stats.funnel).toEqual({ started: 0, finished: 0, submitted: 0, completionRate: null, submissionRate: null });
+    expect(stats.sharing.sharedToRandomRatio).toBeNull();
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { setRepositories } from '../api/repositories';
+import { createMemoryRepositories } from '../api/repositories/memory';
+import { claimUsername, findUsernameClaim, getUsernameKey, verifyOwnershipKey } from '../api/usernameClaims';
+
+describe('username claims', () => {
+  beforeEach(() => {
+    setRepositories(createMemoryRepositories());
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+  });
+
+  it('normalizes usernames case-insensitively', () => {
+    expect(getUsernameKey('  Alice ')).toBe('alice');
+  });
+
+  it('stores only a hash of the ownership key', async () => {
+    const ownershipKey = await claimUsername('Alice');
+    const claim = await findUsernameClaim('alice');
+
+    expect(ownershipKey).toEqual(expect.any(String));
+    expect(claim).toMatchObject({ username: 'Alice', usernameKey: 'alice' });
+    expect(JSON.stringify(claim)).not.toContain(ownershipKey);
+    expect(verifyOwnershipKey(claim!, ownershipKey)).toBe(true);
+  });
+
+  it('rejects wrong or missing keys', async () => {
+    await claimUsername('Alice');
+    const claim = (await findUsernameClaim('Alice'))!;
+
+    expect(verifyOwnershipKey(claim, 'wrong')).toBe(false);
+    expect(verifyOwnershipKey(claim, undefined)).toBe(false);
+    expect(verifyOwnershipKey(claim, 42)).toBe(false);
+  });
+
+  it('returns null when the name is already claimed', async () => {
+    await claimUsername('Alice');
+    expect(await claimUsername('ALICE')).toBeNull();
+  });
+});
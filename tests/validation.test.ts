@@ -1,9 +1,12 @@
-import { describe, expect, it } from 'vitest';
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
 import {
   validateAndSanitizeUsername,
+  validateAndSanitizeBoardDetails,
+  validateUsernameLookup,
   validateScoreData,
   maskBadWords,
   calculateScore,
+  resolveSubmittedTime,
 } from '../api/validation';
 
 describe('validateAndSanitizeUsername', () => {
@@ -49,6 +52,19 @@ describe('validateAndSanitizeUsername', () => {
   });
 });
 
+describe('validateAndSanitizeBoardDetails', () => {
+  it('trims fields, masks bad words and drops blank fields', () => {
+    const result = validateAndSanitizeBoardDetails({ title: '  Space Race  ', creatorName: 'PlayerFuck123', description: '   ' });
+    expect(result).toEqual({ details: { title: 'Space Race', creatorName: 'Player****123' } });
+  });
+
+  it('rejects fields exceeding their max length', () => {
+    const result = validateAndSanitizeBoardDetails({ description: 'a'.repeat(281) });
+    expect(result.error).toBe('Description must be at most 280 characters');
+    expect(result.field).toBe('description');
+  });
+});
+
 describe('validateScoreData', () => {
   it('accepts valid score data', () => {
     const result = validateScoreData(1500, 120, 25);
@@ -95,6 +111,40 @@ describe('validateScoreData', () => {
   });
 });
 
+describe('validateAndSanitizeUsername profanity modes', () => {
+  const OLD_ENV = process.env;
+
+  beforeEach(() => {
+    process.env = { ...OLD_ENV };
+  });
+
+  afterAll(() => {
+    process.env = OLD_ENV;
+  });
+
+  it('masks bad words by default', () => {
+    delete process.env.PROFANITY_MODE;
+    expect(validateAndSanitizeUsername('Sh1tHead')).toEqual({ username: '****Head' });
+  });
+
+  it('rejects bad words in reject mode', () => {
+    process.env.PROFANITY_MODE = 'reject';
+    expect(validateAndSanitizeUsername('Sh1tHead').error).toMatch(/inappropriate language/);
+    expect(validateAndSanitizeUsername('ClassAct')).toEqual({ username: 'ClassAct' });
+  });
+});
+
+describe('validateUsernameLookup', () => {
+  it('trims the name without masking bad words', () => {
+    expect(validateUsernameLookup('  Sh1tHead ')).toEqual({ username: 'Sh1tHead' });
+  });
+
+  it('rejects empty and overlong names', () => {
+    expect(validateUsernameLookup('   ').error).toBe('Username cannot be empty');
+    expect(validateUsernameLookup('a'.repeat(51)).error).toBe('Username must be at most 50 characters');
+  });
+});
+
 describe('maskBadWords', () => {
   it('masks single bad word', () => {
     expect(maskBadWords('fuck')).toBe('****');
@@ -148,3 +198,22 @@ describe('calculateScore', () => {
   });
 });
 
+
+describe('resolveSubmittedTime', () => {
+  it('keeps client time below the server-measured elapsed time', () => {
+    expect(resolveSubmittedTime(100, 120)).toBe(100);
+  });
+
+  it('caps client time at the server-measured elapsed time', () => {
+    expect(resolveSubmittedTime(500, 120.7)).toBe(120);
+  });
+
+  it('does not raise client time when the score is submitted long after the win', () => {
+    // 60s game, submitted after two minutes in the win modal
+    expect(resolveSubmittedTime(60, 180)).toBe(60);
+  });
+
+  it('never returns a negative time', () => {
+    expect(resolveSubmittedTime(0, -3)).toBe(0);
+  });
+});